@@ -1,8 +1,100 @@
-import type { A2AServerConfig } from "@wopr-network/plugin-types";
-import { createOnceJob } from "./cron.js";
-import { addCron, getCronHistory, getCrons, removeCron } from "./cron-repository.js";
+import { readFile } from "node:fs/promises";
+import type { A2AServerConfig, A2AToolResult, WOPRPluginContext } from "@wopr-network/plugin-types";
+import {
+  computeNextRuns,
+  createOnceJob,
+  describeActiveWindow,
+  describeArchive,
+  explainInterval,
+  explainSchedule,
+  getNextRun,
+  INTERVAL_PREFIX,
+  parseTimeSpec,
+} from "./cron.js";
+import { parseIcs } from "./cron-calendar.js";
+import { ONLY_ON_CHANGE } from "./cron-change.js";
+import { describeRunCondition, validateRunCondition } from "./cron-condition.js";
+import { LEADER_LEASE } from "./cron-leader.js";
+import { describeMisfire, validateMisfireOptions } from "./cron-misfire.js";
+import { resolveScheduleInput } from "./cron-natural.js";
+import { describePause, isGloballyPaused, isPaused, pauseJob, resumeJob, setGlobalPause } from "./cron-pause.js";
+import { describePreview, LAST_RUN, previewJob, upcomingRuns } from "./cron-preview.js";
+import {
+  addCron,
+  getCalendar,
+  getCalendars,
+  getCron,
+  getCronHistory,
+  getCrons,
+  getDependentCrons,
+  getLastSuccessfulRun,
+  getLease,
+  removeCalendar,
+  removeCron,
+  saveCalendar,
+  updateCron,
+} from "./cron-repository.js";
+import { describeRetry, replayJob, validateRetryPolicy } from "./cron-retry.js";
+import { explainRecurrence, parseRecurrence, recurrenceLabel, withDefaultStart } from "./cron-rrule.js";
+import {
+  type CronJobRow,
+  clearedRunState,
+  type MisfirePolicy,
+  type OverlapPolicy,
+  overlapPolicySchema,
+  type RetryPolicy,
+  type RunCondition,
+  type TriggerCondition,
+} from "./cron-schema.js";
+import type { RunOutcome } from "./cron-tick.js";
+import { isValidTimezone } from "./cron-timezone.js";
+import { explainDependents, explainTrigger, triggerLabel, validateTriggers } from "./cron-workflow.js";
 
-export function buildCronA2ATools(): A2AServerConfig {
+const RETRY_INPUT_SCHEMA = {
+  type: "object",
+  description: "Retry failed runs with exponential backoff",
+  properties: {
+    maxAttempts: { type: "number", description: "Attempts in total, including the first run" },
+    delay: { type: "string", description: "Delay before the first retry, e.g. '30s' (default 1m)" },
+    factor: { type: "number", description: "Multiplier applied to the delay after each retry (default 2)" },
+    jitter: { type: "number", description: "Random variation of each delay as a fraction, 0-1 (default 0)" },
+  },
+  required: ["maxAttempts"],
+};
+
+const TIMEOUT_INPUT_SCHEMA = {
+  type: "number",
+  description: "Cancel a run still going after this many milliseconds, scripts included (default 300000)",
+};
+
+function isValidTimeout(timeoutMs: number): boolean {
+  return Number.isInteger(timeoutMs) && timeoutMs > 0;
+}
+
+function invalidTimeoutResult(): A2AToolResult {
+  return { content: [{ type: "text", text: "Error: timeoutMs must be a positive integer" }], isError: true };
+}
+
+function describeDeadLetter(job: CronJobRow): string {
+  const at = new Date(job.deadLetteredAt ?? 0).toISOString();
+  const error = job.deadLetterError ? `: ${job.deadLetterError}` : "";
+  return `- ${job.name} -> ${job.session} (failed ${at}${error})`;
+}
+
+function invalidTimezoneResult(timezone: string): A2AToolResult {
+  return { content: [{ type: "text", text: `Error: Unknown time zone '${timezone}'` }], isError: true };
+}
+
+export interface CronA2AToolsOptions {
+  /** This daemon's leader election ID, reported by cron_status. */
+  instanceId?: string;
+  /** Plugin context, for the global pause switch. */
+  ctx?: WOPRPluginContext;
+  /** Runs a job now through the tick loop's pipeline, for cron_run. */
+  runJob?: (job: CronJobRow) => Promise<RunOutcome | null>;
+}
+
+export function buildCronA2ATools(options: CronA2AToolsOptions = {}): A2AServerConfig {
   return {
     name: "cron",
     version: "1.0.0",
@@ -15,7 +107,11 @@ export function buildCronA2ATools(): A2AServerConfig {
           type: "object",
           properties: {
             name: { type: "string", description: "Unique name for this cron job" },
-            schedule: { type: "string", description: "Cron schedule (e.g., '0 9 * * *' for 9am daily)" },
+            schedule: {
+              type: "string",
+              description:
+                "Cron schedule (e.g., '0 9 * * *' for 9am daily, '0 9 * * MON-FRI', '@daily', '@reboot') or a plain phrase such as 'every weekday at 9am'",
+            },
             session: { type: "string", description: "Target session to receive the message" },
             message: {
               type: "string",
@@ -35,46 +131,326 @@ export function buildCronA2ATools(): A2AServerConfig {
               },
               description: "Scripts to execute before sending the message",
             },
+            dayMatch: {
+              type: "string",
+              enum: ["and", "or"],
+              description:
+                "How day-of-month and day-of-week combine when both are set: 'or' (classic cron, default) or 'and'",
+            },
+            timezone: {
+              type: "string",
+              description:
+                "IANA time zone the schedule is written in (e.g., 'America/New_York'). Defaults to the daemon's zone.",
+            },
+            every: {
+              type: "string",
+              description:
+                "Fixed interval instead of a cron schedule (e.g., '90m', '36h', '1h30m'). Runs relative to the anchor or the last successful run.",
+            },
+            anchor: {
+              type: "string",
+              description: "When the interval grid starts: '+5m', '14:30', or ISO timestamp. Only used with 'every'.",
+            },
+            rrule: {
+              type: "string",
+              description:
+                "RFC 5545 recurrence instead of a cron schedule: DTSTART, RRULE, RDATE and EXDATE lines separated by newlines or spaces, e.g. 'DTSTART;TZID=Europe/Berlin:20250107T090000 RRULE:FREQ=WEEKLY;INTERVAL=2;BYDAY=TU'. DTSTART defaults to now.",
+            },
+            calendars: {
+              type: "array",
+              items: { type: "string" },
+              description: "Names of imported exclusion calendars; the job does not fire during their events",
+            },
+            startAt: {
+              type: "string",
+              description: "When the job becomes active: '+1d', 'tomorrow 9am', '2025-03-01 00:00', or ISO timestamp",
+            },
+            endAt: {
+              type: "string",
+              description: "When the job stops firing and is archived, e.g. '2025-03-15 00:00'",
+            },
+            maxRuns: { type: "number", description: "Archive the job after this many runs" },
+            misfirePolicy: {
+              type: "string",
+              enum: ["skip", "fire-once", "fire-all"],
+              description:
+                "What to do on startup with runs missed while the daemon was down: skip them (default), run once, or replay them",
+            },
+            misfireCap: { type: "number", description: "Most missed runs 'fire-all' replays (default 10)" },
+            misfireGrace: {
+              type: "string",
+              description: "Only catch up runs missed by less than this duration, e.g. '1h'",
+            },
+            overlap: {
+              type: "string",
+              enum: ["allow", "skip", "queue", "replace"],
+              description:
+                "What to do when the job comes due while its previous run is still going: run alongside it (default), skip, queue one run, or cancel the running one",
+            },
+            retry: RETRY_INPUT_SCHEMA,
+            timeoutMs: TIMEOUT_INPUT_SCHEMA,
+            after: {
+              type: "array",
+              items: { type: "string" },
+              description:
+                "Run when these jobs finish instead of on a schedule; with several, once all of them finished in the same workflow run",
+            },
+            triggerOn: {
+              type: "string",
+              enum: ["success", "failure", "always"],
+              description:
+                "With 'after': run when the upstream jobs all succeeded (default), when any of them failed, or always",
+            },
+            onlyOnChange: {
+              type: "boolean",
+              description:
+                "Only inject when the scripts' output (or, without scripts, the message) differs from the last injected run; use {{name.diff}} in the message for a unified diff against the previous output",
+            },
+            condition: {
+              type: "object",
+              description:
+                "Only inject when the scripts' results call for it; other runs are recorded as skipped. Give exactly one of exitCode, matches or expression.",
+              properties: {
+                script: { type: "string", description: "Script that exitCode and matches look at" },
+                exitCode: { type: "number", description: "Inject when the script exits with this code" },
+                matches: { type: "string", description: "Inject when the script's output matches this regex" },
+                expression: {
+                  type: "string",
+                  description:
+                    "Inject when this holds, e.g. 'disk > 90 && !disk.error'. Scripts are referenced as name (trimmed stdout), name.stderr, name.exitCode or name.error; operators are == != > >= < <= contains matches ! && ||",
+                },
+              },
+            },
           },
-          required: ["name", "schedule", "session", "message"],
+          required: ["name", "session", "message"],
         },
         async handler(args) {
-          const { name, schedule, session, message, scripts } = args as {
+          const {
+            name,
+            schedule,
+            session,
+            message,
+            scripts,
+            dayMatch,
+            timezone,
+            every,
+            anchor,
+            rrule,
+            calendars,
+            startAt,
+            endAt,
+            maxRuns,
+            misfirePolicy,
+            misfireCap,
+            misfireGrace,
+            overlap,
+            retry,
+            timeoutMs,
+            after,
+            triggerOn,
+            condition,
+            onlyOnChange,
+          } = args as {
             name: string;
-            schedule: string;
+            schedule?: string;
             session: string;
             message: string;
             scripts?: Array<{ name: string; command: string; timeout?: number; cwd?: string }>;
+            dayMatch?: "and" | "or";
+            timezone?: string;
+            every?: string;
+            anchor?: string;
+            rrule?: string;
+            calendars?: string[];
+            startAt?: string;
+            endAt?: string;
+            maxRuns?: number;
+            misfirePolicy?: MisfirePolicy;
+            misfireCap?: number;
+            misfireGrace?: string;
+            overlap?: OverlapPolicy;
+            retry?: RetryPolicy;
+            timeoutMs?: number;
+            after?: string[];
+            triggerOn?: TriggerCondition;
+            condition?: RunCondition;
+            onlyOnChange?: boolean;
           };
-          await addCron({ name, schedule, session, message, scripts: scripts || undefined });
+          if (timezone && !isValidTimezone(timezone)) return invalidTimezoneResult(timezone);
+          if (timeoutMs !== undefined && !isValidTimeout(timeoutMs)) return invalidTimeoutResult();
+          if ([schedule, every, rrule, after?.length].filter(Boolean).length !== 1) {
+            return {
+              content: [
+                { type: "text", text: "Error: Provide exactly one of 'schedule', 'every', 'rrule' or 'after'" },
+              ],
+              isError: true,
+            };
+          }
+          const triggerError = validateTriggers({ name, after, triggerOn }, await getCrons());
+          if (triggerError) return { content: [{ type: "text", text: `Error: ${triggerError}` }], isError: true };
+          if (maxRuns !== undefined && (!Number.isInteger(maxRuns) || maxRuns < 1)) {
+            return { content: [{ type: "text", text: "Error: maxRuns must be a positive integer" }], isError: true };
+          }
+          const misfireError = validateMisfireOptions({ misfirePolicy, misfireCap, misfireGrace });
+          if (misfireError) return { content: [{ type: "text", text: `Error: ${misfireError}` }], isError: true };
+          if (overlap !== undefined && !overlapPolicySchema.options.includes(overlap)) {
+            return {
+              content: [
+                { type: "text", text: `Error: Unknown overlap policy '${overlap}': use allow, skip, queue or replace` },
+              ],
+              isError: true,
+            };
+          }
+          const retryError = retry ? validateRetryPolicy(retry) : null;
+          if (retryError) return { content: [{ type: "text", text: `Error: ${retryError}` }], isError: true };
+          const conditionError = condition ? validateRunCondition(condition, scripts) : null;
+          if (conditionError) return { content: [{ type: "text", text: `Error: ${conditionError}` }], isError: true };
+          let startTs: number | undefined;
+          let endTs: number | undefined;
+          try {
+            startTs = startAt ? parseTimeSpec(startAt, timezone, { allowPast: true }) : undefined;
+            endTs = endAt ? parseTimeSpec(endAt, timezone) : undefined;
+          } catch (err: unknown) {
+            const msg = err instanceof Error ? err.message : String(err);
+            return { content: [{ type: "text", text: `Error: ${msg}` }], isError: true };
+          }
+          if (startTs !== undefined && endTs !== undefined && endTs <= startTs) {
+            return { content: [{ type: "text", text: "Error: endAt must be after startAt" }], isError: true };
+          }
+          const missing: string[] = [];
+          for (const calendar of calendars ?? []) {
+            if (!(await getCalendar(calendar))) missing.push(calendar);
+          }
+          if (missing.length > 0) {
+            return {
+              content: [{ type: "text", text: `Error: Unknown calendar(s): ${missing.join(", ")}` }],
+              isError: true,
+            };
+          }
+          let resolved: { schedule: string; phrase?: string };
+          let anchorTs: number | undefined;
+          let recurrence: string | undefined;
+          let explanation: string;
+          try {
+            if (after?.length) {
+              explanation = explainTrigger({ after, triggerOn });
+              resolved = { schedule: triggerLabel(after) };
+            } else if (rrule) {
+              recurrence = withDefaultStart(rrule, timezone);
+              const parsed = parseRecurrence(recurrence, timezone);
+              explanation = explainRecurrence(parsed);
+              resolved = { schedule: recurrenceLabel(parsed) };
+            } else if (every) {
+              anchorTs = anchor ? parseTimeSpec(anchor, timezone, { allowPast: true }) : undefined;
+              explanation = explainInterval({ every, anchor: anchorTs, timezone });
+              resolved = { schedule: `${INTERVAL_PREFIX}${every}` };
+            } else {
+              resolved = resolveScheduleInput(schedule as string);
+              explanation = explainSchedule(resolved.schedule, { dayMatch, timezone });
+            }
+          } catch (err: unknown) {
+            const msg = err instanceof Error ? err.message : String(err);
+            return {
+              content: [{ type: "text", text: `Error: Invalid schedule '${schedule ?? every ?? rrule}': ${msg}` }],
+              isError: true,
+            };
+          }
+          await addCron({
+            ...clearedRunState,
+            name,
+            schedule: resolved.schedule,
+            schedulePhrase: resolved.phrase,
+            every,
+            anchor: anchorTs,
+            rrule: recurrence,
+            calendars: calendars?.length ? calendars : undefined,
+            startAt: startTs,
+            endAt: endTs,
+            maxRuns,
+            misfirePolicy,
+            misfireCap,
+            misfireGrace,
+            overlap,
+            retry,
+            timeoutMs,
+            after: after?.length ? after : undefined,
+            triggerOn: after?.length ? triggerOn : undefined,
+            condition,
+            onlyOnChange: onlyOnChange || undefined,
+            session,
+            message,
+            scripts: scripts || undefined,
+            dayMatch,
+            timezone,
+          });
           const scriptInfo = scripts?.length ? ` (${scripts.length} script(s))` : "";
+          const phraseInfo = resolved.phrase ? ` (from "${resolved.phrase}")` : "";
+          const calendarInfo = calendars?.length ? `\nSkips events in: ${calendars.join(", ")}` : "";
+          const window = describeActiveWindow({ startAt: startTs, endAt: endTs, maxRuns, timezone });
+          const windowInfo = window ? `\nActive: ${window}` : "";
+          const misfire = describeMisfire({ misfirePolicy, misfireCap, misfireGrace });
+          const misfireInfo = misfire ? `\nAfter downtime: ${misfire}` : "";
+          const overlapInfo = overlap && overlap !== "allow" ? `\nWhile running: ${overlap}` : "";
+          const retryText = describeRetry({ retry });
+          const retryInfo = retryText ? `\nOn failure: ${retryText}` : "";
+          const timeoutInfo = timeoutMs !== undefined ? `\nTimeout: ${timeoutMs / 1000}s` : "";
+          const conditionInfo = condition ? `\nInjects: ${describeRunCondition(condition)}` : "";
+          const changeInfo = onlyOnChange ? `\nInjects: ${ONLY_ON_CHANGE}` : "";
           return {
-            content: [{ type: "text", text: `Cron job '${name}' scheduled: ${schedule} -> ${session}${scriptInfo}` }],
+            content: [
+              {
+                type: "text",
+                text: `Cron job '${name}' scheduled: ${resolved.schedule}${phraseInfo} -> ${session}${scriptInfo}\nRuns: ${explanation}${calendarInfo}${windowInfo}${misfireInfo}${overlapInfo}${retryInfo}${timeoutInfo}${conditionInfo}${changeInfo}`,
+              },
+            ],
           };
         },
       },
       {
         name: "cron_once",
-        description: "Schedule a one-time message. Supports relative (+5m, +1h), absolute (14:30), or ISO timestamps.",
+        description:
+          "Schedule a one-time message. Supports offsets (+5m, +1h30m, 'in 3 days'), clock times (14:30, 9am), 'tomorrow 9:00', 'next friday 17:00', 'end of day', or ISO timestamps.",
         inputSchema: {
           type: "object",
           properties: {
-            time: { type: "string", description: "When to run: '+5m', '+1h', '14:30', or ISO timestamp" },
+            time: {
+              type: "string",
+              description:
+                "When to run: '+5m', '+1h30m', 'in 3 days', '14:30', 'tomorrow 9am', 'next friday 17:00', or ISO timestamp",
+            },
             session: { type: "string", description: "Target session" },
             message: { type: "string", description: "Message to inject" },
+            timezone: {
+              type: "string",
+              description: "IANA time zone for wall-clock times like '14:30'. Defaults to the daemon's zone.",
+            },
+            retry: RETRY_INPUT_SCHEMA,
+            timeoutMs: TIMEOUT_INPUT_SCHEMA,
           },
           required: ["time", "session", "message"],
         },
         async handler(args) {
-          const { time, session, message } = args as { time: string; session: string; message: string };
+          const { time, session, message, timezone, retry, timeoutMs } = args as {
+            time: string;
+            session: string;
+            message: string;
+            timezone?: string;
+            retry?: RetryPolicy;
+            timeoutMs?: number;
+          };
+          if (timezone && !isValidTimezone(timezone)) return invalidTimezoneResult(timezone);
+          if (timeoutMs !== undefined && !isValidTimeout(timeoutMs)) return invalidTimeoutResult();
+          const retryError = retry ? validateRetryPolicy(retry) : null;
+          if (retryError) return { content: [{ type: "text", text: `Error: ${retryError}` }], isError: true };
           try {
-            const job = createOnceJob(time, session, message);
-            await addCron(job);
+            const job = createOnceJob(time, session, message, timezone);
+            await addCron({ ...job, retry, timeoutMs });
+            const retryText = describeRetry({ retry });
             return {
               content: [
                 {
                   type: "text",
-                  text: `One-time job scheduled for ${new Date(job.runAt ?? Date.now()).toISOString()}`,
+                  text: `One-time job scheduled for ${new Date(job.runAt ?? Date.now()).toISOString()}${retryText ? `\nOn failure: ${retryText}` : ""}`,
                 },
               ],
             };
@@ -89,20 +465,111 @@ export function buildCronA2ATools(): A2AServerConfig {
         description: "List all scheduled cron jobs.",
         inputSchema: { type: "object", properties: {} },
         async handler() {
-          const crons = await getCrons();
-          if (crons.length === 0) return { content: [{ type: "text", text: "No cron jobs scheduled." }] };
-          const formatted = crons
-            .map((c) => {
+          const all = await getCrons();
+          if (all.length === 0) return { content: [{ type: "text", text: "No cron jobs scheduled." }] };
+          const crons = all.filter((c) => c.archivedAt === undefined && c.deadLetteredAt === undefined);
+          const archived = all
+            .filter((c) => c.archivedAt !== undefined)
+            .map((c) => `- ${c.name}: ${c.schedule} -> ${c.session} (${describeArchive(c)})`);
+          const deadLettered = all.filter((c) => c.deadLetteredAt !== undefined).map(describeDeadLetter);
+          const lines = await Promise.all(
+            crons.map(async (c) => {
               const schedule = c.once && c.runAt ? `once at ${new Date(c.runAt).toISOString()}` : c.schedule;
-              return `- ${c.name}: ${schedule} -> ${c.session}`;
-            })
-            .join("\n");
-          return { content: [{ type: "text", text: `Scheduled cron jobs:\n${formatted}` }] };
+              const zone = c.timezone && !c.runAt ? ` (${c.timezone})` : "";
+              const lastFire = c.every ? (c.lastFireAt ?? (await getLastSuccessfulRun(c.name))) : null;
+              const from = Math.max(Date.now(), c.pausedUntil ?? 0);
+              let next = c.runAt || c.enabled === false ? null : getNextRun(c, from, lastFire);
+              if (next && c.calendars?.length) next = (await upcomingRuns(c, 1).catch(() => []))[0] ?? null;
+              const nextInfo = next ? ` [next: ${next.toISOString()}]` : "";
+              const phrase = c.schedulePhrase ? ` ("${c.schedulePhrase}")` : "";
+              const skips = c.calendars?.length ? ` [skips: ${c.calendars.join(", ")}]` : "";
+              const window = describeActiveWindow(c);
+              const windowInfo = window ? ` [active ${window}]` : "";
+              const lastInfo = c.lastFireAt !== undefined ? ` [last: ${new Date(c.lastFireAt).toISOString()}]` : "";
+              const misfire = describeMisfire(c);
+              const misfireInfo = misfire ? ` [after downtime: ${misfire}]` : "";
+              const overlapInfo = c.overlap && c.overlap !== "allow" ? ` [overlap: ${c.overlap}]` : "";
+              const retry = describeRetry(c);
+              const retryInfo = retry ? ` [on failure: ${retry}]` : "";
+              const timeoutInfo = c.timeoutMs !== undefined ? ` [timeout: ${c.timeoutMs / 1000}s]` : "";
+              const conditionInfo = c.condition ? ` [injects ${describeRunCondition(c.condition)}]` : "";
+              const changeInfo = c.onlyOnChange ? ` [injects ${ONLY_ON_CHANGE}]` : "";
+              const pending = c.pendingRetry
+                ? ` [retrying: attempt ${c.pendingRetry.attempt} at ${new Date(c.pendingRetry.at).toISOString()}]`
+                : "";
+              const pause = describePause(c);
+              const pauseInfo = pause ? ` [${pause}]` : "";
+              const line = `- ${c.name}: ${schedule}${phrase}${zone} -> ${c.session}${pauseInfo}${lastInfo}${nextInfo}${skips}${windowInfo}${misfireInfo}${overlapInfo}${retryInfo}${timeoutInfo}${conditionInfo}${changeInfo}${pending}`;
+              if (c.runAt) return line;
+              try {
+                let explanation: string;
+                if (c.after?.length) explanation = explainTrigger(c);
+                else if (c.every) explanation = explainInterval(c);
+                else if (c.rrule) explanation = explainRecurrence(parseRecurrence(c.rrule, c.timezone));
+                else explanation = explainSchedule(c.schedule, { dayMatch: c.dayMatch });
+                return `${line}\n  ${explanation}`;
+              } catch {
+                return `${line}\n  (invalid schedule)`;
+              }
+            }),
+          );
+          const sections = [lines.length > 0 ? `Scheduled cron jobs:\n${lines.join("\n")}` : "No active cron jobs."];
+          if (options.ctx && isGloballyPaused(options.ctx)) sections.unshift("All cron jobs are paused.");
+          if (archived.length > 0) sections.push(`Archived cron jobs:\n${archived.join("\n")}`);
+          if (deadLettered.length > 0) sections.push(`Dead-lettered jobs:\n${deadLettered.join("\n")}`);
+          return { content: [{ type: "text", text: sections.join("\n\n") }] };
+        },
+      },
+      {
+        name: "cron_next",
+        description: "Show the next fire times of a scheduled job (by name) or of a raw cron expression.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            name: { type: "string", description: "Name of a scheduled cron job" },
+            expression: { type: "string", description: "Cron expression to evaluate instead of a stored job" },
+            count: { type: "number", description: "How many fire times to return (default 5, max 50)" },
+            timezone: { type: "string", description: "IANA time zone for a raw expression (default: daemon's zone)" },
+          },
+        },
+        async handler(args) {
+          const { name, expression, count, timezone } = args as {
+            name?: string;
+            expression?: string;
+            count?: number;
+            timezone?: string;
+          };
+          if (!name && !expression) {
+            return { content: [{ type: "text", text: "Error: Provide either 'name' or 'expression'" }], isError: true };
+          }
+          if (timezone && !isValidTimezone(timezone)) return invalidTimezoneResult(timezone);
+          const limit = Math.min(Math.max(Math.floor(count ?? 5), 1), 50);
+
+          let label: string;
+          let runs: Date[];
+          try {
+            if (name) {
+              const job = await getCron(name);
+              if (!job) return { content: [{ type: "text", text: `Cron job '${name}' not found` }], isError: true };
+              label = `'${name}' (${job.schedule})`;
+              runs = await upcomingRuns(job, limit);
+            } else {
+              label = `'${expression}'`;
+              runs = computeNextRuns(expression as string, Date.now(), limit, timezone);
+            }
+          } catch (err: unknown) {
+            const msg = err instanceof Error ? err.message : String(err);
+            return { content: [{ type: "text", text: `Error: ${msg}` }], isError: true };
+          }
+
+          if (runs.length === 0) return { content: [{ type: "text", text: `${label} has no upcoming fire times.` }] };
+          const lines = runs.map((d) => `- ${d.toISOString()}`);
+          return { content: [{ type: "text", text: `Next fire times for ${label}:\n${lines.join("\n")}` }] };
         },
       },
       {
         name: "cron_cancel",
-        description: "Cancel a scheduled cron job by name.",
+        description: "Cancel a scheduled cron job by name. Jobs that other jobs run after cannot be cancelled.",
         inputSchema: {
           type: "object",
           properties: { name: { type: "string", description: "Name of the cron job to cancel" } },
@@ -110,11 +577,285 @@ export function buildCronA2ATools(): A2AServerConfig {
         },
         async handler(args) {
           const { name } = args as { name: string };
+          // A job left waiting on a removed job would never run again
+          const dependents = await getDependentCrons(name);
+          if (dependents.length > 0) {
+            return { content: [{ type: "text", text: explainDependents(name, dependents) }], isError: true };
+          }
           const removed = await removeCron(name);
           if (!removed) return { content: [{ type: "text", text: `Cron job '${name}' not found` }], isError: true };
           return { content: [{ type: "text", text: `Cron job '${name}' cancelled` }] };
         },
       },
+      {
+        name: "cron_run",
+        description:
+          "Run a stored cron job now, through the same steps as a scheduled run: scripts, templates, injection and history. The run is marked as manual in history and does not affect the schedule.",
+        inputSchema: {
+          type: "object",
+          properties: { name: { type: "string", description: "Name of the cron job to run" } },
+          required: ["name"],
+        },
+        async handler(args) {
+          const { name } = args as { name: string };
+          if (!options.runJob) {
+            return { content: [{ type: "text", text: "Error: Running jobs is not available" }], isError: true };
+          }
+          const job = await getCron(name);
+          if (!job) return { content: [{ type: "text", text: `Cron job '${name}' not found` }], isError: true };
+          const outcome = await options.runJob(job);
+          if (!outcome) {
+            return {
+              content: [{ type: "text", text: `Cron job '${name}' skipped: its previous run is still in progress` }],
+            };
+          }
+          if (outcome.status === "success") {
+            return { content: [{ type: "text", text: `Cron job '${name}' ran (run ${outcome.runId})` }] };
+          }
+          if (outcome.status === "skipped") {
+            return {
+              content: [{ type: "text", text: `Cron job '${name}' skipped: ${outcome.reason} (run ${outcome.runId})` }],
+            };
+          }
+          const detail = outcome.status === "cancelled" ? "was cancelled" : `failed: ${outcome.error}`;
+          return {
+            content: [{ type: "text", text: `Error: Cron job '${name}' ${detail} (run ${outcome.runId})` }],
+            isError: true,
+          };
+        },
+      },
+      {
+        name: "cron_preview",
+        description:
+          "Show the message a cron job would send on its next run, without sending it or recording a run. Runs the job's scripts (when cron scripts are enabled) or reuses a recorded run's outputs, and reports unresolved {{placeholders}}, script errors and the next fire times.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            name: { type: "string", description: "Name of the cron job to preview" },
+            fromRun: {
+              type: "string",
+              description: `Use the script outputs of this run ID, or '${LAST_RUN}' for the latest run that has any, instead of running the scripts`,
+            },
+            count: { type: "number", description: "Number of next fire times to list (default 3)" },
+          },
+          required: ["name"],
+        },
+        async handler(args) {
+          const { name, fromRun, count } = args as { name: string; fromRun?: string; count?: number };
+          const job = await getCron(name);
+          if (!job) return { content: [{ type: "text", text: `Cron job '${name}' not found` }], isError: true };
+          const scriptsEnabled =
+            options.ctx?.getConfig<{ cronScriptsEnabled?: boolean }>()?.cronScriptsEnabled === true;
+          try {
+            const preview = await previewJob(job, { scriptsEnabled, fromRun, count });
+            return { content: [{ type: "text", text: describePreview(job, preview).join("\n") }] };
+          } catch (err: unknown) {
+            const message = err instanceof Error ? err.message : String(err);
+            return { content: [{ type: "text", text: `Error: ${message}` }], isError: true };
+          }
+        },
+      },
+      {
+        name: "cron_dead_letters",
+        description: "List one-time jobs that failed every attempt and no longer fire.",
+        inputSchema: { type: "object", properties: {} },
+        async handler() {
+          const deadLettered = (await getCrons()).filter((c) => c.deadLetteredAt !== undefined);
+          if (deadLettered.length === 0) return { content: [{ type: "text", text: "No dead-lettered jobs." }] };
+          const lines = deadLettered.map(describeDeadLetter);
+          return { content: [{ type: "text", text: `Dead-lettered jobs:\n${lines.join("\n")}` }] };
+        },
+      },
+      {
+        name: "cron_replay",
+        description: "Run a dead-lettered one-time job again now, with its retry policy starting over.",
+        inputSchema: {
+          type: "object",
+          properties: { name: { type: "string", description: "Name of the dead-lettered job" } },
+          required: ["name"],
+        },
+        async handler(args) {
+          const { name } = args as { name: string };
+          const job = await getCron(name);
+          if (!job) return { content: [{ type: "text", text: `Cron job '${name}' not found` }], isError: true };
+          if (job.deadLetteredAt === undefined) {
+            return {
+              content: [{ type: "text", text: `Error: Cron job '${name}' is not dead-lettered` }],
+              isError: true,
+            };
+          }
+          await updateCron(name, replayJob());
+          return { content: [{ type: "text", text: `Cron job '${name}' replayed` }] };
+        },
+      },
+      {
+        name: "cron_pause",
+        description:
+          "Pause a cron job without removing it, indefinitely or until a given time, or pause all jobs at once. Runs missed while paused are handled by the job's misfire policy when it resumes.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            name: { type: "string", description: "Name of the cron job to pause" },
+            all: { type: "boolean", description: "Pause every cron job, including ones added later" },
+            until: {
+              type: "string",
+              description:
+                "Resume by itself at this time: '+2h', 'tomorrow 9am', or ISO timestamp (default: until resumed)",
+            },
+          },
+        },
+        async handler(args) {
+          const { name, all, until } = args as { name?: string; all?: boolean; until?: string };
+          if (all) {
+            if (!options.ctx) {
+              return { content: [{ type: "text", text: "Error: Pausing all jobs is not available" }], isError: true };
+            }
+            await setGlobalPause(options.ctx, true);
+            return { content: [{ type: "text", text: "All cron jobs paused" }] };
+          }
+          if (!name) {
+            return { content: [{ type: "text", text: "Error: Provide either 'name' or 'all'" }], isError: true };
+          }
+          const job = await getCron(name);
+          if (!job) return { content: [{ type: "text", text: `Cron job '${name}' not found` }], isError: true };
+          let pausedUntil: number | undefined;
+          try {
+            pausedUntil = until !== undefined ? parseTimeSpec(until, job.timezone) : undefined;
+          } catch (err: unknown) {
+            const msg = err instanceof Error ? err.message : String(err);
+            return { content: [{ type: "text", text: `Error: ${msg}` }], isError: true };
+          }
+          await updateCron(name, pauseJob(job, pausedUntil));
+          const untilText = pausedUntil !== undefined ? ` until ${new Date(pausedUntil).toISOString()}` : "";
+          return { content: [{ type: "text", text: `Cron job '${name}' paused${untilText}` }] };
+        },
+      },
+      {
+        name: "cron_resume",
+        description:
+          "Resume a paused cron job, or lift the pause on all jobs. Missed runs are skipped or replayed per the job's misfire policy.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            name: { type: "string", description: "Name of the paused cron job" },
+            all: { type: "boolean", description: "Lift the pause on all cron jobs" },
+          },
+        },
+        async handler(args) {
+          const { name, all } = args as { name?: string; all?: boolean };
+          if (all) {
+            if (!options.ctx) {
+              return { content: [{ type: "text", text: "Error: Resuming all jobs is not available" }], isError: true };
+            }
+            if (!isGloballyPaused(options.ctx)) {
+              return { content: [{ type: "text", text: "Error: Cron jobs are not all paused" }], isError: true };
+            }
+            await setGlobalPause(options.ctx, false);
+            return { content: [{ type: "text", text: "All cron jobs resumed" }] };
+          }
+          if (!name) {
+            return { content: [{ type: "text", text: "Error: Provide either 'name' or 'all'" }], isError: true };
+          }
+          const job = await getCron(name);
+          if (!job) return { content: [{ type: "text", text: `Cron job '${name}' not found` }], isError: true };
+          if (!isPaused(job)) {
+            return { content: [{ type: "text", text: `Error: Cron job '${name}' is not paused` }], isError: true };
+          }
+          await updateCron(name, resumeJob());
+          return { content: [{ type: "text", text: `Cron job '${name}' resumed` }] };
+        },
+      },
+      {
+        name: "cron_calendar_import",
+        description:
+          "Import a local .ics file as a named exclusion calendar. Jobs that list the calendar do not fire during its events (e.g. public holidays). Re-importing replaces the calendar.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            name: { type: "string", description: "Name jobs use to reference the calendar" },
+            path: { type: "string", description: "Path of the .ics file on the daemon's machine" },
+          },
+          required: ["name", "path"],
+        },
+        async handler(args) {
+          const { name, path } = args as { name: string; path: string };
+          try {
+            const events = parseIcs(await readFile(path, "utf-8"));
+            await saveCalendar({ name, source: path, importedAt: Date.now(), events });
+            return {
+              content: [{ type: "text", text: `Calendar '${name}' imported from ${path}: ${events.length} event(s)` }],
+            };
+          } catch (err: unknown) {
+            const msg = err instanceof Error ? err.message : String(err);
+            return { content: [{ type: "text", text: `Error: ${msg}` }], isError: true };
+          }
+        },
+      },
+      {
+        name: "cron_calendar_list",
+        description: "List imported exclusion calendars and the jobs that use them.",
+        inputSchema: { type: "object", properties: {} },
+        async handler() {
+          const [calendars, crons] = await Promise.all([getCalendars(), getCrons()]);
+          if (calendars.length === 0) return { content: [{ type: "text", text: "No calendars imported." }] };
+          const lines = calendars.map((cal) => {
+            const users = crons.filter((c) => c.calendars?.includes(cal.name)).map((c) => c.name);
+            const source = cal.source ? ` from ${cal.source}` : "";
+            const usedBy = users.length > 0 ? ` [used by: ${users.join(", ")}]` : "";
+            return `- ${cal.name}: ${cal.events.length} event(s)${source} (imported ${new Date(cal.importedAt).toISOString()})${usedBy}`;
+          });
+          return { content: [{ type: "text", text: `Exclusion calendars:\n${lines.join("\n")}` }] };
+        },
+      },
+      {
+        name: "cron_calendar_remove",
+        description: "Remove an exclusion calendar. Fails while jobs still reference it.",
+        inputSchema: {
+          type: "object",
+          properties: { name: { type: "string", description: "Name of the calendar to remove" } },
+          required: ["name"],
+        },
+        async handler(args) {
+          const { name } = args as { name: string };
+          const users = (await getCrons()).filter((c) => c.calendars?.includes(name)).map((c) => c.name);
+          if (users.length > 0) {
+            return {
+              content: [{ type: "text", text: `Error: Calendar '${name}' is used by: ${users.join(", ")}` }],
+              isError: true,
+            };
+          }
+          const removed = await removeCalendar(name);
+          if (!removed) return { content: [{ type: "text", text: `Calendar '${name}' not found` }], isError: true };
+          return { content: [{ type: "text", text: `Calendar '${name}' removed` }] };
+        },
+      },
+      {
+        name: "cron_status",
+        description:
+          "Show which daemon is the cron leader (the one that runs jobs when several share storage) and a summary of jobs.",
+        inputSchema: { type: "object", properties: {} },
+        async handler() {
+          const [lease, all] = await Promise.all([getLease(LEADER_LEASE), getCrons()]);
+          const now = Date.now();
+          let leader: string;
+          if (!lease) leader = "Leader: none";
+          else if (lease.expiresAt <= now)
+            leader = `Leader: none (lease of ${lease.holder} expired ${new Date(lease.expiresAt).toISOString()})`;
+          else
+            leader = `Leader: ${lease.holder} (since ${new Date(lease.acquiredAt).toISOString()}, lease expires ${new Date(lease.expiresAt).toISOString()})`;
+          const lines = [leader];
+          if (options.instanceId) {
+            const role = lease && lease.holder === options.instanceId && lease.expiresAt > now ? "leader" : "standby";
+            lines.push(`This instance: ${options.instanceId} (${role})`);
+          }
+          const archived = all.filter((c) => c.archivedAt !== undefined).length;
+          const deadLettered = all.filter((c) => c.deadLetteredAt !== undefined).length;
+          const active = all.length - archived - deadLettered;
+          lines.push(`Jobs: ${active} active, ${archived} archived, ${deadLettered} dead-lettered`);
+          if (options.ctx && isGloballyPaused(options.ctx)) lines.push("All cron jobs are paused");
+          return { content: [{ type: "text", text: lines.join("\n") }] };
+        },
+      },
       {
         name: "cron_history",
         description: "View execution history of cron jobs.",
@@ -127,7 +868,8 @@ export function buildCronA2ATools(): A2AServerConfig {
             offset: { type: "number", description: "Skip entries (for pagination)" },
             since: { type: "number", description: "Only show entries after this timestamp (ms)" },
             successOnly: { type: "boolean", description: "Only show successful executions" },
-            failedOnly: { type: "boolean", description: "Only show failed executions" },
+            failedOnly: { type: "boolean", description: "Only show failed or timed-out executions" },
+            workflowRunId: { type: "string", description: "Only show the runs of one workflow run" },
           },
         },
         async handler(args) {
@@ -139,6 +881,7 @@ export function buildCronA2ATools(): A2AServerConfig {
             since?: number;
             successOnly?: boolean;
             failedOnly?: boolean;
+            workflowRunId?: string;
           };
           const result = await getCronHistory(opts);
           if (result.total === 0)
@@ -149,6 +892,13 @@ export function buildCronA2ATools(): A2AServerConfig {
             lines.push(`[${date}] ${entry.cronName} -> ${entry.session}`);
             lines.push(`  Status: ${entry.status.toUpperCase()} | Duration: ${entry.durationMs}ms`);
             if (entry.error) lines.push(`  Error: ${entry.error}`);
+            if (entry.reason) lines.push(`  Reason: ${entry.reason}`);
+            if (entry.retryOf) lines.push(`  Attempt: ${entry.attempt ?? 2} (retry of run ${entry.retryOf})`);
+            if (entry.workflowRunId) {
+              const trigger = entry.triggeredBy ? ` (after ${entry.triggeredBy})` : "";
+              lines.push(`  Workflow: ${entry.workflowRunId}${trigger}`);
+            }
+            if (entry.manual) lines.push("  Trigger: manual");
             lines.push(`  Message: ${entry.message}`, "");
           }
           if (result.hasMore)
@@ -0,0 +1,176 @@
+/**
+ * Exclusion calendars - .ics import and "is this instant inside an event" checks
+ *
+ * Only VEVENT components are read. Each event keeps its DTSTART/RRULE/RDATE/EXDATE lines so that
+ * recurring holidays are expanded with the same rules as recurrence schedules.
+ */
+
+import { computeNextOccurrences, nextOccurrenceNaive, parseIcalTime, parseRecurrence } from "./cron-rrule.js";
+import type { CalendarEvent, CronCalendarRow } from "./cron-schema.js";
+import { getZonedTime, naiveToWallTime, resolveWallTime, wallTimeToNaive } from "./cron-timezone.js";
+
+const MINUTE_MS = 60000;
+const DAY_MS = 86400000;
+const RECURRENCE_PROPERTIES = ["DTSTART", "RRULE", "RDATE", "EXDATE"];
+
+interface IcsProperty {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+  line: string;
+}
+
+function parseProperty(line: string): IcsProperty {
+  const colon = line.indexOf(":");
+  const [name, ...paramParts] = (colon < 0 ? line : line.slice(0, colon)).split(";");
+  const params: Record<string, string> = {};
+  for (const part of paramParts) {
+    const [key, value = ""] = part.split("=");
+    params[key.toUpperCase()] = value.replace(/^"(.*)"$/, "$1");
+  }
+  return { name: name.toUpperCase(), params, value: colon < 0 ? "" : line.slice(colon + 1), line };
+}
+
+/** Parse an iCalendar DURATION such as "P1D" or "PT1H30M" into milliseconds. */
+function parseIcsDuration(value: string): number {
+  const match = value.match(/^\+?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/i);
+  if (!match || value.length <= 2) throw new Error(`Invalid duration '${value}'`);
+  const [weeks, days, hours, minutes, seconds] = match.slice(1).map((v) => parseInt(v ?? "0", 10));
+  return (((weeks * 7 + days) * 24 + hours) * 60 + minutes) * MINUTE_MS + seconds * 1000;
+}
+
+function eventFrom(properties: IcsProperty[], index: number): CalendarEvent | null {
+  const find = (name: string) => properties.find((p) => p.name === name);
+  const summary = find("SUMMARY")
+    ?.value.replace(/\\([,;\\])/g, "$1")
+    .replace(/\\n/gi, " ");
+  const label = `event ${index}${summary ? ` (${summary})` : ""}`;
+  if (find("STATUS")?.value.toUpperCase() === "CANCELLED") return null;
+  const start = find("DTSTART");
+  if (!start) throw new Error(`Invalid calendar: ${label} has no DTSTART`);
+
+  const recurrence = properties
+    .filter((p) => RECURRENCE_PROPERTIES.includes(p.name))
+    .map((p) => p.line)
+    .join("\n");
+  try {
+    parseRecurrence(recurrence);
+    const begin = parseIcalTime(start.value, start.params);
+    const end = find("DTEND");
+    const duration = find("DURATION");
+    let durationMs: number;
+    if (end) {
+      const finish = parseIcalTime(end.value, end.params);
+      durationMs = begin.allDay
+        ? finish.naive - begin.naive
+        : resolveWallTime(naiveToWallTime(finish.naive), finish.timezone) -
+          resolveWallTime(naiveToWallTime(begin.naive), begin.timezone);
+    } else if (duration) {
+      durationMs = parseIcsDuration(duration.value);
+    } else {
+      durationMs = begin.allDay ? DAY_MS : 0;
+    }
+    // Events without a length still block the minute they start in
+    durationMs = begin.allDay
+      ? Math.max(DAY_MS, Math.round(durationMs / DAY_MS) * DAY_MS)
+      : Math.max(MINUTE_MS, durationMs);
+    return { ...(summary ? { summary } : {}), recurrence, allDay: begin.allDay, durationMs };
+  } catch (err: unknown) {
+    throw new Error(`Invalid calendar: ${label}: ${err instanceof Error ? err.message : String(err)}`);
+  }
+}
+
+/**
+ * Parse the VEVENTs of an .ics file. Cancelled events are dropped; an event the scheduler cannot
+ * expand (an unknown TZID, EXRULE, ...) fails the whole import so nothing is silently ignored.
+ */
+export function parseIcs(text: string): CalendarEvent[] {
+  const lines = text.replace(/\r?\n[ \t]/g, "").split(/\r?\n/);
+  if (!lines.some((l) => l.trim().toUpperCase() === "BEGIN:VCALENDAR")) {
+    throw new Error("Invalid calendar: missing BEGIN:VCALENDAR");
+  }
+  const events: CalendarEvent[] = [];
+  let current: IcsProperty[] | null = null;
+  let index = 0;
+  for (const raw of lines) {
+    const line = raw.trim();
+    if (line === "") continue;
+    const upper = line.toUpperCase();
+    if (upper === "BEGIN:VEVENT") {
+      current = [];
+      index++;
+    } else if (upper === "END:VEVENT") {
+      const event = current ? eventFrom(current, index) : null;
+      if (event) events.push(event);
+      current = null;
+    } else if (current && !upper.startsWith("BEGIN:") && !upper.startsWith("END:")) {
+      current.push(parseProperty(line));
+    }
+  }
+  return events;
+}
+
+/**
+ * Check whether an instant falls inside an event. All-day events cover whole days in `timezone`;
+ * timed events cover [start, start + duration).
+ */
+export function eventCovers(event: CalendarEvent, instant: number, timezone?: string): boolean {
+  const recurrence = parseRecurrence(event.recurrence, timezone);
+  if (event.allDay) {
+    const now = wallTimeToNaive(getZonedTime(instant, timezone));
+    const today = now - (now % DAY_MS);
+    const first = nextOccurrenceNaive(recurrence, today - event.durationMs + DAY_MS);
+    return first !== null && first < today + DAY_MS;
+  }
+  const [next] = computeNextOccurrences(recurrence, instant - event.durationMs, 1);
+  return next !== undefined && next.getTime() <= instant;
+}
+
+/**
+ * Find the first calendar event covering an instant, or null when the instant is not excluded.
+ * Events that cannot be expanded are skipped.
+ */
+export function findExclusion(
+  calendars: CronCalendarRow[],
+  instant: number,
+  timezone?: string,
+): { calendar: string; event?: string } | null {
+  for (const calendar of calendars) {
+    for (const event of calendar.events) {
+      try {
+        if (eventCovers(event, instant, timezone)) return { calendar: calendar.name, event: event.summary };
+      } catch {
+        // Validated on import; a zone removed from the runtime's tz database should not stop the job
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * Collect the next `count` fire times that no calendar excludes. Candidates after a cursor are
+ * pulled from `next` in batches, giving up after a bounded number of batches.
+ */
+export function nextAllowedRuns(
+  next: (from: number, count: number) => Date[],
+  calendars: CronCalendarRow[],
+  count: number,
+  from: number,
+  timezone?: string,
+): Date[] {
+  const runs: Date[] = [];
+  let cursor = from;
+  for (let batch = 0; batch < 20 && runs.length < count; batch++) {
+    // Interval jobs that are due may fire at the cursor itself on the first batch
+    const candidates = next(cursor, count * 2).filter(
+      (d) => d.getTime() > cursor || (batch === 0 && d.getTime() === from),
+    );
+    if (candidates.length === 0) break;
+    for (const candidate of candidates) {
+      if (!findExclusion(calendars, candidate.getTime(), timezone)) runs.push(candidate);
+      if (runs.length >= count) break;
+    }
+    cursor = candidates[candidates.length - 1].getTime();
+  }
+  return runs;
+}
@@ -0,0 +1,173 @@
+/**
+ * Change detection - a job with onlyOnChange injects only when its script output (or, without script
+ * output, its rendered message) differs from what its last injected run saw, and {{name.diff}} shows how
+ */
+
+import { createHash } from "node:crypto";
+import type { CronJobRow, CronScriptResult, LastOutput } from "./cron-schema.js";
+
+export const UNCHANGED_REASON = "output unchanged since the last run";
+/** How listings describe onlyOnChange, alongside describeRunCondition */
+export const ONLY_ON_CHANGE = "only when the output changed since the last run";
+
+const DIFF_CONTEXT = 3;
+// Larger differences are shown as the whole changed block removed and added, to bound the work
+const MAX_DIFF_CELLS = 4_000_000;
+
+/**
+ * SHA-256 of a script's output or a rendered message
+ */
+export function hashOutput(text: string): string {
+  return createHash("sha256").update(text).digest("hex");
+}
+
+/**
+ * Names of the scripts a message shows as a diff through {{name.diff}}
+ */
+export function findDiffPlaceholders(message: string): string[] {
+  return [...new Set([...message.matchAll(/\{\{([^{}]+)\.diff\}\}/g)].map((match) => match[1]))];
+}
+
+/**
+ * Whether runs of a job keep their output for the next run: with onlyOnChange or {{name.diff}}
+ */
+export function tracksOutput(job: Pick<CronJobRow, "onlyOnChange" | "message">): boolean {
+  return job.onlyOnChange === true || findDiffPlaceholders(job.message).length > 0;
+}
+
+/**
+ * What a run saw, to compare the next run against: a hash of each script's stdout, or of the rendered
+ * message when no scripts ran. Outputs are kept only for scripts the message diffs.
+ */
+export function snapshotOutput(
+  job: Pick<CronJobRow, "message">,
+  message: string,
+  results: CronScriptResult[] = [],
+): LastOutput {
+  if (results.length === 0) return { messageHash: hashOutput(message) };
+  const diffed = findDiffPlaceholders(job.message);
+  return {
+    scripts: Object.fromEntries(
+      results.map((r) => [
+        r.name,
+        { hash: hashOutput(r.stdout), ...(diffed.includes(r.name) ? { stdout: r.stdout } : {}) },
+      ]),
+    ),
+  };
+}
+
+/**
+ * Whether a run's output differs from the previous one; a first run always counts as changed
+ */
+export function outputChanged(previous: LastOutput | undefined, current: LastOutput): boolean {
+  if (!previous) return true;
+  if (current.messageHash !== undefined) return current.messageHash !== previous.messageHash;
+  const before = previous.scripts ?? {};
+  const after = current.scripts ?? {};
+  const names = new Set([...Object.keys(before), ...Object.keys(after)]);
+  return [...names].some((name) => before[name]?.hash !== after[name]?.hash);
+}
+
+type Edit = { op: " " | "-" | "+"; line: string };
+
+function splitLines(text: string): string[] {
+  return text === "" ? [] : text.replace(/\n$/, "").split("\n");
+}
+
+// Line edits turning `a` into `b`, from the longest common subsequence of the part between the common
+// prefix and suffix
+function diffLines(a: string[], b: string[]): Edit[] {
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+  const edits: Edit[] = a.slice(0, start).map((line) => ({ op: " ", line }));
+  const oldLines = a.slice(start, endA);
+  const newLines = b.slice(start, endB);
+  const n = oldLines.length;
+  const m = newLines.length;
+  if (n * m > MAX_DIFF_CELLS) {
+    edits.push(
+      ...oldLines.map((line): Edit => ({ op: "-", line })),
+      ...newLines.map((line): Edit => ({ op: "+", line })),
+    );
+  } else {
+    const lcs = new Uint32Array((n + 1) * (m + 1));
+    const at = (i: number, j: number) => i * (m + 1) + j;
+    for (let i = n - 1; i >= 0; i--) {
+      for (let j = m - 1; j >= 0; j--) {
+        lcs[at(i, j)] =
+          oldLines[i] === newLines[j] ? lcs[at(i + 1, j + 1)] + 1 : Math.max(lcs[at(i + 1, j)], lcs[at(i, j + 1)]);
+      }
+    }
+    let i = 0;
+    let j = 0;
+    while (i < n || j < m) {
+      if (i < n && j < m && oldLines[i] === newLines[j]) {
+        edits.push({ op: " ", line: oldLines[i++] });
+        j++;
+      } else if (i < n && (j === m || lcs[at(i + 1, j)] >= lcs[at(i, j + 1)])) {
+        // Removals come before additions
+        edits.push({ op: "-", line: oldLines[i++] });
+      } else {
+        edits.push({ op: "+", line: newLines[j++] });
+      }
+    }
+  }
+  edits.push(...a.slice(endA).map((line): Edit => ({ op: " ", line })));
+  return edits;
+}
+
+/**
+ * Unified diff from `previous` to `current` with three lines of context, or "" when they are the same
+ */
+export function unifiedDiff(previous: string, current: string, label: string): string {
+  const edits = diffLines(splitLines(previous), splitLines(current));
+  const changed = edits.flatMap((edit, i) => (edit.op === " " ? [] : [i]));
+  if (changed.length === 0) return "";
+
+  // Changes with at most twice the context between them share a hunk
+  const hunks: Array<{ from: number; to: number }> = [];
+  for (const i of changed) {
+    const last = hunks[hunks.length - 1];
+    if (last && i - last.to <= 2 * DIFF_CONTEXT + 1) last.to = i;
+    else hunks.push({ from: i, to: i });
+  }
+  const lines = [`--- ${label} (previous)`, `+++ ${label} (current)`];
+  for (const hunk of hunks) {
+    const from = Math.max(0, hunk.from - DIFF_CONTEXT);
+    const to = Math.min(edits.length - 1, hunk.to + DIFF_CONTEXT);
+    const before = edits.slice(0, from);
+    const body = edits.slice(from, to + 1);
+    const range = (skip: Edit["op"], list: Edit[]) => {
+      const start = before.filter((e) => e.op !== skip).length;
+      const length = list.filter((e) => e.op !== skip).length;
+      return `${length === 0 ? start : start + 1},${length}`;
+    };
+    lines.push(`@@ -${range("+", body)} +${range("-", body)} @@`, ...body.map((e) => `${e.op}${e.line}`));
+  }
+  return lines.join("\n");
+}
+
+/**
+ * Replace {{name.diff}} placeholders with a unified diff of each script's stdout against the previous
+ * run's. A script without a previous output is diffed against nothing; an unchanged one shows "(no changes)".
+ */
+export function resolveDiffTemplates(
+  message: string,
+  previous: LastOutput | undefined,
+  results: CronScriptResult[],
+): string {
+  let resolved = message;
+  for (const result of results) {
+    const placeholder = `{{${result.name}.diff}}`;
+    if (!resolved.includes(placeholder)) continue;
+    const diff = unifiedDiff(previous?.scripts?.[result.name]?.stdout ?? "", result.stdout, result.name);
+    resolved = resolved.split(placeholder).join(diff || "(no changes)");
+  }
+  return resolved;
+}
@@ -8,6 +8,44 @@ export interface CronJob {
   scripts?: CronScript[];
   once?: boolean;
   runAt?: number;
+  dayMatch?: "and" | "or";
+  timezone?: string;
+  schedulePhrase?: string;
+  every?: string;
+  anchor?: number;
+  rrule?: string;
+  calendars?: string[];
+  startAt?: number;
+  endAt?: number;
+  maxRuns?: number;
+  runCount?: number;
+  archivedAt?: number;
+  archiveReason?: "ended" | "maxRuns";
+  lastFireAt?: number;
+  nextFireAt?: number;
+  misfirePolicy?: "skip" | "fire-once" | "fire-all";
+  misfireCap?: number;
+  misfireGrace?: string;
+  overlap?: "allow" | "skip" | "queue" | "replace";
+  timeoutMs?: number;
+  retry?: { maxAttempts: number; delay?: string; factor?: number; jitter?: number };
+  pendingRetry?: {
+    at: number;
+    attempt: number;
+    runId: string;
+    scheduledAt: number;
+    workflowRunId?: string;
+    triggeredBy?: string;
+  };
+  deadLetteredAt?: number;
+  deadLetterError?: string;
+  enabled?: boolean;
+  pausedUntil?: number;
+  pausedAt?: number;
+  after?: string[];
+  triggerOn?: "success" | "failure" | "always";
+  condition?: { script?: string; exitCode?: number; matches?: string; expression?: string };
+  onlyOnChange?: boolean;
 }
 
 export interface CronScript {
@@ -17,6 +55,14 @@ export interface CronScript {
   cwd?: string;
 }
 
+/** How a manual run ended, as reported by the daemon */
+export interface CronRunOutcome {
+  status: "success" | "failure" | "timeout" | "cancelled" | "skipped";
+  runId: string;
+  error?: string;
+  reason?: string;
+}
+
 export type StreamCallback = (msg: { type: string; content: string }) => void;
 
 /** Read daemon port from ~/.wopr/config.json or default to 4040 */
@@ -32,6 +78,23 @@ export function getDaemonUrl(): string {
   }
 }
 
+// JSON has no undefined: an update sends the fields to clear as null, which the daemon's update route
+// stores as absent
+function toJsonBody(data: object): string {
+  return JSON.stringify(data, (_key, value) => (value === undefined ? null : value));
+}
+
+// The daemon's cron routes answer errors as { error }; anything else is shown as sent
+function errorMessage(text: string): string {
+  try {
+    const body = JSON.parse(text);
+    if (typeof body?.error === "string") return body.error;
+  } catch {
+    /* not JSON */
+  }
+  return text;
+}
+
 export class CronClient {
   constructor(private baseUrl: string) {}
 
@@ -42,7 +105,7 @@ export class CronClient {
     });
     if (!res.ok) {
       const text = await res.text().catch(() => "");
-      throw new Error(`HTTP ${res.status}: ${text}`);
+      throw new Error(`HTTP ${res.status}: ${errorMessage(text)}`);
     }
     return res.json() as Promise<T>;
   }
@@ -61,8 +124,40 @@ export class CronClient {
     return data.crons;
   }
 
+  /**
+   * Add or replace a job. Only fields that are set are sent; the daemon clears the run state of a job
+   * it replaces.
+   */
   async addCron(cron: Omit<CronJob, "runAt"> & { runAt?: number }): Promise<void> {
-    await this.request("/crons", { method: "POST", body: JSON.stringify(cron) });
+    await this.request(`/crons/${encodeURIComponent(cron.name)}`, { method: "PUT", body: JSON.stringify(cron) });
+  }
+
+  /** Update fields of a stored job in place; fields given as undefined are cleared */
+  async updateCron(name: string, data: Partial<CronJob>): Promise<void> {
+    await this.request(`/crons/${encodeURIComponent(name)}`, { method: "PATCH", body: toJsonBody(data) });
+  }
+
+  /**
+   * Run a stored job now on the daemon, through its tick loop so overlap and concurrency limits apply and
+   * the run is marked manual in history. Resolves with null when the job's overlap policy skipped it.
+   */
+  async runCron(name: string): Promise<CronRunOutcome | null> {
+    const data = await this.request<{ outcome: CronRunOutcome | null }>(`/crons/${encodeURIComponent(name)}/run`, {
+      method: "POST",
+    });
+    return data.outcome;
+  }
+
+  /**
+   * Preview a stored job's next message on the daemon, with the script outputs of run `fromRun` when
+   * given. Resolves with the preview's lines.
+   */
+  async previewCron(name: string, fromRun?: string): Promise<string[]> {
+    const data = await this.request<{ lines: string[] }>(`/crons/${encodeURIComponent(name)}/preview`, {
+      method: "POST",
+      body: JSON.stringify({ fromRun }),
+    });
+    return data.lines;
   }
 
   async removeCron(name: string): Promise<void> {
@@ -1,56 +1,194 @@
 import { readFileSync } from "node:fs";
 import type { WOPRPluginContext } from "@wopr-network/plugin-types";
-import type { CronScript } from "./cron-client.js";
+import {
+  describeActiveWindow,
+  describeArchive,
+  explainInterval,
+  explainSchedule,
+  getNextRun,
+  INTERVAL_PREFIX,
+  parseDuration,
+  parseInterval,
+  parseTimeSpec,
+} from "./cron.js";
+import { ONLY_ON_CHANGE } from "./cron-change.js";
+import type { CronRunOutcome, CronScript } from "./cron-client.js";
 import { CronClient, getDaemonUrl } from "./cron-client.js";
+import { describeRunCondition, validateRunCondition } from "./cron-condition.js";
+import { describeMisfire, validateMisfireOptions } from "./cron-misfire.js";
+import { resolveScheduleInput } from "./cron-natural.js";
+import { isGloballyPaused, isPaused, pauseJob, resumeJob, setGlobalPause } from "./cron-pause.js";
+import { LAST_RUN } from "./cron-preview.js";
+import { describeRetry, replayJob, validateRetryPolicy } from "./cron-retry.js";
+import { explainRecurrence, parseRecurrence, recurrenceLabel, withDefaultStart } from "./cron-rrule.js";
+import {
+  type MisfirePolicy,
+  overlapPolicySchema,
+  type RetryPolicy,
+  type RunCondition,
+  type TriggerCondition,
+} from "./cron-schema.js";
+import { isValidTimezone } from "./cron-timezone.js";
+import { explainDependents, explainTrigger, triggerLabel, validateTriggers } from "./cron-workflow.js";
 
-/** Parse a human-friendly time spec into epoch ms. Supports: "now", "+Ns/m/h/d", epoch, "HH:MM", ISO dates. */
-function parseTimeSpec(spec: string): number {
-  const now = Date.now();
-  if (spec === "now") return now;
-
-  if (spec.startsWith("+")) {
-    const match = spec.match(/^\+(\d+)([smhd])$/);
-    if (match) {
-      const val = parseInt(match[1], 10);
-      const unit = match[2] as "s" | "m" | "h" | "d";
-      const mult = { s: 1000, m: 60000, h: 3600000, d: 86400000 }[unit];
-      return now + val * mult;
+function printUsage(): void {
+  console.log(`
+wopr cron - Scheduled injection management
+
+Usage:
+  wopr cron add <name> <schedule|phrase> <session> <message> [--now] [--once] [--scripts-file <path>]
+                                                              [--day-match and|or] [--tz <zone>]
+                                                              [--calendar <name>]... [--start <time>] [--end <time>]
+                                                              [--max-runs <n>] [--misfire skip|fire-once|fire-all]
+                                                              [--misfire-cap <n>] [--misfire-grace <duration>]
+                                                              [--overlap allow|skip|queue|replace]
+                                                              [--retries <attempts>] [--retry-delay <duration>]
+                                                              [--retry-factor <n>] [--retry-jitter <0-1>]
+                                                              [--timeout <duration>]
+                                                              [--when "<expression>" | --when-exit <script>=<code>
+                                                               | --when-match <script>=<regex>]
+                                                              [--only-on-change]
+  wopr cron add <name> --every <interval> [--anchor <time>] <session> <message>
+  wopr cron add <name> --rrule "<DTSTART/RRULE/EXDATE lines>" <session> <message>
+  wopr cron add <name> --after <job> [--after <job>]... [--trigger-on success|failure|always] <session> <message>
+  wopr cron once <time> <session> <message> [--tz <zone>] [--retries <attempts>] [--retry-delay <duration>]
+                                            [--timeout <duration>]
+      <time>: now, +1h30m, "in 3 days", 14:30, "tomorrow 9am", "next friday 17:00", "end of day", ISO
+  wopr cron now <session> <message>
+  wopr cron run <name>
+  wopr cron preview <name> [--from-run <run-id|last>]
+  wopr cron remove <name>
+  wopr cron list
+  wopr cron dead-letters
+  wopr cron replay <name>
+  wopr cron pause <name> [--until <time>]
+  wopr cron pause --all
+  wopr cron resume <name|--all>
+  wopr cron explain <schedule>
+`);
+}
+
+/**
+ * Build a retry policy from --retries and its companion flags; exits on invalid input
+ */
+function parseRetryFlags(flags: {
+  retries: string | null;
+  retryDelay: string | null;
+  retryFactor?: string | null;
+  retryJitter?: string | null;
+}): RetryPolicy | undefined {
+  const { retries, retryDelay, retryFactor = null, retryJitter = null } = flags;
+  if (retries === null) {
+    if (retryDelay !== null || retryFactor !== null || retryJitter !== null) {
+      console.error("--retry-delay, --retry-factor and --retry-jitter need --retries");
+      process.exit(1);
     }
+    return undefined;
+  }
+  const retry: RetryPolicy = {
+    maxAttempts: Number(retries),
+    delay: retryDelay ?? undefined,
+    factor: retryFactor !== null ? Number(retryFactor) : undefined,
+    jitter: retryJitter !== null ? Number(retryJitter) : undefined,
+  };
+  const error = validateRetryPolicy(retry);
+  if (error) {
+    console.error(error);
+    process.exit(1);
   }
+  return retry;
+}
 
-  if (/^\d{10,13}$/.test(spec)) {
-    const ts = parseInt(spec, 10);
-    return ts < 1e12 ? ts * 1000 : ts;
+/**
+ * Convert a --timeout duration such as "90s" to milliseconds; exits on invalid input
+ */
+function parseTimeoutFlag(timeout: string | null): number | undefined {
+  if (timeout === null) return undefined;
+  try {
+    return parseDuration(timeout);
+  } catch (err: unknown) {
+    console.error(err instanceof Error ? err.message : String(err));
+    process.exit(1);
   }
+}
 
-  if (/^\d{1,2}:\d{2}$/.test(spec)) {
-    const [h, m] = spec.split(":").map(Number);
-    const d = new Date();
-    d.setHours(h, m, 0, 0);
-    if (d.getTime() < now) d.setDate(d.getDate() + 1);
-    return d.getTime();
+/**
+ * Build a run condition from --when, --when-exit or --when-match; exits on invalid input
+ */
+function parseConditionFlags(
+  flags: { when: string | null; whenExit: string | null; whenMatch: string | null },
+  scripts: CronScript[] = [],
+): RunCondition | undefined {
+  const { when, whenExit, whenMatch } = flags;
+  if (when === null && whenExit === null && whenMatch === null) return undefined;
+  if ([when, whenExit, whenMatch].filter((f) => f !== null).length > 1) {
+    console.error("Use only one of --when, --when-exit and --when-match");
+    process.exit(1);
+  }
+  let condition: Partial<RunCondition>;
+  if (when !== null) {
+    condition = { expression: when };
+  } else {
+    const spec = (whenExit ?? whenMatch) as string;
+    const eq = spec.indexOf("=");
+    if (eq < 1) {
+      console.error(`${whenExit !== null ? "--when-exit" : "--when-match"} takes <script>=<value>`);
+      process.exit(1);
+    }
+    const script = spec.slice(0, eq);
+    const value = spec.slice(eq + 1);
+    condition = whenExit !== null ? { script, exitCode: Number(value) } : { script, matches: value };
+  }
+  const error = validateRunCondition(condition, scripts);
+  if (error) {
+    console.error(error);
+    process.exit(1);
   }
+  return condition as RunCondition;
+}
 
-  const parsed = Date.parse(spec);
-  if (!Number.isNaN(parsed)) return parsed;
+/**
+ * Report how a manual run ended; exits when it failed, timed out or was cancelled
+ */
+function printRunOutcome(name: string, outcome: CronRunOutcome | null): void {
+  if (!outcome) {
+    console.log(`Skipped: ${name} - previous run still in progress`);
+  } else if (outcome.status === "success") {
+    console.log(`Ran: ${name}`);
+  } else if (outcome.status === "skipped") {
+    console.log(`Skipped: ${name} - ${outcome.reason}`);
+  } else {
+    const detail = outcome.status === "cancelled" ? "was cancelled" : `failed: ${outcome.error}`;
+    console.error(`Cron job '${name}' ${detail}`);
+    process.exit(1);
+  }
+}
 
-  throw new Error(`Invalid time spec: ${spec}`);
+/**
+ * List line for a paused job, in local time
+ */
+function describePausedUntil(pausedUntil: number | undefined): string {
+  return pausedUntil !== undefined ? `paused until ${new Date(pausedUntil).toLocaleString()}` : "paused";
 }
 
-function printUsage(): void {
-  console.log(`
-wopr cron - Scheduled injection management
+export async function cronCommandHandler(ctx: WOPRPluginContext, args: string[]): Promise<void> {
+  const [subcommand, ...rest] = args;
 
-Usage:
-  wopr cron add <name> <schedule> <session> <message> [--now] [--once] [--scripts-file <path>]
-  wopr cron once <time> <session> <message>
-  wopr cron now <session> <message>
-  wopr cron remove <name>
-  wopr cron list
-`);
-}
+  // explain is pure and works without a running daemon
+  if (subcommand === "explain") {
+    if (rest.length === 0) {
+      console.error("Usage: wopr cron explain <schedule>");
+      process.exit(1);
+    }
+    try {
+      console.log(explainSchedule(rest.join(" ")));
+    } catch (err: unknown) {
+      console.error(`Invalid schedule: ${err instanceof Error ? err.message : String(err)}`);
+      process.exit(1);
+    }
+    return;
+  }
 
-export async function cronCommandHandler(_ctx: WOPRPluginContext, args: string[]): Promise<void> {
   const client = new CronClient(getDaemonUrl());
 
   if (!(await client.isRunning())) {
@@ -58,14 +196,64 @@ export async function cronCommandHandler(_ctx: WOPRPluginContext, args: string[]
     process.exit(1);
   }
 
-  const [subcommand, ...rest] = args;
-
   switch (subcommand) {
     case "add": {
-      const flags: { now: boolean; once: boolean; scriptsFile: string | null } = {
+      const flags: {
+        now: boolean;
+        once: boolean;
+        onlyOnChange: boolean;
+        scriptsFile: string | null;
+        dayMatch: string | null;
+        tz: string | null;
+        every: string | null;
+        anchor: string | null;
+        rrule: string | null;
+        calendars: string[];
+        start: string | null;
+        end: string | null;
+        maxRuns: string | null;
+        misfire: string | null;
+        misfireCap: string | null;
+        misfireGrace: string | null;
+        overlap: string | null;
+        retries: string | null;
+        retryDelay: string | null;
+        retryFactor: string | null;
+        retryJitter: string | null;
+        timeout: string | null;
+        after: string[];
+        triggerOn: string | null;
+        when: string | null;
+        whenExit: string | null;
+        whenMatch: string | null;
+      } = {
         now: false,
         once: false,
+        onlyOnChange: false,
         scriptsFile: null,
+        dayMatch: null,
+        tz: null,
+        every: null,
+        anchor: null,
+        rrule: null,
+        calendars: [],
+        start: null,
+        end: null,
+        maxRuns: null,
+        misfire: null,
+        misfireCap: null,
+        misfireGrace: null,
+        overlap: null,
+        retries: null,
+        retryDelay: null,
+        retryFactor: null,
+        retryJitter: null,
+        timeout: null,
+        after: [],
+        triggerOn: null,
+        when: null,
+        whenExit: null,
+        whenMatch: null,
       };
       const filtered = rest.filter((a, i) => {
         if (a === "--now") {
@@ -76,20 +264,231 @@ export async function cronCommandHandler(_ctx: WOPRPluginContext, args: string[]
           flags.once = true;
           return false;
         }
+        if (a === "--only-on-change") {
+          flags.onlyOnChange = true;
+          return false;
+        }
         if (a === "--scripts-file" && rest[i + 1]) {
           flags.scriptsFile = rest[i + 1];
           return false;
         }
-        if (i > 0 && rest[i - 1] === "--scripts-file") {
+        if (a === "--day-match" && rest[i + 1]) {
+          flags.dayMatch = rest[i + 1];
+          return false;
+        }
+        if (a === "--tz" && rest[i + 1]) {
+          flags.tz = rest[i + 1];
+          return false;
+        }
+        if (a === "--every" && rest[i + 1]) {
+          flags.every = rest[i + 1];
+          return false;
+        }
+        if (a === "--anchor" && rest[i + 1]) {
+          flags.anchor = rest[i + 1];
+          return false;
+        }
+        if (a === "--rrule" && rest[i + 1]) {
+          flags.rrule = rest[i + 1];
+          return false;
+        }
+        if (a === "--calendar" && rest[i + 1]) {
+          flags.calendars.push(rest[i + 1]);
+          return false;
+        }
+        if (a === "--start" && rest[i + 1]) {
+          flags.start = rest[i + 1];
+          return false;
+        }
+        if (a === "--end" && rest[i + 1]) {
+          flags.end = rest[i + 1];
+          return false;
+        }
+        if (a === "--max-runs" && rest[i + 1]) {
+          flags.maxRuns = rest[i + 1];
+          return false;
+        }
+        if (a === "--misfire" && rest[i + 1]) {
+          flags.misfire = rest[i + 1];
+          return false;
+        }
+        if (a === "--misfire-cap" && rest[i + 1]) {
+          flags.misfireCap = rest[i + 1];
+          return false;
+        }
+        if (a === "--misfire-grace" && rest[i + 1]) {
+          flags.misfireGrace = rest[i + 1];
+          return false;
+        }
+        if (a === "--overlap" && rest[i + 1]) {
+          flags.overlap = rest[i + 1];
+          return false;
+        }
+        if (a === "--retries" && rest[i + 1]) {
+          flags.retries = rest[i + 1];
+          return false;
+        }
+        if (a === "--retry-delay" && rest[i + 1]) {
+          flags.retryDelay = rest[i + 1];
+          return false;
+        }
+        if (a === "--retry-factor" && rest[i + 1]) {
+          flags.retryFactor = rest[i + 1];
+          return false;
+        }
+        if (a === "--retry-jitter" && rest[i + 1]) {
+          flags.retryJitter = rest[i + 1];
+          return false;
+        }
+        if (a === "--timeout" && rest[i + 1]) {
+          flags.timeout = rest[i + 1];
+          return false;
+        }
+        if (a === "--after" && rest[i + 1]) {
+          flags.after.push(rest[i + 1]);
+          return false;
+        }
+        if (a === "--trigger-on" && rest[i + 1]) {
+          flags.triggerOn = rest[i + 1];
+          return false;
+        }
+        if (a === "--when" && rest[i + 1]) {
+          flags.when = rest[i + 1];
+          return false;
+        }
+        if (a === "--when-exit" && rest[i + 1]) {
+          flags.whenExit = rest[i + 1];
+          return false;
+        }
+        if (a === "--when-match" && rest[i + 1]) {
+          flags.whenMatch = rest[i + 1];
+          return false;
+        }
+        const valueFlags = [
+          "--scripts-file",
+          "--day-match",
+          "--tz",
+          "--every",
+          "--anchor",
+          "--rrule",
+          "--calendar",
+          "--start",
+          "--end",
+          "--max-runs",
+          "--misfire",
+          "--misfire-cap",
+          "--misfire-grace",
+          "--overlap",
+          "--retries",
+          "--retry-delay",
+          "--retry-factor",
+          "--retry-jitter",
+          "--timeout",
+          "--after",
+          "--trigger-on",
+          "--when",
+          "--when-exit",
+          "--when-match",
+        ];
+        if (i > 0 && valueFlags.includes(rest[i - 1])) {
           return false;
         }
         return true;
       });
+      if ([flags.every !== null, flags.rrule !== null, flags.after.length > 0].filter(Boolean).length > 1) {
+        console.error("Use only one of --every, --rrule and --after");
+        process.exit(1);
+      }
+      // Interval, recurrence and chained jobs take --every/--rrule/--after in place of the positional schedule
+      if (flags.every !== null) filtered.splice(1, 0, `${INTERVAL_PREFIX}${flags.every}`);
+      if (flags.rrule !== null) filtered.splice(1, 0, flags.rrule);
+      if (flags.after.length > 0) filtered.splice(1, 0, triggerLabel(flags.after));
       if (filtered.length < 4) {
         console.error("Usage: wopr cron add <name> <schedule> <session> <message> [--scripts-file <path>]");
         process.exit(1);
       }
 
+      if (flags.dayMatch !== null && flags.dayMatch !== "and" && flags.dayMatch !== "or") {
+        console.error("--day-match must be 'and' or 'or'");
+        process.exit(1);
+      }
+      if (flags.tz !== null && !isValidTimezone(flags.tz)) {
+        console.error(`Unknown time zone: ${flags.tz}`);
+        process.exit(1);
+      }
+
+      const maxRuns = flags.maxRuns !== null ? Number(flags.maxRuns) : undefined;
+      if (maxRuns !== undefined && (!Number.isInteger(maxRuns) || maxRuns < 1)) {
+        console.error("--max-runs must be a positive integer");
+        process.exit(1);
+      }
+      const misfire = {
+        misfirePolicy: (flags.misfire ?? undefined) as MisfirePolicy | undefined,
+        misfireCap: flags.misfireCap !== null ? Number(flags.misfireCap) : undefined,
+        misfireGrace: flags.misfireGrace ?? undefined,
+      };
+      const misfireError = validateMisfireOptions(misfire);
+      if (misfireError) {
+        console.error(misfireError);
+        process.exit(1);
+      }
+      const overlap = overlapPolicySchema.safeParse(flags.overlap ?? undefined);
+      if (flags.overlap !== null && !overlap.success) {
+        console.error(`Unknown overlap policy '${flags.overlap}': use allow, skip, queue or replace`);
+        process.exit(1);
+      }
+      const retry = parseRetryFlags(flags);
+      const timeoutMs = parseTimeoutFlag(flags.timeout);
+      const trigger = {
+        name: filtered[0],
+        after: flags.after.length > 0 ? flags.after : undefined,
+        triggerOn: (flags.triggerOn ?? undefined) as TriggerCondition | undefined,
+      };
+      const triggerError = validateTriggers(trigger, await client.getCrons());
+      if (triggerError) {
+        console.error(triggerError);
+        process.exit(1);
+      }
+      let startAt: number | undefined;
+      let endAt: number | undefined;
+      try {
+        if (flags.start !== null) startAt = parseTimeSpec(flags.start, flags.tz ?? undefined, { allowPast: true });
+        if (flags.end !== null) endAt = parseTimeSpec(flags.end, flags.tz ?? undefined);
+      } catch (err: unknown) {
+        console.error(err instanceof Error ? err.message : String(err));
+        process.exit(1);
+      }
+      if (startAt !== undefined && endAt !== undefined && endAt <= startAt) {
+        console.error("--end must be after --start");
+        process.exit(1);
+      }
+
+      let resolved: { schedule: string; phrase?: string };
+      let anchor: number | undefined;
+      let recurrence: string | undefined;
+      try {
+        if (trigger.after) {
+          resolved = { schedule: filtered[1] };
+          console.log(`Trigger: ${explainTrigger(trigger)}`);
+        } else if (flags.rrule !== null) {
+          recurrence = withDefaultStart(flags.rrule, flags.tz ?? undefined);
+          const parsed = parseRecurrence(recurrence, flags.tz ?? undefined);
+          resolved = { schedule: recurrenceLabel(parsed) };
+          console.log(`Recurrence: ${explainRecurrence(parsed)}`);
+        } else if (flags.every !== null) {
+          parseInterval(flags.every);
+          anchor =
+            flags.anchor !== null ? parseTimeSpec(flags.anchor, flags.tz ?? undefined, { allowPast: true }) : undefined;
+          resolved = { schedule: filtered[1] };
+        } else {
+          resolved = resolveScheduleInput(filtered[1]);
+        }
+      } catch (err: unknown) {
+        console.error(`Invalid schedule '${filtered[1]}': ${err instanceof Error ? err.message : String(err)}`);
+        process.exit(1);
+      }
+      if (resolved.phrase) console.log(`Schedule "${resolved.phrase}" -> ${resolved.schedule}`);
+
       let scripts: CronScript[] | undefined;
       if (flags.scriptsFile) {
         try {
@@ -105,35 +504,93 @@ export async function cronCommandHandler(_ctx: WOPRPluginContext, args: string[]
         }
       }
 
+      const condition = parseConditionFlags(flags, scripts);
+
       await client.addCron({
         name: filtered[0],
-        schedule: filtered[1],
+        schedule: resolved.schedule,
+        schedulePhrase: resolved.phrase,
+        every: flags.every ?? undefined,
+        anchor,
+        rrule: recurrence,
+        calendars: flags.calendars.length > 0 ? flags.calendars : undefined,
+        startAt,
+        endAt,
+        maxRuns,
+        ...misfire,
+        overlap: overlap.success ? overlap.data : undefined,
+        retry,
+        timeoutMs,
+        after: trigger.after,
+        triggerOn: trigger.triggerOn,
+        condition,
+        onlyOnChange: flags.onlyOnChange || undefined,
         session: filtered[2],
         message: filtered.slice(3).join(" "),
         scripts,
         once: flags.once || undefined,
+        dayMatch: flags.dayMatch ?? undefined,
+        timezone: flags.tz ?? undefined,
       });
       console.log(`Added cron: ${filtered[0]}${scripts ? ` (${scripts.length} script(s))` : ""}`);
-      if (flags.now) {
-        await client.inject(filtered[2], filtered.slice(3).join(" "), (msg) => {
-          if (msg.type === "text") process.stdout.write(msg.content);
-        });
-      }
+      if (condition) console.log(`Injects: ${describeRunCondition(condition)}`);
+      if (flags.onlyOnChange) console.log(`Injects: ${ONLY_ON_CHANGE}`);
+      if (flags.now) printRunOutcome(filtered[0], await client.runCron(filtered[0]));
       break;
     }
     case "once": {
-      if (rest.length < 3) {
-        console.error("Usage: wopr cron once <time> <session> <message>");
+      const flags: { tz: string | null; retries: string | null; retryDelay: string | null; timeout: string | null } = {
+        tz: null,
+        retries: null,
+        retryDelay: null,
+        timeout: null,
+      };
+      const filtered = rest.filter((a, i) => {
+        if (a === "--tz" && rest[i + 1]) {
+          flags.tz = rest[i + 1];
+          return false;
+        }
+        if (a === "--retries" && rest[i + 1]) {
+          flags.retries = rest[i + 1];
+          return false;
+        }
+        if (a === "--retry-delay" && rest[i + 1]) {
+          flags.retryDelay = rest[i + 1];
+          return false;
+        }
+        if (a === "--timeout" && rest[i + 1]) {
+          flags.timeout = rest[i + 1];
+          return false;
+        }
+        return !(i > 0 && ["--tz", "--retries", "--retry-delay", "--timeout"].includes(rest[i - 1]));
+      });
+      if (filtered.length < 3) {
+        console.error("Usage: wopr cron once <time> <session> <message> [--tz <zone>]");
+        process.exit(1);
+      }
+      if (flags.tz !== null && !isValidTimezone(flags.tz)) {
+        console.error(`Unknown time zone: ${flags.tz}`);
+        process.exit(1);
+      }
+      let runAt: number;
+      try {
+        runAt = parseTimeSpec(filtered[0], flags.tz ?? undefined);
+      } catch (err: unknown) {
+        console.error(err instanceof Error ? err.message : String(err));
         process.exit(1);
       }
-      const runAt = parseTimeSpec(rest[0]);
+      const retry = parseRetryFlags(flags);
+      const timeoutMs = parseTimeoutFlag(flags.timeout);
       await client.addCron({
         name: `once-${Date.now()}`,
         schedule: "once",
-        session: rest[1],
-        message: rest.slice(2).join(" "),
+        session: filtered[1],
+        message: filtered.slice(2).join(" "),
         once: true,
         runAt,
+        timezone: flags.tz ?? undefined,
+        retry,
+        timeoutMs,
       });
       console.log(`Scheduled for ${new Date(runAt).toLocaleString()}`);
       break;
@@ -148,11 +605,56 @@ export async function cronCommandHandler(_ctx: WOPRPluginContext, args: string[]
         else if (msg.type === "complete") console.log(`\n[wopr] ${msg.content}`);
       });
       break;
+    case "run": {
+      if (!rest[0]) {
+        console.error("Usage: wopr cron run <name>");
+        process.exit(1);
+      }
+      const job = (await client.getCrons()).find((c) => c.name === rest[0]);
+      if (!job) {
+        console.error(`Cron job '${rest[0]}' not found`);
+        process.exit(1);
+      }
+      printRunOutcome(job.name, await client.runCron(job.name));
+      break;
+    }
+    case "preview": {
+      const flags: { fromRun: string | null } = { fromRun: null };
+      const filtered = rest.filter((a, i) => {
+        if (a === "--from-run" && rest[i + 1]) {
+          flags.fromRun = rest[i + 1];
+          return false;
+        }
+        return !(i > 0 && rest[i - 1] === "--from-run");
+      });
+      const name = filtered[0];
+      if (!name) {
+        console.error(`Usage: wopr cron preview <name> [--from-run <run-id|${LAST_RUN}>]`);
+        process.exit(1);
+      }
+      const job = (await client.getCrons()).find((c) => c.name === name);
+      if (!job) {
+        console.error(`Cron job '${name}' not found`);
+        process.exit(1);
+      }
+      try {
+        for (const line of await client.previewCron(job.name, flags.fromRun ?? undefined)) console.log(line);
+      } catch (err: unknown) {
+        console.error(err instanceof Error ? err.message : String(err));
+        process.exit(1);
+      }
+      break;
+    }
     case "remove": {
       if (!rest[0]) {
         console.error("Usage: wopr cron remove <name>");
         process.exit(1);
       }
+      const dependents = (await client.getCrons()).filter((c) => c.after?.includes(rest[0]));
+      if (dependents.length > 0) {
+        console.error(explainDependents(rest[0], dependents));
+        process.exit(1);
+      }
       await client.removeCron(rest[0]);
       console.log(`Removed: ${rest[0]}`);
       break;
@@ -162,12 +664,58 @@ export async function cronCommandHandler(_ctx: WOPRPluginContext, args: string[]
       if (crons.length === 0) {
         console.log("No crons.");
       } else {
+        if (isGloballyPaused(ctx)) console.log("All crons are paused (wopr cron resume --all)");
         console.log("Crons:");
         for (const c of crons) {
-          if (c.runAt) {
+          if (c.archivedAt !== undefined) {
+            console.log(`  ${c.name}: ${c.schedule} (${describeArchive(c)})`);
+          } else if (c.deadLetteredAt !== undefined) {
+            console.log(`  ${c.name}: dead-lettered ${new Date(c.deadLetteredAt).toLocaleString()}`);
+          } else if (c.runAt) {
             console.log(`  ${c.name}: once @ ${new Date(c.runAt).toLocaleString()}`);
+            if (isPaused(c)) console.log(`    ${describePausedUntil(c.pausedUntil)}`);
           } else {
-            console.log(`  ${c.name}: ${c.schedule}${c.once ? " (one-time)" : ""}`);
+            const zone = c.timezone ? ` [${c.timezone}]` : "";
+            const phrase = c.schedulePhrase ? ` ("${c.schedulePhrase}")` : "";
+            console.log(`  ${c.name}: ${c.schedule}${phrase}${zone}${c.once ? " (one-time)" : ""}`);
+            if (c.after?.length) {
+              console.log(`    ${explainTrigger(c)}`);
+            } else if (c.every) {
+              try {
+                console.log(`    ${explainInterval(c)}`);
+              } catch {
+                console.log("    (invalid interval)");
+              }
+            } else if (c.rrule) {
+              try {
+                console.log(`    ${explainRecurrence(parseRecurrence(c.rrule, c.timezone))}`);
+              } catch {
+                console.log("    (invalid recurrence)");
+              }
+            }
+            // Unanchored intervals count from the last run, which is unknown until the job has fired
+            const next =
+              (c.every && c.anchor === undefined && c.lastFireAt === undefined) || c.enabled === false
+                ? null
+                : getNextRun(c, Math.max(Date.now(), c.pausedUntil ?? 0), c.lastFireAt);
+            if (isPaused(c)) console.log(`    ${describePausedUntil(c.pausedUntil)}`);
+            if (c.lastFireAt !== undefined) console.log(`    last: ${new Date(c.lastFireAt).toLocaleString()}`);
+            if (next) console.log(`    next: ${next.toLocaleString()}`);
+            if (c.calendars?.length) console.log(`    skips events in: ${c.calendars.join(", ")}`);
+            const window = describeActiveWindow(c);
+            if (window) console.log(`    active ${window}`);
+            const misfireInfo = describeMisfire(c);
+            if (misfireInfo) console.log(`    after downtime: ${misfireInfo}`);
+            if (c.overlap && c.overlap !== "allow") console.log(`    while running: ${c.overlap}`);
+          }
+          const retryInfo = describeRetry(c);
+          if (retryInfo && c.deadLetteredAt === undefined) console.log(`    on failure: ${retryInfo}`);
+          if (c.timeoutMs !== undefined) console.log(`    timeout: ${c.timeoutMs / 1000}s`);
+          if (c.condition) console.log(`    injects ${describeRunCondition(c.condition)}`);
+          if (c.onlyOnChange) console.log(`    injects ${ONLY_ON_CHANGE}`);
+          if (c.pendingRetry) {
+            const at = new Date(c.pendingRetry.at).toLocaleString();
+            console.log(`    retrying: attempt ${c.pendingRetry.attempt} at ${at}`);
           }
           console.log(`    -> ${c.session}: "${c.message}"`);
           if (c.scripts && c.scripts.length > 0) {
@@ -177,6 +725,102 @@ export async function cronCommandHandler(_ctx: WOPRPluginContext, args: string[]
       }
       break;
     }
+    case "dead-letters": {
+      const deadLettered = (await client.getCrons()).filter((c) => c.deadLetteredAt !== undefined);
+      if (deadLettered.length === 0) {
+        console.log("No dead-lettered jobs.");
+        break;
+      }
+      console.log("Dead-lettered jobs:");
+      for (const c of deadLettered) {
+        console.log(`  ${c.name}: failed ${new Date(c.deadLetteredAt ?? 0).toLocaleString()}`);
+        if (c.deadLetterError) console.log(`    error: ${c.deadLetterError}`);
+        console.log(`    -> ${c.session}: "${c.message}"`);
+      }
+      break;
+    }
+    case "replay": {
+      if (!rest[0]) {
+        console.error("Usage: wopr cron replay <name>");
+        process.exit(1);
+      }
+      const job = (await client.getCrons()).find((c) => c.name === rest[0]);
+      if (!job) {
+        console.error(`Cron job '${rest[0]}' not found`);
+        process.exit(1);
+      }
+      if (job.deadLetteredAt === undefined) {
+        console.error(`Cron job '${rest[0]}' is not dead-lettered`);
+        process.exit(1);
+      }
+      await client.updateCron(job.name, replayJob());
+      console.log(`Replayed: ${job.name}`);
+      break;
+    }
+    case "pause": {
+      if (rest[0] === "--all") {
+        await setGlobalPause(ctx, true);
+        console.log("Paused all crons");
+        break;
+      }
+      const flags: { until: string | null } = { until: null };
+      const filtered = rest.filter((a, i) => {
+        if (a === "--until" && rest[i + 1]) {
+          flags.until = rest[i + 1];
+          return false;
+        }
+        return !(i > 0 && rest[i - 1] === "--until");
+      });
+      const name = filtered[0];
+      if (!name) {
+        console.error("Usage: wopr cron pause <name|--all> [--until <time>]");
+        process.exit(1);
+      }
+      const job = (await client.getCrons()).find((c) => c.name === name);
+      if (!job) {
+        console.error(`Cron job '${name}' not found`);
+        process.exit(1);
+      }
+      let pausedUntil: number | undefined;
+      try {
+        pausedUntil = flags.until !== null ? parseTimeSpec(flags.until, job.timezone) : undefined;
+      } catch (err: unknown) {
+        console.error(err instanceof Error ? err.message : String(err));
+        process.exit(1);
+      }
+      await client.updateCron(job.name, pauseJob(job, pausedUntil));
+      console.log(
+        `Paused: ${job.name}${pausedUntil !== undefined ? ` until ${new Date(pausedUntil).toLocaleString()}` : ""}`,
+      );
+      break;
+    }
+    case "resume": {
+      if (!rest[0]) {
+        console.error("Usage: wopr cron resume <name|--all>");
+        process.exit(1);
+      }
+      if (rest[0] === "--all") {
+        if (!isGloballyPaused(ctx)) {
+          console.error("Crons are not all paused");
+          process.exit(1);
+        }
+        await setGlobalPause(ctx, false);
+        console.log("Resumed all crons");
+        break;
+      }
+      const job = (await client.getCrons()).find((c) => c.name === rest[0]);
+      if (!job) {
+        console.error(`Cron job '${rest[0]}' not found`);
+        process.exit(1);
+      }
+      if (!isPaused(job)) {
+        console.error(`Cron job '${rest[0]}' is not paused`);
+        process.exit(1);
+      }
+      await client.updateCron(job.name, resumeJob());
+      console.log(`Resumed: ${job.name}`);
+      break;
+    }
     default:
       printUsage();
   }
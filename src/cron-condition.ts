@@ -0,0 +1,254 @@
+/**
+ * Run conditions - a job with scripts can inject only when a script's exit code, its output or an
+ * expression over the script results says there is something to report
+ */
+
+import type { CronScript, CronScriptResult, RunCondition } from "./cron-schema.js";
+
+type Value = string | number | boolean;
+type CompareOp = "==" | "!=" | ">" | ">=" | "<" | "<=" | "contains" | "matches";
+
+type ConditionNode =
+  | { kind: "or" | "and"; left: ConditionNode; right: ConditionNode }
+  | { kind: "not"; operand: ConditionNode }
+  | { kind: "compare"; op: CompareOp; left: ConditionNode; right: ConditionNode }
+  | { kind: "ref"; script: string; field: ScriptField }
+  | { kind: "literal"; value: Value };
+
+const SCRIPT_FIELDS = ["stdout", "stderr", "exitCode", "error"] as const;
+type ScriptField = (typeof SCRIPT_FIELDS)[number];
+
+const TOKEN =
+  /\s*(?:(\d+(?:\.\d+)?)|"((?:[^"\\]|\\.)*)"|'((?:[^'\\]|\\.)*)'|(&&|\|\||==|!=|>=|<=|[!<>()])|([A-Za-z_][\w-]*(?:\.[A-Za-z]+)?))/y;
+
+interface Token {
+  type: "number" | "string" | "op" | "word";
+  text: string;
+  at: number;
+}
+
+function tokenize(expression: string): Token[] {
+  const tokens: Token[] = [];
+  let at = 0;
+  while (at < expression.length) {
+    if (/^\s+$/.test(expression.slice(at))) break;
+    TOKEN.lastIndex = at;
+    const match = TOKEN.exec(expression);
+    if (!match) throw new Error(`Invalid condition expression: unexpected '${expression.slice(at).trim()[0]}'`);
+    const start = at + match[0].length - match[0].trimStart().length;
+    if (match[1] !== undefined) tokens.push({ type: "number", text: match[1], at: start });
+    else if (match[2] !== undefined || match[3] !== undefined) {
+      tokens.push({ type: "string", text: (match[2] ?? match[3]).replace(/\\(.)/g, "$1"), at: start });
+    } else if (match[4] !== undefined) tokens.push({ type: "op", text: match[4], at: start });
+    else tokens.push({ type: "word", text: match[5], at: start });
+    at = TOKEN.lastIndex;
+  }
+  return tokens;
+}
+
+/**
+ * Parse a condition expression such as `disk > 90 && !disk.error`. Operands are numbers, quoted strings,
+ * true/false and script results: `name` or `name.stdout` (trimmed output), `name.stderr`, `name.exitCode`
+ * and `name.error`. Operators are ==, !=, >, >=, <, <=, contains, matches (a regular expression), !, &&,
+ * || and parentheses. Throws on invalid expressions.
+ */
+export function parseConditionExpression(expression: string): ConditionNode {
+  const tokens = tokenize(expression);
+  let pos = 0;
+  const peek = (): Token | undefined => tokens[pos];
+  const fail = (what: string): never => {
+    const token = peek();
+    throw new Error(`Invalid condition expression: ${what}${token ? ` at '${token.text}'` : " at the end"}`);
+  };
+  const isOp = (text: string) => {
+    const token = peek();
+    return token !== undefined && (token.type === "op" || token.type === "word") && token.text === text;
+  };
+
+  const primary = (): ConditionNode => {
+    const token = peek();
+    if (!token) return fail("expected a value");
+    if (isOp("(")) {
+      pos++;
+      const node = or();
+      if (!isOp(")")) fail("expected ')'");
+      pos++;
+      return node;
+    }
+    if (isOp("!")) {
+      pos++;
+      return { kind: "not", operand: primary() };
+    }
+    pos++;
+    if (token.type === "number") return { kind: "literal", value: Number(token.text) };
+    if (token.type === "string") return { kind: "literal", value: token.text };
+    if (token.type === "word") {
+      if (token.text === "true" || token.text === "false") return { kind: "literal", value: token.text === "true" };
+      const [script, field = "stdout"] = token.text.split(".");
+      if (!(SCRIPT_FIELDS as readonly string[]).includes(field)) {
+        throw new Error(`Invalid condition expression: unknown field '${field}': use ${SCRIPT_FIELDS.join(", ")}`);
+      }
+      return { kind: "ref", script, field: field as ScriptField };
+    }
+    pos--;
+    return fail("expected a value");
+  };
+
+  const comparison = (): ConditionNode => {
+    const left = primary();
+    const op = ["==", "!=", ">=", "<=", ">", "<", "contains", "matches"].find(isOp) as CompareOp | undefined;
+    if (!op) return left;
+    pos++;
+    const right = primary();
+    if (op === "matches") {
+      if (right.kind !== "literal" || typeof right.value !== "string") fail("matches needs a quoted pattern");
+      try {
+        new RegExp((right as { value: string }).value);
+      } catch (err: unknown) {
+        throw new Error(`Invalid condition expression: ${err instanceof Error ? err.message : String(err)}`);
+      }
+    }
+    return { kind: "compare", op, left, right };
+  };
+
+  const and = (): ConditionNode => {
+    let node = comparison();
+    while (isOp("&&")) {
+      pos++;
+      node = { kind: "and", left: node, right: comparison() };
+    }
+    return node;
+  };
+
+  const or = (): ConditionNode => {
+    let node = and();
+    while (isOp("||")) {
+      pos++;
+      node = { kind: "or", left: node, right: and() };
+    }
+    return node;
+  };
+
+  if (tokens.length === 0) throw new Error("Invalid condition expression: it is empty");
+  const node = or();
+  if (pos < tokens.length) fail("unexpected input");
+  return node;
+}
+
+function scriptsIn(node: ConditionNode): string[] {
+  switch (node.kind) {
+    case "ref":
+      return [node.script];
+    case "literal":
+      return [];
+    case "not":
+      return scriptsIn(node.operand);
+    default:
+      return [...scriptsIn(node.left), ...scriptsIn(node.right)];
+  }
+}
+
+function truthy(value: Value): boolean {
+  return typeof value === "string" ? value.length > 0 : Boolean(value);
+}
+
+function evaluate(node: ConditionNode, results: CronScriptResult[]): Value {
+  switch (node.kind) {
+    case "literal":
+      return node.value;
+    case "ref": {
+      const result = results.find((r) => r.name === node.script);
+      if (!result) throw new Error(`no result for script '${node.script}'`);
+      if (node.field === "exitCode") return result.exitCode;
+      if (node.field === "error") return result.error ?? "";
+      return result[node.field].trim();
+    }
+    case "not":
+      return !truthy(evaluate(node.operand, results));
+    case "and":
+      return truthy(evaluate(node.left, results)) && truthy(evaluate(node.right, results));
+    case "or":
+      return truthy(evaluate(node.left, results)) || truthy(evaluate(node.right, results));
+    case "compare": {
+      const left = evaluate(node.left, results);
+      const right = evaluate(node.right, results);
+      if (node.op === "contains") return String(left).includes(String(right));
+      if (node.op === "matches") return new RegExp(String(right)).test(String(left));
+      // Numbers compare numerically, so "91%" > 90; anything else compares as text
+      const a = Number.parseFloat(String(left));
+      const b = Number.parseFloat(String(right));
+      const numeric = !Number.isNaN(a) && !Number.isNaN(b) && (typeof left === "number" || typeof right === "number");
+      if (node.op === "==") return numeric ? a === b : String(left) === String(right);
+      if (node.op === "!=") return numeric ? a !== b : String(left) !== String(right);
+      if (Number.isNaN(a) || Number.isNaN(b)) return false;
+      if (node.op === ">") return a > b;
+      if (node.op === ">=") return a >= b;
+      if (node.op === "<") return a < b;
+      return a <= b;
+    }
+  }
+}
+
+/**
+ * Validate a job's run condition against its scripts, returning an error message or null.
+ */
+export function validateRunCondition(condition: Partial<RunCondition>, scripts: CronScript[] = []): string | null {
+  const { script, exitCode, matches, expression } = condition;
+  if ([exitCode !== undefined, matches !== undefined, expression !== undefined].filter(Boolean).length !== 1) {
+    return "condition needs exactly one of exitCode, matches or expression";
+  }
+  if (scripts.length === 0) return "condition needs the job to have scripts";
+  let referenced: string[];
+  if (expression !== undefined) {
+    try {
+      referenced = scriptsIn(parseConditionExpression(expression));
+    } catch (err: unknown) {
+      return err instanceof Error ? err.message : String(err);
+    }
+  } else {
+    if (!script) return "condition exitCode and matches need a script";
+    if (exitCode !== undefined && !Number.isInteger(exitCode)) return "condition exitCode must be an integer";
+    if (matches !== undefined) {
+      try {
+        new RegExp(matches);
+      } catch (err: unknown) {
+        return `Invalid condition pattern: ${err instanceof Error ? err.message : String(err)}`;
+      }
+    }
+    referenced = [script];
+  }
+  const unknown = referenced.find((name) => !scripts.some((s) => s.name === name));
+  return unknown ? `condition refers to unknown script '${unknown}'` : null;
+}
+
+/**
+ * Check a run condition against the run's script results. Returns why the run should be skipped, or
+ * null when the condition holds.
+ */
+export function checkRunCondition(condition: RunCondition, results: CronScriptResult[]): string | null {
+  try {
+    if (condition.expression !== undefined) {
+      const met = truthy(evaluate(parseConditionExpression(condition.expression), results));
+      return met ? null : `condition not met: ${condition.expression}`;
+    }
+    const result = results.find((r) => r.name === condition.script);
+    if (!result) throw new Error(`no result for script '${condition.script}'`);
+    if (condition.exitCode !== undefined) {
+      if (result.exitCode === condition.exitCode) return null;
+      return `condition not met: ${result.name} exited with ${result.exitCode}, not ${condition.exitCode}`;
+    }
+    if (new RegExp(condition.matches ?? "").test(result.stdout)) return null;
+    return `condition not met: ${result.name} output does not match /${condition.matches}/`;
+  } catch (err: unknown) {
+    return `condition not met: ${err instanceof Error ? err.message : String(err)}`;
+  }
+}
+
+/**
+ * Describe a run condition, e.g. "only when disk exits with 1"
+ */
+export function describeRunCondition(condition: RunCondition): string {
+  if (condition.expression !== undefined) return `only when ${condition.expression}`;
+  if (condition.exitCode !== undefined) return `only when ${condition.script} exits with ${condition.exitCode}`;
+  return `only when ${condition.script} output matches /${condition.matches}/`;
+}
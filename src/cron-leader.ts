@@ -0,0 +1,117 @@
+/**
+ * Leader election - daemons sharing storage compete for a lease; only the holder runs cron jobs
+ */
+
+import { randomUUID } from "node:crypto";
+import { hostname } from "node:os";
+import type { WOPRPluginContext } from "@wopr-network/plugin-types";
+import { acquireLease, releaseLease } from "./cron-repository.js";
+
+export const LEADER_LEASE = "scheduler";
+// A leader that stops renewing (crashed, partitioned) is replaced once its lease expires. Instances
+// compare expiry times across machines, so their clocks must agree to well within this.
+export const LEASE_TTL_MS = 30_000;
+export const HEARTBEAT_MS = 10_000;
+
+export interface LeaderHandlers {
+  /** This instance became leader; `initial` is true when it won on its first attempt after start. */
+  onElected(initial: boolean): void;
+  /** This instance lost the lease or is stopping; resolve once it has stopped running jobs. */
+  onDeposed(): Promise<void> | void;
+}
+
+export interface LeaderElector {
+  readonly instanceId: string;
+  /** Try to take the lease, then keep renewing it (or retrying) every heartbeat. */
+  start(): Promise<void>;
+  /** Stop heartbeats, step down and hand the lease back. */
+  stop(): Promise<void>;
+  /** Whether this instance holds a lease that has not expired. */
+  isLeader(): boolean;
+}
+
+/**
+ * ID of this daemon in lease rows: host and process, plus a random suffix so restarts are told apart
+ */
+export function createInstanceId(): string {
+  return `${hostname()}:${process.pid}:${randomUUID().slice(0, 8)}`;
+}
+
+export function createLeaderElector(
+  ctx: WOPRPluginContext,
+  handlers: LeaderHandlers,
+  options: { instanceId?: string; ttlMs?: number; heartbeatMs?: number } = {},
+): LeaderElector {
+  const instanceId = options.instanceId ?? createInstanceId();
+  const ttlMs = options.ttlMs ?? LEASE_TTL_MS;
+  const heartbeatMs = options.heartbeatMs ?? HEARTBEAT_MS;
+  let leading = false;
+  let leaseUntil = 0;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let beating: Promise<void> = Promise.resolve();
+  let stopped = true;
+
+  const logError = (err: unknown) => {
+    ctx.log.error(`Cron leader lease error: ${err instanceof Error ? err.message : String(err)}`);
+  };
+
+  // A failed renewal keeps leadership until the lease this instance already holds runs out
+  const beat = async (initial: boolean) => {
+    const now = Date.now();
+    let held: boolean;
+    try {
+      held = await acquireLease(LEADER_LEASE, instanceId, ttlMs, now);
+    } catch (err: unknown) {
+      logError(err);
+      held = leading && Date.now() < leaseUntil;
+      if (held || stopped) return;
+    }
+    if (stopped) return;
+    if (held) leaseUntil = now + ttlMs;
+    if (held && !leading) {
+      leading = true;
+      ctx.log.info(`Cron leader lease acquired by ${instanceId}`);
+      handlers.onElected(initial);
+    } else if (!held && leading) {
+      leading = false;
+      ctx.log.warn(`Cron leader lease lost by ${instanceId}; another instance runs cron jobs now`);
+      await handlers.onDeposed();
+    }
+  };
+
+  const schedule = () => {
+    timer = setTimeout(() => {
+      beating = beat(false)
+        .catch(logError)
+        .finally(() => {
+          if (!stopped) schedule();
+        });
+    }, heartbeatMs);
+  };
+
+  return {
+    instanceId,
+
+    async start() {
+      stopped = false;
+      beating = beat(true).catch(logError);
+      await beating;
+      schedule();
+    },
+
+    async stop() {
+      stopped = true;
+      if (timer) clearTimeout(timer);
+      timer = null;
+      await beating;
+      if (!leading) return;
+      leading = false;
+      await handlers.onDeposed();
+      await releaseLease(LEADER_LEASE, instanceId).catch(logError);
+    },
+
+    isLeader() {
+      return leading && Date.now() < leaseUntil;
+    },
+  };
+}
@@ -0,0 +1,94 @@
+/**
+ * Run limiter - caps how many cron runs are in flight, globally and per target session
+ */
+
+export const DEFAULT_MAX_CONCURRENT_RUNS = 5;
+
+export interface RunLimits {
+  /** Most runs in flight at once. */
+  global: number;
+  /** Most runs in flight per target session; unlimited when unset. */
+  perSession?: number;
+}
+
+export interface RunLimiter {
+  /** Run `task` once a slot for `session` is free. */
+  run<T>(session: string, task: () => Promise<T>): Promise<T>;
+  /** Runs in flight. */
+  readonly active: number;
+  /** Runs waiting for a slot. */
+  readonly waiting: number;
+}
+
+/**
+ * Read run limits from plugin config; invalid or missing values fall back to the defaults.
+ */
+export function resolveRunLimits(config?: {
+  maxConcurrentRuns?: unknown;
+  maxConcurrentRunsPerSession?: unknown;
+}): RunLimits {
+  const positive = (value: unknown): number | undefined =>
+    typeof value === "number" && Number.isFinite(value) && value >= 1 ? Math.floor(value) : undefined;
+  return {
+    global: positive(config?.maxConcurrentRuns) ?? DEFAULT_MAX_CONCURRENT_RUNS,
+    perSession: positive(config?.maxConcurrentRunsPerSession),
+  };
+}
+
+/**
+ * Create a limiter that reads its limits on every start, so config changes apply to waiting runs.
+ */
+export function createRunLimiter(getLimits: () => RunLimits): RunLimiter {
+  let active = 0;
+  const activeBySession = new Map<string, number>();
+  const queue: Array<{ session: string; start: () => void }> = [];
+
+  const release = (session: string) => {
+    active--;
+    const count = (activeBySession.get(session) ?? 1) - 1;
+    if (count > 0) activeBySession.set(session, count);
+    else activeBySession.delete(session);
+  };
+
+  // Waiting runs start in arrival order, but one held back by its session's limit does not block the rest
+  const pump = () => {
+    const limits = getLimits();
+    for (let i = 0; i < queue.length && active < limits.global; ) {
+      const { session, start } = queue[i];
+      const sessionActive = activeBySession.get(session) ?? 0;
+      if (limits.perSession !== undefined && sessionActive >= limits.perSession) {
+        i++;
+        continue;
+      }
+      queue.splice(i, 1);
+      active++;
+      activeBySession.set(session, sessionActive + 1);
+      start();
+    }
+  };
+
+  return {
+    run<T>(session: string, task: () => Promise<T>): Promise<T> {
+      return new Promise<T>((resolve, reject) => {
+        const start = () => {
+          task()
+            .then(resolve, reject)
+            .finally(() => {
+              release(session);
+              pump();
+            });
+        };
+        queue.push({ session, start });
+        pump();
+      });
+    },
+
+    get active() {
+      return active;
+    },
+
+    get waiting() {
+      return queue.length;
+    },
+  };
+}
@@ -0,0 +1,89 @@
+/**
+ * Misfire handling - decide which runs missed while the daemon was down are replayed on startup
+ */
+
+import { clipToActiveWindow, computeJobRuns, parseDuration } from "./cron.js";
+import { findExclusion } from "./cron-calendar.js";
+import type { CronCalendarRow, CronJobRow, MisfirePolicy } from "./cron-schema.js";
+
+export const DEFAULT_MISFIRE_CAP = 10;
+const MAX_MISSED_SCAN = 10000; // Occurrences examined per job; misses beyond this are not counted
+const SCAN_BATCH = 100;
+
+export interface CatchUpPlan {
+  /** Occurrences missed between the last fire and now. */
+  missed: number;
+  /** Scheduled times to run now, oldest first. */
+  run: number[];
+  /** Latest missed occurrence, which becomes the job's last fire time whether or not it runs. */
+  latest: number | null;
+}
+
+/**
+ * Validate misfire settings, returning an error message or null.
+ */
+export function validateMisfireOptions(options: {
+  misfirePolicy?: string;
+  misfireCap?: number;
+  misfireGrace?: string;
+}): string | null {
+  const { misfirePolicy, misfireCap, misfireGrace } = options;
+  if (misfirePolicy !== undefined && !["skip", "fire-once", "fire-all"].includes(misfirePolicy)) {
+    return `Unknown misfire policy '${misfirePolicy}': use skip, fire-once or fire-all`;
+  }
+  if (misfireCap !== undefined && (!Number.isInteger(misfireCap) || misfireCap < 1)) {
+    return "misfireCap must be a positive integer";
+  }
+  if (misfireGrace !== undefined) {
+    try {
+      parseDuration(misfireGrace);
+    } catch (err: unknown) {
+      return err instanceof Error ? err.message : String(err);
+    }
+  }
+  return null;
+}
+
+/**
+ * Describe a job's misfire handling, e.g. "replay up to 10 missed runs within 1h", or null for the default.
+ */
+export function describeMisfire(job: Pick<CronJobRow, "misfirePolicy" | "misfireCap" | "misfireGrace">): string | null {
+  const policy: MisfirePolicy = job.misfirePolicy ?? "skip";
+  if (policy === "skip") return null;
+  const within = job.misfireGrace ? ` within ${job.misfireGrace}` : "";
+  if (policy === "fire-once") return `run once for missed runs${within}`;
+  return `replay up to ${job.misfireCap ?? DEFAULT_MISFIRE_CAP} missed runs${within}`;
+}
+
+/**
+ * Work out which occurrences a job missed after `since` (its last fire) and before `until`, and which of
+ * them its misfire policy replays. Occurrences outside the active window or covered by one of `calendars`
+ * were never due, so they are not misses. "fire-all" replays the most recent `misfireCap` misses;
+ * a grace window drops misses older than `until - misfireGrace`.
+ */
+export function planCatchUp(job: CronJobRow, since: number, until: number, calendars: CronCalendarRow[]): CatchUpPlan {
+  const policy: MisfirePolicy = job.misfirePolicy ?? "skip";
+  const keep = policy === "fire-all" ? (job.misfireCap ?? DEFAULT_MISFIRE_CAP) : 1;
+  const recent: number[] = [];
+  let missed = 0;
+  let cursor = since;
+  scan: while (missed < MAX_MISSED_SCAN) {
+    // Passing the cursor as the last fire steps interval jobs forward like the other schedule types
+    const batch = computeJobRuns(job, cursor, SCAN_BATCH, cursor).filter((d) => d.getTime() > cursor);
+    if (batch.length === 0) break;
+    for (const time of clipToActiveWindow({ startAt: job.startAt, endAt: job.endAt }, batch)) {
+      if (time.getTime() >= until) break scan;
+      if (findExclusion(calendars, time.getTime(), job.timezone)) continue;
+      missed++;
+      recent.push(time.getTime());
+      if (recent.length > keep) recent.shift();
+    }
+    cursor = batch[batch.length - 1].getTime();
+    if (cursor >= until) break;
+  }
+
+  const latest = recent.length > 0 ? recent[recent.length - 1] : null;
+  if (policy === "skip") return { missed, run: [], latest };
+  const grace = job.misfireGrace ? parseDuration(job.misfireGrace) : Number.POSITIVE_INFINITY;
+  return { missed, run: recent.filter((t) => until - t <= grace), latest };
+}
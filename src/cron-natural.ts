@@ -0,0 +1,224 @@
+/**
+ * Natural-language schedules - deterministic, offline phrase-to-cron conversion
+ *
+ * Understands phrases such as "every weekday at 9am", "every 15 minutes during business hours"
+ * or "first monday of each month at noon" and turns them into five-field cron expressions.
+ */
+
+import { isRebootSchedule, parseClockTime, parseCronSchedule } from "./cron.js";
+
+const WEEKDAY_WORDS = ["sunday", "monday", "tuesday", "wednesday", "thursday", "friday", "saturday"];
+const MONTH_WORDS = [
+  "january",
+  "february",
+  "march",
+  "april",
+  "may",
+  "june",
+  "july",
+  "august",
+  "september",
+  "october",
+  "november",
+  "december",
+];
+const ORDINAL_WORDS: Record<string, number> = { first: 1, second: 2, third: 3, fourth: 4, fifth: 5 };
+
+/** Example phrases offered as suggestions when a phrase cannot be translated. */
+export const NATURAL_SCHEDULE_EXAMPLES = [
+  "every minute",
+  "every 15 minutes",
+  "every 2 hours",
+  "every day at 9am",
+  "every weekday at 9am",
+  "every 15 minutes during business hours",
+  "every monday, wednesday and friday at 17:30",
+  "weekends at 10am",
+  "on the 1st and 15th at noon",
+  "first monday of each month at noon",
+  "last friday of the month at 16:00",
+  "last day of the month at 18:00",
+  "every january 1st at midnight",
+];
+
+// Words that carry no meaning once the schedule parts have been extracted
+const FILLER_WORDS = new Set(["at", "on", "the", "of", "each", "every", "and", "in", "month", "day", "days"]);
+
+const DAY_NAME = `(${WEEKDAY_WORDS.map((d) => `${d}s?|${d.slice(0, 3)}`).join("|")})`;
+const TIME = String.raw`(?:noon|midnight|\d{1,2}(?::\d{2})?\s*(?:am|pm)?)`;
+const ORDINAL_DAY = String.raw`(\d{1,2})(?:st|nd|rd|th)`;
+
+function weekdayIndex(word: string): number {
+  return WEEKDAY_WORDS.findIndex((d) => word.startsWith(d.slice(0, 3)));
+}
+
+function suggestionsFor(phrase: string): string[] {
+  const words = new Set(phrase.toLowerCase().split(/\W+/).filter(Boolean));
+  return NATURAL_SCHEDULE_EXAMPLES.map((example, index) => ({
+    example,
+    index,
+    score: example.split(/\W+/).filter((w) => words.has(w)).length,
+  }))
+    .sort((a, b) => b.score - a.score || a.index - b.index)
+    .slice(0, 3)
+    .map((s) => s.example);
+}
+
+function reject(phrase: string, reason: string): never {
+  const suggestions = suggestionsFor(phrase)
+    .map((s) => `"${s}"`)
+    .join(", ");
+  throw new Error(`Could not translate phrase: ${reason}. Try for example: ${suggestions}`);
+}
+
+/**
+ * Translate a natural-language phrase into a five-field cron expression.
+ * Throws with suggested phrases when the phrase cannot be translated.
+ */
+export function parseNaturalSchedule(phrase: string): string {
+  let text = ` ${phrase
+    .toLowerCase()
+    .replace(/[,.]/g, " ")
+    .replace(/\s*-\s*/g, " through ")
+    .replace(/\s+/g, " ")
+    .trim()} `;
+  let recognised = false;
+  const take = (re: RegExp): RegExpMatchArray | null => {
+    const match = text.match(re);
+    if (match) {
+      text = text.replace(match[0], " ");
+      recognised = true;
+    }
+    return match;
+  };
+
+  let minute: string | null = null;
+  let hour: string | null = null;
+  let day = "*";
+  let month = "*";
+  let weekday: string | null = null;
+  const fail = (reason: string): never => reject(phrase, reason);
+
+  const businessHours = take(/ (?:during|in|within) (?:business|office|working) hours /);
+
+  // Fixed intervals
+  const everyMinutes = take(/ every (\d+) minutes? /);
+  const everyHours = take(/ every (\d+) hours? /);
+  if (everyMinutes) {
+    const n = parseInt(everyMinutes[1], 10);
+    if (n < 1 || n > 59 || 60 % n !== 0) fail(`every ${n} minutes does not divide the hour; use every: "${n}m"`);
+    minute = n === 1 ? "*" : `*/${n}`;
+  } else if (take(/ every minute /)) {
+    minute = "*";
+  }
+  if (everyHours) {
+    const n = parseInt(everyHours[1], 10);
+    if (n < 1 || n > 23 || 24 % n !== 0) fail(`every ${n} hours does not divide the day; use every: "${n}h"`);
+    minute ??= "0";
+    hour = n === 1 ? "*" : `*/${n}`;
+  } else if (take(/ (?:every hour|hourly) /)) {
+    minute ??= "0";
+    hour = "*";
+  }
+
+  // Times of day: "at 9am", "at 9:30 and 17:30", "at noon"
+  const times = take(new RegExp(` (?:at )?(${TIME}(?: and ${TIME})*) `));
+  if (times) {
+    if (minute !== null || hour !== null) fail("a time of day cannot be combined with an interval");
+    let parsed: Array<{ hour: number; minute: number }>;
+    try {
+      parsed = times[1].split(" and ").map((t) => parseClockTime(t.trim()));
+    } catch (err: unknown) {
+      return fail(err instanceof Error ? err.message : String(err));
+    }
+    const minutes = [...new Set(parsed.map((t) => t.minute))];
+    const hours = [...new Set(parsed.map((t) => t.hour))];
+    if (minutes.length > 1 && hours.length > 1) fail("times with different minutes need separate jobs");
+    minute = minutes.join(",");
+    hour = hours.join(",");
+  }
+
+  // Day-of-month and day-of-week forms
+  const nth = take(
+    new RegExp(` (first|second|third|fourth|fifth|last|1st|2nd|3rd|4th|5th) ${DAY_NAME} of (?:each|every|the) month `),
+  );
+  if (nth) {
+    const index = weekdayIndex(nth[2]);
+    weekday = nth[1] === "last" ? `${index}L` : `${index}#${ORDINAL_WORDS[nth[1]] ?? parseInt(nth[1], 10)}`;
+  }
+  if (take(/ last weekday of (?:each|every|the) month /)) day = "LW";
+  else if (take(/ last day of (?:each|every|the) month /)) day = "L";
+
+  const monthName = take(new RegExp(` (?:every |in |on )?(${MONTH_WORDS.join("|")})(?: ${ORDINAL_DAY})? `));
+  if (monthName) {
+    month = String(MONTH_WORDS.indexOf(monthName[1]) + 1);
+    if (monthName[2]) day = monthName[2];
+  }
+
+  const days = take(new RegExp(` (?:on )?(?:the )?${ORDINAL_DAY}((?: and (?:the )?\\d{1,2}(?:st|nd|rd|th))*) `));
+  if (days) {
+    if (day !== "*") fail("more than one day-of-month given");
+    day = [days[1], ...(days[2].match(/\d{1,2}/g) ?? [])].join(",");
+  }
+
+  if (take(/ (?:on |every )?weekdays? /)) weekday = "1-5";
+  else if (take(/ (?:on |every )?weekends? /)) weekday = "0,6";
+  const dayRange = take(new RegExp(` ${DAY_NAME} (?:through|to|thru|until) ${DAY_NAME} `));
+  if (dayRange) weekday = `${weekdayIndex(dayRange[1])}-${weekdayIndex(dayRange[2])}`;
+  const dayNames = take(new RegExp(` (?:on |every )?${DAY_NAME}((?: (?:and )?${DAY_NAME})*) `));
+  if (dayNames) {
+    if (weekday !== null) fail("more than one set of weekdays given");
+    const names = `${dayNames[1]} ${dayNames[2]}`.split(" ").filter((w) => w && w !== "and");
+    weekday = names.map(weekdayIndex).join(",");
+  }
+
+  // Period words
+  if (take(/ (?:every day|daily|each day) /)) {
+    // every day is the default
+  } else if (take(/ (?:every week|weekly) /)) {
+    weekday ??= "0";
+  } else if (take(/ (?:every month|monthly) /)) {
+    if (day === "*" && weekday === null) day = "1";
+  } else if (take(/ (?:every year|yearly|annually) /)) {
+    if (day === "*") day = "1";
+    if (month === "*") month = "1";
+  }
+
+  const leftover = text
+    .split(" ")
+    .filter((w) => w && !FILLER_WORDS.has(w))
+    .join(" ");
+  if (leftover) fail(`did not understand '${leftover}'`);
+
+  if (businessHours) {
+    if (hour !== null && !hour.startsWith("*")) fail("business hours cannot be combined with a time of day");
+    hour = hour?.startsWith("*/") ? `9-17${hour.slice(1)}` : "9-17";
+    weekday ??= "1-5";
+    minute ??= "0";
+  }
+  if (!recognised) fail("no schedule found");
+
+  // Minute intervals run around the clock unless hours were given
+  const defaultHour = minute?.startsWith("*") ? "*" : "0";
+  const expression = [minute ?? "0", hour ?? defaultHour, day, month, weekday ?? "*"].join(" ");
+  parseCronSchedule(expression);
+  return expression;
+}
+
+/**
+ * Resolve user schedule input: cron expressions and macros are returned unchanged; anything else is
+ * translated from natural language and returned with the original phrase.
+ */
+export function resolveScheduleInput(input: string): { schedule: string; phrase?: string } {
+  const trimmed = input.trim();
+  if (isRebootSchedule(trimmed)) return { schedule: trimmed };
+  try {
+    parseCronSchedule(trimmed);
+    return { schedule: trimmed };
+  } catch (err: unknown) {
+    // Input shaped like an expression gets the precise cron error rather than phrase suggestions
+    const fields = trimmed.split(/\s+/);
+    if (trimmed.startsWith("@") || (fields.length === 5 && /^[\d*,/-]+$/.test(fields[0]))) throw err;
+  }
+  return { schedule: parseNaturalSchedule(trimmed), phrase: trimmed };
+}
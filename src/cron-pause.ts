@@ -0,0 +1,67 @@
+/**
+ * Pausing - jobs can be paused until resumed or until a given time, and all jobs at once through plugin config
+ */
+
+import type { WOPRPluginContext } from "@wopr-network/plugin-types";
+import type { CronJobRow } from "./cron-schema.js";
+import { PLUGIN_NAME } from "./plugin-name.js";
+
+type PauseFields = Pick<CronJobRow, "enabled" | "pausedUntil" | "pausedAt">;
+
+/**
+ * Whether a job is paused at `at`: disabled, or inside its pausedUntil window
+ */
+export function isPaused(job: PauseFields, at: number = Date.now()): boolean {
+  return job.enabled === false || (job.pausedUntil !== undefined && at < job.pausedUntil);
+}
+
+/**
+ * Describe a paused job's state, e.g. "paused until 2025-01-16T09:00:00.000Z", or null when it is not paused.
+ */
+export function describePause(job: PauseFields, at: number = Date.now()): string | null {
+  if (!isPaused(job, at)) return null;
+  if (job.enabled === false) return "paused";
+  return `paused until ${new Date(job.pausedUntil ?? at).toISOString()}`;
+}
+
+/**
+ * The update that pauses a job, indefinitely or until `until`, clearing the other kind of pause. An
+ * earlier pause whose missed runs have not been handled yet keeps its start, so the misfire policy covers both.
+ */
+export function pauseJob(job: PauseFields, until?: number, now: number = Date.now()): PauseFields {
+  return {
+    enabled: until === undefined ? false : undefined,
+    pausedUntil: until,
+    pausedAt: job.pausedAt ?? now,
+  };
+}
+
+/**
+ * The update that resumes a job. pausedAt is kept: the tick loop applies the job's misfire policy
+ * to the runs missed since then and clears it.
+ */
+export function resumeJob(): Pick<PauseFields, "enabled" | "pausedUntil"> {
+  return { enabled: undefined, pausedUntil: undefined };
+}
+
+/**
+ * Whether the global pause switch in plugin config is on
+ */
+export function isGloballyPaused(ctx: WOPRPluginContext): boolean {
+  return ctx.getConfig<{ paused?: boolean }>()?.paused === true;
+}
+
+/**
+ * Turn the global pause switch on or off, keeping the rest of the plugin config. The change is announced
+ * as a config change, which the scheduler watches to catch up as soon as the pause is lifted.
+ */
+export async function setGlobalPause(ctx: WOPRPluginContext, paused: boolean): Promise<void> {
+  const config = ctx.getConfig<Record<string, unknown>>() ?? {};
+  await ctx.saveConfig({ ...config, paused });
+  await ctx.events.emit("config:change", {
+    key: "paused",
+    oldValue: config.paused,
+    newValue: paused,
+    plugin: PLUGIN_NAME,
+  });
+}
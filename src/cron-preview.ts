@@ -0,0 +1,152 @@
+/**
+ * Previews - render a job's message as its next run would, without injecting it or recording a run
+ */
+
+import {
+  activeFrom,
+  clipToActiveWindow,
+  computeNextIntervalRuns,
+  computeNextRuns,
+  executeCronScripts,
+  resolveScriptTemplates,
+} from "./cron.js";
+import { nextAllowedRuns } from "./cron-calendar.js";
+import { outputChanged, resolveDiffTemplates, snapshotOutput, UNCHANGED_REASON } from "./cron-change.js";
+import { checkRunCondition } from "./cron-condition.js";
+import { getCalendars, getCronHistory, getCronRun, getLastSuccessfulRun } from "./cron-repository.js";
+import { computeNextOccurrences, parseRecurrence } from "./cron-rrule.js";
+import type { CronJobRow, CronScriptResult } from "./cron-schema.js";
+import { explainTrigger } from "./cron-workflow.js";
+
+/** `fromRun` value that picks the job's most recent run with script output */
+export const LAST_RUN = "last";
+
+const DEFAULT_PREVIEW_RUNS = 3;
+
+export interface CronPreviewOptions {
+  /** Whether scripts may run (the cronScriptsEnabled setting). */
+  scriptsEnabled: boolean;
+  /** Take script outputs from this recorded run, or from the latest one with LAST_RUN, instead of running scripts. */
+  fromRun?: string;
+  /** How many next fire times to list (default 3). */
+  count?: number;
+  now?: number;
+}
+
+export interface CronPreview {
+  /** The message with script outputs filled in */
+  message: string;
+  /** Where the script outputs came from: freshly run scripts, a recorded run, or nowhere */
+  source: "scripts" | "run" | "none";
+  /** The recorded run the outputs came from */
+  runId?: string;
+  scriptResults: CronScriptResult[];
+  /** Placeholders left in the message, e.g. ["{{disk}}"] */
+  unresolved: string[];
+  nextRuns: Date[];
+}
+
+/**
+ * Upcoming fire times of a stored job, leaving out those its exclusion calendars cover
+ */
+export async function upcomingRuns(job: CronJobRow, count: number, from: number = Date.now()): Promise<Date[]> {
+  if (job.archivedAt !== undefined || job.deadLetteredAt !== undefined || job.enabled === false) return [];
+  if (job.after?.length) return [];
+  if (job.runAt) return [new Date(Math.max(job.runAt, job.pausedUntil ?? 0))];
+  const lastFire = job.every ? (job.lastFireAt ?? (await getLastSuccessfulRun(job.name))) : null;
+  const next = (start: number, n: number): Date[] => {
+    if (job.every) return computeNextIntervalRuns(job, lastFire, start, n);
+    if (job.rrule) return computeNextOccurrences(parseRecurrence(job.rrule, job.timezone), start, n);
+    return computeNextRuns(job.schedule, start, n, job.timezone, job.dayMatch);
+  };
+  const start = activeFrom(job, Math.max(from, job.pausedUntil ?? from));
+  const names = job.calendars ?? [];
+  if (names.length === 0) return clipToActiveWindow(job, next(start, count));
+  const calendars = (await getCalendars()).filter((c) => names.includes(c.name));
+  return clipToActiveWindow(job, nextAllowedRuns(next, calendars, count, start, job.timezone));
+}
+
+/**
+ * The distinct {{placeholders}} left in a message, in order of appearance
+ */
+export function findUnresolvedPlaceholders(message: string): string[] {
+  return [...new Set(message.match(/\{\{[^{}]+\}\}/g) ?? [])];
+}
+
+// Script outputs of a recorded run of `job`, by ID or the latest one that has any
+async function recordedResults(
+  job: CronJobRow,
+  fromRun: string,
+): Promise<{ runId: string; results: CronScriptResult[] }> {
+  if (fromRun === LAST_RUN) {
+    const { entries } = await getCronHistory({ name: job.name, limit: 50 });
+    const run = entries.find((entry) => entry.scriptResults?.length);
+    if (!run) throw new Error(`No recorded run of '${job.name}' has script output`);
+    return { runId: run.id, results: run.scriptResults ?? [] };
+  }
+  const run = await getCronRun(fromRun);
+  if (!run) throw new Error(`Run '${fromRun}' not found`);
+  if (run.cronName !== job.name) throw new Error(`Run '${fromRun}' is a run of '${run.cronName}', not '${job.name}'`);
+  return { runId: run.id, results: run.scriptResults ?? [] };
+}
+
+/**
+ * Render a job's message from freshly run scripts or a recorded run's outputs, diffing them against the
+ * job's last output for {{name.diff}}, and list what is still unresolved and when it fires next. Nothing
+ * is injected and no run is recorded. Throws when `fromRun` names no usable run.
+ */
+export async function previewJob(job: CronJobRow, options: CronPreviewOptions): Promise<CronPreview> {
+  const now = options.now ?? Date.now();
+  let source: CronPreview["source"] = "none";
+  let runId: string | undefined;
+  let scriptResults: CronScriptResult[] = [];
+  if (options.fromRun !== undefined) {
+    ({ runId, results: scriptResults } = await recordedResults(job, options.fromRun));
+    source = "run";
+  } else if (job.scripts?.length && options.scriptsEnabled) {
+    scriptResults = await executeCronScripts(job.scripts);
+    source = "scripts";
+  }
+  const message = resolveDiffTemplates(
+    resolveScriptTemplates(job.message, scriptResults),
+    job.lastOutput,
+    scriptResults,
+  );
+  let nextRuns: Date[] = [];
+  try {
+    nextRuns = await upcomingRuns(job, options.count ?? DEFAULT_PREVIEW_RUNS, now);
+  } catch {
+    // Invalid schedules never fire
+  }
+  return { message, source, runId, scriptResults, unresolved: findUnresolvedPlaceholders(message), nextRuns };
+}
+
+/**
+ * Describe a preview as lines of text: where the outputs came from, script errors, unresolved
+ * placeholders, next fire times and the rendered message.
+ */
+export function describePreview(job: CronJobRow, preview: CronPreview): string[] {
+  const lines = [`Preview of ${job.name} -> ${job.session}`];
+  const scripts = job.scripts?.length ?? 0;
+  if (preview.source === "run") lines.push(`Script output: from run ${preview.runId}`);
+  else if (preview.source === "scripts") lines.push(`Script output: ran ${scripts} script(s)`);
+  else if (scripts > 0) lines.push("Script output: none - scripts are disabled (cronScriptsEnabled)");
+  for (const result of preview.scriptResults.filter((r) => r.error)) {
+    lines.push(`Script error: ${result.name} (exit ${result.exitCode}): ${result.error}`);
+  }
+  if (job.condition && preview.source !== "none") {
+    const reason = checkRunCondition(job.condition, preview.scriptResults);
+    lines.push(reason ? `Would be skipped: ${reason}` : "Condition: met");
+  }
+  // Without scripts the rendered message is what gets compared
+  if (job.onlyOnChange && (preview.source !== "none" || !job.scripts?.length)) {
+    const changed = outputChanged(job.lastOutput, snapshotOutput(job, preview.message, preview.scriptResults));
+    lines.push(changed ? "Output: changed since the last run" : `Would be skipped: ${UNCHANGED_REASON}`);
+  }
+  if (preview.unresolved.length > 0) lines.push(`Unresolved placeholders: ${preview.unresolved.join(", ")}`);
+  if (job.after?.length) lines.push(`Next runs: ${explainTrigger(job)}`);
+  else if (preview.nextRuns.length === 0) lines.push("Next runs: none");
+  else lines.push(`Next runs: ${preview.nextRuns.map((d) => d.toISOString()).join(", ")}`);
+  lines.push("", "Message:", preview.message);
+  return lines;
+}
@@ -4,11 +4,18 @@
 
 import { randomUUID } from "node:crypto";
 import type { Filter, Repository, StorageApi } from "@wopr-network/plugin-types";
-import type { CronJobRow, CronRunRow } from "./cron-schema.js";
+import type { CronCalendarRow, CronJobRow, CronLeaseRow, CronRunRow } from "./cron-schema.js";
 import { cronPluginSchema } from "./cron-schema.js";
 
 let jobsRepo: Repository<CronJobRow> | null = null;
 let runsRepo: Repository<CronRunRow> | null = null;
+let calendarsRepo: Repository<CronCalendarRow> | null = null;
+let leasesRepo: Repository<CronLeaseRow> | null = null;
+const changeListeners = new Set<(name: string) => void>();
+// Names of the jobs that run after each job, built from one scan and kept current as jobs change here:
+// a changed job's `after` is re-read on the next lookup
+let dependentsIndex: Map<string, Set<string>> | null = null;
+const staleDependents = new Set<string>();
 
 /**
  * Initialize cron storage (registers schema and gets repositories)
@@ -17,6 +24,9 @@ export async function initCronStorage(storage: StorageApi): Promise<void> {
   await storage.register(cronPluginSchema);
   jobsRepo = storage.getRepository<CronJobRow>("cron", "jobs");
   runsRepo = storage.getRepository<CronRunRow>("cron", "runs");
+  calendarsRepo = storage.getRepository<CronCalendarRow>("cron", "calendars");
+  leasesRepo = storage.getRepository<CronLeaseRow>("cron", "leases");
+  dependentsIndex = null;
 }
 
 function getJobsRepo(): Repository<CronJobRow> {
@@ -29,6 +39,30 @@ function getRunsRepo(): Repository<CronRunRow> {
   return runsRepo;
 }
 
+function getCalendarsRepo(): Repository<CronCalendarRow> {
+  if (!calendarsRepo) throw new Error("Cron storage not initialized - call initCronStorage() first");
+  return calendarsRepo;
+}
+
+function getLeasesRepo(): Repository<CronLeaseRow> {
+  if (!leasesRepo) throw new Error("Cron storage not initialized - call initCronStorage() first");
+  return leasesRepo;
+}
+
+/**
+ * Subscribe to job changes made through this repository; the listener gets the job name.
+ * Returns an unsubscribe function.
+ */
+export function onCronChange(listener: (name: string) => void): () => void {
+  changeListeners.add(listener);
+  return () => changeListeners.delete(listener);
+}
+
+function notifyCronChange(name: string): void {
+  staleDependents.add(name);
+  for (const listener of changeListeners) listener(name);
+}
+
 /**
  * Get all cron jobs
  */
@@ -43,6 +77,49 @@ export async function getCron(name: string): Promise<CronJobRow | null> {
   return await getJobsRepo().findById(name);
 }
 
+function indexDependent(index: Map<string, Set<string>>, job: Pick<CronJobRow, "name" | "after">): void {
+  for (const upstream of job.after ?? []) {
+    const names = index.get(upstream) ?? new Set<string>();
+    names.add(job.name);
+    index.set(upstream, names);
+  }
+}
+
+async function getDependentsIndex(): Promise<Map<string, Set<string>>> {
+  if (!dependentsIndex) {
+    // Changes made during the scan stay stale and are re-read below
+    staleDependents.clear();
+    const index = new Map<string, Set<string>>();
+    for (const job of await getJobsRepo().findMany()) indexDependent(index, job);
+    dependentsIndex = index;
+  }
+  const index = dependentsIndex;
+  for (const name of [...staleDependents]) {
+    staleDependents.delete(name);
+    for (const names of index.values()) names.delete(name);
+    const job = await getJobsRepo().findById(name);
+    if (job) indexDependent(index, job);
+  }
+  return index;
+}
+
+/**
+ * Whether any job runs after `name`, answered from the dependents index
+ */
+export async function hasDependentCrons(name: string): Promise<boolean> {
+  return ((await getDependentsIndex()).get(name)?.size ?? 0) > 0;
+}
+
+/**
+ * Get the jobs that run after `name` (list it in `after`). Only those jobs are read; a job nothing runs
+ * after needs no query.
+ */
+export async function getDependentCrons(name: string): Promise<CronJobRow[]> {
+  const names = [...((await getDependentsIndex()).get(name) ?? [])];
+  const jobs = await Promise.all(names.map((dependent) => getJobsRepo().findById(dependent)));
+  return jobs.filter((job): job is CronJobRow => job?.after?.includes(name) === true);
+}
+
 /**
  * Add or update a cron job (upsert by name)
  */
@@ -54,21 +131,53 @@ export async function addCron(job: CronJobRow): Promise<void> {
   } else {
     await repo.insert(job);
   }
+  notifyCronChange(job.name);
+}
+
+/**
+ * Update fields of an existing cron job
+ */
+export async function updateCron(name: string, data: Partial<CronJobRow>): Promise<void> {
+  await getJobsRepo().update(name, data);
+  notifyCronChange(name);
 }
 
 /**
  * Remove a cron job by name
  */
 export async function removeCron(name: string): Promise<boolean> {
-  return await getJobsRepo().delete(name);
+  const removed = await getJobsRepo().delete(name);
+  if (removed) notifyCronChange(name);
+  return removed;
 }
 
 /**
- * Add a cron run entry to history
+ * Add a cron run entry to history, returning its ID
  */
-export async function addCronRun(run: Omit<CronRunRow, "id">): Promise<void> {
+export async function addCronRun(run: Omit<CronRunRow, "id">): Promise<string> {
   const id = randomUUID();
   await getRunsRepo().insert({ id, ...run });
+  return id;
+}
+
+/**
+ * Get a cron run by ID
+ */
+export async function getCronRun(id: string): Promise<CronRunRow | null> {
+  return await getRunsRepo().findById(id);
+}
+
+/**
+ * Get the start time of a job's most recent successful run, or null if it never succeeded
+ */
+export async function getLastSuccessfulRun(name: string): Promise<number | null> {
+  const [last] = await getRunsRepo()
+    .query()
+    .where({ cronName: name, status: "success" })
+    .orderBy("startedAt", "desc")
+    .limit(1)
+    .execute();
+  return last?.startedAt ?? null;
 }
 
 /**
@@ -82,6 +191,7 @@ export async function getCronHistory(options?: {
   since?: number;
   successOnly?: boolean;
   failedOnly?: boolean;
+  workflowRunId?: string;
 }): Promise<{ entries: CronRunRow[]; total: number; hasMore: boolean }> {
   const repo = getRunsRepo();
 
@@ -96,10 +206,13 @@ export async function getCronHistory(options?: {
   if (options?.since) {
     filter.startedAt = { $gte: options.since };
   }
+  if (options?.workflowRunId) {
+    filter.workflowRunId = options.workflowRunId;
+  }
   if (options?.successOnly) {
     filter.status = "success";
   } else if (options?.failedOnly) {
-    filter.status = "failure";
+    filter.status = { $in: ["failure", "timeout"] };
   }
 
   // Get total count
@@ -131,10 +244,88 @@ export async function clearCronHistory(options?: { name?: string; session?: stri
   return await repo.deleteMany({});
 }
 
+/**
+ * Get all exclusion calendars
+ */
+export async function getCalendars(): Promise<CronCalendarRow[]> {
+  return await getCalendarsRepo().findMany();
+}
+
+/**
+ * Get an exclusion calendar by name
+ */
+export async function getCalendar(name: string): Promise<CronCalendarRow | null> {
+  return await getCalendarsRepo().findById(name);
+}
+
+/**
+ * Add or replace an exclusion calendar (upsert by name)
+ */
+export async function saveCalendar(calendar: CronCalendarRow): Promise<void> {
+  const repo = getCalendarsRepo();
+  const existing = await repo.findById(calendar.name);
+  if (existing) {
+    await repo.update(calendar.name, calendar);
+  } else {
+    await repo.insert(calendar);
+  }
+}
+
+/**
+ * Remove an exclusion calendar by name
+ */
+export async function removeCalendar(name: string): Promise<boolean> {
+  return await getCalendarsRepo().delete(name);
+}
+
+/**
+ * Get a lease by name
+ */
+export async function getLease(name: string): Promise<CronLeaseRow | null> {
+  return await getLeasesRepo().findById(name);
+}
+
+/**
+ * Take or renew a lease for `holder` until `now + ttlMs`. Succeeds when the lease is free, expired or
+ * already held by `holder`; returns whether `holder` now holds it.
+ */
+export async function acquireLease(name: string, holder: string, ttlMs: number, now = Date.now()): Promise<boolean> {
+  const repo = getLeasesRepo();
+  const lease = await repo.findById(name);
+  const expiresAt = now + ttlMs;
+  if (!lease) {
+    try {
+      await repo.insert({ name, holder, acquiredAt: now, renewedAt: now, expiresAt });
+      return true;
+    } catch {
+      // Another instance inserted the lease first
+      return (await repo.findById(name))?.holder === holder;
+    }
+  }
+  if (lease.holder !== holder && lease.expiresAt > now) return false;
+  // Only update the row as it was read, so two instances taking over an expired lease cannot both win
+  const acquiredAt = lease.holder === holder ? lease.acquiredAt : now;
+  const updated = await repo.updateMany(
+    { name, holder: lease.holder, expiresAt: lease.expiresAt },
+    { holder, acquiredAt, renewedAt: now, expiresAt },
+  );
+  return updated > 0;
+}
+
+/**
+ * Give up a lease if `holder` still holds it
+ */
+export async function releaseLease(name: string, holder: string): Promise<void> {
+  await getLeasesRepo().deleteMany({ name, holder });
+}
+
 /**
  * Reset repository references (called during plugin shutdown)
  */
 export function resetCronStorage(): void {
   jobsRepo = null;
   runsRepo = null;
+  calendarsRepo = null;
+  leasesRepo = null;
+  changeListeners.clear();
 }
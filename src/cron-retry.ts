@@ -0,0 +1,69 @@
+/**
+ * Retry policy - backoff delays for failed runs and the dead-letter state of one-time jobs that gave up
+ */
+
+import { parseDuration } from "./cron.js";
+import type { CronJobRow, RetryPolicy } from "./cron-schema.js";
+
+export const DEFAULT_RETRY_DELAY = "1m";
+export const DEFAULT_RETRY_FACTOR = 2;
+
+/**
+ * Validate a retry policy, returning an error message or null.
+ */
+export function validateRetryPolicy(policy: Partial<RetryPolicy>): string | null {
+  const { maxAttempts, delay, factor, jitter } = policy;
+  if (maxAttempts === undefined || !Number.isInteger(maxAttempts) || maxAttempts < 1) {
+    return "retry maxAttempts must be a positive integer";
+  }
+  if (delay !== undefined) {
+    try {
+      parseDuration(delay);
+    } catch (err: unknown) {
+      return err instanceof Error ? err.message : String(err);
+    }
+  }
+  if (factor !== undefined && !(Number.isFinite(factor) && factor >= 1)) return "retry factor must be at least 1";
+  if (jitter !== undefined && !(jitter >= 0 && jitter <= 1)) return "retry jitter must be between 0 and 1";
+  return null;
+}
+
+/**
+ * Delay before the retry that follows failed attempt `attempt` (1 for the original run).
+ * `random` returns a number in [0, 1) and only matters when the policy has jitter.
+ */
+export function retryDelay(policy: RetryPolicy, attempt: number, random: () => number = Math.random): number {
+  const base = parseDuration(policy.delay ?? DEFAULT_RETRY_DELAY);
+  const delay = base * (policy.factor ?? DEFAULT_RETRY_FACTOR) ** (attempt - 1);
+  const jitter = policy.jitter ?? 0;
+  return Math.max(0, Math.round(delay * (1 + jitter * (2 * random() - 1))));
+}
+
+/**
+ * Describe a job's retry policy, e.g. "retry up to 2 times after 30s, x2 each time", or null when it has none.
+ */
+export function describeRetry(job: Pick<CronJobRow, "retry">): string | null {
+  const policy = job.retry;
+  if (!policy || policy.maxAttempts <= 1) return null;
+  const retries = policy.maxAttempts - 1;
+  const factor = policy.factor ?? DEFAULT_RETRY_FACTOR;
+  const backoff = retries > 1 && factor !== 1 ? `, x${factor} each time` : "";
+  const jitter = policy.jitter ? ` (+/-${Math.round(policy.jitter * 100)}%)` : "";
+  return `retry up to ${retries} time${retries === 1 ? "" : "s"} after ${policy.delay ?? DEFAULT_RETRY_DELAY}${backoff}${jitter}`;
+}
+
+/**
+ * The update that replays a dead-lettered one-time job: due right away, with its failure and attempt state
+ * cleared. Fields set to undefined are cleared on the stored job.
+ */
+export function replayJob(
+  now: number = Date.now(),
+): Pick<CronJobRow, "runAt" | "lastFireAt" | "pendingRetry" | "deadLetteredAt" | "deadLetterError"> {
+  return {
+    runAt: now,
+    lastFireAt: undefined,
+    pendingRetry: undefined,
+    deadLetteredAt: undefined,
+    deadLetterError: undefined,
+  };
+}
@@ -0,0 +1,116 @@
+/**
+ * Daemon routes - HTTP endpoints the CLI's CronClient calls, handled in the daemon next to the tick loop
+ */
+
+import type { WOPRPluginContext } from "@wopr-network/plugin-types";
+import { describePreview, previewJob } from "./cron-preview.js";
+import { addCron, getCron, updateCron } from "./cron-repository.js";
+import { type CronJobRow, clearedRunState, cronJobSchema } from "./cron-schema.js";
+import type { RunOutcome } from "./cron-tick.js";
+
+export interface CronRouteRequest {
+  /** Path parameters, e.g. `name` for /crons/:name */
+  params: Record<string, string>;
+  /** Parsed JSON body, if any */
+  body?: unknown;
+}
+
+export interface CronRouteResponse {
+  status: number;
+  body: unknown;
+}
+
+export interface CronRoute {
+  method: "GET" | "POST" | "PUT" | "PATCH" | "DELETE";
+  path: string;
+  handler(request: CronRouteRequest): Promise<CronRouteResponse>;
+}
+
+/** Route registration methods of daemons that serve plugin routes; not yet in published plugin-types. */
+export interface RouteRegistrationApi {
+  registerRoute?(route: CronRoute): void;
+  unregisterRoute?(method: CronRoute["method"], path: string): void;
+}
+
+export interface CronRoutesOptions {
+  /** Plugin context, for whether cron scripts are enabled */
+  ctx?: WOPRPluginContext;
+  /** Runs a job now through the tick loop's pipeline, as cron_run does */
+  runJob?: (job: CronJobRow) => Promise<RunOutcome | null>;
+}
+
+function badRequest(error: string): CronRouteResponse {
+  return { status: 400, body: { error } };
+}
+
+function notFound(name: string): CronRouteResponse {
+  return { status: 404, body: { error: `Cron job '${name}' not found` } };
+}
+
+// JSON has no undefined: clients send a field to clear as null, stored as absent
+function nullsToAbsent(body: unknown): Record<string, unknown> {
+  if (typeof body !== "object" || body === null) return {};
+  return Object.fromEntries(Object.entries(body).map(([key, value]) => [key, value === null ? undefined : value]));
+}
+
+function describeIssues(error: { issues: Array<{ path: PropertyKey[]; message: string }> }): string {
+  return error.issues.map((issue) => `${issue.path.map(String).join(".") || "body"}: ${issue.message}`).join("; ");
+}
+
+export function buildCronRoutes(options: CronRoutesOptions = {}): CronRoute[] {
+  return [
+    {
+      // Add or replace a job. A replaced job starts over: the run state of the job it replaces is cleared
+      // here, so clients send only the fields they set.
+      method: "PUT",
+      path: "/crons/:name",
+      async handler({ params, body }) {
+        const parsed = cronJobSchema.safeParse({ ...(body as object), name: params.name });
+        if (!parsed.success) return badRequest(describeIssues(parsed.error));
+        await addCron({ ...clearedRunState, ...parsed.data });
+        return { status: 200, body: { ok: true } };
+      },
+    },
+    {
+      // Update fields of a stored job in place; fields sent as null are cleared
+      method: "PATCH",
+      path: "/crons/:name",
+      async handler({ params, body }) {
+        const parsed = cronJobSchema.omit({ name: true }).partial().safeParse(nullsToAbsent(body));
+        if (!parsed.success) return badRequest(describeIssues(parsed.error));
+        if (!(await getCron(params.name))) return notFound(params.name);
+        await updateCron(params.name, parsed.data);
+        return { status: 200, body: { ok: true } };
+      },
+    },
+    {
+      // Run a job now, marked manual in history; the outcome is null when its overlap policy skipped it
+      method: "POST",
+      path: "/crons/:name/run",
+      async handler({ params }) {
+        if (!options.runJob) return { status: 503, body: { error: "Running jobs is not available" } };
+        const job = await getCron(params.name);
+        if (!job) return notFound(params.name);
+        return { status: 200, body: { outcome: await options.runJob(job) } };
+      },
+    },
+    {
+      // Preview a job's next message as cron_preview does, optionally from a recorded run's script outputs
+      method: "POST",
+      path: "/crons/:name/preview",
+      async handler({ params, body }) {
+        const { fromRun } = nullsToAbsent(body);
+        if (fromRun !== undefined && typeof fromRun !== "string") return badRequest("fromRun: Expected string");
+        const job = await getCron(params.name);
+        if (!job) return notFound(params.name);
+        const scriptsEnabled = options.ctx?.getConfig<{ cronScriptsEnabled?: boolean }>()?.cronScriptsEnabled === true;
+        try {
+          const preview = await previewJob(job, { scriptsEnabled, fromRun });
+          return { status: 200, body: { lines: describePreview(job, preview) } };
+        } catch (err: unknown) {
+          return badRequest(err instanceof Error ? err.message : String(err));
+        }
+      },
+    },
+  ];
+}
@@ -0,0 +1,570 @@
+/**
+ * Recurrence rules - RFC 5545 RRULE/RDATE/EXDATE schedules for calendar-style jobs
+ *
+ * Supports FREQ from MINUTELY to YEARLY with INTERVAL, COUNT, UNTIL, WKST and the BYMONTH, BYMONTHDAY,
+ * BYDAY, BYHOUR, BYMINUTE and BYSETPOS parts. Occurrences are expanded as wall times in the zone of
+ * DTSTART and resolved to instants the same way as cron schedules, so DST is handled identically.
+ */
+
+import {
+  getZonedTime,
+  isValidTimezone,
+  naiveToWallTime,
+  resolveWallTime,
+  type WallTime,
+  wallTimeToNaive,
+} from "./cron-timezone.js";
+
+const MINUTE_MS = 60000;
+const HOUR_MS = 3600000;
+const DAY_MS = 86400000;
+const SEARCH_DAYS = 366 * 5; // Rules that can never match give up after five years, like cron schedules
+
+const FREQUENCIES = ["MINUTELY", "HOURLY", "DAILY", "WEEKLY", "MONTHLY", "YEARLY"] as const;
+type Frequency = (typeof FREQUENCIES)[number];
+
+const WEEKDAY_CODES = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"];
+const WEEKDAY_LABELS = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+const MONTH_LABELS = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
+const UNIT_LABELS: Record<Frequency, string> = {
+  MINUTELY: "minute",
+  HOURLY: "hour",
+  DAILY: "day",
+  WEEKLY: "week",
+  MONTHLY: "month",
+  YEARLY: "year",
+};
+
+export interface RecurrenceRule {
+  freq: Frequency;
+  interval: number;
+  count?: number;
+  /** Naive wall time in the recurrence's zone; later occurrences are dropped. */
+  until?: number;
+  byMonth?: number[];
+  byMonthDay?: number[];
+  byDay?: Array<{ weekday: number; nth?: number }>;
+  byHour?: number[];
+  byMinute?: number[];
+  bySetPos?: number[];
+  weekStart: number;
+}
+
+export interface Recurrence {
+  /** DTSTART as a naive wall time (the wall clock encoded as UTC) in `timezone`. */
+  start: number;
+  /** DTSTART was a date (`VALUE=DATE`) rather than a date-time. */
+  allDay: boolean;
+  /** Zone wall times are read in: the DTSTART TZID, "UTC" for `Z` values, else the job's zone. */
+  timezone?: string;
+  rule?: RecurrenceRule;
+  /** The RRULE value as written, for display. */
+  ruleText?: string;
+  rdates: number[];
+  exdates: Set<number>;
+  /** Naive midnights of whole days removed with `EXDATE;VALUE=DATE`. */
+  exdays: Set<number>;
+}
+
+interface ContentLine {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+interface IcalTime {
+  naive: number;
+  allDay: boolean;
+  timezone?: string;
+}
+
+function pad2(n: number): string {
+  return String(n).padStart(2, "0");
+}
+
+function daysIn(year: number, month: number): number {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+function dayOf(naive: number): number {
+  return naive - (((naive % DAY_MS) + DAY_MS) % DAY_MS);
+}
+
+/**
+ * Split recurrence text into content lines. Folded lines are unfolded first; the remaining lines may be
+ * separated by newlines or spaces since recurrence properties never contain whitespace.
+ * A bare `FREQ=...` value is read as an RRULE line.
+ */
+function contentLines(text: string): ContentLine[] {
+  const unfolded = text.replace(/\r?\n[ \t]/g, "").trim();
+  if (unfolded === "") throw new Error("Empty recurrence");
+  return unfolded.split(/\s+/).map((line) => {
+    if (/^FREQ=/i.test(line)) return { name: "RRULE", params: {}, value: line };
+    const colon = line.indexOf(":");
+    if (colon < 0) throw new Error(`Invalid recurrence line '${line}': expected NAME:VALUE`);
+    const [name, ...paramParts] = line.slice(0, colon).split(";");
+    const params: Record<string, string> = {};
+    for (const part of paramParts) {
+      const [key, value = ""] = part.split("=");
+      params[key.toUpperCase()] = value.replace(/^"(.*)"$/, "$1");
+    }
+    return { name: name.toUpperCase(), params, value: line.slice(colon + 1) };
+  });
+}
+
+/**
+ * Parse an iCalendar DATE or DATE-TIME value. Seconds are dropped: schedules have minute resolution.
+ */
+export function parseIcalTime(value: string, params: Record<string, string>, fallbackZone?: string): IcalTime {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/i);
+  if (!match) throw new Error(`Invalid date-time '${value}'`);
+  const [year, month, day, hour, minute] = match.slice(1, 6).map((v) => (v === undefined ? 0 : parseInt(v, 10)));
+  if (month < 1 || month > 12 || day < 1 || day > daysIn(year, month) || hour > 23 || minute > 59) {
+    throw new Error(`Invalid date-time '${value}'`);
+  }
+  const naive = Date.UTC(year, month - 1, day, hour, minute);
+  if (match[7]) return { naive, allDay: false, timezone: "UTC" };
+  const tzid = params.TZID;
+  if (tzid !== undefined && !isValidTimezone(tzid)) throw new Error(`Unknown time zone '${tzid}'`);
+  return { naive, allDay: match[4] === undefined, timezone: tzid ?? fallbackZone };
+}
+
+/** Re-express an iCalendar time as a naive wall time in another zone; dates stay floating. */
+function toZoneNaive(time: IcalTime, timezone?: string): number {
+  if (time.allDay || time.timezone === timezone) return time.naive;
+  const instant = resolveWallTime(naiveToWallTime(time.naive), time.timezone);
+  return wallTimeToNaive(getZonedTime(instant, timezone));
+}
+
+function parseRule(value: string, timezone: string | undefined): RecurrenceRule {
+  const fail = (reason: string): never => {
+    throw new Error(`Invalid RRULE '${value}': ${reason}`);
+  };
+  const parts = new Map<string, string>();
+  for (const part of value.split(";")) {
+    const [key, raw] = part.split("=");
+    if (!key || raw === undefined || raw === "") fail(`malformed part '${part}'`);
+    parts.set(key.toUpperCase(), raw.toUpperCase());
+  }
+
+  const freq = parts.get("FREQ") as Frequency | undefined;
+  if (!freq) return fail("FREQ is required");
+  if (!FREQUENCIES.includes(freq)) fail(`unsupported FREQ '${freq}'`);
+
+  const integers = (key: string, min: number, max: number, signed = false): number[] | undefined => {
+    const raw = parts.get(key);
+    if (raw === undefined) return undefined;
+    return raw.split(",").map((item) => {
+      const n = Number(item);
+      const size = Math.abs(n);
+      if (!/^[+-]?\d+$/.test(item) || (!signed && n < 0) || size < min || size > max) {
+        fail(`${key} value '${item}' is out of range`);
+      }
+      return n;
+    });
+  };
+
+  const rule: RecurrenceRule = { freq, interval: integers("INTERVAL", 1, 1000)?.[0] ?? 1, weekStart: 1 };
+  rule.count = integers("COUNT", 1, 100000)?.[0];
+  const until = parts.get("UNTIL");
+  if (until !== undefined) {
+    if (rule.count !== undefined) fail("COUNT and UNTIL cannot be combined");
+    try {
+      rule.until = toZoneNaive(parseIcalTime(until, {}, timezone), timezone);
+    } catch (err: unknown) {
+      fail(err instanceof Error ? err.message : String(err));
+    }
+  }
+  rule.byMonth = integers("BYMONTH", 1, 12);
+  rule.byMonthDay = integers("BYMONTHDAY", 1, 31, true);
+  rule.byHour = integers("BYHOUR", 0, 23);
+  rule.byMinute = integers("BYMINUTE", 0, 59);
+  rule.bySetPos = integers("BYSETPOS", 1, 366, true);
+  const bySecond = integers("BYSECOND", 0, 59);
+  if (bySecond?.some((s) => s !== 0)) fail("BYSECOND is not supported; schedules have minute resolution");
+
+  const byDay = parts.get("BYDAY");
+  if (byDay !== undefined) {
+    rule.byDay = byDay.split(",").map((item) => {
+      const match = item.match(/^([+-]?\d{1,2})?(SU|MO|TU|WE|TH|FR|SA)$/);
+      if (!match) return fail(`invalid BYDAY value '${item}'`);
+      const nth = match[1] === undefined ? undefined : parseInt(match[1], 10);
+      if (nth !== undefined) {
+        if (freq !== "MONTHLY" && freq !== "YEARLY") fail(`BYDAY ordinals need FREQ=MONTHLY or YEARLY`);
+        if (nth === 0 || Math.abs(nth) > 53) fail(`BYDAY value '${item}' is out of range`);
+      }
+      return { weekday: WEEKDAY_CODES.indexOf(match[2]), nth };
+    });
+  }
+  const weekStart = parts.get("WKST");
+  if (weekStart !== undefined) {
+    if (!WEEKDAY_CODES.includes(weekStart)) fail(`invalid WKST '${weekStart}'`);
+    rule.weekStart = WEEKDAY_CODES.indexOf(weekStart);
+  }
+
+  const known = ["FREQ", "INTERVAL", "COUNT", "UNTIL", "BYMONTH", "BYMONTHDAY", "BYDAY", "BYHOUR", "BYMINUTE"];
+  for (const key of parts.keys()) {
+    if (![...known, "BYSETPOS", "BYSECOND", "WKST"].includes(key)) fail(`${key} is not supported`);
+  }
+  return rule;
+}
+
+/**
+ * Parse recurrence text made of DTSTART, RRULE, RDATE and EXDATE lines, e.g.
+ * `DTSTART;TZID=Europe/Berlin:20250107T090000` + `RRULE:FREQ=WEEKLY;INTERVAL=2;BYDAY=TU`.
+ * Floating times are read in `timezone` (default: the daemon's zone).
+ */
+export function parseRecurrence(text: string, timezone?: string): Recurrence {
+  const lines = contentLines(text);
+  const startLine = lines.find((l) => l.name === "DTSTART");
+  if (!startLine) throw new Error("Recurrence needs a DTSTART line");
+  const start = parseIcalTime(startLine.value, startLine.params, timezone);
+  const zone = start.allDay ? timezone : start.timezone;
+  const recurrence: Recurrence = {
+    start: start.naive,
+    allDay: start.allDay,
+    timezone: zone,
+    rdates: [],
+    exdates: new Set(),
+    exdays: new Set(),
+  };
+
+  for (const line of lines) {
+    switch (line.name) {
+      case "DTSTART":
+        if (line !== startLine) throw new Error("Recurrence has more than one DTSTART");
+        break;
+      case "RRULE":
+        if (recurrence.rule) throw new Error("Only one RRULE is supported");
+        recurrence.rule = parseRule(line.value, zone);
+        recurrence.ruleText = line.value.toUpperCase();
+        break;
+      case "RDATE":
+      case "EXDATE":
+        for (const value of line.value.split(",")) {
+          const time = parseIcalTime(value, line.params, timezone);
+          if (line.name === "RDATE") recurrence.rdates.push(toZoneNaive(time, zone));
+          else if (time.allDay && !start.allDay) recurrence.exdays.add(time.naive);
+          else recurrence.exdates.add(toZoneNaive(time, zone));
+        }
+        break;
+      default:
+        throw new Error(`Unsupported recurrence property '${line.name}'`);
+    }
+  }
+  recurrence.rdates.sort((a, b) => a - b);
+  return recurrence;
+}
+
+/**
+ * Add a DTSTART line for the current minute when the text has none, so that INTERVAL and COUNT
+ * have a fixed origin once the job is saved.
+ */
+export function withDefaultStart(text: string, timezone: string | undefined, now: number = Date.now()): string {
+  if (/(^|\s)DTSTART[;:]/i.test(text)) return text.trim();
+  const wall = getZonedTime(now, timezone);
+  const stamp = `${wall.year}${pad2(wall.month)}${pad2(wall.day)}T${pad2(wall.hour)}${pad2(wall.minute)}00`;
+  return `DTSTART${timezone ? `;TZID=${timezone}` : ""}:${stamp}\n${text.trim()}`;
+}
+
+function matchesMonthDay(days: number[], day: number, total: number): boolean {
+  return days.some((d) => (d > 0 ? d === day : total + d + 1 === day));
+}
+
+/** Match BYDAY at a date; ordinals count within `scope` (the month or the year), or are ignored. */
+function matchesByDay(rule: RecurrenceRule, date: number, scope: "month" | "year" | null): boolean {
+  const d = new Date(date);
+  return (rule.byDay ?? []).some(({ weekday, nth }) => {
+    if (weekday !== d.getUTCDay()) return false;
+    if (nth === undefined || scope === null) return true;
+    const year = d.getUTCFullYear();
+    const index = scope === "month" ? d.getUTCDate() : (date - Date.UTC(year, 0, 1)) / DAY_MS + 1;
+    const total =
+      scope === "month"
+        ? daysIn(year, d.getUTCMonth() + 1)
+        : (Date.UTC(year + 1, 0, 1) - Date.UTC(year, 0, 1)) / DAY_MS;
+    return nth > 0 ? Math.ceil(index / 7) === nth : Math.floor((total - index) / 7) + 1 === -nth;
+  });
+}
+
+/** Whether a date passes the BYMONTH, BYMONTHDAY and (ordinal-free) BYDAY limits. */
+function passesDateLimits(rule: RecurrenceRule, date: number): boolean {
+  const d = new Date(date);
+  const month = d.getUTCMonth() + 1;
+  if (rule.byMonth && !rule.byMonth.includes(month)) return false;
+  if (rule.byMonthDay && !matchesMonthDay(rule.byMonthDay, d.getUTCDate(), daysIn(d.getUTCFullYear(), month))) {
+    return false;
+  }
+  return !rule.byDay || matchesByDay(rule, date, null);
+}
+
+function monthDates(rec: Recurrence, rule: RecurrenceRule, year: number, month: number): number[] {
+  const total = daysIn(year, month);
+  if (!rule.byMonthDay && !rule.byDay) {
+    const day = new Date(rec.start).getUTCDate();
+    return day <= total ? [Date.UTC(year, month - 1, day)] : [];
+  }
+  const dates: number[] = [];
+  for (let day = 1; day <= total; day++) {
+    const date = Date.UTC(year, month - 1, day);
+    if (rule.byMonthDay && !matchesMonthDay(rule.byMonthDay, day, total)) continue;
+    if (rule.byDay && !matchesByDay(rule, date, "month")) continue;
+    dates.push(date);
+  }
+  return dates;
+}
+
+function weekOrigin(rec: Recurrence, rule: RecurrenceRule): number {
+  const startDay = dayOf(rec.start);
+  return startDay - ((new Date(startDay).getUTCDay() - rule.weekStart + 7) % 7) * DAY_MS;
+}
+
+/** First naive instant of the `period`-th period of the rule, counted from DTSTART. */
+function periodOrigin(rec: Recurrence, rule: RecurrenceRule, period: number): number {
+  const start = new Date(rec.start);
+  const step = period * rule.interval;
+  switch (rule.freq) {
+    case "YEARLY":
+      return Date.UTC(start.getUTCFullYear() + step, 0, 1);
+    case "MONTHLY":
+      return Date.UTC(start.getUTCFullYear(), start.getUTCMonth() + step, 1);
+    case "WEEKLY":
+      return weekOrigin(rec, rule) + step * 7 * DAY_MS;
+    case "DAILY":
+      return dayOf(rec.start) + step * DAY_MS;
+    case "HOURLY":
+      return rec.start - (rec.start % HOUR_MS) + step * HOUR_MS;
+    case "MINUTELY":
+      return rec.start + step * MINUTE_MS;
+  }
+}
+
+/** Index of the period containing `naive` (possibly negative). */
+function periodIndex(rec: Recurrence, rule: RecurrenceRule, naive: number): number {
+  const start = new Date(rec.start);
+  const at = new Date(naive);
+  let units: number;
+  switch (rule.freq) {
+    case "YEARLY":
+      units = at.getUTCFullYear() - start.getUTCFullYear();
+      break;
+    case "MONTHLY":
+      units = (at.getUTCFullYear() - start.getUTCFullYear()) * 12 + at.getUTCMonth() - start.getUTCMonth();
+      break;
+    case "WEEKLY":
+      units = Math.floor((naive - weekOrigin(rec, rule)) / (7 * DAY_MS));
+      break;
+    case "DAILY":
+      units = Math.floor((naive - dayOf(rec.start)) / DAY_MS);
+      break;
+    case "HOURLY":
+      units = Math.floor((naive - (rec.start - (rec.start % HOUR_MS))) / HOUR_MS);
+      break;
+    case "MINUTELY":
+      units = Math.floor((naive - rec.start) / MINUTE_MS);
+      break;
+  }
+  return Math.floor(units / rule.interval);
+}
+
+/** Expand one period into its sorted naive occurrences, with BYSETPOS applied. */
+function expandPeriod(rec: Recurrence, rule: RecurrenceRule, period: number): number[] {
+  const origin = periodOrigin(rec, rule, period);
+  const start = new Date(rec.start);
+  let times: number[];
+
+  if (rule.freq === "HOURLY" || rule.freq === "MINUTELY") {
+    const at = new Date(origin);
+    if (!passesDateLimits(rule, dayOf(origin))) return [];
+    if (rule.byHour && !rule.byHour.includes(at.getUTCHours())) return [];
+    if (rule.freq === "HOURLY") {
+      times = (rule.byMinute ?? [start.getUTCMinutes()]).map((m) => origin + m * MINUTE_MS);
+    } else {
+      times = !rule.byMinute || rule.byMinute.includes(at.getUTCMinutes()) ? [origin] : [];
+    }
+  } else {
+    let dates: number[] = [];
+    const year = new Date(origin).getUTCFullYear();
+    if (rule.freq === "YEARLY") {
+      if (!rule.byMonth && !rule.byMonthDay && !rule.byDay) {
+        dates = monthDates(rec, rule, year, start.getUTCMonth() + 1);
+      } else if (rule.byDay && !rule.byMonth && !rule.byMonthDay) {
+        // BYDAY alone in a yearly rule counts ordinals within the year, e.g. 20MO = the 20th Monday
+        for (let date = origin; date < Date.UTC(year + 1, 0, 1); date += DAY_MS) {
+          if (matchesByDay(rule, date, "year")) dates.push(date);
+        }
+      } else {
+        for (const month of rule.byMonth ?? [1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12]) {
+          dates.push(...monthDates(rec, rule, year, month));
+        }
+      }
+    } else if (rule.freq === "MONTHLY") {
+      const month = new Date(origin).getUTCMonth() + 1;
+      dates = !rule.byMonth || rule.byMonth.includes(month) ? monthDates(rec, rule, year, month) : [];
+    } else if (rule.freq === "WEEKLY") {
+      const weekdays = rule.byDay?.map((d) => d.weekday) ?? [start.getUTCDay()];
+      for (let i = 0; i < 7; i++) {
+        const date = origin + i * DAY_MS;
+        const d = new Date(date);
+        if (weekdays.includes(d.getUTCDay()) && (!rule.byMonth || rule.byMonth.includes(d.getUTCMonth() + 1))) {
+          dates.push(date);
+        }
+      }
+    } else {
+      dates = passesDateLimits(rule, origin) ? [origin] : [];
+    }
+
+    const hours = rule.byHour ?? [start.getUTCHours()];
+    const minutes = rule.byMinute ?? [start.getUTCMinutes()];
+    times = dates.flatMap((date) => hours.flatMap((h) => minutes.map((m) => date + h * HOUR_MS + m * MINUTE_MS)));
+  }
+
+  times.sort((a, b) => a - b);
+  if (!rule.bySetPos) return times;
+  const picked = rule.bySetPos
+    .map((pos) => (pos > 0 ? times[pos - 1] : times[times.length + pos]))
+    .filter((t): t is number => t !== undefined);
+  return [...new Set(picked)].sort((a, b) => a - b);
+}
+
+/** Naive occurrences of the rule at or after `fromNaive`, in order, up to the search horizon. */
+function* ruleOccurrences(rec: Recurrence, rule: RecurrenceRule, fromNaive: number): Generator<number> {
+  // COUNT is counted from DTSTART, so only rules without it may skip ahead to `fromNaive`
+  let period = rule.count === undefined ? Math.max(0, periodIndex(rec, rule, fromNaive) - 1) : 0;
+  const horizon = Math.max(fromNaive, rec.start) + SEARCH_DAYS * DAY_MS;
+  let emitted = 0;
+  for (; ; period++) {
+    const origin = periodOrigin(rec, rule, period);
+    if (origin > horizon || (rule.until !== undefined && origin > rule.until)) return;
+    for (const time of expandPeriod(rec, rule, period)) {
+      if (time < rec.start) continue;
+      if (rule.until !== undefined && time > rule.until) return;
+      if (rule.count !== undefined && ++emitted > rule.count) return;
+      if (time >= fromNaive) yield time;
+    }
+  }
+}
+
+/** Naive occurrences of the whole set (rule, DTSTART when there is no rule, RDATEs) minus EXDATEs. */
+function* occurrences(rec: Recurrence, fromNaive: number): Generator<number> {
+  const extra = (rec.rule ? rec.rdates : [rec.start, ...rec.rdates]).filter((t) => t >= fromNaive);
+  extra.sort((a, b) => a - b);
+  const ruleTimes = rec.rule ? ruleOccurrences(rec, rec.rule, fromNaive) : null;
+  let next = ruleTimes?.next();
+  let i = 0;
+  let last = Number.NEGATIVE_INFINITY;
+  while ((next && !next.done) || i < extra.length) {
+    let time: number;
+    if (next && !next.done && (i >= extra.length || next.value <= extra[i])) {
+      time = next.value;
+      next = ruleTimes?.next();
+    } else {
+      time = extra[i++];
+    }
+    if (time === last || rec.exdates.has(time) || rec.exdays.has(dayOf(time))) continue;
+    last = time;
+    yield time;
+  }
+}
+
+/**
+ * First occurrence at or after a naive wall time in the recurrence's zone, or null if there is none.
+ */
+export function nextOccurrenceNaive(rec: Recurrence, fromNaive: number): number | null {
+  const { value, done } = occurrences(rec, fromNaive).next();
+  return done ? null : value;
+}
+
+/**
+ * Compute the next `count` occurrences strictly after `from`.
+ */
+export function computeNextOccurrences(rec: Recurrence, from: Date | number, count: number): Date[] {
+  const fromTs = typeof from === "number" ? from : from.getTime();
+  // Wall times a few hours before `from` can still resolve after it across a DST shift
+  const fromNaive = wallTimeToNaive(getZonedTime(fromTs, rec.timezone)) - 3 * HOUR_MS;
+  const runs: Date[] = [];
+  let last = fromTs;
+  for (const time of occurrences(rec, fromNaive)) {
+    const instant = resolveWallTime(naiveToWallTime(time), rec.timezone);
+    if (instant <= last) continue;
+    runs.push(new Date(instant));
+    last = instant;
+    if (runs.length >= count) break;
+  }
+  return runs;
+}
+
+/**
+ * Check whether recurrence text has an occurrence in the minute containing `date`.
+ * Invalid text never fires.
+ */
+export function recurrenceFiresAt(text: string, date: Date | number, timezone?: string): boolean {
+  try {
+    const ts = typeof date === "number" ? date : date.getTime();
+    const minute = ts - (((ts % MINUTE_MS) + MINUTE_MS) % MINUTE_MS);
+    const [next] = computeNextOccurrences(parseRecurrence(text, timezone), minute - 1, 1);
+    return next !== undefined && next.getTime() < minute + MINUTE_MS;
+  } catch {
+    return false;
+  }
+}
+
+/** Short label for a recurrence, used as the job's `schedule` column. */
+export function recurrenceLabel(rec: Recurrence): string {
+  return rec.ruleText ? `RRULE:${rec.ruleText}` : "RDATE";
+}
+
+function nthLabel(n: number): string {
+  const words = ["first", "second", "third", "fourth", "fifth"];
+  if (n === -1) return "last";
+  if (n < 0) return `${nthLabel(-n)} to last`;
+  return words[n - 1] ?? `${n}th`;
+}
+
+function formatNaive(naive: number, allDay: boolean): string {
+  const w: WallTime = naiveToWallTime(naive);
+  const date = `${w.year}-${pad2(w.month)}-${pad2(w.day)}`;
+  return allDay ? date : `${date} ${pad2(w.hour)}:${pad2(w.minute)}`;
+}
+
+/**
+ * Explain a recurrence in English, e.g. "Every 2 weeks on Tuesday at 09:00, starting 2025-01-07 (Europe/Berlin)".
+ */
+export function explainRecurrence(rec: Recurrence): string {
+  const { rule } = rec;
+  const zone = rec.timezone ? ` (${rec.timezone})` : "";
+  if (!rule) {
+    const dates = [rec.start, ...rec.rdates].map((t) => formatNaive(t, rec.allDay));
+    return `On ${dates.join(", ")}${zone}`;
+  }
+  const unit = UNIT_LABELS[rule.freq];
+  let text = rule.interval === 1 ? `Every ${unit}` : `Every ${rule.interval} ${unit}s`;
+  if (rule.byMonth) text += ` in ${rule.byMonth.map((m) => MONTH_LABELS[m - 1]).join(", ")}`;
+  if (rule.byMonthDay) {
+    const days = rule.byMonthDay.map((d) => (d > 0 ? String(d) : `${nthLabel(d)} day`));
+    text += ` on day ${days.join(", ")}`;
+  }
+  if (rule.byDay) {
+    const days = rule.byDay.map(({ weekday, nth }) =>
+      nth === undefined ? WEEKDAY_LABELS[weekday] : `the ${nthLabel(nth)} ${WEEKDAY_LABELS[weekday]}`,
+    );
+    text += ` on ${days.join(", ")}`;
+  }
+  if (rule.bySetPos) text += ` (${rule.bySetPos.map(nthLabel).join(", ")} match of each ${unit})`;
+
+  const start = new Date(rec.start);
+  if (rule.freq !== "MINUTELY" && rule.freq !== "HOURLY" && !(rec.allDay && !rule.byHour && !rule.byMinute)) {
+    const hours = rule.byHour ?? [start.getUTCHours()];
+    const minutes = rule.byMinute ?? [start.getUTCMinutes()];
+    const times = hours.flatMap((h) => minutes.map((m) => `${pad2(h)}:${pad2(m)}`));
+    text += times.length <= 6 ? ` at ${times.join(", ")}` : ` at ${times.length} times a day`;
+  } else if (rule.freq === "HOURLY" && rule.byMinute) {
+    text += ` at minute ${rule.byMinute.join(", ")}`;
+  }
+  if (rule.count !== undefined) text += `, ${rule.count} time${rule.count === 1 ? "" : "s"}`;
+  text += `, starting ${formatNaive(rec.start, true)}`;
+  if (rule.until !== undefined) text += `, until ${formatNaive(rule.until, rec.allDay)}`;
+  const excluded = rec.exdates.size + rec.exdays.size;
+  if (excluded > 0) text += `, except ${excluded} date${excluded === 1 ? "" : "s"}`;
+  return text + zone;
+}
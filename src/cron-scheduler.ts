@@ -0,0 +1,279 @@
+/**
+ * Cron scheduler - keeps each job's next fire time in a priority queue and arms a single timer for the earliest
+ */
+
+import type { WOPRPluginContext } from "@wopr-network/plugin-types";
+import { getNextRun, isRebootSchedule } from "./cron.js";
+import { isGloballyPaused } from "./cron-pause.js";
+import { getCron, getCrons, getLastSuccessfulRun, onCronChange } from "./cron-repository.js";
+import type { CronJobRow } from "./cron-schema.js";
+
+// Never sleep longer than this: waking once a minute lets the scheduler notice wall-clock jumps,
+// and keeps every delay far below setTimeout's limit of 2^31 - 1 ms
+const MAX_SLEEP_MS = 60_000;
+const CLOCK_JUMP_TOLERANCE_MS = 5_000;
+// Due jobs the tick declined to run (e.g. a one-time job inside an exclusion) are retried after this
+const RETRY_DELAY_MS = 60_000;
+
+/** Runs the given jobs as of `at`; see createCronTickLoop. */
+export type CronTick = (jobs?: CronJobRow[], at?: number) => Promise<void>;
+
+export interface CronScheduler {
+  /** Run jobs due at startup, then sleep until the next fire time. */
+  start(): void;
+  /** Disarm the timer and wait for in-flight runs and pending recomputations. */
+  stop(): Promise<void>;
+}
+
+interface QueueEntry {
+  at: number;
+  name: string;
+}
+
+/**
+ * Binary min-heap of fire times
+ */
+class FireQueue {
+  private heap: QueueEntry[] = [];
+
+  peek(): QueueEntry | undefined {
+    return this.heap[0];
+  }
+
+  push(entry: QueueEntry): void {
+    const heap = this.heap;
+    heap.push(entry);
+    let i = heap.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (heap[parent].at <= heap[i].at) break;
+      [heap[parent], heap[i]] = [heap[i], heap[parent]];
+      i = parent;
+    }
+  }
+
+  pop(): QueueEntry | undefined {
+    const heap = this.heap;
+    const top = heap[0];
+    const last = heap.pop();
+    if (heap.length > 0 && last) {
+      heap[0] = last;
+      let i = 0;
+      for (;;) {
+        const left = 2 * i + 1;
+        const right = left + 1;
+        let smallest = i;
+        if (left < heap.length && heap[left].at < heap[smallest].at) smallest = left;
+        if (right < heap.length && heap[right].at < heap[smallest].at) smallest = right;
+        if (smallest === i) break;
+        [heap[smallest], heap[i]] = [heap[i], heap[smallest]];
+        i = smallest;
+      }
+    }
+    return top;
+  }
+
+  clear(): void {
+    this.heap = [];
+  }
+}
+
+/**
+ * When the scheduler should next look at a job: its next fire time or pending retry, whichever is first,
+ * or the end of its active window so it is archived on time. Null when nothing is left to do (archived,
+ * dead-lettered, fired one-time job, `@reboot`, paused until resumed). A job paused until a given time
+ * is looked at when the pause ends, and a resumed job right away, so its missed runs are handled.
+ */
+async function nextWake(job: CronJobRow, from: number): Promise<number | null> {
+  if (job.deadLetteredAt !== undefined || job.enabled === false) return null;
+  if (job.pausedUntil !== undefined && job.pausedUntil > from) return job.pausedUntil;
+  if (job.pausedAt !== undefined && job.archivedAt === undefined) return from;
+  const next = await nextOccurrence(job, from);
+  const retryAt = job.pendingRetry?.at;
+  if (retryAt === undefined) return next;
+  return next === null ? retryAt : Math.min(next, retryAt);
+}
+
+async function nextOccurrence(job: CronJobRow, from: number): Promise<number | null> {
+  if (job.archivedAt !== undefined) return null;
+  if (job.runAt) return job.lastFireAt === undefined ? job.runAt : null;
+  if (isRebootSchedule(job.schedule)) return null;
+  const lastFire = job.every ? (job.lastFireAt ?? (await getLastSuccessfulRun(job.name))) : null;
+  const next = getNextRun(job, from, lastFire)?.getTime() ?? null;
+  if (job.endAt !== undefined && (next === null || next > job.endAt)) return job.endAt;
+  return next;
+}
+
+export function createCronScheduler(ctx: WOPRPluginContext, tick: CronTick): CronScheduler {
+  const jobs = new Map<string, CronJobRow>();
+  // The queue may hold superseded entries; only the one matching nextAt is live
+  const nextAt = new Map<string, number>();
+  const queue = new FireQueue();
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let expectedWake = 0;
+  let running: Promise<void> | null = null;
+  // Ticks run in the background so a slow job never holds up the next wake-up
+  const ticks = new Set<Promise<void>>();
+  let changes: Promise<void> = Promise.resolve();
+  let unsubscribe: (() => void) | null = null;
+  let unsubscribeConfig: (() => void) | null = null;
+  let globallyPaused = false;
+  let stopped = false;
+
+  const logError = (err: unknown) => {
+    ctx.log.error(`Cron scheduler error: ${err instanceof Error ? err.message : String(err)}`);
+  };
+
+  const schedule = async (job: CronJobRow, from: number, retry = false) => {
+    let at = await nextWake(job, from);
+    if (at !== null && retry && at <= from) at = from + RETRY_DELAY_MS;
+    if (at === null) {
+      nextAt.delete(job.name);
+      return;
+    }
+    nextAt.set(job.name, at);
+    queue.push({ at, name: job.name });
+  };
+
+  const peekLive = (): QueueEntry | undefined => {
+    for (let head = queue.peek(); head; head = queue.peek()) {
+      if (nextAt.get(head.name) === head.at) return head;
+      queue.pop();
+    }
+    return undefined;
+  };
+
+  const rescheduleAll = async (from: number) => {
+    nextAt.clear();
+    queue.clear();
+    for (const job of jobs.values()) await schedule(job, from);
+  };
+
+  // Start a tick in the background. Once it settles, its jobs that were not rescheduled by a change
+  // (i.e. the tick declined to run them) are queued again.
+  const startTick = (batch: CronJobRow[], at: number) => {
+    const ticking = tick(batch, at)
+      .catch(logError)
+      .then(async () => {
+        const from = Date.now();
+        for (const { name } of batch) {
+          const job = jobs.get(name);
+          if (job && !nextAt.has(name) && !stopped) await schedule(job, from, true);
+        }
+        arm();
+      })
+      .catch(logError)
+      .finally(() => ticks.delete(ticking));
+    ticks.add(ticking);
+  };
+
+  const runDue = async () => {
+    const now = Date.now();
+    const due = new Map<number, CronJobRow[]>();
+    for (let head = peekLive(); head && head.at <= now; head = peekLive()) {
+      queue.pop();
+      nextAt.delete(head.name);
+      const job = jobs.get(head.name);
+      if (job) due.set(head.at, [...(due.get(head.at) ?? []), job]);
+    }
+    // Jobs due at the same moment share one tick, which runs them concurrently
+    for (const at of [...due.keys()].sort((a, b) => a - b)) startTick(due.get(at) ?? [], at);
+  };
+
+  const run = (work: () => Promise<void>) => {
+    running = work()
+      .catch(logError)
+      .finally(() => {
+        running = null;
+        arm();
+      });
+  };
+
+  const wake = () => {
+    timer = null;
+    // Timers follow the monotonic clock, so waking well before the expected wall time means the clock went back
+    if (Date.now() < expectedWake - CLOCK_JUMP_TOLERANCE_MS) {
+      ctx.log.warn("System clock moved backwards; recomputing cron fire times");
+      run(() => rescheduleAll(Date.now()));
+      return;
+    }
+    // Waking late (clock moved forward, host suspended) runs each overdue job once
+    run(runDue);
+  };
+
+  function arm(): void {
+    if (timer) clearTimeout(timer);
+    timer = null;
+    if (stopped || running) return;
+    const head = peekLive();
+    if (!head) return;
+    const delay = Math.min(Math.max(head.at - Date.now(), 0), MAX_SLEEP_MS);
+    expectedWake = Date.now() + delay;
+    timer = setTimeout(wake, delay);
+  }
+
+  // Re-read a changed job and move its queue entry; changes are applied one at a time
+  const refresh = (name: string) => {
+    if (stopped) return;
+    changes = changes
+      .then(async () => {
+        const job = await getCron(name);
+        nextAt.delete(name);
+        if (job) {
+          jobs.set(name, job);
+          await schedule(job, Date.now());
+        } else {
+          jobs.delete(name);
+        }
+        arm();
+      })
+      .catch(logError);
+  };
+
+  // Lifting the global pause runs a tick straight away, which handles the runs missed meanwhile, rather than
+  // leaving them until the next job is due
+  const onConfigChange = () => {
+    const paused = isGloballyPaused(ctx);
+    const resumed = globallyPaused && !paused;
+    globallyPaused = paused;
+    if (resumed && !stopped) startTick([...jobs.values()], Date.now());
+  };
+
+  const boot = async () => {
+    const all = await getCrons();
+    for (const job of all) jobs.set(job.name, job);
+    // The first tick reconciles missed runs, fires @reboot jobs and anything due right now; jobs it
+    // covers are queued once it settles, everything else straight away
+    const now = Date.now();
+    startTick(all, now);
+    for (const job of all) {
+      const at = nextAt.has(job.name) ? null : await nextWake(job, now);
+      if (at === null || at <= now) continue;
+      nextAt.set(job.name, at);
+      queue.push({ at, name: job.name });
+    }
+  };
+
+  return {
+    start() {
+      stopped = false;
+      unsubscribe = onCronChange(refresh);
+      globallyPaused = isGloballyPaused(ctx);
+      unsubscribeConfig = ctx.events.on("config:change", onConfigChange);
+      run(boot);
+    },
+
+    async stop() {
+      stopped = true;
+      if (timer) clearTimeout(timer);
+      timer = null;
+      unsubscribe?.();
+      unsubscribe = null;
+      unsubscribeConfig?.();
+      unsubscribeConfig = null;
+      if (running) await running;
+      while (ticks.size > 0) await Promise.all(ticks);
+      await changes;
+    },
+  };
+}
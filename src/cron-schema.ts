@@ -22,6 +22,62 @@ export const cronScriptResultSchema = z.object({
   error: z.string().optional(),
 });
 
+// How the day-of-month and day-of-week fields combine when both are restricted:
+// "or" is classic Vixie cron behaviour, "and" requires both to match
+export const dayMatchSchema = z.enum(["and", "or"]);
+
+// What happens to runs missed while the daemon was down: drop them, run the latest once, or replay them
+export const misfirePolicySchema = z.enum(["skip", "fire-once", "fire-all"]);
+
+// What a job does when it comes due while its previous run is still going
+export const overlapPolicySchema = z.enum(["allow", "skip", "queue", "replace"]);
+
+// Outcome of a run; skipped, queued and cancelled entries record occurrences held back by the overlap policy,
+// and skipped also runs whose condition was not met
+export const runStatusSchema = z.enum(["success", "failure", "timeout", "skipped", "queued", "cancelled"]);
+
+// How failed runs are retried: attempts include the first run; the delay before retry n is
+// delay * factor^(n-1), varied by up to +/- jitter (a fraction of the delay)
+export const retryPolicySchema = z.object({
+  maxAttempts: z.number(),
+  delay: z.string().optional(), // Duration such as "30s"; default 1m
+  factor: z.number().optional(), // Default 2
+  jitter: z.number().optional(), // 0-1; default 0
+});
+
+// When a job started by others (`after`) runs: once its upstream jobs all succeeded, once any of them
+// failed, or once they all finished either way
+export const triggerConditionSchema = z.enum(["success", "failure", "always"]);
+
+// When a job with scripts injects: once `script` exited with `exitCode`, once its output `matches` a regular
+// expression, or once `expression` over the script results holds. Otherwise the run is recorded as skipped.
+export const runConditionSchema = z.object({
+  script: z.string().optional(), // Script the exitCode and matches checks look at
+  exitCode: z.number().optional(),
+  matches: z.string().optional(),
+  expression: z.string().optional(), // e.g. "disk > 90 && !disk.error"; see parseConditionExpression
+});
+
+// What the last injected run of a job with onlyOnChange or {{name.diff}} saw: a hash of each script's stdout
+// (and the stdout itself for scripts the message diffs), or of the rendered message when no scripts ran
+export const lastOutputSchema = z.object({
+  scripts: z.record(z.string(), z.object({ hash: z.string(), stdout: z.string().optional() })).optional(),
+  messageHash: z.string().optional(),
+});
+
+// A retry the tick engine will run once `at` has passed
+export const pendingRetrySchema = z.object({
+  at: z.number(),
+  attempt: z.number(), // Attempt number of the retry, 2 for the first retry
+  runId: z.string(), // History entry of the original (first) attempt
+  scheduledAt: z.number(), // Occurrence being retried
+  workflowRunId: z.string().optional(), // Workflow run the original attempt belonged to
+  triggeredBy: z.string().optional(),
+});
+
+// Why a recurring job stopped: its active window ended or it used up maxRuns
+export const archiveReasonSchema = z.enum(["ended", "maxRuns"]);
+
 // Table: cron_jobs
 // Primary key: name (the job name is the ID for backwards compat)
 export const cronJobSchema = z.object({
@@ -32,11 +88,67 @@ export const cronJobSchema = z.object({
   scripts: z.array(cronScriptSchema).optional(),
   once: z.boolean().optional(),
   runAt: z.number().optional(),
+  dayMatch: dayMatchSchema.optional(), // Defaults to "or"
+  timezone: z.string().optional(), // IANA zone for the schedule; defaults to the daemon's local zone
+  schedulePhrase: z.string().optional(), // Original natural-language input the schedule was resolved from
+  every: z.string().optional(), // Fixed interval such as "90m" or "36h"; replaces the cron schedule when set
+  anchor: z.number().optional(), // Epoch ms the interval grid is counted from; default is the last successful run
+  rrule: z.string().optional(), // RFC 5545 DTSTART/RRULE/RDATE/EXDATE lines; replaces the cron schedule when set
+  calendars: z.array(z.string()).optional(), // Exclusion calendars: the job does not fire during their events
+  startAt: z.number().optional(), // Epoch ms before which the job does not fire
+  endAt: z.number().optional(), // Epoch ms from which the job no longer fires; it is archived at that point
+  maxRuns: z.number().optional(), // Archive the job after this many runs
+  runCount: z.number().optional(), // Runs so far, tracked for jobs with maxRuns
+  archivedAt: z.number().optional(), // Set when the job expired; archived jobs are kept but never fire
+  archiveReason: archiveReasonSchema.optional(),
+  lastFireAt: z.number().optional(), // Scheduled time of the latest occurrence that fired or was deliberately skipped
+  nextFireAt: z.number().optional(), // Next fire time as of the latest fire
+  misfirePolicy: misfirePolicySchema.optional(), // Defaults to "skip"
+  misfireCap: z.number().optional(), // Most missed runs "fire-all" replays; default 10
+  misfireGrace: z.string().optional(), // Duration such as "1h"; runs missed by longer than this are not replayed
+  overlap: overlapPolicySchema.optional(), // Defaults to "allow"
+  timeoutMs: z.number().optional(), // Limit for a whole run, scripts included; default 5 minutes
+  retry: retryPolicySchema.optional(), // Failed runs are not retried without a policy
+  pendingRetry: pendingRetrySchema.optional(),
+  deadLetteredAt: z.number().optional(), // Set when a one-time job failed its last attempt; it no longer fires
+  deadLetterError: z.string().optional(), // Error of the last attempt
+  enabled: z.boolean().optional(), // false pauses the job until it is resumed; defaults to true
+  pausedUntil: z.number().optional(), // Epoch ms until which the job is paused; it resumes by itself afterwards
+  pausedAt: z.number().optional(), // When the job was paused; cleared once its missed runs are handled after resuming
+  after: z.array(z.string()).optional(), // Upstream jobs whose runs start this one; replaces the schedule when set
+  triggerOn: triggerConditionSchema.optional(), // Defaults to "success"
+  condition: runConditionSchema.optional(), // Without one, every run injects
+  onlyOnChange: z.boolean().optional(), // Skip injecting when the output is the same as the last injected run's
+  lastOutput: lastOutputSchema.optional(),
 });
 
+// State a job builds up as it runs. Adding a job under an existing name clears it, so an expired,
+// counted, retrying or dead-lettered job starts afresh instead of keeping what its old definition did.
+export const clearedRunState = {
+  runCount: undefined,
+  archivedAt: undefined,
+  archiveReason: undefined,
+  lastFireAt: undefined,
+  nextFireAt: undefined,
+  pendingRetry: undefined,
+  deadLetteredAt: undefined,
+  deadLetterError: undefined,
+  lastOutput: undefined,
+} satisfies Partial<z.infer<typeof cronJobSchema>>;
+
 export type CronJobRow = z.infer<typeof cronJobSchema>;
 export type CronScript = z.infer<typeof cronScriptSchema>;
 export type CronScriptResult = z.infer<typeof cronScriptResultSchema>;
+export type DayMatchMode = z.infer<typeof dayMatchSchema>;
+export type ArchiveReason = z.infer<typeof archiveReasonSchema>;
+export type MisfirePolicy = z.infer<typeof misfirePolicySchema>;
+export type OverlapPolicy = z.infer<typeof overlapPolicySchema>;
+export type RunStatus = z.infer<typeof runStatusSchema>;
+export type RetryPolicy = z.infer<typeof retryPolicySchema>;
+export type PendingRetry = z.infer<typeof pendingRetrySchema>;
+export type TriggerCondition = z.infer<typeof triggerConditionSchema>;
+export type RunCondition = z.infer<typeof runConditionSchema>;
+export type LastOutput = z.infer<typeof lastOutputSchema>;
 
 // Table: cron_runs
 // Stores execution history with auto-generated ID
@@ -45,22 +157,66 @@ export const cronRunSchema = z.object({
   cronName: z.string(), // Denormalized job name
   session: z.string(),
   startedAt: z.number(), // Timestamp when execution started
-  status: z.enum(["success", "failure"]), // success or failure
+  status: runStatusSchema,
   durationMs: z.number(),
   error: z.string().optional(),
   message: z.string(), // The resolved message that was sent
   scriptResults: z.array(cronScriptResultSchema).optional(),
+  scheduledAt: z.number().optional(), // Occurrence the run was for; earlier than startedAt for catch-up runs
+  reason: z.string().optional(), // Why the occurrence was skipped, queued or cancelled
+  attempt: z.number().optional(), // Set on retries: 2 for the first retry
+  retryOf: z.string().optional(), // ID of the original run a retry belongs to
+  workflowRunId: z.string().optional(), // Shared by the runs of a chain of jobs started by the same upstream run
+  triggeredBy: z.string().optional(), // Upstream job whose run started this one
+  manual: z.boolean().optional(), // Started by hand rather than by the schedule
 });
 
 export type CronRunRow = z.infer<typeof cronRunSchema>;
 
+// One event of an exclusion calendar, kept as its recurrence lines so repeating events stay compact
+export const calendarEventSchema = z.object({
+  summary: z.string().optional(),
+  recurrence: z.string(), // DTSTART plus any RRULE/RDATE/EXDATE lines
+  allDay: z.boolean(),
+  durationMs: z.number(), // Whole days for all-day events
+});
+
+// Table: cron_calendars
+// Named exclusion calendars imported from .ics files
+export const cronCalendarSchema = z.object({
+  name: z.string(), // Primary key
+  source: z.string().optional(), // Path the calendar was imported from
+  importedAt: z.number(),
+  events: z.array(calendarEventSchema),
+});
+
+export type CalendarEvent = z.infer<typeof calendarEventSchema>;
+export type CronCalendarRow = z.infer<typeof cronCalendarSchema>;
+
+// Table: cron_leases
+// Lease rows that let one of several daemons sharing storage act as leader; the holder renews it on a
+// heartbeat and others may take it over once it has expired
+export const cronLeaseSchema = z.object({
+  name: z.string(), // Primary key
+  holder: z.string(), // Instance ID of the daemon holding the lease
+  acquiredAt: z.number(), // When the current holder took the lease
+  renewedAt: z.number(),
+  expiresAt: z.number(),
+});
+
+export type CronLeaseRow = z.infer<typeof cronLeaseSchema>;
+
 /**
  * Plugin schema definition for cron storage
- * Namespace: "cron" → tables: cron_jobs, cron_runs
+ * Namespace: "cron" → tables: cron_jobs, cron_runs, cron_calendars, cron_leases
+ *
+ * Versions: 1 had jobs and runs only; 2 adds the calendars and leases tables, the scheduling, retry,
+ * pause, workflow and change-detection columns of jobs and the new run statuses and columns. Every column
+ * added since version 1 is optional, so rows written by version 1 load unchanged.
  */
 export const cronPluginSchema: PluginSchema = {
   namespace: "cron",
-  version: 1,
+  version: 2,
   tables: {
     jobs: {
       schema: cronJobSchema,
@@ -70,7 +226,21 @@ export const cronPluginSchema: PluginSchema = {
     runs: {
       schema: cronRunSchema,
       primaryKey: "id",
-      indexes: [{ fields: ["cronName"] }, { fields: ["session"] }, { fields: ["startedAt"] }, { fields: ["status"] }],
+      indexes: [
+        { fields: ["cronName"] },
+        { fields: ["session"] },
+        { fields: ["startedAt"] },
+        { fields: ["status"] },
+        { fields: ["workflowRunId"] },
+      ],
+    },
+    calendars: {
+      schema: cronCalendarSchema,
+      primaryKey: "name",
+    },
+    leases: {
+      schema: cronLeaseSchema,
+      primaryKey: "name",
     },
   },
 };
@@ -1,10 +1,36 @@
+import { randomUUID } from "node:crypto";
 import type { WOPRPluginContext } from "@wopr-network/plugin-types";
-import { executeCronScripts, resolveScriptTemplates, shouldRunCron } from "./cron.js";
-import { addCronRun, getCrons, removeCron } from "./cron-repository.js";
-import type { CronScriptResult } from "./cron-schema.js";
+import {
+  executeCronScripts,
+  getNextRun,
+  isRebootSchedule,
+  nextIntervalRun,
+  resolveScriptTemplates,
+  shouldRunCron,
+} from "./cron.js";
+import { findExclusion } from "./cron-calendar.js";
+import { outputChanged, resolveDiffTemplates, snapshotOutput, tracksOutput, UNCHANGED_REASON } from "./cron-change.js";
+import { checkRunCondition } from "./cron-condition.js";
+import { createRunLimiter, resolveRunLimits } from "./cron-limiter.js";
+import { type CatchUpPlan, planCatchUp } from "./cron-misfire.js";
+import { isGloballyPaused, isPaused } from "./cron-pause.js";
+import {
+  addCronRun,
+  getCalendars,
+  getCrons,
+  getDependentCrons,
+  getLastSuccessfulRun,
+  hasDependentCrons,
+  removeCron,
+  updateCron,
+} from "./cron-repository.js";
+import { retryDelay } from "./cron-retry.js";
+import { recurrenceFiresAt } from "./cron-rrule.js";
+import type { ArchiveReason, CronCalendarRow, CronJobRow, CronScriptResult, PendingRetry } from "./cron-schema.js";
+import { triggerFires } from "./cron-workflow.js";
 import { PLUGIN_NAME } from "./plugin-name.js";
 
-const CRON_TIMEOUT_MS = 5 * 60 * 1000; // 5 minutes max per cron job
+const CRON_TIMEOUT_MS = 5 * 60 * 1000; // 5 minutes max per run unless the job sets timeoutMs
 
 const CRON_SOURCE = {
   type: "cron" as const,
@@ -12,101 +38,619 @@ const CRON_SOURCE = {
   identity: { pluginName: PLUGIN_NAME },
 };
 
-export function createCronTickLoop(ctx: WOPRPluginContext): () => Promise<void> {
+// Links a run's history entry to the original run it retries and to the workflow run it is part of,
+// and marks runs started by hand
+interface RunLink {
+  attempt?: number;
+  retryOf?: string;
+  workflowRunId?: string;
+  triggeredBy?: string;
+  manual?: boolean;
+}
+
+// How a run was started other than by its schedule: by a run of `triggeredBy` in a workflow run, or by hand
+type RunStart = Pick<RunLink, "workflowRunId" | "triggeredBy" | "manual">;
+
+// Upstream results and started dependents of a workflow run, kept while any of its runs is in flight
+interface WorkflowState {
+  active: number;
+  finished: Map<string, boolean>;
+  started: Set<string>;
+}
+
+export interface RunOutcome {
+  status: "success" | "failure" | "timeout" | "cancelled" | "skipped";
+  runId: string;
+  error?: string;
+  /** Why a run was skipped */
+  reason?: string;
+}
+
+export interface CronTickOptions {
+  /** Fire `@reboot` jobs on the first tick (default true). */
+  reboot?: boolean;
+  /** Checked on each tick and before each run is booked; nothing runs while it returns false. */
+  isLeader?: () => boolean;
+}
+
+export interface CronTickLoop {
+  /** Evaluates `jobs` (default: all stored jobs) as of `at` (default: now). */
+  (jobs?: CronJobRow[], at?: number): Promise<void>;
+  /**
+   * Run a job now, by hand, through the same steps as a scheduled run. Resolves with how the run ended,
+   * or null when the job's overlap policy skipped it.
+   */
+  run(job: CronJobRow): Promise<RunOutcome | null>;
+}
+
+export function createCronTickLoop(ctx: WOPRPluginContext, options: CronTickOptions = {}): CronTickLoop {
   const lastRun: Record<string, number> = {};
+  // @reboot jobs fire on the first tick after the loop is created, i.e. once per plugin init
+  let booted = false;
+  const reboot = options.reboot ?? true;
+  let globallyPaused = false;
+
+  // Expired jobs are kept with an archive marker so they stay visible in listings
+  const archive = async (cron: CronJobRow, reason: ArchiveReason, data: Partial<CronJobRow> = {}) => {
+    const archivedAt = Date.now();
+    Object.assign(cron, data, { archivedAt, archiveReason: reason });
+    await updateCron(cron.name, { ...data, archivedAt, archiveReason: reason });
+    const detail = reason === "ended" ? "active window ended" : `completed ${cron.maxRuns} runs`;
+    ctx.log.info(`Archived cron: ${cron.name} (${detail})`);
+  };
+
+  // Calendars referenced by a job, loaded at most once per tick
+  let calendarCache: CronCalendarRow[] | undefined;
+  const calendarsFor = async (cron: CronJobRow): Promise<CronCalendarRow[]> => {
+    if (!cron.calendars || cron.calendars.length === 0) return [];
+    calendarCache ??= await getCalendars();
+    const names = cron.calendars;
+    const referenced = calendarCache.filter((c) => names.includes(c.name));
+    const missing = names.filter((name) => !referenced.some((c) => c.name === name));
+    if (missing.length > 0) ctx.log.warn(`Cron ${cron.name} references unknown calendar(s): ${missing.join(", ")}`);
+    return referenced;
+  };
+
+  // The minute a job last fired in, from this process or from the persisted fire time
+  const firedMinute = (cron: CronJobRow): number => {
+    const persisted = cron.lastFireAt !== undefined ? Math.floor(cron.lastFireAt / 60000) : 0;
+    return Math.max(lastRun[cron.name] || 0, persisted);
+  };
+
+  // Persist fire bookkeeping in one write. The in-memory row is updated first so that concurrent
+  // runs of the same job count from each other's state; the fire time never moves backwards.
+  const recordFire = async (cron: CronJobRow, scheduledAt: number, counted: boolean) => {
+    const lastFireAt = Math.max(scheduledAt, cron.lastFireAt ?? scheduledAt);
+    const data: Partial<CronJobRow> = { lastFireAt };
+    if (!cron.runAt) {
+      const next = getNextRun({ ...cron, ...data }, Math.max(Date.now(), lastFireAt), lastFireAt);
+      data.nextFireAt = next?.getTime();
+    }
+    if (counted && cron.maxRuns !== undefined && !cron.once) {
+      data.runCount = (cron.runCount ?? 0) + 1;
+      if (data.runCount >= cron.maxRuns) {
+        await archive(cron, "maxRuns", data);
+        return;
+      }
+    }
+    Object.assign(cron, data);
+    await updateCron(cron.name, data);
+  };
+
+  const limiter = createRunLimiter(() =>
+    resolveRunLimits(
+      ctx.getConfig<{ maxConcurrentRuns?: number; maxConcurrentRunsPerSession?: number }>() ?? undefined,
+    ),
+  );
+
+  // Execute one occurrence of a job and record it in history. A job with a condition checks it against its
+  // script results first, and a job with onlyOnChange compares its output with the last injected run's; when
+  // the condition does not hold or nothing changed, the run is recorded as skipped without injecting. The run
+  // is cancelled through `controller`: by the overlap policy "replace" (recorded as cancelled) or when the
+  // job's timeout passes (recorded as timeout). Cancelling kills running scripts and stops waiting for the
+  // injection; the injection itself is left alone, as the session may be busy with other injections too.
+  const execute = async (
+    cron: CronJobRow,
+    scheduledAt: number,
+    controller: AbortController,
+    link?: RunLink,
+  ): Promise<RunOutcome> => {
+    let note = "";
+    if (link?.attempt) note = ` (attempt ${link.attempt})`;
+    else if (link?.triggeredBy) note = ` (after ${link.triggeredBy})`;
+    else if (link?.manual) note = " (manual)";
+    else if (Date.now() - scheduledAt >= 60000) note = ` (missed run for ${new Date(scheduledAt).toISOString()})`;
+    ctx.log.info(`Running cron: ${cron.name} -> ${cron.session}${note}`);
+    const startTime = Date.now();
+    const { signal } = controller;
+    const timeoutMs = cron.timeoutMs ?? CRON_TIMEOUT_MS;
+    let timedOut = false;
+    const timeoutId = setTimeout(() => {
+      timedOut = true;
+      controller.abort(new Error(`Cron job '${cron.name}' timed out after ${timeoutMs / 1000}s`));
+    }, timeoutMs);
+    let onAbort: (() => void) | undefined;
+    const cancelled = new Promise<never>((_, reject) => {
+      onAbort = () => reject(signal.reason);
+      signal.addEventListener("abort", onAbort, { once: true });
+    });
+    cancelled.catch(() => {});
+    try {
+      signal.throwIfAborted();
+      let resolvedMessage = cron.message;
+      let scriptResults: CronScriptResult[] | undefined;
+      if (cron.scripts && cron.scripts.length > 0) {
+        // Check cronScriptsEnabled from main config
+        const cfg = ctx.getConfig<{ cronScriptsEnabled?: boolean }>();
+        if (!cfg?.cronScriptsEnabled) {
+          ctx.log.info(`Cron scripts disabled for ${cron.name}`);
+        } else {
+          ctx.log.info(`Executing ${cron.scripts.length} script(s) for ${cron.name}`);
+          scriptResults = await executeCronScripts(cron.scripts, signal);
+          resolvedMessage = resolveDiffTemplates(
+            resolveScriptTemplates(cron.message, scriptResults),
+            cron.lastOutput,
+            scriptResults,
+          );
+          const failedScripts = scriptResults.filter((r) => r.error);
+          if (failedScripts.length > 0) {
+            ctx.log.warn(`${failedScripts.length} script(s) failed for ${cron.name}`);
+          }
+        }
+      }
 
-  return async () => {
-    const now = new Date();
+      const skip = async (reason: string): Promise<RunOutcome> => {
+        ctx.log.info(`Skipping cron: ${cron.name} - ${reason}`);
+        const runId = await addCronRun({
+          cronName: cron.name,
+          session: cron.session,
+          startedAt: startTime,
+          status: "skipped",
+          durationMs: Date.now() - startTime,
+          message: resolvedMessage,
+          scriptResults,
+          scheduledAt,
+          reason,
+          ...link,
+        });
+        return { status: "skipped", runId, reason };
+      };
+      if (cron.condition) {
+        const reason =
+          scriptResults === undefined && cron.scripts?.length
+            ? "condition not checked: cron scripts are disabled"
+            : checkRunCondition(cron.condition, scriptResults ?? []);
+        if (reason) return await skip(reason);
+      }
+      const lastOutput = tracksOutput(cron) ? snapshotOutput(cron, resolvedMessage, scriptResults) : undefined;
+      if (lastOutput && cron.onlyOnChange && !outputChanged(cron.lastOutput, lastOutput)) {
+        return await skip(UNCHANGED_REASON);
+      }
+
+      signal.throwIfAborted();
+      const injecting = ctx.inject(cron.session, resolvedMessage, { from: "cron", silent: true, source: CRON_SOURCE });
+      injecting.catch(() => {}); // A cancelled run no longer waits for it
+      await Promise.race([injecting, cancelled]);
+      const durationMs = Date.now() - startTime;
+      ctx.log.info(`Completed: ${cron.name} (${durationMs}ms)`);
+      if (lastOutput) {
+        Object.assign(cron, { lastOutput });
+        await updateCron(cron.name, { lastOutput });
+      }
+
+      const runId = await addCronRun({
+        cronName: cron.name,
+        session: cron.session,
+        startedAt: startTime,
+        status: "success",
+        durationMs,
+        message: resolvedMessage,
+        scriptResults,
+        scheduledAt,
+        ...link,
+      });
+      return { status: "success", runId };
+    } catch (err: unknown) {
+      const durationMs = Date.now() - startTime;
+      const errorMsg = err instanceof Error ? err.message : String(err);
+      if (timedOut) {
+        ctx.log.error(`Cron timeout: ${cron.name} - ${errorMsg}`);
+        const runId = await addCronRun({
+          cronName: cron.name,
+          session: cron.session,
+          startedAt: startTime,
+          status: "timeout",
+          durationMs,
+          error: errorMsg,
+          message: cron.message,
+          scheduledAt,
+          ...link,
+        });
+        return { status: "timeout", runId, error: errorMsg };
+      }
+      if (signal.aborted) {
+        ctx.log.info(`Cancelled cron: ${cron.name} - ${errorMsg}`);
+        const runId = await addCronRun({
+          cronName: cron.name,
+          session: cron.session,
+          startedAt: startTime,
+          status: "cancelled",
+          durationMs,
+          message: cron.message,
+          scheduledAt,
+          reason: errorMsg,
+          ...link,
+        });
+        return { status: "cancelled", runId };
+      }
+      ctx.log.error(`Cron error: ${cron.name} - ${errorMsg}`);
+
+      const runId = await addCronRun({
+        cronName: cron.name,
+        session: cron.session,
+        startedAt: startTime,
+        status: "failure",
+        durationMs,
+        error: errorMsg,
+        message: cron.message,
+        scheduledAt,
+        ...link,
+      });
+      return { status: "failure", runId, error: errorMsg };
+    } finally {
+      clearTimeout(timeoutId);
+      if (onAbort) signal.removeEventListener("abort", onAbort);
+    }
+  };
+
+  // After a failed or timed-out attempt, book the next retry the job's policy allows and return whether
+  // one was booked. A one-time job with no attempts left is dead-lettered so it can be listed and replayed;
+  // recurring jobs wait for their next run.
+  const handleFailure = async (
+    cron: CronJobRow,
+    scheduledAt: number,
+    outcome: RunOutcome,
+    link: RunLink,
+  ): Promise<boolean> => {
+    const attempt = link.attempt ?? 1;
+    const policy = cron.retry;
+    if (policy && attempt < policy.maxAttempts) {
+      const delay = retryDelay(policy, attempt);
+      const pendingRetry = {
+        at: Date.now() + delay,
+        attempt: attempt + 1,
+        runId: link.retryOf ?? outcome.runId,
+        scheduledAt,
+        workflowRunId: link.workflowRunId,
+        triggeredBy: link.triggeredBy,
+      };
+      Object.assign(cron, { pendingRetry });
+      await updateCron(cron.name, { pendingRetry });
+      ctx.log.info(
+        `Retrying cron: ${cron.name} in ${Math.ceil(delay / 1000)}s (attempt ${attempt + 1} of ${policy.maxAttempts})`,
+      );
+      return true;
+    }
+    if (cron.once) {
+      const data = { deadLetteredAt: Date.now(), deadLetterError: outcome.error };
+      Object.assign(cron, data);
+      await updateCron(cron.name, data);
+      ctx.log.warn(`Dead-lettered one-time job: ${cron.name} after ${attempt} attempt(s)`);
+    } else if (policy && policy.maxAttempts > 1) {
+      ctx.log.warn(`Giving up on cron: ${cron.name} after ${attempt} attempts`);
+    }
+    return false;
+  };
+
+  // Runs booked per job, for the overlap policy; a run is active from booking until it finishes
+  const activeRuns = new Map<string, Set<AbortController>>();
+  const queuedJobs = new Set<string>();
+  const idleWaiters = new Map<string, Array<() => void>>();
+
+  const whenIdle = (name: string): Promise<void> =>
+    new Promise((resolve) => idleWaiters.set(name, [...(idleWaiters.get(name) ?? []), resolve]));
+
+  // Record an occurrence the overlap policy held back; it does not count towards maxRuns
+  const recordHeldBack = async (
+    cron: CronJobRow,
+    scheduledAt: number,
+    status: "skipped" | "queued",
+    reason: string,
+    link?: RunLink,
+  ) => {
+    ctx.log.info(`${status === "skipped" ? "Skipping" : "Queueing"} cron: ${cron.name} - ${reason}`);
+    await addCronRun({
+      cronName: cron.name,
+      session: cron.session,
+      startedAt: Date.now(),
+      status,
+      durationMs: 0,
+      message: cron.message,
+      scheduledAt,
+      reason,
+      ...link,
+    });
+  };
+
+  const workflows = new Map<string, WorkflowState>();
+  const workflowState = (id: string): WorkflowState => {
+    let state = workflows.get(id);
+    if (!state) {
+      state = { active: 0, finished: new Map(), started: new Set() };
+      workflows.set(id, state);
+    }
+    return state;
+  };
+  const leaveWorkflow = (id: string) => {
+    const state = workflows.get(id);
+    if (state && --state.active <= 0) workflows.delete(id);
+  };
+
+  // Book an occurrence as soon as it is due, so restarts and run limits see it, then execute it
+  // once the limiter has a slot. If the job is still running, its overlap policy decides whether the
+  // occurrence runs alongside, is skipped, waits for the running one (at most one waits) or replaces it.
+  // Successful one-time jobs are removed afterwards; failed runs are retried per the job's retry policy.
+  // A retry goes through the same steps but was booked when its occurrence first fired. Manual runs are
+  // not occurrences: they leave the fire bookkeeping alone and are neither removed nor retried. Returns how
+  // the run ended and whether a retry was booked, or null when the overlap policy skipped the occurrence.
+  const runOccurrence = async (
+    cron: CronJobRow,
+    scheduledAt: number,
+    link: RunLink,
+    retry?: PendingRetry,
+  ): Promise<{ outcome: RunOutcome; retrying: boolean } | null> => {
+    const policy = cron.overlap ?? "allow";
+    const running = activeRuns.get(cron.name)?.size ?? 0;
+    const queued = queuedJobs.has(cron.name);
+
+    if ((running > 0 || queued) && (policy === "skip" || (policy === "queue" && queued))) {
+      const reason = policy === "skip" ? "previous run still in progress" : "another run is already queued";
+      if (!retry && !link.manual) await recordFire(cron, scheduledAt, false);
+      await recordHeldBack(cron, scheduledAt, "skipped", reason, link);
+      return null;
+    }
+    let booked = retry !== undefined || link.manual === true;
+    if (running > 0 && policy === "queue") {
+      queuedJobs.add(cron.name);
+      if (!booked) await recordFire(cron, scheduledAt, true);
+      booked = true;
+      await recordHeldBack(cron, scheduledAt, "queued", "waiting for the previous run to finish", link);
+      if (activeRuns.has(cron.name)) await whenIdle(cron.name);
+      queuedJobs.delete(cron.name);
+    } else if (running > 0 && policy === "replace") {
+      for (const controller of activeRuns.get(cron.name) ?? []) controller.abort(new Error("replaced by a newer run"));
+    }
+
+    // Registered with no await since the checks, so the next dispatch of this job sees the run
+    const controller = new AbortController();
+    const runs = activeRuns.get(cron.name) ?? new Set<AbortController>();
+    activeRuns.set(cron.name, runs.add(controller));
+    let outcome: RunOutcome;
+    try {
+      if (!booked) await recordFire(cron, scheduledAt, true);
+      outcome = await limiter.run(cron.session, () => execute(cron, scheduledAt, controller, link));
+    } finally {
+      runs.delete(controller);
+      if (runs.size === 0) {
+        activeRuns.delete(cron.name);
+        for (const resolve of idleWaiters.get(cron.name) ?? []) resolve();
+        idleWaiters.delete(cron.name);
+      }
+    }
+    let retrying = false;
+    if (link.manual) return { outcome, retrying };
+    // A one-time job whose condition did not hold has nothing left to do either
+    if ((outcome.status === "success" || outcome.status === "skipped") && cron.once) {
+      await removeCron(cron.name);
+      ctx.log.info(`Auto-removed one-time job: ${cron.name}`);
+    } else if (outcome.status === "failure" || outcome.status === "timeout") {
+      retrying = await handleFailure(cron, scheduledAt, outcome, link);
+    }
+    return { outcome, retrying };
+  };
+
+  // Record how a run of a workflow ended and start the dependents it completes. A dependent runs once per
+  // workflow run, when all of its upstream jobs have finished there and its trigger condition holds.
+  const triggerDependents = async (cron: CronJobRow, workflowRunId: string, succeeded: boolean) => {
+    const state = workflowState(workflowRunId);
+    state.finished.set(cron.name, succeeded);
+    const dependents = await getDependentCrons(cron.name);
+    const runs: Promise<unknown>[] = [];
+    for (const dependent of dependents) {
+      const after = dependent.after ?? [];
+      if (state.started.has(dependent.name) || !after.every((name) => state.finished.has(name))) continue;
+      state.started.add(dependent.name);
+      if (dependent.archivedAt !== undefined || dependent.deadLetteredAt !== undefined) continue;
+      if (isPaused(dependent) || isGloballyPaused(ctx)) {
+        ctx.log.info(`Not triggering cron: ${dependent.name} - paused`);
+        continue;
+      }
+      const condition = dependent.triggerOn ?? "success";
+      if (
+        !triggerFires(
+          condition,
+          after.map((name) => state.finished.get(name) === true),
+        )
+      ) {
+        ctx.log.info(`Not triggering cron: ${dependent.name} - condition '${condition}' not met`);
+        continue;
+      }
+      runs.push(dispatch(dependent, Date.now(), undefined, { workflowRunId, triggeredBy: cron.name }));
+    }
+    await Promise.all(runs);
+  };
+
+  // Run an occurrence as part of its workflow run: a job that others run after starts a new workflow run
+  // unless it was triggered itself, and its runs carry the workflow run ID. Once a run has finished for
+  // good (no retry pending, not cancelled or skipped by its condition), the dependents it completes are
+  // started. Returns how the run ended, or null when it did not run.
+  const dispatch = async (
+    cron: CronJobRow,
+    scheduledAt: number,
+    retry?: PendingRetry,
+    start: RunStart = {},
+  ): Promise<RunOutcome | null> => {
+    // Fencing for daemons sharing storage: an instance whose lease lapsed leaves the run to the new leader.
+    // Manual runs were asked for explicitly and run wherever they were asked for.
+    if (!start.manual && options.isLeader && !options.isLeader()) {
+      ctx.log.warn(`Not running cron: ${cron.name} - this instance is no longer the leader`);
+      return null;
+    }
+    const workflowRunId = retry
+      ? retry.workflowRunId
+      : (start.workflowRunId ?? ((await hasDependentCrons(cron.name)) ? randomUUID() : undefined));
+    const link: RunLink = {
+      attempt: retry?.attempt,
+      retryOf: retry?.runId,
+      workflowRunId,
+      triggeredBy: retry ? retry.triggeredBy : start.triggeredBy,
+      manual: start.manual,
+    };
+    // A retry continues the workflow run its first attempt joined
+    if (workflowRunId && !retry) workflowState(workflowRunId).active++;
+    let retrying = false;
+    try {
+      const result = await runOccurrence(cron, scheduledAt, link, retry);
+      retrying = result?.retrying ?? false;
+      const ended = result && result.outcome.status !== "cancelled" && result.outcome.status !== "skipped";
+      if (workflowRunId && ended && !retrying) {
+        await triggerDependents(cron, workflowRunId, result.outcome.status === "success");
+      }
+      return result?.outcome ?? null;
+    } finally {
+      if (workflowRunId && !retrying) leaveWorkflow(workflowRunId);
+    }
+  };
+
+  // Apply each job's misfire policy to occurrences missed while the daemon was down or the job was
+  // paused. Each job's catch-up runs are chained in order; the returned map holds the chains by job name.
+  const reconcile = async (crons: CronJobRow[], until: number): Promise<Map<string, Promise<unknown>>> => {
+    const chains = new Map<string, Promise<unknown>>();
+    for (const cron of crons) {
+      if (cron.archivedAt !== undefined || cron.deadLetteredAt !== undefined) continue;
+      if (isPaused(cron, until)) continue;
+      // A job paused before it ever fired has missed the runs since it was paused
+      const since = cron.lastFireAt ?? cron.pausedAt;
+      if (cron.runAt || since === undefined) continue;
+      if (isRebootSchedule(cron.schedule)) continue;
+      let plan: CatchUpPlan;
+      try {
+        plan = planCatchUp(cron, since, until, await calendarsFor(cron));
+      } catch {
+        continue; // Invalid schedules never fire
+      }
+      if (plan.missed === 0 || plan.latest === null) continue;
+
+      const skipped = plan.missed - plan.run.length;
+      if (skipped > 0) ctx.log.info(`Skipped ${skipped} missed run(s) of cron: ${cron.name}`);
+      if (plan.run.length === 0) {
+        await recordFire(cron, plan.latest, false);
+        continue;
+      }
+      let chain: Promise<unknown> = Promise.resolve();
+      for (const scheduledAt of plan.run) {
+        chain = chain.then(() => (cron.archivedAt === undefined ? dispatch(cron, scheduledAt) : undefined));
+      }
+      chains.set(cron.name, chain);
+    }
+    return chains;
+  };
+
+  // The scheduler passes the fire time it woke for as `at`
+  const tick = async (jobs?: CronJobRow[], at?: number) => {
+    if (options.isLeader && !options.isLeader()) return;
+    // Nothing runs while all jobs are paused; the first tick afterwards reconciles every job, as after downtime
+    if (isGloballyPaused(ctx)) {
+      globallyPaused = true;
+      return;
+    }
+    const resumedAll = globallyPaused;
+    globallyPaused = false;
+    const now = new Date(at ?? Date.now());
     const nowTs = now.getTime();
-    const crons = await getCrons();
-    const toRemove: string[] = [];
+    const currentMinute = Math.floor(nowTs / 60000);
+    const crons = jobs && !resumedAll ? jobs : await getCrons();
+    const runs: Promise<unknown>[] = [];
+    calendarCache = undefined;
+
+    // Jobs resumed since the last tick get the same treatment for the runs they missed while paused
+    const resumed = crons.filter((c) => c.pausedAt !== undefined && !isPaused(c, nowTs));
+    const catchUps = await reconcile(booted && !resumedAll ? resumed : crons, currentMinute * 60000);
+    runs.push(...catchUps.values());
+    for (const cron of resumed) {
+      Object.assign(cron, { pausedAt: undefined, pausedUntil: undefined });
+      await updateCron(cron.name, { pausedAt: undefined, pausedUntil: undefined });
+    }
 
     for (const cron of crons) {
       const key = cron.name;
       let shouldExecute = false;
 
-      if (cron.runAt) {
-        if (nowTs >= cron.runAt && !lastRun[key]) shouldExecute = true;
-      } else {
-        const lastMinute = lastRun[key] || 0;
-        const currentMinute = Math.floor(nowTs / 60000);
-        if (currentMinute > lastMinute && shouldRunCron(cron.schedule, now)) shouldExecute = true;
+      if (cron.deadLetteredAt !== undefined) continue;
+      // Paused jobs keep any pending retry until they are resumed
+      if (isPaused(cron, nowTs)) continue;
+      // Due retries run even when the job has since been archived; the pending retry is taken before it runs
+      const retry = cron.pendingRetry;
+      if (retry && nowTs >= retry.at) {
+        Object.assign(cron, { pendingRetry: undefined });
+        await updateCron(key, { pendingRetry: undefined });
+        runs.push(dispatch(cron, retry.scheduledAt, retry));
       }
 
-      if (shouldExecute) {
-        lastRun[key] = Math.floor(nowTs / 60000);
-        ctx.log.info(`Running cron: ${cron.name} -> ${cron.session}`);
-        const startTime = Date.now();
-        let timeoutId: ReturnType<typeof setTimeout> | undefined;
-        try {
-          let resolvedMessage = cron.message;
-          let scriptResults: CronScriptResult[] | undefined;
-          if (cron.scripts && cron.scripts.length > 0) {
-            // Check cronScriptsEnabled from main config
-            const cfg = ctx.getConfig<{ cronScriptsEnabled?: boolean }>();
-            if (!cfg?.cronScriptsEnabled) {
-              ctx.log.info(`Cron scripts disabled for ${cron.name}`);
-            } else {
-              ctx.log.info(`Executing ${cron.scripts.length} script(s) for ${cron.name}`);
-              scriptResults = await executeCronScripts(cron.scripts);
-              resolvedMessage = resolveScriptTemplates(cron.message, scriptResults);
-              const failedScripts = scriptResults.filter((r) => r.error);
-              if (failedScripts.length > 0) {
-                ctx.log.warn(`${failedScripts.length} script(s) failed for ${cron.name}`);
-              }
-            }
-          }
+      if (cron.archivedAt !== undefined) continue;
+      if (cron.endAt !== undefined && nowTs >= cron.endAt) {
+        await archive(cron, "ended");
+        continue;
+      }
+      if (cron.startAt !== undefined && nowTs < cron.startAt) continue;
+      // Jobs started by other jobs never fire on their own
+      if (cron.after?.length) continue;
 
-          await Promise.race([
-            ctx.inject(cron.session, resolvedMessage, { from: "cron", silent: true, source: CRON_SOURCE }),
-            new Promise<never>((_, reject) => {
-              timeoutId = setTimeout(
-                () => reject(new Error(`Cron job '${cron.name}' timed out after ${CRON_TIMEOUT_MS / 1000}s`)),
-                CRON_TIMEOUT_MS,
-              );
-            }),
-          ]);
-          const durationMs = Date.now() - startTime;
-          ctx.log.info(`Completed: ${cron.name} (${durationMs}ms)`);
-
-          await addCronRun({
-            cronName: cron.name,
-            session: cron.session,
-            startedAt: startTime,
-            status: "success",
-            durationMs,
-            message: resolvedMessage,
-            scriptResults,
-          });
+      if (cron.runAt) {
+        if (nowTs >= cron.runAt && !lastRun[key] && cron.lastFireAt === undefined) shouldExecute = true;
+      } else if (cron.every) {
+        // Fall back to the persisted fire time, then history, when this process has not fired the job yet
+        const lastFire = lastRun[key] ? lastRun[key] * 60000 : (cron.lastFireAt ?? (await getLastSuccessfulRun(key)));
+        try {
+          shouldExecute = nextIntervalRun(cron, lastFire, nowTs) <= nowTs && currentMinute > firedMinute(cron);
+        } catch {
+          // Invalid intervals never fire, like invalid cron schedules
+        }
+      } else if (cron.rrule) {
+        if (currentMinute > firedMinute(cron) && recurrenceFiresAt(cron.rrule, now, cron.timezone)) {
+          shouldExecute = true;
+        }
+      } else if (isRebootSchedule(cron.schedule)) {
+        shouldExecute = !booted && reboot;
+      } else {
+        const options = { dayMatch: cron.dayMatch, timezone: cron.timezone };
+        if (currentMinute > firedMinute(cron) && shouldRunCron(cron.schedule, now, options)) shouldExecute = true;
+      }
 
-          if (cron.once) {
-            toRemove.push(cron.name);
-            ctx.log.info(`Auto-removed one-time job: ${cron.name}`);
-          }
-        } catch (err: unknown) {
-          const durationMs = Date.now() - startTime;
-          const errorMsg = err instanceof Error ? err.message : String(err);
-          ctx.log.error(`Cron error: ${cron.name} - ${errorMsg}`);
-
-          await addCronRun({
-            cronName: cron.name,
-            session: cron.session,
-            startedAt: startTime,
-            status: "failure",
-            durationMs,
-            error: errorMsg,
-            message: cron.message,
-          });
-        } finally {
-          if (timeoutId !== undefined) clearTimeout(timeoutId);
+      if (shouldExecute && cron.calendars && cron.calendars.length > 0) {
+        const exclusion = findExclusion(await calendarsFor(cron), nowTs, cron.timezone);
+        if (exclusion) {
+          const event = exclusion.event ? ` (${exclusion.event})` : "";
+          ctx.log.info(`Skipping cron: ${cron.name} - excluded by calendar '${exclusion.calendar}'${event}`);
+          // Recurring occurrences inside an exclusion are dropped; one-time jobs wait until it ends
+          if (!cron.runAt) lastRun[key] = currentMinute;
+          shouldExecute = false;
         }
       }
-    }
 
-    if (toRemove.length > 0) {
-      for (const name of toRemove) {
-        await removeCron(name);
+      if (shouldExecute) {
+        lastRun[key] = currentMinute;
+        // Due jobs run concurrently; a job's current occurrence waits for its own catch-up runs
+        const previous = catchUps.get(key) ?? Promise.resolve();
+        runs.push(previous.then(() => dispatch(cron, currentMinute * 60000)));
       }
     }
+
+    booted = true;
+    await Promise.all(runs);
   };
+
+  return Object.assign(tick, {
+    run: (job: CronJobRow) => dispatch(job, Date.now(), undefined, { manual: true }),
+  });
 }
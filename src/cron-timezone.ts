@@ -0,0 +1,137 @@
+/**
+ * Time zone helpers - wall-clock conversion for IANA zones using Intl
+ *
+ * A `timeZone` of undefined means the daemon's local zone throughout.
+ */
+
+export interface WallTime {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+}
+
+export interface ZonedTime extends WallTime {
+  second: number;
+  weekday: number; // 0 = Sunday
+}
+
+const MINUTE_MS = 60000;
+const DAY_MS = 86400000;
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone?: string): Intl.DateTimeFormat {
+  const key = timeZone ?? "";
+  let fmt = formatters.get(key);
+  if (!fmt) {
+    fmt = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      minute: "numeric",
+      second: "numeric",
+    });
+    formatters.set(key, fmt);
+  }
+  return fmt;
+}
+
+/**
+ * Check whether a string is an IANA time zone name known to this runtime.
+ */
+export function isValidTimezone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Get the wall-clock fields of an instant in a time zone.
+ */
+export function getZonedTime(instant: Date | number, timeZone?: string): ZonedTime {
+  const parts: Record<string, number> = {};
+  for (const part of getFormatter(timeZone).formatToParts(instant)) {
+    if (part.type !== "literal") parts[part.type] = parseInt(part.value, 10);
+  }
+  const { year, month, day, hour, minute, second } = parts;
+  return { year, month, day, hour, minute, second, weekday: new Date(Date.UTC(year, month - 1, day)).getUTCDay() };
+}
+
+/** Wall time encoded as if it were UTC, which makes wall-clock arithmetic plain subtraction. */
+export function wallTimeToNaive(wall: WallTime): number {
+  return Date.UTC(wall.year, wall.month - 1, wall.day, wall.hour, wall.minute);
+}
+
+export function naiveToWallTime(naive: number): WallTime {
+  const d = new Date(naive);
+  return {
+    year: d.getUTCFullYear(),
+    month: d.getUTCMonth() + 1,
+    day: d.getUTCDate(),
+    hour: d.getUTCHours(),
+    minute: d.getUTCMinutes(),
+  };
+}
+
+function offsetAt(instant: number, timeZone?: string): number {
+  const wall = getZonedTime(instant, timeZone);
+  const floored = instant - (((instant % 1000) + 1000) % 1000);
+  return wallTimeToNaive(wall) + wall.second * 1000 - floored;
+}
+
+/**
+ * Convert a wall-clock time in a zone to an instant.
+ *
+ * DST transitions are resolved deterministically: a repeated wall time (fall back) maps to its
+ * first occurrence, and a wall time inside a spring-forward gap maps to the first instant after the gap.
+ */
+export function resolveWallTime(wall: WallTime, timeZone?: string): number {
+  const naive = wallTimeToNaive(wall);
+  // Assume at most one offset transition within a day either side of the wall time
+  const before = offsetAt(naive - DAY_MS, timeZone);
+  const after = offsetAt(naive + DAY_MS, timeZone);
+  if (before === after) return naive - before;
+  const candidates = [naive - before, naive - after]
+    .filter((instant) => wallTimeToNaive(getZonedTime(instant, timeZone)) === naive)
+    .sort((a, b) => a - b);
+  if (candidates.length > 0) return candidates[0];
+
+  // In a gap: the transition lies between the two candidate instants; binary search for it by minute
+  let lo = Math.min(naive - before, naive - after);
+  let hi = Math.max(naive - before, naive - after);
+  while (hi - lo > MINUTE_MS) {
+    const mid = lo + Math.floor((hi - lo) / 2 / MINUTE_MS) * MINUTE_MS;
+    if (offsetAt(mid, timeZone) === before) lo = mid;
+    else hi = mid;
+  }
+  return hi;
+}
+
+/**
+ * List the wall-clock minutes that an instant stands in for: normally just its own wall time,
+ * none if it is the second occurrence of a repeated wall time, and also every skipped minute
+ * when it is the first minute after a spring-forward gap.
+ */
+export function wallTimesAt(instant: Date | number, timeZone?: string): WallTime[] {
+  const ts = typeof instant === "number" ? instant : instant.getTime();
+  const minute = ts - (((ts % MINUTE_MS) + MINUTE_MS) % MINUTE_MS);
+  const naive = wallTimeToNaive(getZonedTime(minute, timeZone));
+  const times: WallTime[] = [];
+
+  const previous = wallTimeToNaive(getZonedTime(minute - MINUTE_MS, timeZone));
+  for (let skipped = previous + MINUTE_MS; skipped < naive && naive - previous <= DAY_MS; skipped += MINUTE_MS) {
+    times.push(naiveToWallTime(skipped));
+  }
+
+  const wall = naiveToWallTime(naive);
+  if (resolveWallTime(wall, timeZone) === minute) times.push(wall);
+  return times;
+}
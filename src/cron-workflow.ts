@@ -0,0 +1,120 @@
+/**
+ * Job chains - jobs with `after` run when their upstream jobs finish, forming workflows that share a run ID
+ */
+
+import type { CronJobRow, TriggerCondition } from "./cron-schema.js";
+
+export const AFTER_PREFIX = "@after ";
+
+type TriggerFields = Pick<CronJobRow, "name" | "after" | "triggerOn">;
+
+/**
+ * The schedule label stored for a job started by others, e.g. "@after collect, summarise"
+ */
+export function triggerLabel(after: string[]): string {
+  return `${AFTER_PREFIX}${after.join(", ")}`;
+}
+
+function joinNames(names: string[]): string {
+  return names.length === 1 ? names[0] : `${names.slice(0, -1).join(", ")} and ${names[names.length - 1]}`;
+}
+
+/**
+ * Describe when a job started by others runs, e.g. "After collect and summarise succeed"
+ */
+export function explainTrigger(job: Pick<CronJobRow, "after" | "triggerOn">): string {
+  const after = job.after ?? [];
+  const names = joinNames(after);
+  const single = after.length === 1;
+  switch (job.triggerOn ?? "success") {
+    case "failure":
+      return single ? `After ${names} fails` : `After ${names} finish, if any of them failed`;
+    case "always":
+      return `After ${names} ${single ? "finishes" : "finish"}`;
+    default:
+      return `After ${names} ${single ? "succeeds" : "succeed"}`;
+  }
+}
+
+/**
+ * Whether a job runs given how its upstream jobs ended (true for success), once all of them have finished
+ */
+export function triggerFires(condition: TriggerCondition = "success", succeeded: boolean[]): boolean {
+  if (condition === "always") return true;
+  if (condition === "failure") return succeeded.some((ok) => !ok);
+  return succeeded.every((ok) => ok);
+}
+
+/**
+ * Find a cycle that saving `job` would create among `jobs`, as the chain of names from `job` back to
+ * itself (e.g. ["digest", "collect", "digest"]), or null if there is none.
+ */
+export function findTriggerCycle(job: TriggerFields, jobs: TriggerFields[]): string[] | null {
+  const upstream = new Map(jobs.map((j) => [j.name, j.after ?? []]));
+  upstream.set(job.name, job.after ?? []);
+  const visited = new Set<string>();
+  const walk = (name: string, path: string[]): string[] | null => {
+    for (const next of upstream.get(name) ?? []) {
+      if (next === job.name) return [...path, next];
+      if (visited.has(next)) continue;
+      visited.add(next);
+      const cycle = walk(next, [...path, next]);
+      if (cycle) return cycle;
+    }
+    return null;
+  };
+  return walk(job.name, [job.name]);
+}
+
+/**
+ * The scheduled jobs whose workflow runs would start `job`. Each scheduled job that others run after starts
+ * a workflow run of its own, and a job runs in one only when all of its upstream jobs do, so a job running
+ * after several others is started only by the scheduled jobs they all share.
+ */
+function findStartingJobs(job: TriggerFields, jobs: TriggerFields[]): Set<string> {
+  const upstream = new Map(jobs.map((j) => [j.name, j.after ?? []]));
+  upstream.set(job.name, job.after ?? []);
+  const starts = new Map<string, Set<string>>();
+  const walk = (name: string): Set<string> => {
+    const known = starts.get(name);
+    if (known) return known;
+    // Guards against cycles among stored jobs; a job on a cycle is started by nothing
+    starts.set(name, new Set());
+    const after = upstream.get(name) ?? [];
+    let result = new Set(after.length === 0 ? [name] : walk(after[0]));
+    for (const next of after.slice(1)) {
+      const reached = walk(next);
+      result = new Set([...result].filter((start) => reached.has(start)));
+    }
+    starts.set(name, result);
+    return result;
+  };
+  return walk(job.name);
+}
+
+/**
+ * Explain why a job other jobs run after cannot be removed, e.g. "Cron job 'collect' has digest running after it; ..."
+ */
+export function explainDependents(name: string, dependents: TriggerFields[]): string {
+  const names = joinNames(dependents.map((job) => job.name));
+  return `Cron job '${name}' has ${names} running after it; remove it from their after list or cancel them first`;
+}
+
+/**
+ * Validate a job's triggers against the stored jobs, returning an error message or null.
+ */
+export function validateTriggers(job: TriggerFields, jobs: TriggerFields[]): string | null {
+  if (job.triggerOn !== undefined && !["success", "failure", "always"].includes(job.triggerOn)) {
+    return `Unknown trigger condition '${job.triggerOn}': use success, failure or always`;
+  }
+  const after = job.after ?? [];
+  if (after.length === 0) return job.triggerOn !== undefined ? "triggerOn needs after" : null;
+  const unknown = after.filter((name) => name !== job.name && !jobs.some((j) => j.name === name));
+  if (unknown.length > 0) return `Unknown upstream job(s): ${unknown.join(", ")}`;
+  const cycle = findTriggerCycle(job, jobs);
+  if (cycle) return `Job triggers would form a cycle: ${cycle.join(" -> ")}`;
+  if (findStartingJobs(job, jobs).size === 0) {
+    return `${joinNames(after)} are not started by one scheduled job, so ${job.name} would never run`;
+  }
+  return null;
+}
@@ -4,104 +4,855 @@
 
 import { exec } from "node:child_process";
 import { promisify } from "node:util";
-import type { CronJobRow, CronScript, CronScriptResult } from "./cron-schema.js";
+import { computeNextOccurrences, parseRecurrence } from "./cron-rrule.js";
+import type { CronJobRow, CronScript, CronScriptResult, DayMatchMode } from "./cron-schema.js";
+import { getZonedTime, resolveWallTime, type WallTime, wallTimesAt, wallTimeToNaive } from "./cron-timezone.js";
 
 const execAsync = promisify(exec);
 
-export function parseCronSchedule(schedule: string): {
+const MONTH_NAMES = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+const WEEKDAY_NAMES = ["sun", "mon", "tue", "wed", "thu", "fri", "sat"];
+
+interface CronFieldSpec {
+  name: "minute" | "hour" | "day" | "month" | "weekday";
+  min: number;
+  max: number;
+  names?: string[];
+  nameOffset?: number;
+  /** Ranges may wrap past the end, e.g. `FRI-SUN`; only the cyclic weekday field allows it. */
+  wraps?: boolean;
+}
+
+// The weekday field accepts 0-7 so that both 0 and 7 mean Sunday; 7 is folded to 0 after parsing.
+const CRON_FIELDS: CronFieldSpec[] = [
+  { name: "minute", min: 0, max: 59 },
+  { name: "hour", min: 0, max: 23 },
+  { name: "day", min: 1, max: 31 },
+  { name: "month", min: 1, max: 12, names: MONTH_NAMES, nameOffset: 1 },
+  { name: "weekday", min: 0, max: 7, names: WEEKDAY_NAMES, nameOffset: 0, wraps: true },
+];
+
+/** Standard schedule macros and their five-field equivalents. */
+export const CRON_MACROS: Record<string, string> = {
+  "@yearly": "0 0 1 1 *",
+  "@annually": "0 0 1 1 *",
+  "@monthly": "0 0 1 * *",
+  "@weekly": "0 0 * * 0",
+  "@daily": "0 0 * * *",
+  "@midnight": "0 0 * * *",
+  "@hourly": "0 * * * *",
+};
+
+/** `@reboot` jobs fire once each time the tick loop starts instead of on a clock schedule. */
+export const REBOOT_MACRO = "@reboot";
+
+export function isRebootSchedule(schedule: string): boolean {
+  return schedule.trim().toLowerCase() === REBOOT_MACRO;
+}
+
+function fieldError(spec: CronFieldSpec, part: string, token: string, reason: string): Error {
+  return new Error(`Invalid ${spec.name} field '${part}': ${reason} in '${token}'`);
+}
+
+/**
+ * Parse one cron field using the Vixie grammar: a comma-separated list whose items are
+ * `*`, `N`, `N-M`, each optionally followed by `/step` (`N/step` means `N-max/step`).
+ * Month and weekday fields also accept case-insensitive three-letter names, and weekday ranges may wrap.
+ */
+function parseCronField(spec: CronFieldSpec, part: string, tokens = part.split(",")): number[] {
+  const fail = (token: string, reason: string): never => {
+    throw fieldError(spec, part, token, reason);
+  };
+
+  const values = new Set<number>();
+  for (const token of tokens) {
+    if (token === "") fail(token, "empty list item");
+    const [base, stepRaw, ...extra] = token.split("/");
+    if (extra.length > 0) fail(token, "more than one step");
+
+    let step = 1;
+    if (stepRaw !== undefined) {
+      if (!/^\d+$/.test(stepRaw) || parseInt(stepRaw, 10) <= 0) fail(token, `invalid step '${stepRaw}'`);
+      step = parseInt(stepRaw, 10);
+    }
+
+    let start: number;
+    let end: number;
+    if (base === "*") {
+      start = spec.min;
+      end = spec.max;
+    } else if (base.includes("-")) {
+      const [from, to, ...rest] = base.split("-");
+      if (rest.length > 0) fail(token, "malformed range");
+      start = parseFieldValue(spec, part, token, from);
+      end = parseFieldValue(spec, part, token, to);
+      if (start > end && !spec.wraps) fail(token, `range start ${start} is after end ${end}`);
+      // A wrapping weekday range runs on into the next week; values past 7 are folded like 7 is
+      if (start > end) end += spec.max;
+    } else {
+      start = parseFieldValue(spec, part, token, base);
+      end = stepRaw === undefined ? start : spec.max;
+    }
+
+    for (let v = start; v <= end; v += step) values.add(v);
+  }
+  return [...values].sort((a, b) => a - b);
+}
+
+function parseFieldValue(spec: CronFieldSpec, part: string, token: string, raw: string): number {
+  const named = spec.names?.indexOf(raw.toLowerCase()) ?? -1;
+  if (named >= 0) return named + (spec.nameOffset ?? 0);
+  if (!/^\d+$/.test(raw)) throw fieldError(spec, part, token, `'${raw}' is not a number`);
+  const value = parseInt(raw, 10);
+  if (value < spec.min || value > spec.max) {
+    throw fieldError(spec, part, token, `${value} is out of range ${spec.min}-${spec.max}`);
+  }
+  return value;
+}
+
+/** Quartz-style day-of-month specifiers: `L`, `LW` and `nW`. */
+export type CronDaySpec = { kind: "last" } | { kind: "lastWeekday" } | { kind: "nearestWeekday"; day: number };
+
+/** Quartz-style day-of-week specifiers: `nL` (last n-day of the month) and `n#k` (k-th n-day). */
+export type CronWeekdaySpec = { kind: "last"; weekday: number } | { kind: "nth"; weekday: number; nth: number };
+
+export interface CronSchedule {
   minute: number[];
   hour: number[];
+  /** Plain day-of-month values; `daySpecs` holds the date-dependent ones. */
   day: number[];
   month: number[];
+  /** Plain weekday values (0 = Sunday); `weekdaySpecs` holds the date-dependent ones. */
   weekday: number[];
-} {
-  const parts = schedule.split(" ");
-  if (parts.length !== 5) throw new Error("Invalid cron schedule");
+  daySpecs: CronDaySpec[];
+  weekdaySpecs: CronWeekdaySpec[];
+  /** True when the field starts with `*`; like Vixie, a stepped wildcard still counts as unrestricted. */
+  dayWildcard: boolean;
+  weekdayWildcard: boolean;
+}
 
-  const parse = (part: string, min: number, max: number): number[] => {
-    if (part === "*") return Array.from({ length: max - min + 1 }, (_, i) => min + i);
-    if (part.startsWith("*/")) {
-      const step = parseInt(part.slice(2), 10);
-      if (!Number.isFinite(step) || step <= 0) throw new Error(`Invalid step: ${part}`);
-      return Array.from({ length: max - min + 1 }, (_, i) => min + i).filter((v) => (v - min) % step === 0);
-    }
-    if (part.includes(",")) {
-      const values = part.split(",").map(Number);
-      for (const v of values) {
-        if (!Number.isFinite(v) || v < min || v > max) throw new Error(`Value out of range: ${v}`);
-      }
-      return values;
+function parseDayField(spec: CronFieldSpec, part: string): { values: number[]; specs: CronDaySpec[] } {
+  const specs: CronDaySpec[] = [];
+  const plain: string[] = [];
+  for (const token of part.split(",")) {
+    const upper = token.toUpperCase();
+    const nearest = upper.match(/^(\d+)W$/);
+    if (upper === "L") specs.push({ kind: "last" });
+    else if (upper === "LW") specs.push({ kind: "lastWeekday" });
+    else if (nearest) specs.push({ kind: "nearestWeekday", day: parseFieldValue(spec, part, token, nearest[1]) });
+    else plain.push(token);
+  }
+  return { values: plain.length > 0 ? parseCronField(spec, part, plain) : [], specs };
+}
+
+function parseWeekdayField(spec: CronFieldSpec, part: string): { values: number[]; specs: CronWeekdaySpec[] } {
+  const specs: CronWeekdaySpec[] = [];
+  const plain: string[] = [];
+  for (const token of part.split(",")) {
+    const last = token.match(/^(\w+?)L$/i);
+    // Quartz reads a bare L as the last day of the week, Saturday
+    if (token.toUpperCase() === "L") {
+      plain.push("6");
+      continue;
     }
-    if (part.includes("-")) {
-      const [start, end] = part.split("-").map(Number);
-      if (!Number.isFinite(start) || !Number.isFinite(end) || start < min || end > max || start > end)
-        throw new Error(`Invalid range: ${part}`);
-      return Array.from({ length: end - start + 1 }, (_, i) => start + i);
+    const nth = token.match(/^(\w+)#(\d+)$/);
+    if (last) {
+      specs.push({ kind: "last", weekday: parseFieldValue(spec, part, token, last[1]) % 7 });
+    } else if (nth) {
+      const k = parseInt(nth[2], 10);
+      if (k < 1 || k > 5) throw fieldError(spec, part, token, `occurrence ${k} is out of range 1-5`);
+      specs.push({ kind: "nth", weekday: parseFieldValue(spec, part, token, nth[1]) % 7, nth: k });
+    } else {
+      plain.push(token);
     }
-    const value = parseInt(part, 10);
-    if (!Number.isFinite(value) || value < min || value > max) throw new Error(`Value out of range: ${value}`);
-    return [value];
-  };
+  }
+  const values = plain.length > 0 ? parseCronField(spec, part, plain) : [];
+  const weekdays = new Set(values.map((v) => v % 7));
+  return { values: [...weekdays].sort((a, b) => a - b), specs };
+}
 
+export function parseCronSchedule(schedule: string): CronSchedule {
+  const trimmed = schedule.trim();
+  if (trimmed.startsWith("@")) {
+    const macro = trimmed.toLowerCase();
+    if (macro === REBOOT_MACRO) throw new Error(`${REBOOT_MACRO} has no clock schedule`);
+    if (!CRON_MACROS[macro]) throw new Error(`Unknown cron macro: ${trimmed}`);
+    return parseCronSchedule(CRON_MACROS[macro]);
+  }
+
+  const parts = trimmed.split(/\s+/);
+  if (parts.length !== 5) throw new Error("Invalid cron schedule");
+
+  const [minuteSpec, hourSpec, daySpec, monthSpec, weekdaySpec] = CRON_FIELDS;
+  const day = parseDayField(daySpec, parts[2]);
+  const weekday = parseWeekdayField(weekdaySpec, parts[4]);
   return {
-    minute: parse(parts[0], 0, 59),
-    hour: parse(parts[1], 0, 23),
-    day: parse(parts[2], 1, 31),
-    month: parse(parts[3], 1, 12),
-    weekday: parse(parts[4], 0, 6),
+    minute: parseCronField(minuteSpec, parts[0]),
+    hour: parseCronField(hourSpec, parts[1]),
+    day: day.values,
+    month: parseCronField(monthSpec, parts[3]),
+    weekday: weekday.values,
+    daySpecs: day.specs,
+    weekdaySpecs: weekday.specs,
+    dayWildcard: parts[2].startsWith("*"),
+    weekdayWildcard: parts[4].startsWith("*"),
   };
 }
 
-export function shouldRunCron(schedule: string, date: Date): boolean {
+const MONTH_LABELS = [
+  "January",
+  "February",
+  "March",
+  "April",
+  "May",
+  "June",
+  "July",
+  "August",
+  "September",
+  "October",
+  "November",
+  "December",
+];
+const WEEKDAY_LABELS = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+const NTH_LABELS = ["", "first", "second", "third", "fourth", "fifth"];
+
+function ordinal(n: number): string {
+  const mod100 = n % 100;
+  const suffix = mod100 >= 11 && mod100 <= 13 ? "th" : (["th", "st", "nd", "rd"][n % 10] ?? "th");
+  return `${n}${suffix}`;
+}
+
+function joinList(items: string[], conjunction = "and"): string {
+  if (items.length <= 1) return items[0] ?? "";
+  return `${items.slice(0, -1).join(", ")} ${conjunction} ${items[items.length - 1]}`;
+}
+
+function pad2(n: number): string {
+  return String(n).padStart(2, "0");
+}
+
+/** Describe the raw list items of a field in words, e.g. "1-5" -> "Monday through Friday" for weekdays. */
+function describeTokens(tokens: string[], label: (raw: string) => string, unit: string): string {
+  return joinList(
+    tokens.map((token) => {
+      const [base, step] = token.split("/");
+      const range = base.includes("-") ? base.split("-").map(label).join(" through ") : label(base);
+      if (step === undefined) return range;
+      const every = step === "1" ? `every ${unit}` : `every ${ordinal(parseInt(step, 10))} ${unit}`;
+      if (base === "*") return every;
+      return base.includes("-") ? `${every} from ${range}` : `${every} starting at ${range}`;
+    }),
+  );
+}
+
+function describeTime(cron: CronSchedule, minutePart: string, hourPart: string): { text: string; fixed: boolean } {
+  const plain = /^\d+(,\d+)*$/;
+  if (plain.test(minutePart) && plain.test(hourPart) && cron.minute.length * cron.hour.length <= 6) {
+    const times = cron.hour.flatMap((h) => cron.minute.map((m) => `${pad2(h)}:${pad2(m)}`));
+    return { text: `At ${joinList(times)}`, fixed: true };
+  }
+
+  let text: string;
+  const minuteStep = minutePart.match(/^\*\/(\d+)$/);
+  if (minutePart === "*") text = "Every minute";
+  else if (minuteStep) text = `Every ${minuteStep[1]} minutes`;
+  else if (cron.minute.length === 1) text = `At minute ${cron.minute[0]}`;
+  else {
+    const desc = describeTokens(minutePart.split(","), String, "minute");
+    text = desc.startsWith("every") ? `At ${desc}` : `At minutes ${desc}`;
+  }
+
+  const connector = text.startsWith("At") ? "past" : "during";
+  const hourRange = hourPart.match(/^(\d+)-(\d+)$/);
+  const hourStep = hourPart.match(/^\*\/(\d+)$/);
+  if (hourPart === "*") text += connector === "past" ? " past every hour" : "";
+  else if (hourRange) text += ` between ${pad2(Number(hourRange[1]))}:00 and ${pad2(Number(hourRange[2]))}:59`;
+  else if (hourStep) text += ` ${connector} every ${ordinal(Number(hourStep[1]))} hour`;
+  else if (cron.hour.length === 1) text += ` ${connector} hour ${cron.hour[0]}`;
+  else {
+    const desc = describeTokens(hourPart.split(","), String, "hour");
+    text += desc.startsWith("every") ? ` ${connector} ${desc}` : ` ${connector} hours ${desc}`;
+  }
+  return { text, fixed: false };
+}
+
+function describeDays(cron: CronSchedule, dayPart: string): string | null {
+  if (dayPart === "*") return null;
+  const pieces: string[] = [];
+  const plain = dayPart.split(",").filter((t) => !/^(L|LW|\d+W)$/i.test(t));
+  if (plain.length > 0) {
+    const desc = describeTokens(plain, String, "day");
+    const isSingle = plain.length === 1 && /^\d+$/.test(plain[0]);
+    pieces.push(
+      desc.startsWith("every") ? `${desc} of the month` : `${isSingle ? "day" : "days"} ${desc} of the month`,
+    );
+  }
+  for (const spec of cron.daySpecs) {
+    if (spec.kind === "last") pieces.push("the last day of the month");
+    else if (spec.kind === "lastWeekday") pieces.push("the last weekday of the month");
+    else pieces.push(`the weekday nearest day ${spec.day} of the month`);
+  }
+  return joinList(pieces);
+}
+
+function describeWeekdays(cron: CronSchedule, weekdayPart: string): string | null {
+  if (weekdayPart === "*") return null;
+  const plain = weekdayPart.split(",").filter((t) => !/^\w+?L$/i.test(t) && !t.includes("#"));
+  const pieces: string[] = [];
+  if (plain.length > 0) {
+    const days = cron.weekday.join(",");
+    if (days === "1,2,3,4,5") pieces.push("every weekday");
+    else if (days === "0,6") pieces.push("weekends");
+    else {
+      const label = (raw: string) => {
+        const named = raw.toUpperCase() === "L" ? 6 : WEEKDAY_NAMES.indexOf(raw.toLowerCase());
+        return WEEKDAY_LABELS[(named >= 0 ? named : parseInt(raw, 10)) % 7];
+      };
+      pieces.push(describeTokens(plain, label, "day of the week"));
+    }
+  }
+  for (const spec of cron.weekdaySpecs) {
+    const which = spec.kind === "last" ? "last" : NTH_LABELS[spec.nth];
+    pieces.push(`the ${which} ${WEEKDAY_LABELS[spec.weekday]} of the month`);
+  }
+  return joinList(pieces);
+}
+
+/**
+ * Explain a schedule expression in English, e.g. "0 9 * * 1-5" -> "At 09:00 on every weekday".
+ * Throws the same errors as `parseCronSchedule` for invalid expressions.
+ */
+export function explainSchedule(schedule: string, options: CronMatchOptions = {}): string {
+  if (isRebootSchedule(schedule)) return "At daemon startup";
+  const cron = parseCronSchedule(schedule);
+  const trimmed = schedule.trim();
+  const expanded = CRON_MACROS[trimmed.toLowerCase()] ?? trimmed;
+  const [minutePart, hourPart, dayPart, monthPart, weekdayPart] = expanded.split(/\s+/);
+
+  const time = describeTime(cron, minutePart, hourPart);
+  const days = describeDays(cron, dayPart);
+  const weekdays = describeWeekdays(cron, weekdayPart);
+  let text = time.text;
+  if (days && weekdays) {
+    const either = (options.dayMatch ?? "or") === "or" && !cron.dayWildcard && !cron.weekdayWildcard;
+    text += either ? ` on ${days} or on ${weekdays}` : ` on ${days}, only if it falls on ${weekdays}`;
+  } else if (days || weekdays) {
+    text += ` on ${days ?? weekdays}`;
+  } else if (time.fixed) {
+    text += " every day";
+  }
+
+  if (monthPart !== "*") {
+    const label = (raw: string) => {
+      const named = MONTH_NAMES.indexOf(raw.toLowerCase());
+      return MONTH_LABELS[(named >= 0 ? named + 1 : parseInt(raw, 10)) - 1];
+    };
+    text += ` in ${describeTokens(monthPart.split(","), label, "month")}`;
+  }
+  if (options.timezone) text += ` (${options.timezone})`;
+  return text;
+}
+
+// Calendar arithmetic is done on UTC dates so that the host's DST rules never shift a day.
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+function weekdayOf(year: number, month: number, day: number): number {
+  return new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+}
+
+function matchesDaySpec(spec: CronDaySpec, year: number, month: number, day: number): boolean {
+  const lastDay = daysInMonth(year, month);
+  switch (spec.kind) {
+    case "last":
+      return day === lastDay;
+    case "lastWeekday": {
+      const dow = weekdayOf(year, month, lastDay);
+      return day === lastDay - (dow === 6 ? 1 : dow === 0 ? 2 : 0);
+    }
+    case "nearestWeekday": {
+      if (spec.day > lastDay) return false;
+      const dow = weekdayOf(year, month, spec.day);
+      let target = spec.day;
+      // Never cross into a neighbouring month: the 1st on a Saturday moves to Monday the 3rd, etc.
+      if (dow === 6) target = spec.day === 1 ? 3 : spec.day - 1;
+      else if (dow === 0) target = spec.day === lastDay ? spec.day - 2 : spec.day + 1;
+      return day === target;
+    }
+  }
+}
+
+function matchesWeekdaySpec(spec: CronWeekdaySpec, year: number, month: number, day: number): boolean {
+  if (weekdayOf(year, month, day) !== spec.weekday) return false;
+  if (spec.kind === "last") return day + 7 > daysInMonth(year, month);
+  return Math.ceil(day / 7) === spec.nth;
+}
+
+/**
+ * Check the day-of-month and day-of-week fields against a calendar date (month is 1-12).
+ * With the default "or" mode, a date matches if either field matches when both are restricted,
+ * as in Vixie cron; "and" always requires both.
+ */
+export function matchesCronDate(
+  cron: CronSchedule,
+  year: number,
+  month: number,
+  day: number,
+  dayMatch: DayMatchMode = "or",
+): boolean {
+  const dayOfMonthMatch = cron.day.includes(day) || cron.daySpecs.some((s) => matchesDaySpec(s, year, month, day));
+  const weekdayMatch =
+    cron.weekday.includes(weekdayOf(year, month, day)) ||
+    cron.weekdaySpecs.some((s) => matchesWeekdaySpec(s, year, month, day));
+  if (dayMatch === "or" && !cron.dayWildcard && !cron.weekdayWildcard) return dayOfMonthMatch || weekdayMatch;
+  return dayOfMonthMatch && weekdayMatch;
+}
+
+export interface CronMatchOptions {
+  dayMatch?: DayMatchMode;
+  /** IANA zone the schedule is written in; defaults to the daemon's local zone. */
+  timezone?: string;
+}
+
+/**
+ * Check a parsed schedule against a wall-clock minute.
+ */
+export function matchesCronWallTime(cron: CronSchedule, wall: WallTime, dayMatch?: DayMatchMode): boolean {
+  return (
+    cron.minute.includes(wall.minute) &&
+    cron.hour.includes(wall.hour) &&
+    cron.month.includes(wall.month) &&
+    matchesCronDate(cron, wall.year, wall.month, wall.day, dayMatch)
+  );
+}
+
+/**
+ * Check whether a schedule is due in the minute containing `date`. Times skipped by a DST
+ * spring-forward are due in the first minute after the gap; repeated times fire only the first time.
+ */
+export function shouldRunCron(schedule: string, date: Date, options: CronMatchOptions = {}): boolean {
   try {
     const cron = parseCronSchedule(schedule);
-    return (
-      cron.minute.includes(date.getMinutes()) &&
-      cron.hour.includes(date.getHours()) &&
-      cron.day.includes(date.getDate()) &&
-      cron.month.includes(date.getMonth() + 1) &&
-      cron.weekday.includes(date.getDay())
-    );
+    return wallTimesAt(date, options.timezone).some((wall) => matchesCronWallTime(cron, wall, options.dayMatch));
   } catch {
     return false;
   }
 }
 
-export function parseTimeSpec(spec: string): number {
-  const now = Date.now();
-  if (spec === "now") return now;
+const MAX_SEARCH_DAYS = 366 * 5; // Impossible dates like Feb 30 give up after five years
 
-  if (spec.startsWith("+")) {
-    const match = spec.match(/^\+(\d+)([smhd])$/);
-    if (match) {
-      const val = parseInt(match[1], 10);
-      const unit = match[2] as "s" | "m" | "h" | "d";
-      const mult = { s: 1000, m: 60000, h: 3600000, d: 86400000 }[unit];
-      return now + val * mult;
+/**
+ * Compute the next `count` fire times of a schedule strictly after `from`.
+ * Walks calendar days in the schedule's zone, skipping months and days that cannot match, and only
+ * expands hours and minutes on matching days. DST is resolved the same way as in `shouldRunCron`.
+ */
+export function computeNextRuns(
+  schedule: string,
+  from: Date | number,
+  count: number,
+  tz?: string,
+  dayMatch?: DayMatchMode,
+): Date[] {
+  if (isRebootSchedule(schedule)) return [];
+  const cron = parseCronSchedule(schedule);
+  const fromTs = typeof from === "number" ? from : from.getTime();
+  const start = getZonedTime(fromTs, tz);
+  // Wall times more than a few hours before `from` cannot resolve after it, whatever the DST shift
+  const earliestNaive = wallTimeToNaive(start) - 3 * 3600000;
+  const runs: Date[] = [];
+  let last = fromTs;
+
+  // Start a day early so wall times that resolve forward across a DST gap are not missed
+  for (let offset = -1; offset <= MAX_SEARCH_DAYS && runs.length < count; offset++) {
+    const date = new Date(Date.UTC(start.year, start.month - 1, start.day + offset));
+    const year = date.getUTCFullYear();
+    const month = date.getUTCMonth() + 1;
+    const day = date.getUTCDate();
+    if (!cron.month.includes(month)) {
+      // Jump to the last day of this month; the loop increment moves to the 1st of the next
+      offset += new Date(Date.UTC(year, month, 0)).getUTCDate() - day;
+      continue;
+    }
+    if (!matchesCronDate(cron, year, month, day, dayMatch)) continue;
+
+    for (const hour of cron.hour) {
+      if (Date.UTC(year, month - 1, day, hour, 59) < earliestNaive) continue;
+      for (const minute of cron.minute) {
+        const instant = resolveWallTime({ year, month, day, hour, minute }, tz);
+        if (instant <= last) continue;
+        runs.push(new Date(instant));
+        last = instant;
+        if (runs.length >= count) return runs;
+      }
     }
   }
+  return runs;
+}
+
+const DURATION_UNITS: Record<string, { ms: number; label: string }> = {
+  w: { ms: 604800000, label: "week" },
+  d: { ms: 86400000, label: "day" },
+  h: { ms: 3600000, label: "hour" },
+  m: { ms: 60000, label: "minute" },
+  s: { ms: 1000, label: "second" },
+};
+const MIN_INTERVAL_MS = 60000; // The tick loop has minute resolution
+
+/** Prefix of the `schedule` column for interval jobs, e.g. `@every 90m`. */
+export const INTERVAL_PREFIX = "@every ";
+
+/**
+ * Parse a duration such as `90m`, `36h` or `1h30m` into milliseconds. Units: s, m, h, d, w.
+ */
+export function parseDuration(spec: string): number {
+  const trimmed = spec.trim().toLowerCase();
+  if (!/^(\d+[smhdw])+$/.test(trimmed)) {
+    throw new Error(`Invalid duration '${spec}': use a number and unit (s, m, h, d, w), e.g. 90m or 1h30m`);
+  }
+  let total = 0;
+  for (const [, value, unit] of trimmed.matchAll(/(\d+)([smhdw])/g))
+    total += parseInt(value, 10) * DURATION_UNITS[unit].ms;
+  if (total === 0) throw new Error(`Invalid duration '${spec}': must be greater than zero`);
+  return total;
+}
+
+/**
+ * Parse the `every` field of an interval job. Intervals shorter than a minute are rejected.
+ */
+export function parseInterval(every: string): number {
+  const ms = parseDuration(every);
+  if (ms < MIN_INTERVAL_MS) throw new Error(`Invalid interval '${every}': must be at least 1m`);
+  return ms;
+}
+
+function describeDuration(ms: number): string {
+  const parts: string[] = [];
+  let rest = ms;
+  for (const { ms: size, label } of Object.values(DURATION_UNITS)) {
+    const n = Math.floor(rest / size);
+    if (n > 0) parts.push(`${n} ${label}${n === 1 ? "" : "s"}`);
+    rest -= n * size;
+  }
+  return parts.join(" ");
+}
+
+/**
+ * Explain an interval job in English, e.g. "Every 1 hour 30 minutes from 2025-01-15 09:00 (UTC)".
+ */
+export function explainInterval(job: Pick<CronJobRow, "every" | "anchor" | "timezone">): string {
+  const text = `Every ${describeDuration(parseInterval(job.every ?? ""))}`;
+  if (job.anchor === undefined) return `${text} after the last successful run`;
+  return `${text} from ${formatWallTime(job.anchor, job.timezone)}${job.timezone ? ` (${job.timezone})` : ""}`;
+}
+
+function formatWallTime(instant: number, timezone?: string): string {
+  const wall = getZonedTime(instant, timezone);
+  return `${wall.year}-${pad2(wall.month)}-${pad2(wall.day)} ${pad2(wall.hour)}:${pad2(wall.minute)}`;
+}
 
-  if (/^\d{10,13}$/.test(spec)) {
-    const ts = parseInt(spec, 10);
+/**
+ * Next fire time of an interval job given its previous fire time, if any.
+ * Anchored intervals fire on the grid `anchor + k * every`, picking the first slot after `lastFire`
+ * (or, for a job that has never fired, the slot that opened within the last minute).
+ * Unanchored intervals fire `every` after `lastFire`, and immediately if the job has never fired.
+ */
+export function nextIntervalRun(
+  job: Pick<CronJobRow, "every" | "anchor">,
+  lastFire: number | null | undefined,
+  from: Date | number = Date.now(),
+): number {
+  const interval = parseInterval(job.every ?? "");
+  const fromTs = typeof from === "number" ? from : from.getTime();
+  if (job.anchor === undefined) return lastFire == null ? fromTs : lastFire + interval;
+  const base = lastFire ?? fromTs - MIN_INTERVAL_MS;
+  if (base < job.anchor) return job.anchor;
+  return job.anchor + (Math.floor((base - job.anchor) / interval) + 1) * interval;
+}
+
+/**
+ * Compute the next `count` fire times of an interval job, starting with `nextIntervalRun`.
+ */
+export function computeNextIntervalRuns(
+  job: Pick<CronJobRow, "every" | "anchor">,
+  lastFire: number | null | undefined,
+  from: Date | number,
+  count: number,
+): Date[] {
+  const interval = parseInterval(job.every ?? "");
+  const first = nextIntervalRun(job, lastFire, from);
+  return Array.from({ length: count }, (_, i) => new Date(first + i * interval));
+}
+
+/**
+ * Compute the next `count` fire times of a recurring job after `from`, whatever its schedule type.
+ * Interval jobs also need their previous fire time, when known. Throws for invalid schedules.
+ */
+export function computeJobRuns(job: CronJobRow, from: number, count: number, lastFire?: number | null): Date[] {
+  if (job.after?.length) return []; // Started by other jobs, never by the clock
+  if (job.every) return computeNextIntervalRuns(job, lastFire, from, count);
+  if (job.rrule) return computeNextOccurrences(parseRecurrence(job.rrule, job.timezone), from, count);
+  return computeNextRuns(job.schedule, from, count, job.timezone, job.dayMatch);
+}
+
+/**
+ * Where to start searching for a job's fire times: no earlier than its `startAt`. Schedules fire
+ * strictly after the search start, so a pending `startAt` is moved back a millisecond to include it;
+ * interval jobs count from the start itself.
+ */
+export function activeFrom(job: Pick<CronJobRow, "startAt" | "every">, from: number): number {
+  if (job.startAt === undefined || job.startAt <= from) return from;
+  return job.every ? job.startAt : job.startAt - 1;
+}
+
+/**
+ * Drop fire times outside a job's active window and beyond its remaining `maxRuns`.
+ */
+export function clipToActiveWindow(
+  job: Pick<CronJobRow, "startAt" | "endAt" | "maxRuns" | "runCount">,
+  runs: Date[],
+): Date[] {
+  const remaining = job.maxRuns === undefined ? runs.length : Math.max(job.maxRuns - (job.runCount ?? 0), 0);
+  return runs
+    .filter(
+      (d) =>
+        (job.startAt === undefined || d.getTime() >= job.startAt) &&
+        (job.endAt === undefined || d.getTime() < job.endAt),
+    )
+    .slice(0, remaining);
+}
+
+/**
+ * Describe a job's active window and run limit, e.g. "from 2025-03-01 00:00 until 2025-03-15 00:00, at most 5 runs",
+ * or null when it has neither.
+ */
+export function describeActiveWindow(
+  job: Pick<CronJobRow, "startAt" | "endAt" | "maxRuns" | "runCount" | "timezone">,
+): string | null {
+  const parts: string[] = [];
+  if (job.startAt !== undefined) parts.push(`from ${formatWallTime(job.startAt, job.timezone)}`);
+  if (job.endAt !== undefined) parts.push(`until ${formatWallTime(job.endAt, job.timezone)}`);
+  const window = parts.join(" ");
+  if (job.maxRuns === undefined) return window || null;
+  const runs = `at most ${job.maxRuns} run${job.maxRuns === 1 ? "" : "s"} (${job.runCount ?? 0} so far)`;
+  return window ? `${window}, ${runs}` : runs;
+}
+
+/**
+ * Describe why an archived job stopped, e.g. "archived 2025-03-15 00:00: active window ended".
+ */
+export function describeArchive(
+  job: Pick<CronJobRow, "archivedAt" | "archiveReason" | "maxRuns" | "timezone">,
+): string {
+  const reason = job.archiveReason === "maxRuns" ? `completed ${job.maxRuns} runs` : "active window ended";
+  return `archived ${formatWallTime(job.archivedAt ?? 0, job.timezone)}: ${reason}`;
+}
+
+/**
+ * Get the next fire time of a stored job after `from`, or null if it has none (invalid, `@reboot`,
+ * started by other jobs, archived, or past its active window). Interval jobs also need their previous fire time, when known.
+ */
+export function getNextRun(job: CronJobRow, from: Date | number = Date.now(), lastFire?: number | null): Date | null {
+  if (job.archivedAt !== undefined) return null;
+  if (job.runAt) return new Date(job.runAt);
+  const start = activeFrom(job, typeof from === "number" ? from : from.getTime());
+  try {
+    const [next] = computeJobRuns(job, start, 1, lastFire);
+    return next ? (clipToActiveWindow(job, [next])[0] ?? null) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Parse a clock time such as `14:30`, `9am`, `9:30pm`, `noon` or `midnight`.
+ * A bare hour like `9` is rejected as ambiguous.
+ */
+export function parseClockTime(raw: string): { hour: number; minute: number } {
+  if (raw === "noon") return { hour: 12, minute: 0 };
+  if (raw === "midnight") return { hour: 0, minute: 0 };
+  const match = raw.match(/^(\d{1,2})(?::(\d{2}))?\s*(am|pm)?$/);
+  if (!match) throw new Error(`Unrecognised time '${raw}'`);
+  let hour = parseInt(match[1], 10);
+  const minute = match[2] ? parseInt(match[2], 10) : 0;
+  const meridiem = match[3];
+  if (meridiem) {
+    if (hour < 1 || hour > 12) throw new Error(`Invalid time '${raw}'`);
+    hour = (hour % 12) + (meridiem === "pm" ? 12 : 0);
+  } else if (!match[2]) {
+    throw new Error(`Ambiguous time '${raw}': use '${raw}am', '${raw}pm' or '${raw}:00'`);
+  }
+  if (hour > 23 || minute > 59) throw new Error(`Invalid time '${raw}'`);
+  return { hour, minute };
+}
+
+export interface TimeSpecOptions {
+  /** Reference instant for relative specs; defaults to the current time. */
+  now?: number;
+  /** Accept instants before `now`, e.g. for interval anchors. One-time jobs must not be in the past. */
+  allowPast?: boolean;
+}
+
+// Unit words accepted in "in 3 days" style specs, mapped to `parseDuration` units
+const RELATIVE_UNITS: Record<string, string> = {
+  s: "s",
+  sec: "s",
+  second: "s",
+  m: "m",
+  min: "m",
+  minute: "m",
+  h: "h",
+  hr: "h",
+  hour: "h",
+  d: "d",
+  day: "d",
+  w: "w",
+  week: "w",
+};
+
+const CLOCK = String.raw`(?:noon|midnight|\d{1,2}(?::\d{2})?\s*(?:am|pm)?)`;
+const WEEKDAY_WORDS = WEEKDAY_LABELS.map((d) => `${d.toLowerCase()}|${d.slice(0, 3).toLowerCase()}`).join("|");
+// Groups: 1 today/tomorrow, 2 next/this, 3 weekday, 4 clock time
+const DAY_SPEC = new RegExp(`^(?:(today|tomorrow)|(?:(next|this) )?(${WEEKDAY_WORDS}))(?:(?: at)? (${CLOCK}))?$`);
+
+/**
+ * Resolve a wall-clock time `offsetDays` after the calendar day of `today` in a zone.
+ */
+function wallTimeAfterDays(
+  today: WallTime,
+  offsetDays: number,
+  clock: { hour: number; minute: number },
+  timezone?: string,
+): number {
+  const date = new Date(Date.UTC(today.year, today.month - 1, today.day + offsetDays));
+  return resolveWallTime(
+    { year: date.getUTCFullYear(), month: date.getUTCMonth() + 1, day: date.getUTCDate(), ...clock },
+    timezone,
+  );
+}
+
+function resolveTimeSpec(
+  raw: string,
+  timezone: string | undefined,
+  now: number,
+  fail: (reason: string) => never,
+): number {
+  const text = raw.toLowerCase().replace(/\s+/g, " ");
+  const errorOf = (err: unknown) => (err instanceof Error ? err.message : String(err));
+  if (text === "now") return now;
+
+  if (text.startsWith("+")) {
+    try {
+      return now + parseDuration(text.slice(1));
+    } catch (err: unknown) {
+      return fail(errorOf(err));
+    }
+  }
+
+  const relative = text.match(/^in (.+)$/);
+  if (relative) {
+    let compact = "";
+    const rest = relative[1]
+      .replace(/\band\b|,/g, " ")
+      .replace(/([a-z])(\d)/g, "$1 $2")
+      .replace(/\b(?:(\d+) ?|(an?) )([a-z]+?)s?\b/g, (word, count: string | undefined, _article, unit: string) => {
+        if (!RELATIVE_UNITS[unit]) return word;
+        compact += `${count ?? 1}${RELATIVE_UNITS[unit]}`;
+        return "";
+      })
+      .trim();
+    if (rest || !compact) {
+      fail(`could not read '${rest || relative[1]}' as a duration; try 'in 3 days' or 'in 1 hour 30 minutes'`);
+    }
+    try {
+      return now + parseDuration(compact);
+    } catch (err: unknown) {
+      return fail(errorOf(err));
+    }
+  }
+
+  if (/^\d{10,13}$/.test(text)) {
+    const ts = parseInt(text, 10);
     return ts < 1e12 ? ts * 1000 : ts;
   }
 
-  if (/^\d{1,2}:\d{2}$/.test(spec)) {
-    const [h, m] = spec.split(":").map(Number);
-    const d = new Date();
-    d.setHours(h, m, 0, 0);
-    if (d.getTime() < now) d.setDate(d.getDate() + 1);
-    return d.getTime();
+  const today = getZonedTime(now, timezone);
+  if (text === "end of day" || text === "eod") {
+    // Within the day's last minute, 23:59 has passed and the end of the day is now
+    return Math.max(wallTimeAfterDays(today, 0, { hour: 23, minute: 59 }, timezone), now);
+  }
+
+  const clockOnly = new RegExp(`^${CLOCK}$`).test(text);
+  const daySpec = text.match(DAY_SPEC);
+  if (clockOnly || daySpec) {
+    const clockText = clockOnly ? text : daySpec?.[4];
+    if (!clockText) fail(`ambiguous without a time of day, e.g. '${text} 9:00'`);
+    let clock: { hour: number; minute: number };
+    try {
+      clock = parseClockTime(clockText);
+    } catch (err: unknown) {
+      return fail(errorOf(err));
+    }
+    if (clockOnly || daySpec?.[1] === "today") {
+      const runAt = wallTimeAfterDays(today, 0, clock, timezone);
+      // A bare time that has already passed today means the same time tomorrow; "today 9:00" does not roll
+      return clockOnly && runAt < now ? wallTimeAfterDays(today, 1, clock, timezone) : runAt;
+    }
+    if (daySpec?.[1] === "tomorrow") return wallTimeAfterDays(today, 1, clock, timezone);
+    // Weekdays: the next such day, today included while the time is still ahead; "next" never means today
+    const target = WEEKDAY_LABELS.findIndex((d) => d.toLowerCase().startsWith(daySpec?.[3] ?? ""));
+    let offset = (target - today.weekday + 7) % 7;
+    if (offset === 0 && (daySpec?.[2] === "next" || wallTimeAfterDays(today, 0, clock, timezone) < now)) offset = 7;
+    return wallTimeAfterDays(today, offset, clock, timezone);
+  }
+
+  const local = raw.match(/^(\d{4})-(\d{2})-(\d{2})(?:(?: at |[Tt ])(.+))?$/);
+  if (local) {
+    const [year, month, day] = local.slice(1, 4).map((v) => parseInt(v, 10));
+    if (month < 1 || month > 12 || day < 1 || day > daysInMonth(year, month)) fail("no such date");
+    if (!local[4]) fail(`ambiguous without a time of day, e.g. '${raw} 09:00'`);
+    const seconds = local[4].match(/^(\d{2}):(\d{2}):(\d{2})$/);
+    if (seconds) {
+      const [hour, minute, second] = seconds.slice(1).map((v) => parseInt(v, 10));
+      return resolveWallTime({ year, month, day, hour, minute }, timezone) + second * 1000;
+    }
+    // Anything with a zone designator is an ISO timestamp for Date.parse below
+    if (!/(z|[+-]\d{2}:?\d{2})$/i.test(local[4])) {
+      try {
+        return resolveWallTime({ year, month, day, ...parseClockTime(local[4].toLowerCase()) }, timezone);
+      } catch (err: unknown) {
+        return fail(errorOf(err));
+      }
+    }
   }
 
-  const parsed = Date.parse(spec);
+  const parsed = Date.parse(raw);
   if (!Number.isNaN(parsed)) return parsed;
 
-  throw new Error(`Invalid time spec: ${spec}`);
+  return fail(
+    "expected e.g. 'now', '+1h30m', 'in 3 days', '14:30', 'tomorrow 9am', 'next friday 17:00' or an ISO timestamp",
+  );
+}
+
+/**
+ * Parse a time spec into epoch ms. Supports `now`, compound offsets (`+1h30m`, `+2w`), `in 3 days`,
+ * clock times (`14:30`, `9am`), `today`/`tomorrow`/`[next] friday` with a time, `end of day`, epochs,
+ * local `YYYY-MM-DD HH:MM[:SS]` and ISO timestamps. Wall-clock forms are read in `timezone`,
+ * defaulting to the daemon's local zone. Throws for unknown, ambiguous and (unless allowed) past specs.
+ */
+export function parseTimeSpec(spec: string, timezone?: string, options: TimeSpecOptions = {}): number {
+  const now = options.now ?? Date.now();
+  const raw = spec.trim();
+  const fail = (reason: string): never => {
+    throw new Error(`Invalid time spec '${raw}': ${reason}`);
+  };
+  const result = resolveTimeSpec(raw, timezone, now, fail);
+  if (!options.allowPast && result < now) fail(`${new Date(result).toISOString()} is in the past`);
+  return result;
 }
 
-export function createOnceJob(time: string, session: string, message: string): CronJobRow {
-  const runAt = parseTimeSpec(time);
+export function createOnceJob(time: string, session: string, message: string, timezone?: string): CronJobRow {
+  const runAt = parseTimeSpec(time, timezone);
   return {
     name: `once-${Date.now()}`,
     schedule: "once",
@@ -109,6 +860,7 @@ export function createOnceJob(time: string, session: string, message: string): C
     message,
     once: true,
     runAt,
+    timezone,
   };
 }
 
@@ -118,9 +870,9 @@ const DEFAULT_SCRIPT_TIMEOUT = 30000;
 const MAX_SCRIPT_OUTPUT = 50000; // 50KB max per script output
 
 /**
- * Execute a single cron script, capturing stdout/stderr.
+ * Execute a single cron script, capturing stdout/stderr. Aborting `signal` kills the script's process.
  */
-export async function executeCronScript(script: CronScript): Promise<CronScriptResult> {
+export async function executeCronScript(script: CronScript, signal?: AbortSignal): Promise<CronScriptResult> {
   const timeout = script.timeout ?? DEFAULT_SCRIPT_TIMEOUT;
   const start = Date.now();
   try {
@@ -128,6 +880,7 @@ export async function executeCronScript(script: CronScript): Promise<CronScriptR
       cwd: script.cwd || undefined,
       timeout,
       maxBuffer: 1024 * 1024, // 1MB
+      signal,
     });
     const durationMs = Date.now() - start;
     return {
@@ -139,25 +892,29 @@ export async function executeCronScript(script: CronScript): Promise<CronScriptR
     };
   } catch (err: unknown) {
     const durationMs = Date.now() - start;
-    const error = err as { code?: number; stdout?: string; stderr?: string; message?: string };
+    const error = err as { code?: number | string; stdout?: string; stderr?: string; message?: string };
+    const reason = signal?.reason instanceof Error ? signal.reason.message : String(signal?.reason);
     return {
       name: script.name,
-      exitCode: error.code ?? 1,
+      // Aborted scripts report a string code such as ABORT_ERR
+      exitCode: typeof error.code === "number" ? error.code : 1,
       stdout: error.stdout ?? "",
       stderr: error.stderr ?? "",
       durationMs,
-      error: error.message,
+      error: signal?.aborted ? `killed: ${reason}` : error.message,
     };
   }
 }
 
 /**
- * Execute all scripts for a cron job serially and return results.
+ * Execute all scripts for a cron job serially and return results. Once `signal` is aborted the running
+ * script is killed and the remaining ones are not started.
  */
-export async function executeCronScripts(scripts: CronScript[]): Promise<CronScriptResult[]> {
+export async function executeCronScripts(scripts: CronScript[], signal?: AbortSignal): Promise<CronScriptResult[]> {
   const results: CronScriptResult[] = [];
   for (const script of scripts) {
-    results.push(await executeCronScript(script));
+    signal?.throwIfAborted();
+    results.push(await executeCronScript(script, signal));
   }
   return results;
 }
@@ -1,11 +1,33 @@
 import type { ConfigSchema, WOPRPlugin, WOPRPluginContext } from "@wopr-network/plugin-types";
 import { buildCronA2ATools } from "./cron-a2a-tools.js";
 import { cronCommandHandler } from "./cron-commands.js";
+import { createLeaderElector, type LeaderElector } from "./cron-leader.js";
+import { DEFAULT_MAX_CONCURRENT_RUNS } from "./cron-limiter.js";
 import { initCronStorage, resetCronStorage } from "./cron-repository.js";
-import { createCronTickLoop } from "./cron-tick.js";
+import { buildCronRoutes, type CronRoute, type RouteRegistrationApi } from "./cron-routes.js";
+import { type CronScheduler, createCronScheduler } from "./cron-scheduler.js";
+import type { CronJobRow } from "./cron-schema.js";
+import { type CronTickLoop, createCronTickLoop } from "./cron-tick.js";
 import { PLUGIN_NAME } from "./plugin-name.js";
 
-const CRON_TOOLS = ["cron_schedule", "cron_once", "cron_list", "cron_cancel", "cron_history"] as const;
+const CRON_TOOLS = [
+  "cron_schedule",
+  "cron_once",
+  "cron_list",
+  "cron_next",
+  "cron_cancel",
+  "cron_run",
+  "cron_preview",
+  "cron_dead_letters",
+  "cron_replay",
+  "cron_pause",
+  "cron_resume",
+  "cron_history",
+  "cron_status",
+  "cron_calendar_import",
+  "cron_calendar_list",
+  "cron_calendar_remove",
+] as const;
 
 /** Security registration methods added by WOP-1770; not yet in published plugin-types. */
 interface SecurityRegistrationApi {
@@ -18,8 +40,12 @@ interface SecurityRegistrationApi {
 }
 
 let ctx: WOPRPluginContext | null = null;
-let tickInterval: ReturnType<typeof setInterval> | null = null;
-let tickInFlight: Promise<void> | null = null;
+let scheduler: CronScheduler | null = null;
+let tick: CronTickLoop | null = null;
+// Runs manual runs while this instance is on standby
+let standbyTick: CronTickLoop | null = null;
+let elector: LeaderElector | null = null;
+let routes: CronRoute[] = [];
 
 const plugin: WOPRPlugin = {
   name: PLUGIN_NAME,
@@ -49,6 +75,30 @@ const plugin: WOPRPlugin = {
           default: false,
           required: false,
         },
+        {
+          name: "maxConcurrentRuns",
+          type: "number",
+          label: "Max Concurrent Runs",
+          description: "How many cron jobs may run at the same time. Further due jobs wait for a free slot.",
+          default: DEFAULT_MAX_CONCURRENT_RUNS,
+          required: false,
+        },
+        {
+          name: "maxConcurrentRunsPerSession",
+          type: "number",
+          label: "Max Concurrent Runs per Session",
+          description: "How many cron jobs may inject into the same session at once. Leave empty for no limit.",
+          required: false,
+        },
+        {
+          name: "paused",
+          type: "checkbox",
+          label: "Pause All Cron Jobs",
+          description:
+            "Stop firing cron jobs without removing them. Runs missed meanwhile follow each job's misfire policy on resume.",
+          default: false,
+          required: false,
+        },
       ],
     } satisfies ConfigSchema,
   },
@@ -56,8 +106,9 @@ const plugin: WOPRPlugin = {
   commands: [
     {
       name: "cron",
-      description: "Manage scheduled injections (add, remove, list, once, now)",
-      usage: "cron <add|remove|list|once|now> [args]",
+      description:
+        "Manage scheduled injections (add, remove, list, once, now, run, preview, explain, dead-letters, replay, pause, resume)",
+      usage: "cron <add|remove|list|once|now|run|preview|explain|dead-letters|replay|pause|resume> [args]",
       handler: cronCommandHandler,
     },
   ],
@@ -76,32 +127,56 @@ const plugin: WOPRPlugin = {
       c.registerToolPermission?.(tool, "cron.manage");
     }
 
-    // 3. Start tick loop (30s interval)
-    const cronTick = createCronTickLoop(ctx);
-    const wrappedTick = () => {
-      tickInFlight = cronTick().finally(() => {
-        tickInFlight = null;
-      });
-    };
-    tickInterval = setInterval(wrappedTick, 30000);
-    wrappedTick(); // Run immediately on startup
+    // 3. Compete for the leader lease; only the leader runs the scheduler, so daemons sharing storage
+    // fire each job once. The scheduler runs due jobs immediately, then sleeps until the next fire time.
+    const leader = createLeaderElector(context, {
+      onElected(initial) {
+        // @reboot jobs belong to the daemon that leads from startup, not to one taking over later
+        tick = createCronTickLoop(context, { reboot: initial, isLeader: () => leader.isLeader() });
+        scheduler = createCronScheduler(context, tick);
+        scheduler.start();
+      },
+      async onDeposed() {
+        const stopping = scheduler;
+        scheduler = null;
+        tick = null;
+        await stopping?.stop();
+      },
+    });
+    elector = leader;
+    await leader.start();
 
-    // 3. Register A2A tools
+    // 4. Register A2A tools
+    // Manual runs share the leader's tick loop so its overlap policy and run limits see them; a standby runs
+    // them all on one loop of its own, so they at least see each other
+    const runJob = (job: CronJobRow) => {
+      if (tick) return tick.run(job);
+      standbyTick ??= createCronTickLoop(context, { reboot: false });
+      return standbyTick.run(job);
+    };
     if (ctx.registerA2AServer) {
-      ctx.registerA2AServer(buildCronA2ATools());
+      ctx.registerA2AServer(buildCronA2ATools({ instanceId: leader.instanceId, ctx: context, runJob }));
     }
 
+    // 5. Serve the routes the CLI calls, so its writes and runs are handled here
+    const r = ctx as WOPRPluginContext & RouteRegistrationApi;
+    routes = buildCronRoutes({ ctx: context, runJob });
+    for (const route of routes) r.registerRoute?.(route);
+
     ctx.log.info("Cron plugin initialized");
   },
 
   async shutdown() {
-    if (tickInterval) {
-      clearInterval(tickInterval);
-      tickInterval = null;
+    if (elector) {
+      await elector.stop();
+      elector = null;
     }
-    if (tickInFlight) {
-      await tickInFlight;
+    if (scheduler) {
+      await scheduler.stop();
+      scheduler = null;
     }
+    tick = null;
+    standbyTick = null;
     if (ctx) {
       const c = ctx as WOPRPluginContext & SecurityRegistrationApi;
       // Unregister tool-permission mappings before removing the permission they reference
@@ -110,7 +185,10 @@ const plugin: WOPRPlugin = {
       }
       c.unregisterPermission?.("cron.manage");
       c.unregisterInjectionSource?.("cron");
+      const r = ctx as WOPRPluginContext & RouteRegistrationApi;
+      for (const route of routes) r.unregisterRoute?.(route.method, route.path);
     }
+    routes = [];
     resetCronStorage();
     ctx = null;
   },
@@ -1,12 +1,24 @@
+import { mkdtemp, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
 import { vi, describe, it, expect, beforeEach } from "vitest";
 
 vi.mock("../src/cron-repository.js", () => ({
   initCronStorage: vi.fn(),
   getCrons: vi.fn(() => []),
+  getDependentCrons: vi.fn(() => Promise.resolve([])),
   getCron: vi.fn(),
   addCron: vi.fn(),
   removeCron: vi.fn(),
+  updateCron: vi.fn(),
   getCronHistory: vi.fn(() => ({ entries: [], total: 0, hasMore: false })),
+  getCronRun: vi.fn(() => Promise.resolve(null)),
+  getLastSuccessfulRun: vi.fn(() => Promise.resolve(null)),
+  getCalendar: vi.fn(() => Promise.resolve(null)),
+  getCalendars: vi.fn(() => Promise.resolve([])),
+  saveCalendar: vi.fn(),
+  removeCalendar: vi.fn(),
+  getLease: vi.fn(() => Promise.resolve(null)),
 }));
 
 vi.mock("../src/cron.js", () => ({
@@ -20,14 +32,55 @@ vi.mock("../src/cron.js", () => ({
   })),
   parseCronSchedule: vi.fn(),
   shouldRunCron: vi.fn(),
-  parseTimeSpec: vi.fn(),
-  resolveScriptTemplates: vi.fn(),
+  computeNextRuns: vi.fn(() => [new Date("2025-01-16T09:00:00Z"), new Date("2025-01-17T09:00:00Z")]),
+  getNextRun: vi.fn(() => new Date("2025-01-16T09:00:00Z")),
+  explainSchedule: vi.fn(() => "At 09:00 every day"),
+  explainInterval: vi.fn(() => "Every 1 hour 30 minutes after the last successful run"),
+  computeNextIntervalRuns: vi.fn(() => [new Date("2025-01-16T10:30:00Z")]),
+  INTERVAL_PREFIX: "@every ",
+  parseTimeSpec: vi.fn(() => 1736931600000),
+  parseDuration: vi.fn((text: string) => {
+    if (text === "soon") throw new Error("Invalid duration 'soon'");
+    return 3600000;
+  }),
+  activeFrom: vi.fn((_job: unknown, from: number) => from),
+  clipToActiveWindow: vi.fn((_job: unknown, runs: Date[]) => runs),
+  describeActiveWindow: vi.fn(() => null),
+  describeArchive: vi.fn(() => "archived 2025-03-15 00:00: active window ended"),
+  resolveScriptTemplates: vi.fn((message: string) => message),
   executeCronScript: vi.fn(),
   executeCronScripts: vi.fn(),
 }));
 
+vi.mock("../src/cron-natural.js", () => ({
+  resolveScheduleInput: vi.fn((schedule: string) => ({ schedule })),
+}));
+
 import { buildCronA2ATools } from "../src/cron-a2a-tools.js";
-import { addCron, getCrons, removeCron, getCronHistory } from "../src/cron-repository.js";
+import {
+  addCron,
+  getCron,
+  getCrons,
+  getDependentCrons,
+  removeCron,
+  getCronHistory,
+  getLastSuccessfulRun,
+  getCalendar,
+  getCalendars,
+  saveCalendar,
+  removeCalendar,
+  getLease,
+  updateCron,
+} from "../src/cron-repository.js";
+import {
+  computeNextIntervalRuns,
+  computeNextRuns,
+  executeCronScripts,
+  explainInterval,
+  explainSchedule,
+  parseTimeSpec,
+} from "../src/cron.js";
+import { resolveScheduleInput } from "../src/cron-natural.js";
 
 describe("cron-a2a-tools", () => {
   let config: ReturnType<typeof buildCronA2ATools>;
@@ -46,14 +99,20 @@ describe("cron-a2a-tools", () => {
       expect(config.version).toBe("1.0.0");
     });
 
-    it("registers 5 tools", () => {
-      expect(config.tools.length).toBe(5);
+    it("registers 16 tools", () => {
+      expect(config.tools.length).toBe(16);
+    });
+
+    it("has cron_next tool", () => {
+      const tool = config.tools.find((t) => t.name === "cron_next");
+      expect(tool).toBeDefined();
     });
 
     it("has cron_schedule tool", () => {
       const tool = config.tools.find((t) => t.name === "cron_schedule");
       expect(tool).toBeDefined();
-      expect(tool!.inputSchema.required).toEqual(["name", "schedule", "session", "message"]);
+      // schedule, every or rrule is checked by the handler
+      expect(tool!.inputSchema.required).toEqual(["name", "session", "message"]);
     });
 
     it("has cron_once tool", () => {
@@ -93,6 +152,290 @@ describe("cron-a2a-tools", () => {
       expect(result.content[0].text).toContain("scheduled");
     });
 
+    it("includes a plain-English explanation of the schedule", async () => {
+      const tool = config.tools.find((t) => t.name === "cron_schedule")!;
+      const result = await tool.handler({ name: "daily", schedule: "0 9 * * *", session: "main", message: "hi" });
+      expect(explainSchedule).toHaveBeenCalledWith("0 9 * * *", { dayMatch: undefined, timezone: undefined });
+      expect(result.content[0].text).toContain("Runs: At 09:00 every day");
+    });
+
+    it("rejects invalid schedules without storing the job", async () => {
+      vi.mocked(explainSchedule).mockImplementationOnce(() => {
+        throw new Error("Invalid hour field '25': 25 is out of range 0-23 in '25'");
+      });
+      const tool = config.tools.find((t) => t.name === "cron_schedule")!;
+      const result = await tool.handler({ name: "bad", schedule: "0 25 * * *", session: "main", message: "hi" });
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain("Invalid hour field");
+      expect(addCron).not.toHaveBeenCalled();
+    });
+
+    it("stores the resolved expression and the original phrase", async () => {
+      vi.mocked(resolveScheduleInput).mockReturnValueOnce({ schedule: "0 9 * * 1-5", phrase: "every weekday at 9am" });
+      const tool = config.tools.find((t) => t.name === "cron_schedule")!;
+      const result = await tool.handler({
+        name: "standup",
+        schedule: "every weekday at 9am",
+        session: "main",
+        message: "hi",
+      });
+      expect(addCron).toHaveBeenCalledWith(
+        expect.objectContaining({ schedule: "0 9 * * 1-5", schedulePhrase: "every weekday at 9am" }),
+      );
+      expect(explainSchedule).toHaveBeenCalledWith("0 9 * * 1-5", { dayMatch: undefined, timezone: undefined });
+      expect(result.content[0].text).toContain('scheduled: 0 9 * * 1-5 (from "every weekday at 9am")');
+    });
+
+    it("rejects untranslatable phrases with suggestions", async () => {
+      vi.mocked(resolveScheduleInput).mockImplementationOnce(() => {
+        throw new Error('Could not translate phrase: no schedule found. Try for example: "every minute"');
+      });
+      const tool = config.tools.find((t) => t.name === "cron_schedule")!;
+      const result = await tool.handler({ name: "bad", schedule: "whenever", session: "main", message: "hi" });
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain('Try for example: "every minute"');
+      expect(addCron).not.toHaveBeenCalled();
+    });
+
+    it("stores interval jobs with an optional anchor", async () => {
+      const tool = config.tools.find((t) => t.name === "cron_schedule")!;
+      const result = await tool.handler({
+        name: "poll",
+        every: "90m",
+        anchor: "09:00",
+        timezone: "Europe/Berlin",
+        session: "main",
+        message: "poll",
+      });
+      expect(parseTimeSpec).toHaveBeenCalledWith("09:00", "Europe/Berlin", { allowPast: true });
+      expect(addCron).toHaveBeenCalledWith(
+        expect.objectContaining({ schedule: "@every 90m", every: "90m", anchor: 1736931600000 }),
+      );
+      expect(result.content[0].text).toContain("Runs: Every 1 hour 30 minutes");
+    });
+
+    it("requires exactly one of schedule and every", async () => {
+      const tool = config.tools.find((t) => t.name === "cron_schedule")!;
+      const both = await tool.handler({ name: "x", schedule: "0 9 * * *", every: "90m", session: "s", message: "m" });
+      const neither = await tool.handler({ name: "x", session: "s", message: "m" });
+      expect(both.isError).toBe(true);
+      expect(neither.isError).toBe(true);
+      expect(addCron).not.toHaveBeenCalled();
+    });
+
+    it("stores jobs that run after others and explains their trigger", async () => {
+      vi.mocked(getCrons).mockResolvedValue([{ name: "collect", schedule: "0 9 * * *", session: "main", message: "m" }]);
+      const tool = config.tools.find((t) => t.name === "cron_schedule")!;
+      const result = await tool.handler({
+        name: "digest",
+        after: ["collect"],
+        triggerOn: "always",
+        session: "main",
+        message: "post the digest",
+      });
+      expect(addCron).toHaveBeenCalledWith(
+        expect.objectContaining({ schedule: "@after collect", after: ["collect"], triggerOn: "always" }),
+      );
+      expect(result.content[0].text).toContain("Runs: After collect finishes");
+    });
+
+    it("rejects unknown upstream jobs and trigger cycles", async () => {
+      vi.mocked(getCrons).mockResolvedValue([
+        { name: "collect", schedule: "@after digest", session: "main", message: "m", after: ["digest"] },
+      ]);
+      const tool = config.tools.find((t) => t.name === "cron_schedule")!;
+      const unknown = await tool.handler({ name: "digest", after: ["fetch"], session: "s", message: "m" });
+      expect(unknown.content[0].text).toBe("Error: Unknown upstream job(s): fetch");
+      const cycle = await tool.handler({ name: "digest", after: ["collect"], session: "s", message: "m" });
+      expect(cycle.content[0].text).toBe("Error: Job triggers would form a cycle: digest -> collect -> digest");
+      const both = await tool.handler({ name: "digest", schedule: "0 9 * * *", after: ["collect"], session: "s", message: "m" });
+      expect(both.isError).toBe(true);
+      expect(addCron).not.toHaveBeenCalled();
+    });
+
+    it("stores recurrence jobs with a default DTSTART", async () => {
+      const tool = config.tools.find((t) => t.name === "cron_schedule")!;
+      const result = await tool.handler({
+        name: "standup",
+        rrule: "RRULE:FREQ=WEEKLY;INTERVAL=2;BYDAY=TU",
+        timezone: "Europe/Berlin",
+        session: "main",
+        message: "standup",
+      });
+      expect(result.isError).toBeUndefined();
+      const job = vi.mocked(addCron).mock.calls[0][0];
+      expect(job.schedule).toBe("RRULE:FREQ=WEEKLY;INTERVAL=2;BYDAY=TU");
+      expect(job.rrule).toMatch(/^DTSTART;TZID=Europe\/Berlin:\d{8}T\d{4}00\nRRULE:FREQ=WEEKLY;INTERVAL=2;BYDAY=TU$/);
+      expect(result.content[0].text).toContain("Runs: Every 2 weeks on Tuesday at");
+    });
+
+    it("rejects invalid recurrence rules", async () => {
+      const tool = config.tools.find((t) => t.name === "cron_schedule")!;
+      const result = await tool.handler({ name: "x", rrule: "FREQ=SECONDLY", session: "s", message: "m" });
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain("unsupported FREQ 'SECONDLY'");
+      expect(addCron).not.toHaveBeenCalled();
+    });
+
+    it("stores exclusion calendars and rejects unknown ones", async () => {
+      const tool = config.tools.find((t) => t.name === "cron_schedule")!;
+      const args = { name: "r", schedule: "0 9 * * *", session: "s", message: "m", calendars: ["holidays"] };
+      const missing = await tool.handler(args);
+      expect(missing.isError).toBe(true);
+      expect(missing.content[0].text).toBe("Error: Unknown calendar(s): holidays");
+
+      vi.mocked(getCalendar).mockResolvedValueOnce({ name: "holidays", importedAt: 0, events: [] });
+      const result = await tool.handler(args);
+      expect(addCron).toHaveBeenCalledWith(expect.objectContaining({ calendars: ["holidays"] }));
+      expect(result.content[0].text).toContain("Skips events in: holidays");
+    });
+
+    it("stores the active window and run limit", async () => {
+      vi.mocked(parseTimeSpec).mockReturnValueOnce(1740787200000).mockReturnValueOnce(1741996800000);
+      const tool = config.tools.find((t) => t.name === "cron_schedule")!;
+      await tool.handler({
+        name: "campaign",
+        schedule: "0 9 * * *",
+        session: "main",
+        message: "promo",
+        startAt: "2025-03-01 00:00",
+        endAt: "2025-03-15 00:00",
+        maxRuns: 5,
+      });
+      expect(parseTimeSpec).toHaveBeenCalledWith("2025-03-01 00:00", undefined, { allowPast: true });
+      expect(parseTimeSpec).toHaveBeenCalledWith("2025-03-15 00:00", undefined);
+      expect(addCron).toHaveBeenCalledWith(
+        expect.objectContaining({ startAt: 1740787200000, endAt: 1741996800000, maxRuns: 5 }),
+      );
+    });
+
+    it("rejects invalid run limits and windows", async () => {
+      const tool = config.tools.find((t) => t.name === "cron_schedule")!;
+      const base = { name: "x", schedule: "0 9 * * *", session: "s", message: "m" };
+      const zero = await tool.handler({ ...base, maxRuns: 0 });
+      expect(zero.content[0].text).toBe("Error: maxRuns must be a positive integer");
+      const inverted = await tool.handler({ ...base, startAt: "+2d", endAt: "+1d" });
+      expect(inverted.content[0].text).toBe("Error: endAt must be after startAt");
+      expect(addCron).not.toHaveBeenCalled();
+    });
+
+    it("clears the run state of a job it replaces in one upsert", async () => {
+      const tool = config.tools.find((t) => t.name === "cron_schedule")!;
+      await tool.handler({ name: "campaign", schedule: "0 9 * * *", session: "main", message: "promo" });
+      expect(removeCron).not.toHaveBeenCalled();
+      const stored = vi.mocked(addCron).mock.calls[0][0];
+      for (const field of ["archivedAt", "runCount", "lastFireAt", "pendingRetry", "deadLetteredAt", "lastOutput"]) {
+        expect(stored).toHaveProperty(field, undefined);
+      }
+    });
+
+    it("stores misfire settings and describes them", async () => {
+      const tool = config.tools.find((t) => t.name === "cron_schedule")!;
+      const result = await tool.handler({
+        name: "report",
+        schedule: "0 9 * * *",
+        session: "main",
+        message: "m",
+        misfirePolicy: "fire-all",
+        misfireCap: 3,
+        misfireGrace: "1h",
+      });
+      expect(addCron).toHaveBeenCalledWith(
+        expect.objectContaining({ misfirePolicy: "fire-all", misfireCap: 3, misfireGrace: "1h" }),
+      );
+      expect(result.content[0].text).toContain("After downtime: replay up to 3 missed runs within 1h");
+    });
+
+    it("rejects invalid misfire settings", async () => {
+      const tool = config.tools.find((t) => t.name === "cron_schedule")!;
+      const base = { name: "x", schedule: "0 9 * * *", session: "s", message: "m" };
+      const policy = await tool.handler({ ...base, misfirePolicy: "later" });
+      expect(policy.content[0].text).toBe("Error: Unknown misfire policy 'later': use skip, fire-once or fire-all");
+      const cap = await tool.handler({ ...base, misfireCap: 1.5 });
+      expect(cap.content[0].text).toBe("Error: misfireCap must be a positive integer");
+      const grace = await tool.handler({ ...base, misfireGrace: "soon" });
+      expect(grace.content[0].text).toBe("Error: Invalid duration 'soon'");
+      expect(addCron).not.toHaveBeenCalled();
+    });
+
+    it("stores the overlap policy and rejects unknown ones", async () => {
+      const tool = config.tools.find((t) => t.name === "cron_schedule")!;
+      const base = { name: "sync", schedule: "* * * * *", session: "main", message: "m" };
+      const result = await tool.handler({ ...base, overlap: "queue" });
+      expect(addCron).toHaveBeenCalledWith(expect.objectContaining({ overlap: "queue" }));
+      expect(result.content[0].text).toContain("While running: queue");
+
+      const invalid = await tool.handler({ ...base, overlap: "wait" });
+      expect(invalid.isError).toBe(true);
+      expect(invalid.content[0].text).toBe("Error: Unknown overlap policy 'wait': use allow, skip, queue or replace");
+      expect(addCron).toHaveBeenCalledTimes(1);
+    });
+
+    it("stores a retry policy and describes it", async () => {
+      const tool = config.tools.find((t) => t.name === "cron_schedule")!;
+      const retry = { maxAttempts: 3, delay: "30s", factor: 2 };
+      const result = await tool.handler({ name: "sync", schedule: "0 9 * * *", session: "main", message: "m", retry });
+      expect(addCron).toHaveBeenCalledWith(expect.objectContaining({ retry }));
+      expect(result.content[0].text).toContain("On failure: retry up to 2 times after 30s, x2 each time");
+    });
+
+    it("rejects invalid retry policies", async () => {
+      const tool = config.tools.find((t) => t.name === "cron_schedule")!;
+      const base = { name: "x", schedule: "0 9 * * *", session: "s", message: "m" };
+      const result = await tool.handler({ ...base, retry: { maxAttempts: 0 } });
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toBe("Error: retry maxAttempts must be a positive integer");
+      expect(addCron).not.toHaveBeenCalled();
+    });
+
+    it("stores a per-job timeout and rejects invalid ones", async () => {
+      const tool = config.tools.find((t) => t.name === "cron_schedule")!;
+      const base = { name: "sync", schedule: "0 9 * * *", session: "main", message: "m" };
+      const result = await tool.handler({ ...base, timeoutMs: 90_000 });
+      expect(addCron).toHaveBeenCalledWith(expect.objectContaining({ timeoutMs: 90_000 }));
+      expect(result.content[0].text).toContain("Timeout: 90s");
+
+      const invalid = await tool.handler({ ...base, timeoutMs: -5 });
+      expect(invalid.isError).toBe(true);
+      expect(invalid.content[0].text).toBe("Error: timeoutMs must be a positive integer");
+      expect(addCron).toHaveBeenCalledTimes(1);
+    });
+
+    it("rejects invalid intervals", async () => {
+      vi.mocked(explainInterval).mockImplementationOnce(() => {
+        throw new Error("Invalid interval '30s': must be at least 1m");
+      });
+      const tool = config.tools.find((t) => t.name === "cron_schedule")!;
+      const result = await tool.handler({ name: "x", every: "30s", session: "s", message: "m" });
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain("must be at least 1m");
+      expect(addCron).not.toHaveBeenCalled();
+    });
+
+    it("passes dayMatch through to the stored job", async () => {
+      const tool = config.tools.find((t) => t.name === "cron_schedule")!;
+      await tool.handler({
+        name: "digest",
+        schedule: "0 9 1 * MON",
+        session: "main",
+        message: "digest",
+        dayMatch: "and",
+      });
+      expect(addCron).toHaveBeenCalledWith(expect.objectContaining({ name: "digest", dayMatch: "and" }));
+    });
+
+    it("stores the time zone and rejects unknown zones", async () => {
+      const tool = config.tools.find((t) => t.name === "cron_schedule")!;
+      await tool.handler({ name: "tz", schedule: "0 9 * * *", session: "main", message: "hi", timezone: "Asia/Tokyo" });
+      expect(addCron).toHaveBeenCalledWith(expect.objectContaining({ timezone: "Asia/Tokyo" }));
+
+      vi.mocked(addCron).mockClear();
+      const result = await tool.handler({ name: "tz", schedule: "0 9 * * *", session: "main", message: "hi", timezone: "Nowhere/City" });
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain("Unknown time zone");
+      expect(addCron).not.toHaveBeenCalled();
+    });
+
     it("includes script count when scripts are provided", async () => {
       const tool = config.tools.find((t) => t.name === "cron_schedule")!;
       const result = await tool.handler({
@@ -104,6 +447,40 @@ describe("cron-a2a-tools", () => {
       });
       expect(result.content[0].text).toContain("1 script(s)");
     });
+
+    it("stores a run condition and rejects one that does not fit the scripts", async () => {
+      const tool = config.tools.find((t) => t.name === "cron_schedule")!;
+      const job = {
+        name: "disk",
+        schedule: "0 * * * *",
+        session: "ops",
+        message: "Disk at {{df}}",
+        scripts: [{ name: "df", command: "df" }],
+      };
+      const result = await tool.handler({ ...job, condition: { expression: "df > 90" } });
+      expect(addCron).toHaveBeenCalledWith(expect.objectContaining({ condition: { expression: "df > 90" } }));
+      expect(result.content[0].text).toContain("\nInjects: only when df > 90");
+
+      vi.mocked(addCron).mockClear();
+      const invalid = await tool.handler({ ...job, condition: { script: "load", exitCode: 1 } });
+      expect(invalid.isError).toBe(true);
+      expect(invalid.content[0].text).toBe("Error: condition refers to unknown script 'load'");
+      expect(addCron).not.toHaveBeenCalled();
+    });
+
+    it("stores onlyOnChange and says so", async () => {
+      const tool = config.tools.find((t) => t.name === "cron_schedule")!;
+      const result = await tool.handler({
+        name: "feed",
+        schedule: "*/5 * * * *",
+        session: "ops",
+        message: "{{rss.diff}}",
+        scripts: [{ name: "rss", command: "fetch-feed" }],
+        onlyOnChange: true,
+      });
+      expect(addCron).toHaveBeenCalledWith(expect.objectContaining({ onlyOnChange: true }));
+      expect(result.content[0].text).toContain("\nInjects: only when the output changed since the last run");
+    });
   });
 
   describe("cron_once handler", () => {
@@ -119,6 +496,15 @@ describe("cron-a2a-tools", () => {
     });
   });
 
+  describe("cron_once timezone", () => {
+    it("passes the time zone to createOnceJob", async () => {
+      const { createOnceJob } = await import("../src/cron.js");
+      const tool = config.tools.find((t) => t.name === "cron_once")!;
+      await tool.handler({ time: "14:30", session: "test", message: "reminder", timezone: "Europe/Paris" });
+      expect(createOnceJob).toHaveBeenCalledWith("14:30", "test", "reminder", "Europe/Paris");
+    });
+  });
+
   describe("cron_list handler", () => {
     it("returns 'no jobs' when empty", async () => {
       vi.mocked(getCrons).mockResolvedValue([]);
@@ -137,6 +523,220 @@ describe("cron-a2a-tools", () => {
       expect(result.content[0].text).toContain("daily");
       expect(result.content[0].text).toContain("hourly");
     });
+
+    it("shows the next fire time of recurring jobs", async () => {
+      vi.mocked(getCrons).mockResolvedValue([{ name: "daily", schedule: "0 9 * * *", session: "main", message: "hello" }]);
+      const tool = config.tools.find((t) => t.name === "cron_list")!;
+      const result = await tool.handler({});
+      expect(result.content[0].text).toContain("[next: 2025-01-16T09:00:00.000Z]");
+      expect(result.content[0].text).toContain("At 09:00 every day");
+    });
+
+    it("marks paused jobs and the global pause", async () => {
+      vi.mocked(getCrons).mockResolvedValue([
+        { name: "daily", schedule: "0 9 * * *", session: "main", message: "hello", enabled: false, pausedAt: 1 },
+      ]);
+      const ctx = { getConfig: vi.fn(() => ({ paused: true })) };
+      const tool = buildCronA2ATools({ ctx: ctx as any }).tools.find((t) => t.name === "cron_list")!;
+      const text = (await tool.handler({})).content[0].text;
+      expect(text).toMatch(/^All cron jobs are paused\.\n\nScheduled cron jobs:/);
+      expect(text).toContain("- daily: 0 9 * * * -> main [paused]");
+      expect(text).not.toContain("[next:");
+    });
+
+    it("shows interval jobs with their next run from history", async () => {
+      vi.mocked(getCrons).mockResolvedValue([
+        { name: "poll", schedule: "@every 90m", every: "90m", session: "main", message: "poll" },
+      ]);
+      const tool = config.tools.find((t) => t.name === "cron_list")!;
+      const result = await tool.handler({});
+      expect(getLastSuccessfulRun).toHaveBeenCalledWith("poll");
+      expect(result.content[0].text).toContain("- poll: @every 90m -> main");
+      expect(result.content[0].text).toContain("Every 1 hour 30 minutes after the last successful run");
+    });
+
+    it("explains recurrence jobs and skips calendar exclusions for the next run", async () => {
+      vi.mocked(getCrons).mockResolvedValue([
+        {
+          name: "standup",
+          schedule: "RRULE:FREQ=DAILY",
+          rrule: "DTSTART:20250101T090000Z\nRRULE:FREQ=DAILY",
+          calendars: ["holidays"],
+          session: "main",
+          message: "hi",
+        },
+      ]);
+      vi.mocked(getCalendars).mockResolvedValue([
+        {
+          name: "holidays",
+          importedAt: 0,
+          events: [{ recurrence: "DTSTART;VALUE=DATE:20990101", allDay: true, durationMs: 86400000 }],
+        },
+      ]);
+      const tool = config.tools.find((t) => t.name === "cron_list")!;
+      const result = await tool.handler({});
+      expect(result.content[0].text).toContain("[skips: holidays]");
+      expect(result.content[0].text).toContain("Every day at 09:00, starting 2025-01-01 (UTC)");
+      expect(result.content[0].text).toMatch(/\[next: \d{4}-\d{2}-\d{2}T09:00:00.000Z\]/);
+    });
+
+    it("shows the last fire time and misfire policy", async () => {
+      vi.mocked(getCrons).mockResolvedValue([
+        {
+          name: "report",
+          schedule: "0 9 * * *",
+          session: "main",
+          message: "hi",
+          lastFireAt: Date.parse("2025-01-15T09:00:00Z"),
+          misfirePolicy: "fire-once",
+          overlap: "skip",
+        },
+      ]);
+      const tool = config.tools.find((t) => t.name === "cron_list")!;
+      const result = await tool.handler({});
+      expect(result.content[0].text).toContain("[last: 2025-01-15T09:00:00.000Z]");
+      expect(result.content[0].text).toContain("[after downtime: run once for missed runs]");
+      expect(result.content[0].text).toContain("[overlap: skip]");
+    });
+
+    it("shows retry policies, pending retries and dead-lettered jobs", async () => {
+      vi.mocked(getCrons).mockResolvedValue([
+        {
+          name: "sync",
+          schedule: "0 9 * * *",
+          session: "main",
+          message: "hi",
+          retry: { maxAttempts: 2, delay: "5m" },
+          timeoutMs: 120_000,
+          pendingRetry: { at: Date.parse("2025-01-15T09:05:00Z"), attempt: 2, runId: "run-1", scheduledAt: 0 },
+        },
+        {
+          name: "once-1",
+          schedule: "once",
+          session: "main",
+          message: "hi",
+          once: true,
+          runAt: 1,
+          deadLetteredAt: Date.parse("2025-01-15T10:00:00Z"),
+          deadLetterError: "session not found",
+        },
+      ]);
+      const tool = config.tools.find((t) => t.name === "cron_list")!;
+      const text = (await tool.handler({})).content[0].text;
+      expect(text).toContain("[on failure: retry up to 1 time after 5m]");
+      expect(text).toContain("[timeout: 120s]");
+      expect(text).toContain("[retrying: attempt 2 at 2025-01-15T09:05:00.000Z]");
+      expect(text).toContain(
+        "Dead-lettered jobs:\n- once-1 -> main (failed 2025-01-15T10:00:00.000Z: session not found)",
+      );
+      expect(text).not.toContain("- once-1: once");
+    });
+
+    it("lists archived jobs separately", async () => {
+      vi.mocked(getCrons).mockResolvedValue([
+        { name: "daily", schedule: "0 9 * * *", session: "main", message: "hello" },
+        { name: "campaign", schedule: "0 9 * * *", session: "main", message: "promo", archivedAt: 1, archiveReason: "ended" },
+      ]);
+      const tool = config.tools.find((t) => t.name === "cron_list")!;
+      const result = await tool.handler({});
+      const text = result.content[0].text;
+      expect(text).toContain("Scheduled cron jobs:\n- daily: 0 9 * * *");
+      expect(text).toContain(
+        "Archived cron jobs:\n- campaign: 0 9 * * * -> main (archived 2025-03-15 00:00: active window ended)",
+      );
+      expect(text.indexOf("campaign")).toBeGreaterThan(text.indexOf("Archived"));
+    });
+
+    it("shows the original phrase of natural-language schedules", async () => {
+      vi.mocked(getCrons).mockResolvedValue([
+        { name: "daily", schedule: "0 9 * * *", schedulePhrase: "every day at 9am", session: "main", message: "hello" },
+      ]);
+      const tool = config.tools.find((t) => t.name === "cron_list")!;
+      const result = await tool.handler({});
+      expect(result.content[0].text).toContain('- daily: 0 9 * * * ("every day at 9am") -> main');
+    });
+  });
+
+  describe("cron_next handler", () => {
+    it("requires a name or an expression", async () => {
+      const tool = config.tools.find((t) => t.name === "cron_next")!;
+      const result = await tool.handler({});
+      expect(result.isError).toBe(true);
+    });
+
+    it("computes fire times for a stored job using its zone", async () => {
+      vi.mocked(getCron).mockResolvedValue({
+        name: "daily",
+        schedule: "0 9 * * *",
+        session: "main",
+        message: "hello",
+        timezone: "Europe/Berlin",
+      });
+      const tool = config.tools.find((t) => t.name === "cron_next")!;
+      const result = await tool.handler({ name: "daily", count: 2 });
+      expect(computeNextRuns).toHaveBeenCalledWith("0 9 * * *", expect.any(Number), 2, "Europe/Berlin", undefined);
+      expect(result.content[0].text).toContain("2025-01-16T09:00:00.000Z");
+      expect(result.content[0].text).toContain("2025-01-17T09:00:00.000Z");
+    });
+
+    it("computes fire times for interval jobs from their last successful run", async () => {
+      const job = { name: "poll", schedule: "@every 90m", every: "90m", session: "main", message: "poll" };
+      vi.mocked(getCron).mockResolvedValue(job);
+      vi.mocked(getLastSuccessfulRun).mockResolvedValueOnce(1736931600000);
+      const tool = config.tools.find((t) => t.name === "cron_next")!;
+      const result = await tool.handler({ name: "poll", count: 1 });
+      expect(computeNextIntervalRuns).toHaveBeenCalledWith(job, 1736931600000, expect.any(Number), 1);
+      expect(result.content[0].text).toContain("2025-01-16T10:30:00.000Z");
+    });
+
+    it("leaves out fire times covered by the job's calendars", async () => {
+      vi.mocked(getCron).mockResolvedValue({
+        name: "daily",
+        schedule: "0 9 * * *",
+        session: "main",
+        message: "hello",
+        calendars: ["holidays"],
+      });
+      vi.mocked(getCalendars).mockResolvedValue([
+        {
+          name: "holidays",
+          importedAt: 0,
+          events: [{ recurrence: "DTSTART:20990116T000000Z", allDay: false, durationMs: 86400000 }],
+        },
+      ]);
+      vi.mocked(computeNextRuns).mockReturnValueOnce([
+        new Date("2099-01-16T09:00:00Z"),
+        new Date("2099-01-17T09:00:00Z"),
+      ]);
+      const tool = config.tools.find((t) => t.name === "cron_next")!;
+      const result = await tool.handler({ name: "daily", count: 1 });
+      expect(result.content[0].text).not.toContain("2099-01-16T09:00:00.000Z");
+      expect(result.content[0].text).toContain("2099-01-17T09:00:00.000Z");
+    });
+
+    it("computes fire times for a raw expression", async () => {
+      const tool = config.tools.find((t) => t.name === "cron_next")!;
+      await tool.handler({ expression: "0 9 * * *", count: 500 });
+      expect(computeNextRuns).toHaveBeenCalledWith("0 9 * * *", expect.any(Number), 50, undefined);
+    });
+
+    it("returns an error for unknown jobs", async () => {
+      vi.mocked(getCron).mockResolvedValue(null);
+      const tool = config.tools.find((t) => t.name === "cron_next")!;
+      const result = await tool.handler({ name: "missing" });
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain("not found");
+    });
+
+    it("returns an error for invalid expressions", async () => {
+      vi.mocked(computeNextRuns).mockImplementationOnce(() => {
+        throw new Error("Invalid cron schedule");
+      });
+      const tool = config.tools.find((t) => t.name === "cron_next")!;
+      const result = await tool.handler({ expression: "bad" });
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain("Invalid cron schedule");
+    });
   });
 
   describe("cron_cancel handler", () => {
@@ -155,6 +755,366 @@ describe("cron-a2a-tools", () => {
       expect(result.isError).toBe(true);
       expect(result.content[0].text).toContain("not found");
     });
+
+    it("refuses to cancel a job other jobs run after", async () => {
+      vi.mocked(getDependentCrons).mockResolvedValueOnce([
+        { name: "digest", schedule: "after:collect", session: "s", message: "m", after: ["collect"] },
+      ]);
+      const tool = config.tools.find((t) => t.name === "cron_cancel")!;
+      const result = await tool.handler({ name: "collect" });
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toBe(
+        "Cron job 'collect' has digest running after it; remove it from their after list or cancel them first",
+      );
+      expect(removeCron).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("cron_calendar_import handler", () => {
+    it("parses the .ics file and saves its events", async () => {
+      const dir = await mkdtemp(join(tmpdir(), "cron-calendar-"));
+      const path = join(dir, "holidays.ics");
+      await writeFile(
+        path,
+        "BEGIN:VCALENDAR\r\nBEGIN:VEVENT\r\nSUMMARY:New Year\r\nDTSTART;VALUE=DATE:20250101\r\nRRULE:FREQ=YEARLY\r\nEND:VEVENT\r\nEND:VCALENDAR\r\n",
+      );
+      const tool = config.tools.find((t) => t.name === "cron_calendar_import")!;
+      const result = await tool.handler({ name: "holidays", path });
+      expect(result.content[0].text).toBe(`Calendar 'holidays' imported from ${path}: 1 event(s)`);
+      expect(saveCalendar).toHaveBeenCalledWith({
+        name: "holidays",
+        source: path,
+        importedAt: expect.any(Number),
+        events: [
+          {
+            summary: "New Year",
+            recurrence: "DTSTART;VALUE=DATE:20250101\nRRULE:FREQ=YEARLY",
+            allDay: true,
+            durationMs: 86400000,
+          },
+        ],
+      });
+    });
+
+    it("reports unreadable files", async () => {
+      const tool = config.tools.find((t) => t.name === "cron_calendar_import")!;
+      const result = await tool.handler({ name: "holidays", path: "/nonexistent/holidays.ics" });
+      expect(result.isError).toBe(true);
+      expect(saveCalendar).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("cron_calendar_list handler", () => {
+    it("lists calendars with the jobs that use them", async () => {
+      vi.mocked(getCalendars).mockResolvedValue([{ name: "holidays", source: "/tmp/h.ics", importedAt: 0, events: [] }]);
+      vi.mocked(getCrons).mockResolvedValue([
+        { name: "report", schedule: "0 9 * * *", session: "s", message: "m", calendars: ["holidays"] },
+      ]);
+      const tool = config.tools.find((t) => t.name === "cron_calendar_list")!;
+      const result = await tool.handler({});
+      expect(result.content[0].text).toContain(
+        "- holidays: 0 event(s) from /tmp/h.ics (imported 1970-01-01T00:00:00.000Z) [used by: report]",
+      );
+    });
+  });
+
+  describe("cron_calendar_remove handler", () => {
+    it("refuses to remove calendars that jobs still use", async () => {
+      vi.mocked(getCrons).mockResolvedValue([
+        { name: "report", schedule: "0 9 * * *", session: "s", message: "m", calendars: ["holidays"] },
+      ]);
+      const tool = config.tools.find((t) => t.name === "cron_calendar_remove")!;
+      const result = await tool.handler({ name: "holidays" });
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toBe("Error: Calendar 'holidays' is used by: report");
+      expect(removeCalendar).not.toHaveBeenCalled();
+    });
+
+    it("removes unused calendars", async () => {
+      vi.mocked(getCrons).mockResolvedValue([]);
+      vi.mocked(removeCalendar).mockResolvedValue(true);
+      const tool = config.tools.find((t) => t.name === "cron_calendar_remove")!;
+      const result = await tool.handler({ name: "holidays" });
+      expect(result.content[0].text).toBe("Calendar 'holidays' removed");
+    });
+  });
+
+  describe("cron_dead_letters handler", () => {
+    it("lists only dead-lettered jobs", async () => {
+      vi.mocked(getCrons).mockResolvedValue([
+        { name: "daily", schedule: "0 9 * * *", session: "main", message: "hello" },
+        { name: "once-1", schedule: "once", session: "main", message: "hi", once: true, runAt: 1, deadLetteredAt: 0 },
+      ]);
+      const tool = config.tools.find((t) => t.name === "cron_dead_letters")!;
+      const result = await tool.handler({});
+      expect(result.content[0].text).toBe("Dead-lettered jobs:\n- once-1 -> main (failed 1970-01-01T00:00:00.000Z)");
+    });
+
+    it("reports when there are none", async () => {
+      vi.mocked(getCrons).mockResolvedValue([]);
+      const tool = config.tools.find((t) => t.name === "cron_dead_letters")!;
+      expect((await tool.handler({})).content[0].text).toBe("No dead-lettered jobs.");
+    });
+  });
+
+  describe("cron_run handler", () => {
+    const daily = { name: "daily", schedule: "0 9 * * *", session: "main", message: "hello" };
+
+    it("runs the stored job through the tick loop", async () => {
+      const runJob = vi.fn(() => Promise.resolve({ status: "success" as const, runId: "run-1" }));
+      vi.mocked(getCron).mockResolvedValueOnce(daily);
+      const tool = buildCronA2ATools({ runJob }).tools.find((t) => t.name === "cron_run")!;
+      const result = await tool.handler({ name: "daily" });
+      expect(runJob).toHaveBeenCalledWith(daily);
+      expect(result.content[0].text).toBe("Cron job 'daily' ran (run run-1)");
+    });
+
+    it("reports failed and skipped runs", async () => {
+      const runJob = vi
+        .fn()
+        .mockResolvedValueOnce({ status: "failure", runId: "run-2", error: "no session" })
+        .mockResolvedValueOnce(null);
+      vi.mocked(getCron).mockResolvedValue(daily);
+      const tool = buildCronA2ATools({ runJob }).tools.find((t) => t.name === "cron_run")!;
+      const failed = await tool.handler({ name: "daily" });
+      expect(failed.isError).toBe(true);
+      expect(failed.content[0].text).toBe("Error: Cron job 'daily' failed: no session (run run-2)");
+      const skipped = await tool.handler({ name: "daily" });
+      expect(skipped.content[0].text).toBe("Cron job 'daily' skipped: its previous run is still in progress");
+    });
+
+    it("reports runs skipped by the job's condition", async () => {
+      const runJob = vi.fn(() =>
+        Promise.resolve({ status: "skipped" as const, runId: "run-3", reason: "condition not met: df > 90" }),
+      );
+      vi.mocked(getCron).mockResolvedValueOnce(daily);
+      const tool = buildCronA2ATools({ runJob }).tools.find((t) => t.name === "cron_run")!;
+      const result = await tool.handler({ name: "daily" });
+      expect(result.isError).toBeUndefined();
+      expect(result.content[0].text).toBe("Cron job 'daily' skipped: condition not met: df > 90 (run run-3)");
+    });
+
+    it("reports missing jobs and a missing runner", async () => {
+      vi.mocked(getCron).mockResolvedValueOnce(null);
+      const tool = buildCronA2ATools({ runJob: vi.fn() }).tools.find((t) => t.name === "cron_run")!;
+      expect((await tool.handler({ name: "nope" })).content[0].text).toBe("Cron job 'nope' not found");
+      const unavailable = await config.tools.find((t) => t.name === "cron_run")!.handler({ name: "daily" });
+      expect(unavailable.content[0].text).toBe("Error: Running jobs is not available");
+    });
+  });
+
+  describe("cron_preview handler", () => {
+    const disk = {
+      name: "disk",
+      schedule: "0 * * * *",
+      session: "ops",
+      message: "Disk: {{df}}",
+      scripts: [{ name: "df", command: "df -h /" }],
+    };
+
+    it("runs the scripts when enabled and reports the rendered message", async () => {
+      vi.mocked(getCron).mockResolvedValueOnce(disk);
+      vi.mocked(executeCronScripts).mockResolvedValueOnce([
+        { name: "df", exitCode: 1, stdout: "", stderr: "", durationMs: 3, error: "df: not found" },
+      ]);
+      const ctx = { getConfig: vi.fn(() => ({ cronScriptsEnabled: true })) } as any;
+      const tool = buildCronA2ATools({ ctx }).tools.find((t) => t.name === "cron_preview")!;
+      const result = await tool.handler({ name: "disk" });
+      expect(executeCronScripts).toHaveBeenCalledWith(disk.scripts);
+      const text = result.content[0].text;
+      expect(text).toContain("Script output: ran 1 script(s)");
+      expect(text).toContain("Script error: df (exit 1): df: not found");
+      expect(text).toContain("Next runs: 2025-01-16T09:00:00.000Z");
+      expect(text).toContain("Message:\nDisk: {{df}}");
+      expect(addCron).not.toHaveBeenCalled();
+    });
+
+    it("does not run scripts unless they are enabled", async () => {
+      vi.mocked(getCron).mockResolvedValueOnce(disk);
+      const tool = config.tools.find((t) => t.name === "cron_preview")!;
+      const result = await tool.handler({ name: "disk" });
+      expect(executeCronScripts).not.toHaveBeenCalled();
+      expect(result.content[0].text).toContain("Unresolved placeholders: {{df}}");
+    });
+
+    it("reports missing jobs and unusable runs", async () => {
+      const tool = config.tools.find((t) => t.name === "cron_preview")!;
+      vi.mocked(getCron).mockResolvedValueOnce(null);
+      expect((await tool.handler({ name: "nope" })).content[0].text).toBe("Cron job 'nope' not found");
+      vi.mocked(getCron).mockResolvedValueOnce(disk);
+      const result = await tool.handler({ name: "disk", fromRun: "run-9" });
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toBe("Error: Run 'run-9' not found");
+    });
+  });
+
+  describe("cron_replay handler", () => {
+    it("updates a dead-lettered job to be due now with its failure state cleared", async () => {
+      vi.mocked(getCron).mockResolvedValueOnce({
+        name: "once-1",
+        schedule: "once",
+        session: "main",
+        message: "hi",
+        once: true,
+        runAt: 1,
+        lastFireAt: 1,
+        deadLetteredAt: 2,
+        deadLetterError: "boom",
+      });
+      const tool = config.tools.find((t) => t.name === "cron_replay")!;
+      const before = Date.now();
+      const result = await tool.handler({ name: "once-1" });
+      expect(result.content[0].text).toBe("Cron job 'once-1' replayed");
+      expect(removeCron).not.toHaveBeenCalled();
+      expect(addCron).not.toHaveBeenCalled();
+      const [name, replayed] = vi.mocked(updateCron).mock.calls[0];
+      expect(name).toBe("once-1");
+      expect(replayed.runAt).toBeGreaterThanOrEqual(before);
+      expect(replayed).toHaveProperty("deadLetteredAt", undefined);
+      expect(replayed).toHaveProperty("lastFireAt", undefined);
+    });
+
+    it("refuses jobs that are missing or not dead-lettered", async () => {
+      const tool = config.tools.find((t) => t.name === "cron_replay")!;
+      vi.mocked(getCron).mockResolvedValueOnce(null);
+      expect((await tool.handler({ name: "gone" })).content[0].text).toBe("Cron job 'gone' not found");
+      vi.mocked(getCron).mockResolvedValueOnce({ name: "daily", schedule: "0 9 * * *", session: "main", message: "m" });
+      const result = await tool.handler({ name: "daily" });
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toBe("Error: Cron job 'daily' is not dead-lettered");
+      expect(addCron).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("cron_pause handler", () => {
+    const daily = { name: "daily", schedule: "0 9 * * *", session: "main", message: "hello", lastFireAt: 1 };
+
+    it("pauses a job indefinitely by disabling it in one update", async () => {
+      vi.mocked(getCron).mockResolvedValueOnce({ ...daily, pausedUntil: 1 });
+      const tool = config.tools.find((t) => t.name === "cron_pause")!;
+      const result = await tool.handler({ name: "daily" });
+      expect(result.content[0].text).toBe("Cron job 'daily' paused");
+      expect(updateCron).toHaveBeenCalledWith("daily", {
+        enabled: false,
+        pausedUntil: undefined,
+        pausedAt: expect.any(Number),
+      });
+      expect(vi.mocked(updateCron).mock.calls[0][1]).toHaveProperty("pausedUntil");
+      expect(removeCron).not.toHaveBeenCalled();
+      expect(addCron).not.toHaveBeenCalled();
+    });
+
+    it("pauses a job until a given time", async () => {
+      vi.mocked(getCron).mockResolvedValueOnce({ ...daily, timezone: "Europe/Berlin" });
+      const tool = config.tools.find((t) => t.name === "cron_pause")!;
+      const result = await tool.handler({ name: "daily", until: "tomorrow 9am" });
+      expect(parseTimeSpec).toHaveBeenCalledWith("tomorrow 9am", "Europe/Berlin");
+      expect(result.content[0].text).toBe("Cron job 'daily' paused until 2025-01-15T09:00:00.000Z");
+      expect(updateCron).toHaveBeenCalledWith("daily", {
+        enabled: undefined,
+        pausedUntil: 1736931600000,
+        pausedAt: expect.any(Number),
+      });
+    });
+
+    it("reports missing jobs and missing arguments", async () => {
+      const tool = config.tools.find((t) => t.name === "cron_pause")!;
+      vi.mocked(getCron).mockResolvedValueOnce(null);
+      expect((await tool.handler({ name: "gone" })).content[0].text).toBe("Cron job 'gone' not found");
+      const result = await tool.handler({});
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toBe("Error: Provide either 'name' or 'all'");
+      expect(updateCron).not.toHaveBeenCalled();
+    });
+
+    it("turns on the global pause in plugin config", async () => {
+      const ctx = { getConfig: vi.fn(() => ({ maxConcurrentRuns: 2 })), saveConfig: vi.fn(), events: { emit: vi.fn() } };
+      const tool = buildCronA2ATools({ ctx: ctx as any }).tools.find((t) => t.name === "cron_pause")!;
+      const result = await tool.handler({ all: true });
+      expect(result.content[0].text).toBe("All cron jobs paused");
+      expect(ctx.saveConfig).toHaveBeenCalledWith({ maxConcurrentRuns: 2, paused: true });
+    });
+  });
+
+  describe("cron_resume handler", () => {
+    it("resumes a paused job, keeping its pause start for the misfire policy", async () => {
+      vi.mocked(getCron).mockResolvedValueOnce({
+        name: "daily",
+        schedule: "0 9 * * *",
+        session: "main",
+        message: "hello",
+        enabled: false,
+        pausedAt: 5,
+      });
+      const tool = config.tools.find((t) => t.name === "cron_resume")!;
+      const result = await tool.handler({ name: "daily" });
+      expect(result.content[0].text).toBe("Cron job 'daily' resumed");
+      expect(updateCron).toHaveBeenCalledWith("daily", { enabled: undefined, pausedUntil: undefined });
+      // pausedAt is left as it is
+      expect(vi.mocked(updateCron).mock.calls[0][1]).not.toHaveProperty("pausedAt");
+      expect(removeCron).not.toHaveBeenCalled();
+    });
+
+    it("refuses jobs that are not paused", async () => {
+      vi.mocked(getCron).mockResolvedValueOnce({ name: "daily", schedule: "0 9 * * *", session: "main", message: "m" });
+      const tool = config.tools.find((t) => t.name === "cron_resume")!;
+      const result = await tool.handler({ name: "daily" });
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toBe("Error: Cron job 'daily' is not paused");
+      expect(updateCron).not.toHaveBeenCalled();
+    });
+
+    it("lifts the global pause", async () => {
+      const ctx = { getConfig: vi.fn(() => ({ paused: true })), saveConfig: vi.fn(), events: { emit: vi.fn() } };
+      const tool = buildCronA2ATools({ ctx: ctx as any }).tools.find((t) => t.name === "cron_resume")!;
+      expect((await tool.handler({ all: true })).content[0].text).toBe("All cron jobs resumed");
+      expect(ctx.saveConfig).toHaveBeenCalledWith({ paused: false });
+
+      ctx.getConfig.mockReturnValue({ paused: false });
+      const result = await tool.handler({ all: true });
+      expect(result.content[0].text).toBe("Error: Cron jobs are not all paused");
+    });
+  });
+
+  describe("cron_status handler", () => {
+    const lease = (expiresAt: number) => ({
+      name: "scheduler",
+      holder: "host-a:42:abcd",
+      acquiredAt: Date.parse("2025-01-15T09:00:00Z"),
+      renewedAt: expiresAt - 30_000,
+      expiresAt,
+    });
+
+    it("reports no leader when no lease was ever taken", async () => {
+      vi.mocked(getCrons).mockResolvedValueOnce([]);
+      const tool = config.tools.find((t) => t.name === "cron_status")!;
+      expect((await tool.handler({})).content[0].text).toBe("Leader: none\nJobs: 0 active, 0 archived, 0 dead-lettered");
+    });
+
+    it("shows the lease holder and whether this instance leads", async () => {
+      const expiresAt = Date.now() + 20_000;
+      vi.mocked(getLease).mockResolvedValueOnce(lease(expiresAt));
+      vi.mocked(getCrons).mockResolvedValueOnce([
+        { name: "daily", schedule: "0 9 * * *", session: "main", message: "hello" },
+        { name: "old", schedule: "0 9 * * *", session: "main", message: "hello", archivedAt: 1 },
+        { name: "once-1", schedule: "once", session: "main", message: "hi", once: true, runAt: 1, deadLetteredAt: 0 },
+      ]);
+      const tool = buildCronA2ATools({ instanceId: "host-a:42:abcd" }).tools.find((t) => t.name === "cron_status")!;
+      expect((await tool.handler({})).content[0].text).toBe(
+        `Leader: host-a:42:abcd (since 2025-01-15T09:00:00.000Z, lease expires ${new Date(expiresAt).toISOString()})\n` +
+          "This instance: host-a:42:abcd (leader)\n" +
+          "Jobs: 1 active, 1 archived, 1 dead-lettered",
+      );
+    });
+
+    it("treats an expired lease as no leader", async () => {
+      vi.mocked(getLease).mockResolvedValueOnce(lease(Date.parse("2025-01-15T09:30:00Z")));
+      vi.mocked(getCrons).mockResolvedValueOnce([]);
+      const tool = buildCronA2ATools({ instanceId: "host-b:7:ef01" }).tools.find((t) => t.name === "cron_status")!;
+      const text = (await tool.handler({})).content[0].text;
+      expect(text).toContain("Leader: none (lease of host-a:42:abcd expired 2025-01-15T09:30:00.000Z)");
+      expect(text).toContain("This instance: host-b:7:ef01 (standby)");
+    });
   });
 
   describe("cron_history handler", () => {
@@ -186,5 +1146,98 @@ describe("cron-a2a-tools", () => {
       expect(result.content[0].text).toContain("daily");
       expect(result.content[0].text).toContain("SUCCESS");
     });
+
+    it("links retries to the original run", async () => {
+      vi.mocked(getCronHistory).mockResolvedValue({
+        entries: [
+          {
+            id: "3",
+            cronName: "sync",
+            session: "main",
+            startedAt: Date.now(),
+            status: "failure",
+            durationMs: 5,
+            message: "m",
+            error: "down",
+            attempt: 2,
+            retryOf: "1",
+          },
+        ],
+        total: 1,
+        hasMore: false,
+      });
+      const tool = config.tools.find((t) => t.name === "cron_history")!;
+      const result = await tool.handler({});
+      expect(result.content[0].text).toContain("Attempt: 2 (retry of run 1)");
+    });
+
+    it("shows the workflow run and the job that triggered it", async () => {
+      vi.mocked(getCronHistory).mockResolvedValue({
+        entries: [
+          {
+            id: "4",
+            cronName: "digest",
+            session: "main",
+            startedAt: Date.now(),
+            status: "success",
+            durationMs: 5,
+            message: "m",
+            workflowRunId: "wf-1",
+            triggeredBy: "collect",
+          },
+        ],
+        total: 1,
+        hasMore: false,
+      });
+      const tool = config.tools.find((t) => t.name === "cron_history")!;
+      const result = await tool.handler({ workflowRunId: "wf-1" });
+      expect(getCronHistory).toHaveBeenCalledWith(expect.objectContaining({ workflowRunId: "wf-1" }));
+      expect(result.content[0].text).toContain("Workflow: wf-1 (after collect)");
+    });
+
+    it("marks manual runs", async () => {
+      vi.mocked(getCronHistory).mockResolvedValue({
+        entries: [
+          {
+            id: "5",
+            cronName: "daily",
+            session: "main",
+            startedAt: Date.now(),
+            status: "success",
+            durationMs: 5,
+            message: "m",
+            manual: true,
+          },
+        ],
+        total: 1,
+        hasMore: false,
+      });
+      const tool = config.tools.find((t) => t.name === "cron_history")!;
+      const result = await tool.handler({});
+      expect(result.content[0].text).toContain("Trigger: manual");
+    });
+
+    it("shows why a run was held back", async () => {
+      vi.mocked(getCronHistory).mockResolvedValue({
+        entries: [
+          {
+            id: "2",
+            cronName: "sync",
+            session: "main",
+            startedAt: Date.now(),
+            status: "skipped",
+            durationMs: 0,
+            message: "m",
+            reason: "previous run still in progress",
+          },
+        ],
+        total: 1,
+        hasMore: false,
+      });
+      const tool = config.tools.find((t) => t.name === "cron_history")!;
+      const result = await tool.handler({});
+      expect(result.content[0].text).toContain("SKIPPED");
+      expect(result.content[0].text).toContain("Reason: previous run still in progress");
+    });
   });
 });
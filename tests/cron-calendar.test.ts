@@ -0,0 +1,123 @@
+import { describe, expect, it } from "vitest";
+import { eventCovers, findExclusion, nextAllowedRuns, parseIcs } from "../src/cron-calendar.js";
+import type { CronCalendarRow } from "../src/cron-schema.js";
+
+const ICS = [
+  "BEGIN:VCALENDAR",
+  "VERSION:2.0",
+  "BEGIN:VEVENT",
+  "SUMMARY:Christmas",
+  "DTSTART;VALUE=DATE:20241225",
+  "DTEND;VALUE=DATE:20241227",
+  "RRULE:FREQ=YEARLY",
+  "END:VEVENT",
+  "BEGIN:VEVENT",
+  "SUMMARY:Maintenance\\, ops",
+  "DTSTART;TZID=Europe/Berlin:20250115T220000",
+  "DURATION:PT2H",
+  "END:VEVENT",
+  "BEGIN:VEVENT",
+  "SUMMARY:Cancelled offsite",
+  "STATUS:CANCELLED",
+  "DTSTART;VALUE=DATE:20250301",
+  "END:VEVENT",
+  "BEGIN:VEVENT",
+  "SUMMARY:Release freeze",
+  "DTSTART:20250601T000000Z",
+  "DTEND:20250601T06",
+  " 0000Z",
+  "END:VEVENT",
+  "END:VCALENDAR",
+].join("\r\n");
+
+describe("parseIcs", () => {
+  it("reads events with their recurrence lines and durations", () => {
+    expect(parseIcs(ICS)).toEqual([
+      {
+        summary: "Christmas",
+        recurrence: "DTSTART;VALUE=DATE:20241225\nRRULE:FREQ=YEARLY",
+        allDay: true,
+        durationMs: 2 * 86400000,
+      },
+      {
+        summary: "Maintenance, ops",
+        recurrence: "DTSTART;TZID=Europe/Berlin:20250115T220000",
+        allDay: false,
+        durationMs: 2 * 3600000,
+      },
+      { summary: "Release freeze", recurrence: "DTSTART:20250601T000000Z", allDay: false, durationMs: 6 * 3600000 },
+    ]);
+  });
+
+  it("defaults all-day events to one day and timed events to one minute", () => {
+    const events = parseIcs(
+      "BEGIN:VCALENDAR\nBEGIN:VEVENT\nDTSTART;VALUE=DATE:20250101\nEND:VEVENT\nBEGIN:VEVENT\nDTSTART:20250101T090000Z\nEND:VEVENT\nEND:VCALENDAR",
+    );
+    expect(events.map((e) => e.durationMs)).toEqual([86400000, 60000]);
+  });
+
+  it("rejects files that are not calendars", () => {
+    expect(() => parseIcs("hello")).toThrow(/missing BEGIN:VCALENDAR/);
+  });
+
+  it("names the event that cannot be expanded", () => {
+    const text = "BEGIN:VCALENDAR\nBEGIN:VEVENT\nSUMMARY:Team day\nDTSTART;TZID=Nowhere/Land:20250101T090000\nEND:VEVENT\nEND:VCALENDAR";
+    expect(() => parseIcs(text)).toThrow(/event 1 \(Team day\): Unknown time zone 'Nowhere\/Land'/);
+  });
+});
+
+describe("eventCovers", () => {
+  const [christmas, maintenance] = parseIcs(ICS);
+
+  it("covers whole days of all-day events in the job's zone, including later years", () => {
+    expect(eventCovers(christmas, Date.parse("2025-12-25T00:30:00+01:00"), "Europe/Berlin")).toBe(true);
+    expect(eventCovers(christmas, Date.parse("2025-12-26T23:59:00+01:00"), "Europe/Berlin")).toBe(true);
+    expect(eventCovers(christmas, Date.parse("2025-12-27T00:00:00+01:00"), "Europe/Berlin")).toBe(false);
+    expect(eventCovers(christmas, Date.parse("2025-12-24T23:59:00+01:00"), "Europe/Berlin")).toBe(false);
+  });
+
+  it("covers timed events from start up to but excluding the end", () => {
+    expect(eventCovers(maintenance, Date.parse("2025-01-15T21:00:00Z"), "UTC")).toBe(true);
+    expect(eventCovers(maintenance, Date.parse("2025-01-15T22:59:00Z"), "UTC")).toBe(true);
+    expect(eventCovers(maintenance, Date.parse("2025-01-15T23:00:00Z"), "UTC")).toBe(false);
+    expect(eventCovers(maintenance, Date.parse("2025-01-15T20:59:00Z"), "UTC")).toBe(false);
+  });
+});
+
+describe("findExclusion", () => {
+  const calendars: CronCalendarRow[] = [
+    { name: "ops", importedAt: 0, events: [{ recurrence: "DTSTART:bad", allDay: false, durationMs: 60000 }] },
+    { name: "holidays", importedAt: 0, events: parseIcs(ICS) },
+  ];
+
+  it("returns the calendar and event covering the instant", () => {
+    expect(findExclusion(calendars, Date.parse("2026-12-25T12:00:00Z"), "UTC")).toEqual({
+      calendar: "holidays",
+      event: "Christmas",
+    });
+  });
+
+  it("returns null outside every event and skips broken events", () => {
+    expect(findExclusion(calendars, Date.parse("2026-12-28T12:00:00Z"), "UTC")).toBeNull();
+  });
+});
+
+describe("nextAllowedRuns", () => {
+  const DAY = 86400000;
+  const daily = (from: number, count: number) =>
+    Array.from({ length: count }, (_, i) => new Date((Math.floor(from / DAY) + 1 + i) * DAY + 9 * 3600000));
+  const calendars: CronCalendarRow[] = [{ name: "holidays", importedAt: 0, events: parseIcs(ICS) }];
+
+  it("skips fire times inside calendar events", () => {
+    const runs = nextAllowedRuns(daily, calendars, 3, Date.parse("2025-12-23T12:00:00Z"), "UTC");
+    expect(runs.map((d) => d.toISOString())).toEqual([
+      "2025-12-24T09:00:00.000Z",
+      "2025-12-27T09:00:00.000Z",
+      "2025-12-28T09:00:00.000Z",
+    ]);
+  });
+
+  it("stops when the schedule has no more fire times", () => {
+    expect(nextAllowedRuns(() => [], calendars, 3, 0, "UTC")).toEqual([]);
+  });
+});
@@ -0,0 +1,116 @@
+import { describe, expect, it } from "vitest";
+import {
+  findDiffPlaceholders,
+  hashOutput,
+  outputChanged,
+  resolveDiffTemplates,
+  snapshotOutput,
+  tracksOutput,
+  unifiedDiff,
+} from "../src/cron-change.js";
+import type { CronScriptResult } from "../src/cron-schema.js";
+
+const result = (name: string, stdout: string): CronScriptResult => ({
+  name,
+  exitCode: 0,
+  stdout,
+  stderr: "",
+  durationMs: 1,
+});
+
+describe("findDiffPlaceholders and tracksOutput", () => {
+  it("finds the scripts a message diffs", () => {
+    expect(findDiffPlaceholders("{{feed.diff}} {{feed}} {{status.diff}} {{feed.diff}}")).toEqual(["feed", "status"]);
+    expect(tracksOutput({ message: "{{feed.diff}}" })).toBe(true);
+    expect(tracksOutput({ message: "{{feed}}", onlyOnChange: true })).toBe(true);
+    expect(tracksOutput({ message: "{{feed}}" })).toBe(false);
+  });
+});
+
+describe("snapshotOutput", () => {
+  it("hashes each script's stdout and keeps the outputs the message diffs", () => {
+    const job = { message: "{{feed.diff}} {{status}}" };
+    expect(snapshotOutput(job, "m", [result("feed", "a\n"), result("status", "ok")])).toEqual({
+      scripts: { feed: { hash: hashOutput("a\n"), stdout: "a\n" }, status: { hash: hashOutput("ok") } },
+    });
+  });
+
+  it("hashes the rendered message when no scripts ran", () => {
+    expect(snapshotOutput({ message: "hi" }, "hi")).toEqual({ messageHash: hashOutput("hi") });
+  });
+});
+
+describe("outputChanged", () => {
+  const job = { message: "{{feed}}" };
+
+  it("counts a first run as changed", () => {
+    expect(outputChanged(undefined, snapshotOutput(job, "m", [result("feed", "a")]))).toBe(true);
+  });
+
+  it("compares each script's output", () => {
+    const previous = snapshotOutput(job, "m", [result("feed", "a"), result("status", "ok")]);
+    expect(outputChanged(previous, snapshotOutput(job, "m", [result("feed", "a"), result("status", "ok")]))).toBe(false);
+    expect(outputChanged(previous, snapshotOutput(job, "m", [result("feed", "b"), result("status", "ok")]))).toBe(true);
+    expect(outputChanged(previous, snapshotOutput(job, "m", [result("feed", "a")]))).toBe(true);
+  });
+
+  it("compares rendered messages without scripts", () => {
+    expect(outputChanged({ messageHash: hashOutput("hi") }, snapshotOutput(job, "hi"))).toBe(false);
+    expect(outputChanged({ messageHash: hashOutput("hi") }, snapshotOutput(job, "hello"))).toBe(true);
+  });
+});
+
+describe("unifiedDiff", () => {
+  it("is empty when nothing changed", () => {
+    expect(unifiedDiff("a\nb\n", "a\nb", "feed")).toBe("");
+  });
+
+  it("shows changed lines with their context", () => {
+    const previous = ["1", "2", "3", "4", "5", "6", "7", "8"].join("\n");
+    const current = ["1", "2", "3", "4", "five", "6", "7", "8", "9"].join("\n");
+    expect(unifiedDiff(previous, current, "feed")).toBe(
+      [
+        "--- feed (previous)",
+        "+++ feed (current)",
+        "@@ -2,7 +2,8 @@",
+        " 2",
+        " 3",
+        " 4",
+        "-5",
+        "+five",
+        " 6",
+        " 7",
+        " 8",
+        "+9",
+      ].join("\n"),
+    );
+  });
+
+  it("splits changes far apart into hunks", () => {
+    const lines = Array.from({ length: 20 }, (_, i) => String(i + 1));
+    const current = lines.map((line) => (line === "2" ? "two" : line === "18" ? "eighteen" : line));
+    const diff = unifiedDiff(lines.join("\n"), current.join("\n"), "feed");
+    expect(diff.split("\n").filter((line) => line.startsWith("@@"))).toEqual(["@@ -1,5 +1,5 @@", "@@ -15,6 +15,6 @@"]);
+  });
+
+  it("diffs a first output against nothing", () => {
+    expect(unifiedDiff("", "a\nb\n", "feed")).toBe(
+      ["--- feed (previous)", "+++ feed (current)", "@@ -0,0 +1,2 @@", "+a", "+b"].join("\n"),
+    );
+  });
+});
+
+describe("resolveDiffTemplates", () => {
+  it("replaces {{name.diff}} with the diff against the previous output", () => {
+    const previous = {
+      scripts: { feed: { hash: hashOutput("a\n"), stdout: "a\n" }, status: { hash: "x", stdout: "ok" } },
+    };
+    const message = resolveDiffTemplates("New:\n{{feed.diff}}\nStatus: {{status.diff}}", previous, [
+      result("feed", "a\nb\n"),
+      result("status", "ok"),
+    ]);
+    expect(message).toBe(
+      "New:\n--- feed (previous)\n+++ feed (current)\n@@ -1,1 +1,2 @@\n a\n+b\nStatus: (no changes)",
+    );
+  });
+});
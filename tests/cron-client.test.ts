@@ -31,19 +31,62 @@ describe("CronClient", () => {
     vi.unstubAllGlobals();
   });
 
-  it("addCron calls POST /crons", async () => {
+  it("addCron calls PUT /crons/:name with only the fields that are set", async () => {
     const mockFetch = vi.fn().mockResolvedValue({ ok: true, json: () => Promise.resolve({}) });
     vi.stubGlobal("fetch", mockFetch);
 
-    await client.addCron({ name: "test", schedule: "* * * * *", session: "s1", message: "hello" });
+    await client.addCron({ name: "my job", schedule: "* * * * *", session: "s1", message: "hello", archivedAt: undefined });
+    expect(mockFetch).toHaveBeenCalledWith("http://localhost:4040/crons/my%20job", expect.objectContaining({ method: "PUT" }));
+    expect(JSON.parse(mockFetch.mock.calls[0][1].body)).toEqual({
+      name: "my job",
+      schedule: "* * * * *",
+      session: "s1",
+      message: "hello",
+    });
+
+    vi.unstubAllGlobals();
+  });
+
+  it("updateCron calls PATCH /crons/:name", async () => {
+    const mockFetch = vi.fn().mockResolvedValue({ ok: true, json: () => Promise.resolve({}) });
+    vi.stubGlobal("fetch", mockFetch);
+
+    await client.updateCron("my job", { runAt: 5, deadLetteredAt: undefined });
     expect(mockFetch).toHaveBeenCalledWith(
-      "http://localhost:4040/crons",
+      "http://localhost:4040/crons/my%20job",
+      expect.objectContaining({ method: "PATCH", body: JSON.stringify({ runAt: 5, deadLetteredAt: null }) }),
+    );
+
+    vi.unstubAllGlobals();
+  });
+
+  it("runCron calls POST /crons/:name/run and returns the outcome", async () => {
+    const outcome = { status: "success", runId: "run-1" };
+    const mockFetch = vi.fn().mockResolvedValue({ ok: true, json: () => Promise.resolve({ outcome }) });
+    vi.stubGlobal("fetch", mockFetch);
+
+    expect(await client.runCron("my job")).toEqual(outcome);
+    expect(mockFetch).toHaveBeenCalledWith(
+      "http://localhost:4040/crons/my%20job/run",
       expect.objectContaining({ method: "POST" }),
     );
 
     vi.unstubAllGlobals();
   });
 
+  it("previewCron calls POST /crons/:name/preview and returns the lines", async () => {
+    const mockFetch = vi.fn().mockResolvedValue({ ok: true, json: () => Promise.resolve({ lines: ["Message:", "hi"] }) });
+    vi.stubGlobal("fetch", mockFetch);
+
+    expect(await client.previewCron("daily", "last")).toEqual(["Message:", "hi"]);
+    expect(mockFetch).toHaveBeenCalledWith(
+      "http://localhost:4040/crons/daily/preview",
+      expect.objectContaining({ method: "POST", body: JSON.stringify({ fromRun: "last" }) }),
+    );
+
+    vi.unstubAllGlobals();
+  });
+
   it("removeCron calls DELETE /crons/:name", async () => {
     const mockFetch = vi.fn().mockResolvedValue({ ok: true, json: () => Promise.resolve({}) });
     vi.stubGlobal("fetch", mockFetch);
@@ -89,4 +132,17 @@ describe("CronClient", () => {
 
     vi.unstubAllGlobals();
   });
+
+  it("reports the error a cron route answers with", async () => {
+    const mockFetch = vi.fn().mockResolvedValue({
+      ok: false,
+      status: 400,
+      text: () => Promise.resolve(JSON.stringify({ error: "Run 'run-9' not found" })),
+    });
+    vi.stubGlobal("fetch", mockFetch);
+
+    await expect(client.previewCron("daily", "run-9")).rejects.toThrow("HTTP 400: Run 'run-9' not found");
+
+    vi.unstubAllGlobals();
+  });
 });
@@ -1,3 +1,6 @@
+import { mkdtempSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
 import { beforeEach, describe, expect, it, vi } from "vitest";
 import type { WOPRPluginContext } from "@wopr-network/plugin-types";
 
@@ -6,23 +9,33 @@ vi.mock("../src/cron-client.js", async () => {
   const getCrons = vi.fn().mockResolvedValue([]);
   const addCron = vi.fn().mockResolvedValue(undefined);
   const removeCron = vi.fn().mockResolvedValue(undefined);
+  const updateCron = vi.fn().mockResolvedValue(undefined);
   const inject = vi.fn().mockResolvedValue(undefined);
+  const runCron = vi.fn().mockResolvedValue(null);
+  const previewCron = vi.fn().mockResolvedValue([]);
 
   class MockCronClient {
     isRunning = isRunning;
     getCrons = getCrons;
     addCron = addCron;
     removeCron = removeCron;
+    updateCron = updateCron;
     inject = inject;
+    runCron = runCron;
+    previewCron = previewCron;
   }
 
   return {
     CronClient: MockCronClient,
     getDaemonUrl: vi.fn(() => "http://localhost:4040"),
-    __mocks: { isRunning, getCrons, addCron, removeCron, inject },
+    __mocks: { isRunning, getCrons, addCron, removeCron, updateCron, inject, runCron, previewCron },
   };
 });
 
+vi.mock("../src/cron-repository.js", () => ({
+  initCronStorage: vi.fn(),
+}));
+
 // Import after mock registration
 const cronClientModule = await import("../src/cron-client.js");
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -31,20 +44,32 @@ const mocks = (cronClientModule as any).__mocks as {
   getCrons: ReturnType<typeof vi.fn>;
   addCron: ReturnType<typeof vi.fn>;
   removeCron: ReturnType<typeof vi.fn>;
+  updateCron: ReturnType<typeof vi.fn>;
   inject: ReturnType<typeof vi.fn>;
+  runCron: ReturnType<typeof vi.fn>;
+  previewCron: ReturnType<typeof vi.fn>;
 };
 
 const { cronCommandHandler } = await import("../src/cron-commands.js");
+const { initCronStorage } = await import("../src/cron-repository.js");
 
-const mockCtx = {} as WOPRPluginContext;
+const mockCtx = {
+  storage: {},
+  getConfig: vi.fn(() => ({})),
+  saveConfig: vi.fn(() => Promise.resolve()),
+  events: { emit: vi.fn(() => Promise.resolve()) },
+} as unknown as WOPRPluginContext & { getConfig: ReturnType<typeof vi.fn>; saveConfig: ReturnType<typeof vi.fn> };
 
 describe("cronCommandHandler", () => {
   beforeEach(() => {
     mocks.isRunning.mockResolvedValue(true);
     mocks.getCrons.mockResolvedValue([]);
-    mocks.addCron.mockResolvedValue(undefined);
-    mocks.removeCron.mockResolvedValue(undefined);
-    mocks.inject.mockResolvedValue(undefined);
+    mocks.addCron.mockClear().mockResolvedValue(undefined);
+    mocks.removeCron.mockClear().mockResolvedValue(undefined);
+    mocks.updateCron.mockClear().mockResolvedValue(undefined);
+    mocks.inject.mockClear().mockResolvedValue(undefined);
+    mocks.runCron.mockClear().mockResolvedValue(null);
+    mocks.previewCron.mockClear().mockResolvedValue([]);
   });
 
   it("should handle 'list' with no crons", async () => {
@@ -64,6 +89,52 @@ describe("cronCommandHandler", () => {
     logSpy.mockRestore();
   });
 
+  it("should show the next fire time in 'list'", async () => {
+    mocks.getCrons.mockResolvedValue([{ name: "myjob", schedule: "0 9 * * *", session: "sess1", message: "hello" }]);
+    const logSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+    await cronCommandHandler(mockCtx, ["list"]);
+    expect(logSpy).toHaveBeenCalledWith(expect.stringMatching(/^ {4}next: /));
+    logSpy.mockRestore();
+  });
+
+  it("should explain recurrence jobs and their calendars in 'list'", async () => {
+    mocks.getCrons.mockResolvedValue([
+      {
+        name: "standup",
+        schedule: "RRULE:FREQ=DAILY",
+        rrule: "DTSTART:20250101T090000Z\nRRULE:FREQ=DAILY",
+        calendars: ["holidays"],
+        session: "sess1",
+        message: "hello",
+      },
+    ]);
+    const logSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+    await cronCommandHandler(mockCtx, ["list"]);
+    expect(logSpy).toHaveBeenCalledWith("    Every day at 09:00, starting 2025-01-01 (UTC)");
+    expect(logSpy).toHaveBeenCalledWith("    skips events in: holidays");
+    logSpy.mockRestore();
+  });
+
+  it("should show archived jobs and active windows in 'list'", async () => {
+    mocks.getCrons.mockResolvedValue([
+      {
+        name: "campaign",
+        schedule: "0 9 * * *",
+        session: "sess1",
+        message: "promo",
+        timezone: "UTC",
+        archivedAt: Date.parse("2025-03-15T00:00:00Z"),
+        archiveReason: "ended",
+      },
+      { name: "limited", schedule: "0 9 * * *", session: "sess1", message: "hi", maxRuns: 5, runCount: 2 },
+    ]);
+    const logSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+    await cronCommandHandler(mockCtx, ["list"]);
+    expect(logSpy).toHaveBeenCalledWith("  campaign: 0 9 * * * (archived 2025-03-15 00:00: active window ended)");
+    expect(logSpy).toHaveBeenCalledWith("    active at most 5 runs (2 so far)");
+    logSpy.mockRestore();
+  });
+
   it("should handle 'add' with correct args", async () => {
     const logSpy = vi.spyOn(console, "log").mockImplementation(() => {});
     await cronCommandHandler(mockCtx, ["add", "myjob", "* * * * *", "sess1", "hello", "world"]);
@@ -74,6 +145,371 @@ describe("cronCommandHandler", () => {
     logSpy.mockRestore();
   });
 
+  it("should leave run state to the daemon on 'add'", async () => {
+    const logSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+    await cronCommandHandler(mockCtx, ["add", "campaign", "0 9 * * *", "sess1", "promo"]);
+    const stored = mocks.addCron.mock.calls[0][0];
+    // The daemon clears a replaced job's run state; the CLI sends none of it
+    for (const field of ["archivedAt", "runCount", "lastFireAt", "pendingRetry", "deadLetteredAt", "lastOutput"]) {
+      expect(stored).not.toHaveProperty(field);
+    }
+    logSpy.mockRestore();
+  });
+
+  it("should translate a natural-language schedule on 'add'", async () => {
+    const logSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+    await cronCommandHandler(mockCtx, ["add", "standup", "every weekday at 9am", "sess1", "standup"]);
+    expect(mocks.addCron).toHaveBeenCalledWith(
+      expect.objectContaining({ schedule: "0 9 * * 1-5", schedulePhrase: "every weekday at 9am" }),
+    );
+    expect(logSpy).toHaveBeenCalledWith('Schedule "every weekday at 9am" -> 0 9 * * 1-5');
+    logSpy.mockRestore();
+  });
+
+  it("should reject schedules that are neither cron nor a known phrase", async () => {
+    const errSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+    const exitSpy = vi.spyOn(process, "exit").mockImplementation((() => {
+      throw new Error("exit");
+    }) as never);
+
+    await expect(cronCommandHandler(mockCtx, ["add", "job", "whenever you like", "sess1", "msg"])).rejects.toThrow(
+      "exit",
+    );
+    expect(errSpy).toHaveBeenCalledWith(expect.stringContaining("Try for example:"));
+    expect(mocks.addCron).not.toHaveBeenCalled();
+
+    errSpy.mockRestore();
+    exitSpy.mockRestore();
+  });
+
+  it("should add interval jobs with --every and --anchor", async () => {
+    const logSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+    await cronCommandHandler(mockCtx, [
+      "add",
+      "poll",
+      "--every",
+      "90m",
+      "--anchor",
+      "2025-01-15T09:00:00Z",
+      "sess1",
+      "check",
+      "feeds",
+    ]);
+    expect(mocks.addCron).toHaveBeenCalledWith(
+      expect.objectContaining({
+        name: "poll",
+        schedule: "@every 90m",
+        every: "90m",
+        anchor: Date.parse("2025-01-15T09:00:00Z"),
+        session: "sess1",
+        message: "check feeds",
+      }),
+    );
+    logSpy.mockRestore();
+  });
+
+  it("should reject invalid --every intervals", async () => {
+    const errSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+    const exitSpy = vi.spyOn(process, "exit").mockImplementation((() => {
+      throw new Error("exit");
+    }) as never);
+
+    await expect(cronCommandHandler(mockCtx, ["add", "poll", "--every", "10s", "sess1", "msg"])).rejects.toThrow("exit");
+    expect(errSpy).toHaveBeenCalledWith(expect.stringContaining("must be at least 1m"));
+
+    errSpy.mockRestore();
+    exitSpy.mockRestore();
+  });
+
+  it("should add recurrence jobs with --rrule and --calendar", async () => {
+    const logSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+    const rrule = "DTSTART;TZID=Europe/Berlin:20250107T090000 RRULE:FREQ=WEEKLY;INTERVAL=2;BYDAY=TU";
+    await cronCommandHandler(mockCtx, [
+      "add",
+      "standup",
+      "--rrule",
+      rrule,
+      "--calendar",
+      "holidays",
+      "--calendar",
+      "vacation",
+      "sess1",
+      "standup",
+    ]);
+    expect(mocks.addCron).toHaveBeenCalledWith(
+      expect.objectContaining({
+        name: "standup",
+        schedule: "RRULE:FREQ=WEEKLY;INTERVAL=2;BYDAY=TU",
+        rrule,
+        calendars: ["holidays", "vacation"],
+        session: "sess1",
+        message: "standup",
+      }),
+    );
+    expect(logSpy).toHaveBeenCalledWith(
+      "Recurrence: Every 2 weeks on Tuesday at 09:00, starting 2025-01-07 (Europe/Berlin)",
+    );
+    logSpy.mockRestore();
+  });
+
+  it("should add jobs that run after others with --after and --trigger-on", async () => {
+    mocks.getCrons.mockResolvedValue([
+      { name: "collect", schedule: "0 9 * * *", session: "sess1", message: "m" },
+      { name: "summarise", schedule: "@after collect", session: "sess1", message: "m", after: ["collect"] },
+    ]);
+    const logSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+    await cronCommandHandler(mockCtx, [
+      "add",
+      "digest",
+      "--after",
+      "collect",
+      "--after",
+      "summarise",
+      "--trigger-on",
+      "always",
+      "sess1",
+      "post",
+      "digest",
+    ]);
+    expect(mocks.addCron).toHaveBeenCalledWith(
+      expect.objectContaining({
+        name: "digest",
+        schedule: "@after collect, summarise",
+        after: ["collect", "summarise"],
+        triggerOn: "always",
+        session: "sess1",
+        message: "post digest",
+      }),
+    );
+    expect(logSpy).toHaveBeenCalledWith("Trigger: After collect and summarise finish");
+    logSpy.mockRestore();
+  });
+
+  it("should reject --after chains that would form a cycle", async () => {
+    mocks.getCrons.mockResolvedValue([
+      { name: "collect", schedule: "@after digest", session: "sess1", message: "m", after: ["digest"] },
+    ]);
+    const errSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+    const exitSpy = vi.spyOn(process, "exit").mockImplementation((() => {
+      throw new Error("exit");
+    }) as never);
+
+    await expect(cronCommandHandler(mockCtx, ["add", "digest", "--after", "collect", "sess1", "msg"])).rejects.toThrow(
+      "exit",
+    );
+    expect(errSpy).toHaveBeenCalledWith("Job triggers would form a cycle: digest -> collect -> digest");
+    expect(mocks.addCron).not.toHaveBeenCalled();
+
+    errSpy.mockRestore();
+    exitSpy.mockRestore();
+  });
+
+  it("should reject invalid --rrule values", async () => {
+    const errSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+    const exitSpy = vi.spyOn(process, "exit").mockImplementation((() => {
+      throw new Error("exit");
+    }) as never);
+
+    await expect(
+      cronCommandHandler(mockCtx, ["add", "job", "--rrule", "FREQ=DAILY;BYWEEKNO=2", "sess1", "msg"]),
+    ).rejects.toThrow("exit");
+    expect(errSpy).toHaveBeenCalledWith(expect.stringContaining("BYWEEKNO is not supported"));
+    expect(mocks.addCron).not.toHaveBeenCalled();
+
+    errSpy.mockRestore();
+    exitSpy.mockRestore();
+  });
+
+  it("should pass --start, --end and --max-runs through on 'add'", async () => {
+    const logSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+    await cronCommandHandler(mockCtx, [
+      "add",
+      "campaign",
+      "0 9 * * *",
+      "--start",
+      "2025-03-01T00:00:00Z",
+      "--end",
+      "2099-03-15T00:00:00Z",
+      "--max-runs",
+      "5",
+      "sess1",
+      "promo",
+    ]);
+    expect(mocks.addCron).toHaveBeenCalledWith(
+      expect.objectContaining({
+        name: "campaign",
+        schedule: "0 9 * * *",
+        startAt: Date.parse("2025-03-01T00:00:00Z"),
+        endAt: Date.parse("2099-03-15T00:00:00Z"),
+        maxRuns: 5,
+        session: "sess1",
+        message: "promo",
+      }),
+    );
+    logSpy.mockRestore();
+  });
+
+  it("should reject invalid --max-runs and inverted windows", async () => {
+    const errSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+    const exitSpy = vi.spyOn(process, "exit").mockImplementation((() => {
+      throw new Error("exit");
+    }) as never);
+
+    await expect(
+      cronCommandHandler(mockCtx, ["add", "job", "0 9 * * *", "--max-runs", "0", "sess1", "msg"]),
+    ).rejects.toThrow("exit");
+    expect(errSpy).toHaveBeenCalledWith("--max-runs must be a positive integer");
+    await expect(
+      cronCommandHandler(mockCtx, ["add", "job", "0 9 * * *", "--start", "+2d", "--end", "+1d", "sess1", "msg"]),
+    ).rejects.toThrow("exit");
+    expect(errSpy).toHaveBeenCalledWith("--end must be after --start");
+    expect(mocks.addCron).not.toHaveBeenCalled();
+
+    errSpy.mockRestore();
+    exitSpy.mockRestore();
+  });
+
+  it("should pass misfire settings through on 'add' and reject invalid ones", async () => {
+    const logSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+    const errSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+    const exitSpy = vi.spyOn(process, "exit").mockImplementation((() => {
+      throw new Error("exit");
+    }) as never);
+
+    await cronCommandHandler(mockCtx, [
+      "add",
+      "report",
+      "0 9 * * *",
+      "--misfire",
+      "fire-all",
+      "--misfire-cap",
+      "3",
+      "--misfire-grace",
+      "2h",
+      "sess1",
+      "report",
+    ]);
+    expect(mocks.addCron).toHaveBeenCalledWith(
+      expect.objectContaining({ name: "report", misfirePolicy: "fire-all", misfireCap: 3, misfireGrace: "2h" }),
+    );
+
+    await expect(
+      cronCommandHandler(mockCtx, ["add", "job", "0 9 * * *", "--misfire", "later", "sess1", "msg"]),
+    ).rejects.toThrow("exit");
+    expect(errSpy).toHaveBeenCalledWith("Unknown misfire policy 'later': use skip, fire-once or fire-all");
+    expect(mocks.addCron).toHaveBeenCalledTimes(1);
+
+    logSpy.mockRestore();
+    errSpy.mockRestore();
+    exitSpy.mockRestore();
+  });
+
+  it("should pass --overlap through on 'add' and reject unknown policies", async () => {
+    const logSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+    const errSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+    const exitSpy = vi.spyOn(process, "exit").mockImplementation((() => {
+      throw new Error("exit");
+    }) as never);
+
+    await cronCommandHandler(mockCtx, ["add", "sync", "* * * * *", "--overlap", "replace", "sess1", "sync"]);
+    expect(mocks.addCron).toHaveBeenCalledWith(expect.objectContaining({ name: "sync", overlap: "replace" }));
+
+    await expect(
+      cronCommandHandler(mockCtx, ["add", "job", "* * * * *", "--overlap", "wait", "sess1", "msg"]),
+    ).rejects.toThrow("exit");
+    expect(errSpy).toHaveBeenCalledWith("Unknown overlap policy 'wait': use allow, skip, queue or replace");
+    expect(mocks.addCron).toHaveBeenCalledTimes(1);
+
+    logSpy.mockRestore();
+    errSpy.mockRestore();
+    exitSpy.mockRestore();
+  });
+
+  it("should pass --day-match through on 'add'", async () => {
+    const logSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+    await cronCommandHandler(mockCtx, ["add", "digest", "0 9 1 * MON", "sess1", "--day-match", "and", "digest"]);
+    expect(mocks.addCron).toHaveBeenCalledWith(
+      expect.objectContaining({ name: "digest", schedule: "0 9 1 * MON", message: "digest", dayMatch: "and" }),
+    );
+    logSpy.mockRestore();
+  });
+
+  it("should pass --tz through on 'add' and reject unknown zones", async () => {
+    const logSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+    await cronCommandHandler(mockCtx, ["add", "standup", "0 9 * * MON-FRI", "sess1", "standup", "--tz", "Europe/Berlin"]);
+    expect(mocks.addCron).toHaveBeenCalledWith(
+      expect.objectContaining({ name: "standup", message: "standup", timezone: "Europe/Berlin" }),
+    );
+    logSpy.mockRestore();
+
+    const errSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+    const exitSpy = vi.spyOn(process, "exit").mockImplementation((() => {
+      throw new Error("exit");
+    }) as never);
+    await expect(
+      cronCommandHandler(mockCtx, ["add", "standup", "0 9 * * *", "sess1", "msg", "--tz", "Nowhere/City"]),
+    ).rejects.toThrow("exit");
+    expect(errSpy).toHaveBeenCalledWith("Unknown time zone: Nowhere/City");
+    errSpy.mockRestore();
+    exitSpy.mockRestore();
+  });
+
+  it("should reject an invalid --day-match value", async () => {
+    const errSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+    const exitSpy = vi.spyOn(process, "exit").mockImplementation((() => {
+      throw new Error("exit");
+    }) as never);
+
+    await expect(
+      cronCommandHandler(mockCtx, ["add", "digest", "0 9 1 * MON", "sess1", "msg", "--day-match", "xor"]),
+    ).rejects.toThrow("exit");
+    expect(errSpy).toHaveBeenCalledWith("--day-match must be 'and' or 'or'");
+
+    errSpy.mockRestore();
+    exitSpy.mockRestore();
+  });
+
+  it("should add a run condition with --when, --when-exit or --when-match", async () => {
+    const scriptsFile = join(mkdtempSync(join(tmpdir(), "cron-")), "scripts.json");
+    writeFileSync(scriptsFile, JSON.stringify([{ name: "df", command: "df" }]));
+    const add = (...flags: string[]) =>
+      cronCommandHandler(mockCtx, ["add", "disk", "0 * * * *", "ops", "{{df}}", "--scripts-file", scriptsFile, ...flags]);
+    const logSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+    await add("--when", "df > 90");
+    expect(mocks.addCron).toHaveBeenCalledWith(expect.objectContaining({ condition: { expression: "df > 90" } }));
+    expect(logSpy).toHaveBeenCalledWith("Injects: only when df > 90");
+    await add("--when-exit", "df=1");
+    expect(mocks.addCron).toHaveBeenLastCalledWith(expect.objectContaining({ condition: { script: "df", exitCode: 1 } }));
+    await add("--when-match", "df=9\\d%=");
+    expect(mocks.addCron).toHaveBeenLastCalledWith(
+      expect.objectContaining({ condition: { script: "df", matches: "9\\d%=" }, message: "{{df}}" }),
+    );
+    logSpy.mockRestore();
+
+    const errSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+    const exitSpy = vi.spyOn(process, "exit").mockImplementation((() => {
+      throw new Error("exit");
+    }) as never);
+    await expect(add("--when-exit", "load=1")).rejects.toThrow("exit");
+    expect(errSpy).toHaveBeenCalledWith("condition refers to unknown script 'load'");
+    await expect(add("--when", "df > 1", "--when-exit", "df=1")).rejects.toThrow("exit");
+    expect(errSpy).toHaveBeenCalledWith("Use only one of --when, --when-exit and --when-match");
+    await expect(add("--when-match", "df")).rejects.toThrow("exit");
+    expect(errSpy).toHaveBeenCalledWith("--when-match takes <script>=<value>");
+    errSpy.mockRestore();
+    exitSpy.mockRestore();
+  });
+
+  it("should pass --only-on-change through on 'add'", async () => {
+    const logSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+    await cronCommandHandler(mockCtx, ["add", "feed", "*/5 * * * *", "ops", "{{rss.diff}}", "--only-on-change"]);
+    expect(mocks.addCron).toHaveBeenCalledWith(
+      expect.objectContaining({ name: "feed", message: "{{rss.diff}}", onlyOnChange: true }),
+    );
+    expect(logSpy).toHaveBeenCalledWith("Injects: only when the output changed since the last run");
+    logSpy.mockRestore();
+  });
+
   it("should error on 'add' with insufficient args", async () => {
     const errSpy = vi.spyOn(console, "error").mockImplementation(() => {});
     const exitSpy = vi.spyOn(process, "exit").mockImplementation((() => {
@@ -95,6 +531,25 @@ describe("cronCommandHandler", () => {
     logSpy.mockRestore();
   });
 
+  it("should refuse to 'remove' a job other jobs run after", async () => {
+    mocks.getCrons.mockResolvedValue([
+      { name: "collect", schedule: "0 9 * * *", session: "s", message: "m" },
+      { name: "digest", schedule: "after:collect", session: "s", message: "m", after: ["collect"] },
+    ]);
+    const errSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+    const exitSpy = vi.spyOn(process, "exit").mockImplementation((() => {
+      throw new Error("exit");
+    }) as never);
+
+    await expect(cronCommandHandler(mockCtx, ["remove", "collect"])).rejects.toThrow("exit");
+    expect(errSpy).toHaveBeenCalledWith(
+      "Cron job 'collect' has digest running after it; remove it from their after list or cancel them first",
+    );
+    expect(mocks.removeCron).not.toHaveBeenCalled();
+    errSpy.mockRestore();
+    exitSpy.mockRestore();
+  });
+
   it("should error on 'remove' without name", async () => {
     const errSpy = vi.spyOn(console, "error").mockImplementation(() => {});
     const exitSpy = vi.spyOn(process, "exit").mockImplementation((() => {
@@ -115,11 +570,349 @@ describe("cronCommandHandler", () => {
     logSpy.mockRestore();
   });
 
+  it("should read 'once' times in the --tz zone", async () => {
+    const logSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+    await cronCommandHandler(mockCtx, ["once", "tomorrow 9am", "--tz", "Asia/Tokyo", "sess1", "run", "this"]);
+    const job = mocks.addCron.mock.calls[0][0];
+    expect(job).toMatchObject({ session: "sess1", message: "run this", timezone: "Asia/Tokyo" });
+    expect(new Date(job.runAt).toLocaleTimeString("en-GB", { timeZone: "Asia/Tokyo" })).toBe("09:00:00");
+    logSpy.mockRestore();
+  });
+
+  it("should reject past or ambiguous 'once' times", async () => {
+    const errSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+    const exitSpy = vi.spyOn(process, "exit").mockImplementation((() => {
+      throw new Error("exit");
+    }) as never);
+
+    await expect(cronCommandHandler(mockCtx, ["once", "2020-01-01T00:00:00Z", "sess1", "msg"])).rejects.toThrow("exit");
+    expect(errSpy).toHaveBeenCalledWith(expect.stringContaining("is in the past"));
+    await expect(cronCommandHandler(mockCtx, ["once", "tomorrow", "sess1", "msg"])).rejects.toThrow("exit");
+    expect(errSpy).toHaveBeenCalledWith(expect.stringContaining("ambiguous without a time of day"));
+    expect(mocks.addCron).not.toHaveBeenCalled();
+
+    errSpy.mockRestore();
+    exitSpy.mockRestore();
+  });
+
+  it("should pass a retry policy through on 'add' and 'once'", async () => {
+    const logSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+    await cronCommandHandler(mockCtx, [
+      "add",
+      "sync",
+      "0 9 * * *",
+      "--retries",
+      "3",
+      "--retry-delay",
+      "30s",
+      "--retry-factor",
+      "3",
+      "--retry-jitter",
+      "0.1",
+      "sess1",
+      "sync",
+    ]);
+    expect(mocks.addCron).toHaveBeenCalledWith(
+      expect.objectContaining({ name: "sync", retry: { maxAttempts: 3, delay: "30s", factor: 3, jitter: 0.1 } }),
+    );
+    await cronCommandHandler(mockCtx, ["once", "+5m", "--retries", "2", "sess1", "ping"]);
+    expect(mocks.addCron).toHaveBeenLastCalledWith(
+      expect.objectContaining({ once: true, message: "ping", retry: expect.objectContaining({ maxAttempts: 2 }) }),
+    );
+    logSpy.mockRestore();
+  });
+
+  it("should pass --timeout through as milliseconds and reject invalid durations", async () => {
+    const logSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+    const errSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+    const exitSpy = vi.spyOn(process, "exit").mockImplementation((() => {
+      throw new Error("exit");
+    }) as never);
+
+    await cronCommandHandler(mockCtx, ["add", "sync", "0 9 * * *", "--timeout", "90s", "sess1", "sync"]);
+    expect(mocks.addCron).toHaveBeenCalledWith(expect.objectContaining({ name: "sync", timeoutMs: 90_000 }));
+    await cronCommandHandler(mockCtx, ["once", "+5m", "--timeout", "2m", "sess1", "ping"]);
+    expect(mocks.addCron).toHaveBeenLastCalledWith(expect.objectContaining({ message: "ping", timeoutMs: 120_000 }));
+
+    await expect(
+      cronCommandHandler(mockCtx, ["add", "job", "0 9 * * *", "--timeout", "soon", "sess1", "msg"]),
+    ).rejects.toThrow("exit");
+    expect(errSpy).toHaveBeenCalledWith(expect.stringMatching(/^Invalid duration 'soon'/));
+    expect(mocks.addCron).toHaveBeenCalledTimes(2);
+
+    logSpy.mockRestore();
+    errSpy.mockRestore();
+    exitSpy.mockRestore();
+  });
+
+  it("should reject invalid retry flags", async () => {
+    const errSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+    const exitSpy = vi.spyOn(process, "exit").mockImplementation((() => {
+      throw new Error("exit");
+    }) as never);
+
+    await expect(
+      cronCommandHandler(mockCtx, ["add", "job", "0 9 * * *", "--retries", "0", "sess1", "msg"]),
+    ).rejects.toThrow("exit");
+    expect(errSpy).toHaveBeenCalledWith("retry maxAttempts must be a positive integer");
+    await expect(
+      cronCommandHandler(mockCtx, ["add", "job", "0 9 * * *", "--retry-delay", "1m", "sess1", "msg"]),
+    ).rejects.toThrow("exit");
+    expect(errSpy).toHaveBeenCalledWith("--retry-delay, --retry-factor and --retry-jitter need --retries");
+    expect(mocks.addCron).not.toHaveBeenCalled();
+
+    errSpy.mockRestore();
+    exitSpy.mockRestore();
+  });
+
+  it("should list dead-lettered jobs", async () => {
+    const logSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+    mocks.getCrons.mockResolvedValue([
+      { name: "daily", schedule: "0 9 * * *", session: "sess1", message: "hello" },
+      {
+        name: "once-1",
+        schedule: "once",
+        session: "sess1",
+        message: "ping",
+        once: true,
+        runAt: 1,
+        deadLetteredAt: Date.now(),
+        deadLetterError: "session not found",
+      },
+    ]);
+    await cronCommandHandler(mockCtx, ["dead-letters"]);
+    expect(logSpy).toHaveBeenCalledWith("Dead-lettered jobs:");
+    expect(logSpy).toHaveBeenCalledWith("    error: session not found");
+    expect(logSpy).not.toHaveBeenCalledWith(expect.stringContaining("daily"));
+
+    mocks.getCrons.mockResolvedValue([]);
+    await cronCommandHandler(mockCtx, ["dead-letters"]);
+    expect(logSpy).toHaveBeenCalledWith("No dead-lettered jobs.");
+    logSpy.mockRestore();
+  });
+
+  it("should replay a dead-lettered job and refuse others", async () => {
+    const logSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+    const errSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+    const exitSpy = vi.spyOn(process, "exit").mockImplementation((() => {
+      throw new Error("exit");
+    }) as never);
+    mocks.getCrons.mockResolvedValue([
+      { name: "daily", schedule: "0 9 * * *", session: "sess1", message: "hello" },
+      {
+        name: "once-1",
+        schedule: "once",
+        session: "sess1",
+        message: "ping",
+        once: true,
+        runAt: 1,
+        lastFireAt: 1,
+        deadLetteredAt: 2,
+        deadLetterError: "boom",
+      },
+    ]);
+
+    await cronCommandHandler(mockCtx, ["replay", "once-1"]);
+    expect(mocks.removeCron).not.toHaveBeenCalled();
+    const [name, replayed] = mocks.updateCron.mock.calls[0];
+    expect(name).toBe("once-1");
+    expect(replayed.runAt).toEqual(expect.any(Number));
+    expect(replayed).toHaveProperty("deadLetteredAt", undefined);
+    expect(logSpy).toHaveBeenCalledWith("Replayed: once-1");
+
+    await expect(cronCommandHandler(mockCtx, ["replay", "daily"])).rejects.toThrow("exit");
+    expect(errSpy).toHaveBeenCalledWith("Cron job 'daily' is not dead-lettered");
+    expect(mocks.updateCron).toHaveBeenCalledTimes(1);
+
+    logSpy.mockRestore();
+    errSpy.mockRestore();
+    exitSpy.mockRestore();
+  });
+
+  it("should pause a job indefinitely or until a time, and resume it", async () => {
+    const logSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+    const daily = { name: "daily", schedule: "0 9 * * *", session: "sess1", message: "hello", lastFireAt: 1 };
+    mocks.getCrons.mockResolvedValue([daily]);
+
+    await cronCommandHandler(mockCtx, ["pause", "daily"]);
+    expect(mocks.updateCron).toHaveBeenCalledWith("daily", {
+      enabled: false,
+      pausedUntil: undefined,
+      pausedAt: expect.any(Number),
+    });
+    const paused = { ...daily, ...mocks.updateCron.mock.calls[0][1] };
+    expect(logSpy).toHaveBeenCalledWith("Paused: daily");
+
+    await cronCommandHandler(mockCtx, ["pause", "--until", "2099-01-01T00:00:00Z", "daily"]);
+    expect(mocks.updateCron.mock.calls[1][1]).toEqual({
+      enabled: undefined,
+      pausedUntil: Date.parse("2099-01-01T00:00:00Z"),
+      pausedAt: expect.any(Number),
+    });
+    // The other kind of pause is cleared, not left to merge
+    expect(mocks.updateCron.mock.calls[1][1]).toHaveProperty("enabled");
+
+    mocks.getCrons.mockResolvedValue([paused]);
+    await cronCommandHandler(mockCtx, ["list"]);
+    expect(logSpy).toHaveBeenCalledWith("    paused");
+    expect(logSpy).not.toHaveBeenCalledWith(expect.stringMatching(/^ {4}next: /));
+
+    await cronCommandHandler(mockCtx, ["resume", "daily"]);
+    const resumed = mocks.updateCron.mock.calls[2][1];
+    expect(resumed).toEqual({ enabled: undefined, pausedUntil: undefined });
+    // pausedAt is kept so the daemon applies the misfire policy to runs missed while paused
+    expect(resumed).not.toHaveProperty("pausedAt");
+    expect(mocks.removeCron).not.toHaveBeenCalled();
+    expect(mocks.addCron).not.toHaveBeenCalled();
+    expect(logSpy).toHaveBeenCalledWith("Resumed: daily");
+    logSpy.mockRestore();
+  });
+
+  it("should refuse to resume a job that is not paused", async () => {
+    const errSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+    const exitSpy = vi.spyOn(process, "exit").mockImplementation((() => {
+      throw new Error("exit");
+    }) as never);
+    mocks.getCrons.mockResolvedValue([{ name: "daily", schedule: "0 9 * * *", session: "sess1", message: "hello" }]);
+
+    await expect(cronCommandHandler(mockCtx, ["resume", "daily"])).rejects.toThrow("exit");
+    expect(errSpy).toHaveBeenCalledWith("Cron job 'daily' is not paused");
+    await expect(cronCommandHandler(mockCtx, ["pause", "nope"])).rejects.toThrow("exit");
+    expect(errSpy).toHaveBeenCalledWith("Cron job 'nope' not found");
+    expect(mocks.updateCron).not.toHaveBeenCalled();
+
+    errSpy.mockRestore();
+    exitSpy.mockRestore();
+  });
+
+  it("should pause and resume all jobs through the plugin config", async () => {
+    const logSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+    mockCtx.getConfig.mockReturnValue({ cronScriptsEnabled: true });
+
+    await cronCommandHandler(mockCtx, ["pause", "--all"]);
+    expect(mockCtx.saveConfig).toHaveBeenCalledWith({ cronScriptsEnabled: true, paused: true });
+    expect(logSpy).toHaveBeenCalledWith("Paused all crons");
+
+    mockCtx.getConfig.mockReturnValue({ cronScriptsEnabled: true, paused: true });
+    mocks.getCrons.mockResolvedValue([{ name: "daily", schedule: "0 9 * * *", session: "sess1", message: "hello" }]);
+    await cronCommandHandler(mockCtx, ["list"]);
+    expect(logSpy).toHaveBeenCalledWith("All crons are paused (wopr cron resume --all)");
+
+    await cronCommandHandler(mockCtx, ["resume", "--all"]);
+    expect(mockCtx.saveConfig).toHaveBeenLastCalledWith({ cronScriptsEnabled: true, paused: false });
+    expect(logSpy).toHaveBeenCalledWith("Resumed all crons");
+
+    mockCtx.getConfig.mockReturnValue({});
+    logSpy.mockRestore();
+  });
+
   it("should handle 'now' subcommand", async () => {
     await cronCommandHandler(mockCtx, ["now", "sess1", "hello world"]);
     expect(mocks.inject).toHaveBeenCalledWith("sess1", "hello world", expect.any(Function));
   });
 
+  it("should run a stored job on the daemon on 'run'", async () => {
+    vi.mocked(initCronStorage).mockClear();
+    mocks.getCrons.mockResolvedValue([{ name: "daily", schedule: "0 9 * * *", session: "sess1", message: "hello" }]);
+    mocks.runCron.mockResolvedValueOnce({ status: "success", runId: "run-1" });
+    const logSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+    await cronCommandHandler(mockCtx, ["run", "daily"]);
+    expect(mocks.runCron).toHaveBeenCalledWith("daily");
+    expect(initCronStorage).not.toHaveBeenCalled();
+    expect(logSpy).toHaveBeenCalledWith("Ran: daily");
+
+    await cronCommandHandler(mockCtx, ["run", "daily"]);
+    expect(logSpy).toHaveBeenCalledWith("Skipped: daily - previous run still in progress");
+    logSpy.mockRestore();
+  });
+
+  it("should run an added job on the daemon with 'add --now'", async () => {
+    mocks.runCron.mockResolvedValueOnce({ status: "success", runId: "run-1" });
+    const logSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+    await cronCommandHandler(mockCtx, ["add", "daily", "0 9 * * *", "sess1", "hello", "--now"]);
+    expect(mocks.addCron).toHaveBeenCalledWith(expect.objectContaining({ name: "daily" }));
+    expect(mocks.runCron).toHaveBeenCalledWith("daily");
+    expect(mocks.inject).not.toHaveBeenCalled();
+    expect(logSpy).toHaveBeenCalledWith("Ran: daily");
+    logSpy.mockRestore();
+  });
+
+  it("should report runs skipped by the job's condition on 'run'", async () => {
+    mocks.getCrons.mockResolvedValue([{ name: "daily", schedule: "0 9 * * *", session: "sess1", message: "hello" }]);
+    mocks.runCron.mockResolvedValueOnce({ status: "skipped", runId: "run-3", reason: "condition not met: df > 90" });
+    const logSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+    await cronCommandHandler(mockCtx, ["run", "daily"]);
+    expect(logSpy).toHaveBeenCalledWith("Skipped: daily - condition not met: df > 90");
+    logSpy.mockRestore();
+  });
+
+  it("should report failed runs and missing jobs on 'run'", async () => {
+    mocks.getCrons.mockResolvedValue([{ name: "daily", schedule: "0 9 * * *", session: "sess1", message: "hello" }]);
+    mocks.runCron.mockResolvedValueOnce({ status: "failure", runId: "run-2", error: "no session" });
+    const errSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+    const exitSpy = vi.spyOn(process, "exit").mockImplementation((() => {
+      throw new Error("exit");
+    }) as never);
+
+    await expect(cronCommandHandler(mockCtx, ["run", "daily"])).rejects.toThrow("exit");
+    expect(errSpy).toHaveBeenCalledWith("Cron job 'daily' failed: no session");
+    await expect(cronCommandHandler(mockCtx, ["run", "nope"])).rejects.toThrow("exit");
+    expect(errSpy).toHaveBeenCalledWith("Cron job 'nope' not found");
+
+    errSpy.mockRestore();
+    exitSpy.mockRestore();
+  });
+
+  it("should preview a job on the daemon with script outputs from a recorded run", async () => {
+    vi.mocked(initCronStorage).mockClear();
+    mocks.getCrons.mockResolvedValue([{ name: "daily", schedule: "0 9 * * *", session: "sess1", message: "hello" }]);
+    mocks.previewCron.mockResolvedValueOnce(["Preview of daily -> sess1", "", "Message:", "hello"]);
+    const logSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+    await cronCommandHandler(mockCtx, ["preview", "daily", "--from-run", "last"]);
+    expect(mocks.previewCron).toHaveBeenCalledWith("daily", "last");
+    expect(initCronStorage).not.toHaveBeenCalled();
+    expect(logSpy).toHaveBeenCalledWith("Preview of daily -> sess1");
+    expect(logSpy).toHaveBeenCalledWith("hello");
+    logSpy.mockRestore();
+  });
+
+  it("should report unusable runs on 'preview'", async () => {
+    mocks.getCrons.mockResolvedValue([{ name: "daily", schedule: "0 9 * * *", session: "sess1", message: "hello" }]);
+    mocks.previewCron.mockRejectedValueOnce(new Error("Run 'run-9' not found"));
+    const errSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+    const exitSpy = vi.spyOn(process, "exit").mockImplementation((() => {
+      throw new Error("exit");
+    }) as never);
+
+    await expect(cronCommandHandler(mockCtx, ["preview", "daily", "--from-run", "run-9"])).rejects.toThrow("exit");
+    expect(errSpy).toHaveBeenCalledWith("Run 'run-9' not found");
+
+    errSpy.mockRestore();
+    exitSpy.mockRestore();
+  });
+
+  it("should explain a schedule without contacting the daemon", async () => {
+    mocks.isRunning.mockClear();
+    const logSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+    await cronCommandHandler(mockCtx, ["explain", "0", "9", "*", "*", "1-5"]);
+    expect(logSpy).toHaveBeenCalledWith("At 09:00 on every weekday");
+    expect(mocks.isRunning).not.toHaveBeenCalled();
+    logSpy.mockRestore();
+  });
+
+  it("should report invalid schedules on 'explain'", async () => {
+    const errSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+    const exitSpy = vi.spyOn(process, "exit").mockImplementation((() => {
+      throw new Error("exit");
+    }) as never);
+
+    await expect(cronCommandHandler(mockCtx, ["explain", "0 25 * * *"])).rejects.toThrow("exit");
+    expect(errSpy).toHaveBeenCalledWith(expect.stringContaining("Invalid hour field"));
+
+    errSpy.mockRestore();
+    exitSpy.mockRestore();
+  });
+
   it("should print help for unknown subcommand", async () => {
     const logSpy = vi.spyOn(console, "log").mockImplementation(() => {});
     await cronCommandHandler(mockCtx, ["unknown"]);
@@ -0,0 +1,114 @@
+import { describe, expect, it } from "vitest";
+import {
+  checkRunCondition,
+  describeRunCondition,
+  parseConditionExpression,
+  validateRunCondition,
+} from "../src/cron-condition.js";
+import type { CronScriptResult } from "../src/cron-schema.js";
+
+const result = (name: string, stdout: string, exitCode = 0, error?: string): CronScriptResult => ({
+  name,
+  exitCode,
+  stdout,
+  stderr: "",
+  durationMs: 1,
+  ...(error ? { error } : {}),
+});
+
+const scripts = [
+  { name: "disk", command: "df" },
+  { name: "status", command: "curl -s status" },
+];
+
+describe("parseConditionExpression", () => {
+  it("parses references, literals and operators with precedence", () => {
+    expect(parseConditionExpression("disk > 90 || !status.error && true")).toEqual({
+      kind: "or",
+      left: {
+        kind: "compare",
+        op: ">",
+        left: { kind: "ref", script: "disk", field: "stdout" },
+        right: { kind: "literal", value: 90 },
+      },
+      right: {
+        kind: "and",
+        left: { kind: "not", operand: { kind: "ref", script: "status", field: "error" } },
+        right: { kind: "literal", value: true },
+      },
+    });
+  });
+
+  it("rejects malformed expressions", () => {
+    expect(() => parseConditionExpression("")).toThrow("Invalid condition expression: it is empty");
+    expect(() => parseConditionExpression("disk >")).toThrow("expected a value at the end");
+    expect(() => parseConditionExpression("(disk > 1")).toThrow("expected ')'");
+    expect(() => parseConditionExpression("disk.size > 1")).toThrow("unknown field 'size'");
+    expect(() => parseConditionExpression("disk matches 90")).toThrow("matches needs a quoted pattern");
+    expect(() => parseConditionExpression("disk ; 1")).toThrow("unexpected ';'");
+  });
+});
+
+describe("checkRunCondition", () => {
+  it("evaluates expressions over the script results", () => {
+    const results = [result("disk", "91%\n"), result("status", "degraded: db slow")];
+    expect(checkRunCondition({ expression: "disk > 90" }, results)).toBeNull();
+    expect(checkRunCondition({ expression: "disk >= 95" }, results)).toBe("condition not met: disk >= 95");
+    expect(checkRunCondition({ expression: "status contains 'db' && disk.exitCode == 0" }, results)).toBeNull();
+    expect(checkRunCondition({ expression: 'status matches "^degraded"' }, results)).toBeNull();
+    expect(checkRunCondition({ expression: 'status == "ok" || (disk < 50)' }, results)).not.toBeNull();
+  });
+
+  it("checks a script's exit code or output", () => {
+    const results = [result("disk", "91%", 1)];
+    expect(checkRunCondition({ script: "disk", exitCode: 1 }, results)).toBeNull();
+    expect(checkRunCondition({ script: "disk", exitCode: 0 }, results)).toBe(
+      "condition not met: disk exited with 1, not 0",
+    );
+    expect(checkRunCondition({ script: "disk", matches: "9\\d%" }, results)).toBeNull();
+    expect(checkRunCondition({ script: "disk", matches: "^8" }, results)).toBe(
+      "condition not met: disk output does not match /^8/",
+    );
+  });
+
+  it("treats a missing script result as not met", () => {
+    expect(checkRunCondition({ expression: "disk > 90" }, [])).toBe("condition not met: no result for script 'disk'");
+    expect(checkRunCondition({ script: "disk", exitCode: 0 }, [])).toBe(
+      "condition not met: no result for script 'disk'",
+    );
+  });
+});
+
+describe("validateRunCondition", () => {
+  it("accepts conditions on the job's scripts", () => {
+    expect(validateRunCondition({ script: "disk", exitCode: 1 }, scripts)).toBeNull();
+    expect(validateRunCondition({ script: "status", matches: "down" }, scripts)).toBeNull();
+    expect(validateRunCondition({ expression: "disk > 90 && !status.error" }, scripts)).toBeNull();
+  });
+
+  it("rejects incomplete, ambiguous and invalid conditions", () => {
+    expect(validateRunCondition({}, scripts)).toBe("condition needs exactly one of exitCode, matches or expression");
+    expect(validateRunCondition({ exitCode: 1, expression: "disk" }, scripts)).toBe(
+      "condition needs exactly one of exitCode, matches or expression",
+    );
+    expect(validateRunCondition({ expression: "disk" })).toBe("condition needs the job to have scripts");
+    expect(validateRunCondition({ exitCode: 1 }, scripts)).toBe("condition exitCode and matches need a script");
+    expect(validateRunCondition({ script: "disk", exitCode: 1.5 }, scripts)).toBe(
+      "condition exitCode must be an integer",
+    );
+    expect(validateRunCondition({ script: "disk", matches: "(" }, scripts)).toMatch(/^Invalid condition pattern: /);
+    expect(validateRunCondition({ script: "load", exitCode: 0 }, scripts)).toBe(
+      "condition refers to unknown script 'load'",
+    );
+    expect(validateRunCondition({ expression: "load > 2" }, scripts)).toBe("condition refers to unknown script 'load'");
+    expect(validateRunCondition({ expression: "disk >" }, scripts)).toMatch(/^Invalid condition expression: /);
+  });
+});
+
+describe("describeRunCondition", () => {
+  it("phrases each kind of condition", () => {
+    expect(describeRunCondition({ expression: "disk > 90" })).toBe("only when disk > 90");
+    expect(describeRunCondition({ script: "disk", exitCode: 1 })).toBe("only when disk exits with 1");
+    expect(describeRunCondition({ script: "disk", matches: "9\\d%" })).toBe("only when disk output matches /9\\d%/");
+  });
+});
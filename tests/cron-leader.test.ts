@@ -0,0 +1,107 @@
+import { vi, describe, it, expect, beforeEach, afterEach } from "vitest";
+
+vi.mock("../src/cron-repository.js", () => ({
+  acquireLease: vi.fn(() => Promise.resolve(true)),
+  releaseLease: vi.fn(() => Promise.resolve()),
+}));
+
+import { createInstanceId, createLeaderElector, HEARTBEAT_MS, LEADER_LEASE, LEASE_TTL_MS } from "../src/cron-leader.js";
+import { acquireLease, releaseLease } from "../src/cron-repository.js";
+
+describe("cron-leader", () => {
+  let mockCtx: any;
+  let handlers: { onElected: ReturnType<typeof vi.fn>; onDeposed: ReturnType<typeof vi.fn> };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.useFakeTimers();
+    vi.mocked(acquireLease).mockResolvedValue(true);
+    mockCtx = { log: { info: vi.fn(), error: vi.fn(), warn: vi.fn(), debug: vi.fn() } };
+    handlers = { onElected: vi.fn(), onDeposed: vi.fn(() => Promise.resolve()) };
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("builds instance IDs from host, process and a random suffix", () => {
+    const id = createInstanceId();
+    expect(id).toContain(`:${process.pid}:`);
+    expect(createInstanceId()).not.toBe(id);
+  });
+
+  it("is elected on start when the lease is free", async () => {
+    const elector = createLeaderElector(mockCtx, handlers, { instanceId: "a" });
+    await elector.start();
+    expect(acquireLease).toHaveBeenCalledWith(LEADER_LEASE, "a", LEASE_TTL_MS, Date.now());
+    expect(handlers.onElected).toHaveBeenCalledWith(true);
+    expect(elector.isLeader()).toBe(true);
+    expect(mockCtx.log.info).toHaveBeenCalledWith("Cron leader lease acquired by a");
+    await elector.stop();
+  });
+
+  it("renews the lease every heartbeat without re-electing", async () => {
+    const elector = createLeaderElector(mockCtx, handlers, { instanceId: "a" });
+    await elector.start();
+    await vi.advanceTimersByTimeAsync(HEARTBEAT_MS * 3);
+    expect(acquireLease).toHaveBeenCalledTimes(4);
+    expect(handlers.onElected).toHaveBeenCalledTimes(1);
+    await elector.stop();
+  });
+
+  it("stays on standby and takes over once the lease frees up", async () => {
+    vi.mocked(acquireLease).mockResolvedValueOnce(false);
+    const elector = createLeaderElector(mockCtx, handlers, { instanceId: "b" });
+    await elector.start();
+    expect(handlers.onElected).not.toHaveBeenCalled();
+    expect(elector.isLeader()).toBe(false);
+
+    await vi.advanceTimersByTimeAsync(HEARTBEAT_MS);
+    expect(handlers.onElected).toHaveBeenCalledWith(false);
+    expect(elector.isLeader()).toBe(true);
+    await elector.stop();
+  });
+
+  it("steps down when another instance holds the lease", async () => {
+    const elector = createLeaderElector(mockCtx, handlers, { instanceId: "a" });
+    await elector.start();
+    vi.mocked(acquireLease).mockResolvedValueOnce(false);
+    await vi.advanceTimersByTimeAsync(HEARTBEAT_MS);
+    expect(handlers.onDeposed).toHaveBeenCalledTimes(1);
+    expect(elector.isLeader()).toBe(false);
+    expect(mockCtx.log.warn).toHaveBeenCalledWith(
+      "Cron leader lease lost by a; another instance runs cron jobs now",
+    );
+    await elector.stop();
+    expect(handlers.onDeposed).toHaveBeenCalledTimes(1);
+    expect(releaseLease).not.toHaveBeenCalled();
+  });
+
+  it("keeps leading through storage errors until its lease runs out", async () => {
+    const elector = createLeaderElector(mockCtx, handlers, { instanceId: "a", ttlMs: 25_000, heartbeatMs: 10_000 });
+    await elector.start();
+    vi.mocked(acquireLease).mockRejectedValue(new Error("database is locked"));
+
+    await vi.advanceTimersByTimeAsync(20_000);
+    expect(mockCtx.log.error).toHaveBeenCalledWith("Cron leader lease error: database is locked");
+    expect(handlers.onDeposed).not.toHaveBeenCalled();
+    expect(elector.isLeader()).toBe(true);
+
+    await vi.advanceTimersByTimeAsync(10_000);
+    expect(elector.isLeader()).toBe(false);
+    expect(handlers.onDeposed).toHaveBeenCalledTimes(1);
+    await elector.stop();
+  });
+
+  it("steps down, releases the lease and stops renewing on stop", async () => {
+    const elector = createLeaderElector(mockCtx, handlers, { instanceId: "a" });
+    await elector.start();
+    await elector.stop();
+    expect(handlers.onDeposed).toHaveBeenCalledTimes(1);
+    expect(releaseLease).toHaveBeenCalledWith(LEADER_LEASE, "a");
+    expect(elector.isLeader()).toBe(false);
+
+    await vi.advanceTimersByTimeAsync(HEARTBEAT_MS * 2);
+    expect(acquireLease).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,91 @@
+import { describe, expect, it } from "vitest";
+import { createRunLimiter, DEFAULT_MAX_CONCURRENT_RUNS, resolveRunLimits, type RunLimits } from "../src/cron-limiter.js";
+
+function deferred() {
+  let resolve: () => void = () => {};
+  const promise = new Promise<void>((r) => (resolve = r));
+  return { promise, resolve };
+}
+
+const flush = () => new Promise((r) => setTimeout(r, 0));
+
+describe("createRunLimiter", () => {
+  it("caps runs in flight and starts waiting runs as slots free up", async () => {
+    const limiter = createRunLimiter(() => ({ global: 2 }));
+    const gates = [deferred(), deferred(), deferred()];
+    const started: number[] = [];
+    const runs = gates.map((gate, i) =>
+      limiter.run("main", async () => {
+        started.push(i);
+        await gate.promise;
+        return i;
+      }),
+    );
+    expect(started).toEqual([0, 1]);
+    expect(limiter.active).toBe(2);
+    expect(limiter.waiting).toBe(1);
+
+    gates[1].resolve();
+    await flush();
+    expect(started).toEqual([0, 1, 2]);
+    gates[0].resolve();
+    gates[2].resolve();
+    expect(await Promise.all(runs)).toEqual([0, 1, 2]);
+    expect(limiter.active).toBe(0);
+  });
+
+  it("holds back runs for a busy session without blocking other sessions", async () => {
+    const limiter = createRunLimiter(() => ({ global: 3, perSession: 1 }));
+    const gate = deferred();
+    const started: string[] = [];
+    const task = (label: string) => async () => {
+      started.push(label);
+      await gate.promise;
+    };
+    const runs = [limiter.run("a", task("a1")), limiter.run("a", task("a2")), limiter.run("b", task("b1"))];
+    expect(started).toEqual(["a1", "b1"]);
+    gate.resolve();
+    await Promise.all(runs);
+    expect(started).toEqual(["a1", "b1", "a2"]);
+  });
+
+  it("frees the slot when a run fails", async () => {
+    const limiter = createRunLimiter(() => ({ global: 1 }));
+    const failing = limiter.run("main", () => Promise.reject(new Error("boom")));
+    const next = limiter.run("main", () => Promise.resolve("ok"));
+    await expect(failing).rejects.toThrow("boom");
+    expect(await next).toBe("ok");
+  });
+
+  it("reads limits on every start", async () => {
+    let limits: RunLimits = { global: 1 };
+    const limiter = createRunLimiter(() => limits);
+    const gate = deferred();
+    const started: number[] = [];
+    const runs = [0, 1, 2].map((i) =>
+      limiter.run("main", async () => {
+        started.push(i);
+        await gate.promise;
+      }),
+    );
+    expect(started).toEqual([0]);
+    limits = { global: 5 };
+    gate.resolve();
+    await Promise.all(runs);
+    expect(started).toEqual([0, 1, 2]);
+  });
+});
+
+describe("resolveRunLimits", () => {
+  it("uses config values and falls back to defaults", () => {
+    expect(resolveRunLimits({ maxConcurrentRuns: 3, maxConcurrentRunsPerSession: 1 })).toEqual({
+      global: 3,
+      perSession: 1,
+    });
+    expect(resolveRunLimits(undefined)).toEqual({ global: DEFAULT_MAX_CONCURRENT_RUNS, perSession: undefined });
+    expect(resolveRunLimits({ maxConcurrentRuns: 0, maxConcurrentRunsPerSession: "2" })).toEqual({
+      global: DEFAULT_MAX_CONCURRENT_RUNS,
+      perSession: undefined,
+    });
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, expect, it } from "vitest";
+import { describeMisfire, planCatchUp, validateMisfireOptions } from "../src/cron-misfire.js";
+import type { CronCalendarRow } from "../src/cron-schema.js";
+import { cronJob } from "./fixtures.js";
+
+const at = (time: string) => Date.parse(`2025-01-01T${time}:00Z`);
+
+describe("planCatchUp", () => {
+  it("counts missed occurrences but runs none by default", () => {
+    expect(planCatchUp(cronJob(), at("00:00"), at("05:00"), [])).toEqual({ missed: 4, run: [], latest: at("04:00") });
+  });
+
+  it("runs the latest missed occurrence once", () => {
+    const plan = planCatchUp(cronJob({ misfirePolicy: "fire-once" }), at("00:00"), at("05:00"), []);
+    expect(plan.run).toEqual([at("04:00")]);
+  });
+
+  it("replays the most recent missed occurrences up to the cap", () => {
+    const plan = planCatchUp(cronJob({ misfirePolicy: "fire-all", misfireCap: 2 }), at("00:00"), at("05:00"), []);
+    expect(plan).toEqual({ missed: 4, run: [at("03:00"), at("04:00")], latest: at("04:00") });
+    const all = planCatchUp(cronJob({ misfirePolicy: "fire-all" }), at("00:00"), at("05:00"), []);
+    expect(all.run).toHaveLength(4);
+  });
+
+  it("drops occurrences missed by more than the grace window", () => {
+    const replay = cronJob({ misfirePolicy: "fire-all", misfireGrace: "90m" });
+    expect(planCatchUp(replay, at("00:00"), at("05:00"), []).run).toEqual([at("04:00")]);
+    const once = cronJob({ misfirePolicy: "fire-once", misfireGrace: "30m" });
+    expect(planCatchUp(once, at("00:00"), at("05:00"), [])).toEqual({ missed: 4, run: [], latest: at("04:00") });
+  });
+
+  it("ignores occurrences outside the active window", () => {
+    const plan = planCatchUp(cronJob({ misfirePolicy: "fire-all", endAt: at("02:30") }), at("00:00"), at("05:00"), []);
+    expect(plan.run).toEqual([at("01:00"), at("02:00")]);
+  });
+
+  it("ignores occurrences covered by exclusion calendars", () => {
+    const calendar: CronCalendarRow = {
+      name: "maintenance",
+      importedAt: 0,
+      events: [{ recurrence: "DTSTART:20250101T015000Z", allDay: false, durationMs: 30 * 60000 }],
+    };
+    const plan = planCatchUp(cronJob({ misfirePolicy: "fire-all" }), at("00:00"), at("05:00"), [calendar]);
+    expect(plan.run).toEqual([at("01:00"), at("03:00"), at("04:00")]);
+  });
+
+  it("steps interval jobs from their last fire", () => {
+    const interval = cronJob({ schedule: "@every 2h", every: "2h", misfirePolicy: "fire-all" });
+    expect(planCatchUp(interval, at("00:00"), at("05:00"), []).run).toEqual([at("02:00"), at("04:00")]);
+  });
+
+  it("reports nothing when no occurrence was missed", () => {
+    expect(planCatchUp(cronJob(), at("04:00"), at("04:59"), [])).toEqual({ missed: 0, run: [], latest: null });
+  });
+});
+
+describe("validateMisfireOptions", () => {
+  it("accepts valid settings", () => {
+    expect(validateMisfireOptions({ misfirePolicy: "fire-all", misfireCap: 5, misfireGrace: "2h" })).toBeNull();
+  });
+
+  it("rejects unknown policies, bad caps and bad durations", () => {
+    expect(validateMisfireOptions({ misfirePolicy: "always" })).toMatch(/Unknown misfire policy 'always'/);
+    expect(validateMisfireOptions({ misfireCap: 0 })).toBe("misfireCap must be a positive integer");
+    expect(validateMisfireOptions({ misfireGrace: "soon" })).toMatch(/Invalid duration 'soon'/);
+  });
+});
+
+describe("describeMisfire", () => {
+  it("describes non-default policies", () => {
+    expect(describeMisfire({})).toBeNull();
+    expect(describeMisfire({ misfirePolicy: "fire-once", misfireGrace: "1h" })).toBe(
+      "run once for missed runs within 1h",
+    );
+    expect(describeMisfire({ misfirePolicy: "fire-all" })).toBe("replay up to 10 missed runs");
+  });
+});
@@ -0,0 +1,70 @@
+import { describe, expect, it } from "vitest";
+import { parseNaturalSchedule, resolveScheduleInput } from "../src/cron-natural.js";
+
+describe("parseNaturalSchedule", () => {
+  it.each([
+    ["every minute", "* * * * *"],
+    ["every 15 minutes", "*/15 * * * *"],
+    ["every 2 hours", "0 */2 * * *"],
+    ["hourly", "0 * * * *"],
+    ["every day at 9am", "0 9 * * *"],
+    ["daily at 17:30", "30 17 * * *"],
+    ["every weekday at 9am", "0 9 * * 1-5"],
+    ["Every weekday at 9AM", "0 9 * * 1-5"],
+    ["weekends at 10am", "0 10 * * 0,6"],
+    ["mon-fri at 8:15am", "15 8 * * 1-5"],
+    ["every monday, wednesday and friday at 17:30", "30 17 * * 1,3,5"],
+    ["every 15 minutes during business hours", "*/15 9-17 * * 1-5"],
+    ["every 2 hours during business hours", "0 9-17/2 * * 1-5"],
+    ["every day at 9am and 5pm", "0 9,17 * * *"],
+    ["on the 1st and 15th at noon", "0 12 1,15 * *"],
+    ["first monday of each month at noon", "0 12 * * 1#1"],
+    ["last friday of the month at 16:00", "0 16 * * 5L"],
+    ["last day of the month at 18:00", "0 18 L * *"],
+    ["last weekday of the month at 18:00", "0 18 LW * *"],
+    ["every january 1st at midnight", "0 0 1 1 *"],
+    ["weekly", "0 0 * * 0"],
+    ["monthly", "0 0 1 * *"],
+    ["yearly", "0 0 1 1 *"],
+  ])("translates '%s' to '%s'", (phrase, expected) => {
+    expect(parseNaturalSchedule(phrase)).toBe(expected);
+  });
+
+  it("rejects intervals that do not divide evenly", () => {
+    expect(() => parseNaturalSchedule("every 90 minutes")).toThrow(/does not divide the hour; use every: "90m"/);
+  });
+
+  it("rejects ambiguous times", () => {
+    expect(() => parseNaturalSchedule("every day at 9")).toThrow(/Ambiguous time '9'/);
+  });
+
+  it("rejects unknown words with suggestions", () => {
+    expect(() => parseNaturalSchedule("every fortnight at 9am")).toThrow(
+      /did not understand 'fortnight'\. Try for example: "every day at 9am"/,
+    );
+  });
+
+  it("rejects phrases without any schedule", () => {
+    expect(() => parseNaturalSchedule("whenever")).toThrow(/Try for example:/);
+  });
+});
+
+describe("resolveScheduleInput", () => {
+  it("passes cron expressions and macros through unchanged", () => {
+    expect(resolveScheduleInput("0 9 * * MON-FRI")).toEqual({ schedule: "0 9 * * MON-FRI" });
+    expect(resolveScheduleInput("@daily")).toEqual({ schedule: "@daily" });
+    expect(resolveScheduleInput("@reboot")).toEqual({ schedule: "@reboot" });
+  });
+
+  it("reports cron errors for input shaped like an expression", () => {
+    expect(() => resolveScheduleInput("0 25 * * *")).toThrow(/Invalid hour field/);
+    expect(() => resolveScheduleInput("@fortnightly")).toThrow(/Unknown cron macro/);
+  });
+
+  it("translates phrases and keeps the original text", () => {
+    expect(resolveScheduleInput(" every weekday at 9am ")).toEqual({
+      schedule: "0 9 * * 1-5",
+      phrase: "every weekday at 9am",
+    });
+  });
+});
@@ -0,0 +1,72 @@
+import { describe, expect, it, vi } from "vitest";
+import type { WOPRPluginContext } from "@wopr-network/plugin-types";
+import {
+  describePause,
+  isGloballyPaused,
+  isPaused,
+  pauseJob,
+  resumeJob,
+  setGlobalPause,
+} from "../src/cron-pause.js";
+import type { CronJobRow } from "../src/cron-schema.js";
+
+const NOW = Date.parse("2025-01-15T10:00:00Z");
+const job: CronJobRow = { name: "daily", schedule: "0 9 * * *", session: "main", message: "hi" };
+
+describe("isPaused", () => {
+  it("treats disabled jobs as paused and timed pauses as over once they end", () => {
+    expect(isPaused(job, NOW)).toBe(false);
+    expect(isPaused({ ...job, enabled: false }, NOW)).toBe(true);
+    expect(isPaused({ ...job, enabled: true }, NOW)).toBe(false);
+    expect(isPaused({ ...job, pausedUntil: NOW + 1 }, NOW)).toBe(true);
+    expect(isPaused({ ...job, pausedUntil: NOW }, NOW)).toBe(false);
+  });
+});
+
+describe("describePause", () => {
+  it("describes indefinite and timed pauses", () => {
+    expect(describePause(job, NOW)).toBeNull();
+    expect(describePause({ ...job, enabled: false }, NOW)).toBe("paused");
+    expect(describePause({ ...job, pausedUntil: NOW + 3600000 }, NOW)).toBe("paused until 2025-01-15T11:00:00.000Z");
+  });
+});
+
+describe("pauseJob", () => {
+  it("pauses indefinitely or until a time, clearing the other kind of pause", () => {
+    const off = pauseJob(job, undefined, NOW);
+    expect(off).toEqual({ enabled: false, pausedUntil: undefined, pausedAt: NOW });
+    expect(Object.keys(off)).toEqual(["enabled", "pausedUntil", "pausedAt"]);
+    const timed = pauseJob({ ...job, ...off }, NOW + 60_000, NOW + 1000);
+    expect(timed).toEqual({ enabled: undefined, pausedUntil: NOW + 60_000, pausedAt: NOW });
+    expect(Object.keys(timed)).toEqual(["enabled", "pausedUntil", "pausedAt"]);
+  });
+});
+
+describe("resumeJob", () => {
+  it("clears the pause but keeps when it started", () => {
+    const update = resumeJob();
+    expect(update).toEqual({ enabled: undefined, pausedUntil: undefined });
+    expect(Object.keys(update)).toEqual(["enabled", "pausedUntil"]);
+  });
+});
+
+describe("global pause", () => {
+  it("reads and writes the paused flag in plugin config", async () => {
+    const ctx = {
+      getConfig: vi.fn(() => ({ cronScriptsEnabled: true })),
+      saveConfig: vi.fn(() => Promise.resolve()),
+      events: { emit: vi.fn(() => Promise.resolve()) },
+    } as unknown as WOPRPluginContext;
+    expect(isGloballyPaused(ctx)).toBe(false);
+    await setGlobalPause(ctx, true);
+    expect(ctx.saveConfig).toHaveBeenCalledWith({ cronScriptsEnabled: true, paused: true });
+    expect(ctx.events.emit).toHaveBeenCalledWith("config:change", {
+      key: "paused",
+      oldValue: undefined,
+      newValue: true,
+      plugin: "wopr-plugin-cron",
+    });
+    vi.mocked(ctx.getConfig).mockReturnValue({ paused: true });
+    expect(isGloballyPaused(ctx)).toBe(true);
+  });
+});
@@ -0,0 +1,180 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+vi.mock("../src/cron-repository.js", () => ({
+  getCalendars: vi.fn(() => Promise.resolve([])),
+  getCronHistory: vi.fn(() => Promise.resolve({ entries: [], total: 0, hasMore: false })),
+  getCronRun: vi.fn(() => Promise.resolve(null)),
+  getLastSuccessfulRun: vi.fn(() => Promise.resolve(null)),
+}));
+
+import {
+  describePreview,
+  findUnresolvedPlaceholders,
+  LAST_RUN,
+  previewJob,
+  upcomingRuns,
+} from "../src/cron-preview.js";
+import { hashOutput } from "../src/cron-change.js";
+import { getCronHistory, getCronRun } from "../src/cron-repository.js";
+import type { CronJobRow, CronRunRow } from "../src/cron-schema.js";
+
+const NOW = Date.parse("2025-01-15T10:00:00Z");
+
+const job: CronJobRow = {
+  name: "disk",
+  schedule: "0 * * * *",
+  session: "ops",
+  message: "Disk: {{df}} Load: {{load}}",
+  scripts: [{ name: "df", command: "echo 91%" }],
+};
+
+const run = (data: Partial<CronRunRow>): CronRunRow => ({
+  id: "run-1",
+  cronName: "disk",
+  session: "ops",
+  startedAt: NOW - 3600_000,
+  status: "success",
+  durationMs: 10,
+  message: "m",
+  ...data,
+});
+
+describe("findUnresolvedPlaceholders", () => {
+  it("lists each remaining placeholder once", () => {
+    expect(findUnresolvedPlaceholders("{{a}} and {{b}} and {{a}}")).toEqual(["{{a}}", "{{b}}"]);
+    expect(findUnresolvedPlaceholders("nothing left")).toEqual([]);
+  });
+});
+
+describe("upcomingRuns", () => {
+  it("lists the next fire times and none for jobs that do not fire on their own", async () => {
+    expect(await upcomingRuns(job, 2, NOW)).toEqual([
+      new Date("2025-01-15T11:00:00Z"),
+      new Date("2025-01-15T12:00:00Z"),
+    ]);
+    expect(await upcomingRuns({ ...job, enabled: false }, 2, NOW)).toEqual([]);
+    expect(await upcomingRuns({ ...job, after: ["collect"] }, 2, NOW)).toEqual([]);
+  });
+});
+
+describe("previewJob", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("runs the scripts and reports what is left unresolved", async () => {
+    const preview = await previewJob(job, { scriptsEnabled: true, now: NOW });
+    expect(preview.source).toBe("scripts");
+    expect(preview.message).toBe("Disk: 91% Load: {{load}}");
+    expect(preview.unresolved).toEqual(["{{load}}"]);
+    expect(preview.nextRuns).toHaveLength(3);
+  });
+
+  it("diffs the outputs against the job's last output", async () => {
+    const diffing = { ...job, message: "{{df.diff}}", lastOutput: { scripts: { df: { hash: "x", stdout: "45%\n" } } } };
+    const preview = await previewJob(diffing, { scriptsEnabled: true, now: NOW });
+    expect(preview.message).toBe("--- df (previous)\n+++ df (current)\n@@ -1,1 +1,1 @@\n-45%\n+91%");
+  });
+
+  it("leaves the scripts alone when they are disabled", async () => {
+    const preview = await previewJob(job, { scriptsEnabled: false, now: NOW });
+    expect(preview.source).toBe("none");
+    expect(preview.unresolved).toEqual(["{{df}}", "{{load}}"]);
+  });
+
+  it("reuses the outputs of a recorded run", async () => {
+    vi.mocked(getCronRun).mockResolvedValueOnce(
+      run({ scriptResults: [{ name: "df", exitCode: 0, stdout: "45%\n", stderr: "", durationMs: 5 }] }),
+    );
+    const preview = await previewJob(job, { scriptsEnabled: true, fromRun: "run-1", now: NOW });
+    expect(getCronRun).toHaveBeenCalledWith("run-1");
+    expect(preview).toMatchObject({ source: "run", runId: "run-1", message: "Disk: 45% Load: {{load}}" });
+  });
+
+  it("picks the latest run with script output", async () => {
+    vi.mocked(getCronHistory).mockResolvedValueOnce({
+      entries: [
+        run({ id: "run-3" }),
+        run({ id: "run-2", scriptResults: [{ name: "df", exitCode: 0, stdout: "50%", stderr: "", durationMs: 5 }] }),
+      ],
+      total: 2,
+      hasMore: false,
+    });
+    const preview = await previewJob(job, { scriptsEnabled: true, fromRun: LAST_RUN, now: NOW });
+    expect(getCronHistory).toHaveBeenCalledWith({ name: "disk", limit: 50 });
+    expect(preview.runId).toBe("run-2");
+  });
+
+  it("rejects missing runs and runs of other jobs", async () => {
+    await expect(previewJob(job, { scriptsEnabled: true, fromRun: "nope" })).rejects.toThrow("Run 'nope' not found");
+    vi.mocked(getCronRun).mockResolvedValueOnce(run({ cronName: "other" }));
+    await expect(previewJob(job, { scriptsEnabled: true, fromRun: "run-1" })).rejects.toThrow(
+      "Run 'run-1' is a run of 'other', not 'disk'",
+    );
+    await expect(previewJob(job, { scriptsEnabled: true, fromRun: LAST_RUN })).rejects.toThrow(
+      "No recorded run of 'disk' has script output",
+    );
+  });
+});
+
+describe("describePreview", () => {
+  it("reports the source, script errors, placeholders, next runs and the message", () => {
+    const lines = describePreview(job, {
+      message: "Disk: [script error: boom] Load: {{load}}",
+      source: "scripts",
+      scriptResults: [{ name: "df", exitCode: 2, stdout: "", stderr: "", durationMs: 1, error: "boom" }],
+      unresolved: ["{{load}}"],
+      nextRuns: [new Date("2025-01-15T11:00:00Z")],
+    });
+    expect(lines).toEqual([
+      "Preview of disk -> ops",
+      "Script output: ran 1 script(s)",
+      "Script error: df (exit 2): boom",
+      "Unresolved placeholders: {{load}}",
+      "Next runs: 2025-01-15T11:00:00.000Z",
+      "",
+      "Message:",
+      "Disk: [script error: boom] Load: {{load}}",
+    ]);
+  });
+
+  it("explains disabled scripts and jobs started by others", () => {
+    const lines = describePreview(
+      { ...job, after: ["collect"] },
+      { message: "m", source: "none", scriptResults: [], unresolved: [], nextRuns: [] },
+    );
+    expect(lines).toContain("Script output: none - scripts are disabled (cronScriptsEnabled)");
+    expect(lines).toContain("Next runs: After collect succeeds");
+  });
+
+  it("tells whether the job's condition would let the run inject", () => {
+    const conditional = { ...job, condition: { expression: "df > 90" } };
+    const preview = (stdout: string) => ({
+      message: "m",
+      source: "scripts" as const,
+      scriptResults: [{ name: "df", exitCode: 0, stdout, stderr: "", durationMs: 1 }],
+      unresolved: [],
+      nextRuns: [],
+    });
+    expect(describePreview(conditional, preview("95%"))).toContain("Condition: met");
+    expect(describePreview(conditional, preview("45%"))).toContain(
+      "Would be skipped: condition not met: df > 90",
+    );
+  });
+
+  it("tells whether the output changed for jobs with onlyOnChange", () => {
+    const stdout = "91%";
+    const onChange = { ...job, onlyOnChange: true, lastOutput: { scripts: { df: { hash: hashOutput(stdout) } } } };
+    const preview = (out: string) => ({
+      message: "m",
+      source: "scripts" as const,
+      scriptResults: [{ name: "df", exitCode: 0, stdout: out, stderr: "", durationMs: 1 }],
+      unresolved: [],
+      nextRuns: [],
+    });
+    expect(describePreview(onChange, preview("91%"))).toContain(
+      "Would be skipped: output unchanged since the last run",
+    );
+    expect(describePreview(onChange, preview("95%"))).toContain("Output: changed since the last run");
+  });
+});
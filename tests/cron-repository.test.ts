@@ -1,5 +1,23 @@
 import { vi, describe, it, expect, beforeEach } from "vitest";
-import { initCronStorage, getCrons, getCron, addCron, removeCron, addCronRun } from "../src/cron-repository.js";
+import {
+  initCronStorage,
+  getCrons,
+  getCron,
+  getDependentCrons,
+  hasDependentCrons,
+  addCron,
+  removeCron,
+  updateCron,
+  addCronRun,
+  getCronRun,
+  getLastSuccessfulRun,
+  onCronChange,
+  getCalendar,
+  saveCalendar,
+  removeCalendar,
+  acquireLease,
+  releaseLease,
+} from "../src/cron-repository.js";
 
 describe("cron-repository", () => {
   const mockFindMany = vi.fn();
@@ -21,6 +39,7 @@ describe("cron-repository", () => {
   const mockRunsInsert = vi.fn();
   const mockRunsRepo = {
     insert: mockRunsInsert,
+    findById: vi.fn(),
     findMany: vi.fn(),
     count: mockCount,
     deleteMany: mockDeleteMany,
@@ -33,11 +52,28 @@ describe("cron-repository", () => {
     })),
   };
 
+  const mockCalendarsRepo = {
+    findMany: vi.fn(),
+    findById: vi.fn(),
+    insert: vi.fn(),
+    update: vi.fn(),
+    delete: vi.fn(),
+  };
+
+  const mockLeasesRepo = {
+    findById: vi.fn(),
+    insert: vi.fn(),
+    updateMany: vi.fn(),
+    deleteMany: vi.fn(),
+  };
+
   const mockStorage = {
     register: vi.fn(),
     getRepository: vi.fn((namespace: string, table: string) => {
       if (table === "jobs") return mockJobsRepo;
       if (table === "runs") return mockRunsRepo;
+      if (table === "calendars") return mockCalendarsRepo;
+      if (table === "leases") return mockLeasesRepo;
       return null;
     }),
   } as any;
@@ -55,6 +91,7 @@ describe("cron-repository", () => {
     it("gets jobs and runs repositories", () => {
       expect(mockStorage.getRepository).toHaveBeenCalledWith("cron", "jobs");
       expect(mockStorage.getRepository).toHaveBeenCalledWith("cron", "runs");
+      expect(mockStorage.getRepository).toHaveBeenCalledWith("cron", "calendars");
     });
   });
 
@@ -73,6 +110,48 @@ describe("cron-repository", () => {
     });
   });
 
+  describe("getDependentCrons", () => {
+    const collect = { name: "collect", schedule: "* * * * *", session: "s", message: "m" };
+    const digest = { name: "digest", schedule: "@after collect", session: "s", message: "m", after: ["collect"] };
+
+    it("returns the jobs that run after the given job", async () => {
+      mockFindMany.mockResolvedValue([collect, digest]);
+      mockFindById.mockResolvedValue(digest);
+      expect(await getDependentCrons("collect")).toEqual([digest]);
+      expect(await getDependentCrons("digest")).toEqual([]);
+      expect(await hasDependentCrons("collect")).toBe(true);
+      expect(await hasDependentCrons("digest")).toBe(false);
+    });
+
+    it("scans the jobs once and reads only the dependents afterwards", async () => {
+      mockFindMany.mockResolvedValue([collect, digest]);
+      mockFindById.mockResolvedValue(digest);
+      await getDependentCrons("collect");
+      await getDependentCrons("collect");
+      expect(await getDependentCrons("digest")).toEqual([]);
+      expect(mockFindMany).toHaveBeenCalledTimes(1);
+      expect(mockFindById).toHaveBeenCalledTimes(2);
+      expect(mockFindById).toHaveBeenCalledWith("digest");
+    });
+
+    it("re-reads a job's dependencies after it changes", async () => {
+      mockFindMany.mockResolvedValue([collect, digest]);
+      expect(await hasDependentCrons("collect")).toBe(true);
+
+      mockDelete.mockResolvedValue(true);
+      mockFindById.mockResolvedValue(null);
+      await removeCron("digest");
+      expect(await hasDependentCrons("collect")).toBe(false);
+
+      const report = { ...digest, name: "report", after: ["digest"] };
+      mockFindById.mockResolvedValueOnce(null).mockResolvedValueOnce(report);
+      await addCron(report);
+      expect(await hasDependentCrons("collect")).toBe(false);
+      expect(await hasDependentCrons("digest")).toBe(true);
+      expect(mockFindMany).toHaveBeenCalledTimes(1);
+    });
+  });
+
   describe("getCron", () => {
     it("returns a cron job by name", async () => {
       const job = { name: "test", schedule: "* * * * *", session: "s", message: "m" };
@@ -131,13 +210,142 @@ describe("cron-repository", () => {
         durationMs: 100,
         message: "done",
       };
-      await addCronRun(run);
+      const id = await addCronRun(run);
       expect(mockRunsInsert).toHaveBeenCalledWith(
         expect.objectContaining({
           ...run,
           id: expect.any(String),
         }),
       );
+      expect(mockRunsInsert).toHaveBeenCalledWith(expect.objectContaining({ id }));
+    });
+  });
+
+  describe("getCronRun", () => {
+    it("returns a run by ID, or null", async () => {
+      const run = { id: "run-1", cronName: "daily", session: "s", startedAt: 1, status: "success", durationMs: 1 };
+      mockRunsRepo.findById.mockResolvedValueOnce(run).mockResolvedValueOnce(null);
+      expect(await getCronRun("run-1")).toEqual(run);
+      expect(mockRunsRepo.findById).toHaveBeenCalledWith("run-1");
+      expect(await getCronRun("nope")).toBeNull();
+    });
+  });
+
+  describe("getLastSuccessfulRun", () => {
+    it("returns the start time of the newest successful run", async () => {
+      const where = vi.fn().mockReturnThis();
+      const orderBy = vi.fn().mockReturnThis();
+      mockRunsRepo.query.mockReturnValueOnce({
+        where,
+        orderBy,
+        offset: vi.fn().mockReturnThis(),
+        limit: vi.fn().mockReturnThis(),
+        execute: vi.fn(() => [{ startedAt: 1700000000000 }]),
+      });
+      expect(await getLastSuccessfulRun("poll")).toBe(1700000000000);
+      expect(where).toHaveBeenCalledWith({ cronName: "poll", status: "success" });
+      expect(orderBy).toHaveBeenCalledWith("startedAt", "desc");
+    });
+
+    it("returns null when the job never succeeded", async () => {
+      expect(await getLastSuccessfulRun("poll")).toBeNull();
+    });
+  });
+
+  describe("updateCron", () => {
+    it("updates the given fields of a job", async () => {
+      await updateCron("test", { runCount: 2 });
+      expect(mockUpdate).toHaveBeenCalledWith("test", { runCount: 2 });
+    });
+  });
+
+  describe("onCronChange", () => {
+    it("notifies listeners of added, updated and removed jobs until unsubscribed", async () => {
+      const listener = vi.fn();
+      const unsubscribe = onCronChange(listener);
+      mockFindById.mockResolvedValue(null);
+      await addCron({ name: "a", schedule: "* * * * *", session: "main", message: "hi" });
+      await updateCron("b", { runCount: 1 });
+      mockDelete.mockResolvedValueOnce(true).mockResolvedValueOnce(false);
+      await removeCron("c");
+      await removeCron("missing");
+      expect(listener.mock.calls).toEqual([["a"], ["b"], ["c"]]);
+
+      unsubscribe();
+      await updateCron("b", { runCount: 2 });
+      expect(listener).toHaveBeenCalledTimes(3);
+    });
+  });
+
+  describe("calendars", () => {
+    const calendar = { name: "holidays", importedAt: 1, events: [] };
+
+    it("inserts a new calendar", async () => {
+      mockCalendarsRepo.findById.mockResolvedValue(null);
+      await saveCalendar(calendar);
+      expect(mockCalendarsRepo.insert).toHaveBeenCalledWith(calendar);
+    });
+
+    it("replaces an existing calendar", async () => {
+      mockCalendarsRepo.findById.mockResolvedValue(calendar);
+      await saveCalendar(calendar);
+      expect(mockCalendarsRepo.update).toHaveBeenCalledWith("holidays", calendar);
+    });
+
+    it("gets and removes calendars by name", async () => {
+      mockCalendarsRepo.findById.mockResolvedValue(calendar);
+      mockCalendarsRepo.delete.mockResolvedValue(true);
+      expect(await getCalendar("holidays")).toEqual(calendar);
+      expect(await removeCalendar("holidays")).toBe(true);
+      expect(mockCalendarsRepo.delete).toHaveBeenCalledWith("holidays");
+    });
+  });
+
+  describe("leases", () => {
+    const held = { name: "scheduler", holder: "a", acquiredAt: 100, renewedAt: 100, expiresAt: 30_100 };
+
+    it("inserts a free lease", async () => {
+      mockLeasesRepo.findById.mockResolvedValueOnce(null);
+      expect(await acquireLease("scheduler", "a", 30_000, 100)).toBe(true);
+      expect(mockLeasesRepo.insert).toHaveBeenCalledWith(held);
+    });
+
+    it("loses the insert race to another instance", async () => {
+      mockLeasesRepo.findById.mockResolvedValueOnce(null).mockResolvedValueOnce({ ...held, holder: "b" });
+      mockLeasesRepo.insert.mockRejectedValueOnce(new Error("UNIQUE constraint failed"));
+      expect(await acquireLease("scheduler", "a", 30_000, 100)).toBe(false);
+    });
+
+    it("refuses a lease another instance holds", async () => {
+      mockLeasesRepo.findById.mockResolvedValueOnce(held);
+      expect(await acquireLease("scheduler", "b", 30_000, 10_000)).toBe(false);
+      expect(mockLeasesRepo.updateMany).not.toHaveBeenCalled();
+    });
+
+    it("renews its own lease, keeping the acquisition time", async () => {
+      mockLeasesRepo.findById.mockResolvedValueOnce(held);
+      mockLeasesRepo.updateMany.mockResolvedValueOnce(1);
+      expect(await acquireLease("scheduler", "a", 30_000, 10_000)).toBe(true);
+      expect(mockLeasesRepo.updateMany).toHaveBeenCalledWith(
+        { name: "scheduler", holder: "a", expiresAt: 30_100 },
+        { holder: "a", acquiredAt: 100, renewedAt: 10_000, expiresAt: 40_000 },
+      );
+    });
+
+    it("takes over an expired lease only if nobody else did first", async () => {
+      mockLeasesRepo.findById.mockResolvedValue(held);
+      mockLeasesRepo.updateMany.mockResolvedValueOnce(1).mockResolvedValueOnce(0);
+      expect(await acquireLease("scheduler", "b", 30_000, 40_000)).toBe(true);
+      expect(mockLeasesRepo.updateMany).toHaveBeenCalledWith(
+        { name: "scheduler", holder: "a", expiresAt: 30_100 },
+        { holder: "b", acquiredAt: 40_000, renewedAt: 40_000, expiresAt: 70_000 },
+      );
+      expect(await acquireLease("scheduler", "c", 30_000, 40_000)).toBe(false);
+    });
+
+    it("releases only its own lease", async () => {
+      await releaseLease("scheduler", "a");
+      expect(mockLeasesRepo.deleteMany).toHaveBeenCalledWith({ name: "scheduler", holder: "a" });
     });
   });
 });
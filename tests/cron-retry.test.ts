@@ -0,0 +1,60 @@
+import { describe, expect, it } from "vitest";
+import { describeRetry, replayJob, retryDelay, validateRetryPolicy } from "../src/cron-retry.js";
+
+describe("validateRetryPolicy", () => {
+  it("accepts a complete policy", () => {
+    expect(validateRetryPolicy({ maxAttempts: 3, delay: "30s", factor: 1.5, jitter: 0.2 })).toBeNull();
+  });
+
+  it("rejects invalid settings", () => {
+    expect(validateRetryPolicy({})).toBe("retry maxAttempts must be a positive integer");
+    expect(validateRetryPolicy({ maxAttempts: 0 })).toBe("retry maxAttempts must be a positive integer");
+    expect(validateRetryPolicy({ maxAttempts: 2, delay: "soon" })).toMatch(/^Invalid duration 'soon'/);
+    expect(validateRetryPolicy({ maxAttempts: 2, factor: 0.5 })).toBe("retry factor must be at least 1");
+    expect(validateRetryPolicy({ maxAttempts: 2, jitter: 2 })).toBe("retry jitter must be between 0 and 1");
+  });
+});
+
+describe("retryDelay", () => {
+  it("grows the delay by the factor after each attempt", () => {
+    const policy = { maxAttempts: 5, delay: "30s", factor: 3 };
+    expect(retryDelay(policy, 1)).toBe(30_000);
+    expect(retryDelay(policy, 2)).toBe(90_000);
+    expect(retryDelay(policy, 3)).toBe(270_000);
+  });
+
+  it("defaults to a one-minute delay doubling each time", () => {
+    expect(retryDelay({ maxAttempts: 3 }, 2)).toBe(120_000);
+  });
+
+  it("varies the delay by up to the jitter fraction", () => {
+    const policy = { maxAttempts: 3, delay: "100s", jitter: 0.1 };
+    expect(retryDelay(policy, 1, () => 0)).toBe(90_000);
+    expect(retryDelay(policy, 1, () => 0.5)).toBe(100_000);
+    expect(retryDelay(policy, 1, () => 0.999999)).toBeLessThanOrEqual(110_000);
+  });
+});
+
+describe("describeRetry", () => {
+  it("describes the retries after the first run", () => {
+    expect(describeRetry({ retry: { maxAttempts: 3, delay: "30s", jitter: 0.25 } })).toBe(
+      "retry up to 2 times after 30s, x2 each time (+/-25%)",
+    );
+    expect(describeRetry({ retry: { maxAttempts: 2 } })).toBe("retry up to 1 time after 1m");
+  });
+
+  it("returns null when failed runs are not retried", () => {
+    expect(describeRetry({})).toBeNull();
+    expect(describeRetry({ retry: { maxAttempts: 1 } })).toBeNull();
+  });
+});
+
+describe("replayJob", () => {
+  it("makes the job due now and clears its failure and attempt state", () => {
+    const update = replayJob(5000);
+    expect(update).toEqual({ runAt: 5000 });
+    for (const field of ["lastFireAt", "pendingRetry", "deadLetteredAt", "deadLetterError"]) {
+      expect(update).toHaveProperty(field, undefined);
+    }
+  });
+});
@@ -0,0 +1,150 @@
+import type { WOPRPluginContext } from "@wopr-network/plugin-types";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+vi.mock("../src/cron-repository.js", () => ({
+  addCron: vi.fn(),
+  getCron: vi.fn(),
+  updateCron: vi.fn(),
+  getCalendars: vi.fn(() => Promise.resolve([])),
+  getCronHistory: vi.fn(() => Promise.resolve({ runs: [], total: 0 })),
+  getCronRun: vi.fn(() => Promise.resolve(null)),
+  getLastSuccessfulRun: vi.fn(() => Promise.resolve(null)),
+}));
+
+import { CronClient } from "../src/cron-client.js";
+import { addCron, getCron, updateCron } from "../src/cron-repository.js";
+import { pauseJob, resumeJob } from "../src/cron-pause.js";
+import { replayJob } from "../src/cron-retry.js";
+import { buildCronRoutes, type CronRoute } from "../src/cron-routes.js";
+
+// A fetch that hands each request to the matching daemon route, the way a daemon serving them would
+function serve(routes: CronRoute[]) {
+  return vi.fn(async (url: string, init?: RequestInit) => {
+    const { pathname } = new URL(url);
+    const method = init?.method ?? "GET";
+    for (const route of routes) {
+      if (route.method !== method) continue;
+      const pattern = new RegExp(`^${route.path.replace(/:(\w+)/g, "(?<$1>[^/]+)")}$`);
+      const match = pattern.exec(pathname);
+      if (!match) continue;
+      const params = Object.fromEntries(
+        Object.entries(match.groups ?? {}).map(([key, value]) => [key, decodeURIComponent(value)]),
+      );
+      const body = typeof init?.body === "string" ? JSON.parse(init.body) : undefined;
+      const res = await route.handler({ params, body });
+      return { ok: res.status < 400, status: res.status, json: async () => res.body, text: async () => JSON.stringify(res.body) };
+    }
+    return { ok: false, status: 404, json: async () => ({}), text: async () => "Not found" };
+  });
+}
+
+describe("cron routes", () => {
+  const runJob = vi.fn();
+  const ctx = { getConfig: vi.fn(() => ({})) } as unknown as WOPRPluginContext;
+  let client: CronClient;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.stubGlobal("fetch", serve(buildCronRoutes({ ctx, runJob })));
+    client = new CronClient("http://localhost:4040");
+    return () => vi.unstubAllGlobals();
+  });
+
+  describe("PUT /crons/:name", () => {
+    it("stores a job added by the client without null fields", async () => {
+      await client.addCron({ name: "my job", schedule: "0 9 * * *", session: "main", message: "hi", once: undefined });
+      const stored = vi.mocked(addCron).mock.calls[0][0];
+      expect(stored).toMatchObject({ name: "my job", schedule: "0 9 * * *", session: "main", message: "hi" });
+      expect(Object.values(stored)).not.toContain(null);
+    });
+
+    it("clears the run state of the job it replaces", async () => {
+      await client.addCron({ name: "daily", schedule: "0 9 * * *", session: "main", message: "hi" });
+      const stored = vi.mocked(addCron).mock.calls[0][0];
+      for (const field of ["archivedAt", "deadLetteredAt", "lastFireAt", "pendingRetry", "runCount"]) {
+        expect(stored).toHaveProperty(field, undefined);
+      }
+    });
+
+    it("rejects invalid jobs", async () => {
+      await expect(client.addCron({ name: "daily", schedule: "0 9 * * *", session: "main" } as never)).rejects.toThrow(
+        /HTTP 400: .*message/,
+      );
+      expect(addCron).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("PATCH /crons/:name", () => {
+    const dead = { name: "once-1", schedule: "once", session: "main", message: "hi", runAt: 1, deadLetteredAt: 2 };
+
+    it("clears the fields a client update leaves undefined instead of storing null", async () => {
+      vi.mocked(getCron).mockResolvedValueOnce(dead);
+      await client.updateCron("once-1", replayJob(5));
+      expect(updateCron).toHaveBeenCalledWith("once-1", {
+        runAt: 5,
+        lastFireAt: undefined,
+        pendingRetry: undefined,
+        deadLetteredAt: undefined,
+        deadLetterError: undefined,
+      });
+      expect(Object.values(vi.mocked(updateCron).mock.calls[0][1])).not.toContain(null);
+    });
+
+    it("pauses and resumes with the other pause fields cleared", async () => {
+      vi.mocked(getCron).mockResolvedValue({ ...dead, enabled: false, pausedAt: 3 });
+      await client.updateCron("once-1", pauseJob({ enabled: false, pausedAt: 3 }, 10));
+      expect(updateCron).toHaveBeenLastCalledWith("once-1", { enabled: undefined, pausedUntil: 10, pausedAt: 3 });
+      await client.updateCron("once-1", resumeJob());
+      expect(updateCron).toHaveBeenLastCalledWith("once-1", { enabled: undefined, pausedUntil: undefined });
+      vi.mocked(getCron).mockReset();
+    });
+
+    it("rejects missing jobs and invalid fields", async () => {
+      vi.mocked(getCron).mockResolvedValueOnce(null);
+      await expect(client.updateCron("gone", { enabled: false })).rejects.toThrow("HTTP 404: ");
+      await expect(client.updateCron("once-1", { runAt: "soon" } as never)).rejects.toThrow(/HTTP 400: .*runAt: Expected number/);
+      expect(updateCron).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("POST /crons/:name/run", () => {
+    const daily = { name: "daily", schedule: "0 9 * * *", session: "main", message: "hi" };
+
+    it("runs the stored job through the daemon's tick loop and returns the outcome", async () => {
+      vi.mocked(getCron).mockResolvedValueOnce(daily);
+      runJob.mockResolvedValueOnce({ status: "success", runId: "run-1" });
+      expect(await client.runCron("daily")).toEqual({ status: "success", runId: "run-1" });
+      expect(runJob).toHaveBeenCalledWith(daily);
+
+      vi.mocked(getCron).mockResolvedValueOnce(daily);
+      runJob.mockResolvedValueOnce(null);
+      expect(await client.runCron("daily")).toBeNull();
+    });
+
+    it("reports missing jobs and daemons that cannot run jobs", async () => {
+      vi.mocked(getCron).mockResolvedValueOnce(null);
+      await expect(client.runCron("gone")).rejects.toThrow("HTTP 404: ");
+      vi.stubGlobal("fetch", serve(buildCronRoutes()));
+      await expect(client.runCron("daily")).rejects.toThrow("HTTP 503: ");
+      expect(runJob).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("POST /crons/:name/preview", () => {
+    const daily = { name: "daily", schedule: "0 9 * * *", session: "main", message: "Report for {{day}}", timezone: "UTC" };
+
+    it("previews the stored job on the daemon", async () => {
+      vi.mocked(getCron).mockResolvedValueOnce(daily);
+      const lines = await client.previewCron("daily");
+      expect(lines[0]).toBe("Preview of daily -> main");
+      expect(lines).toContain("Report for {{day}}");
+    });
+
+    it("reports recorded runs that cannot be used and missing jobs", async () => {
+      vi.mocked(getCron).mockResolvedValueOnce(daily);
+      await expect(client.previewCron("daily", "run-9")).rejects.toThrow("HTTP 400: Run 'run-9' not found");
+      vi.mocked(getCron).mockResolvedValueOnce(null);
+      await expect(client.previewCron("gone")).rejects.toThrow("HTTP 404: Cron job 'gone' not found");
+    });
+  });
+});
@@ -0,0 +1,210 @@
+import { describe, expect, it } from "vitest";
+import {
+  computeNextOccurrences,
+  explainRecurrence,
+  parseRecurrence,
+  recurrenceFiresAt,
+  withDefaultStart,
+} from "../src/cron-rrule.js";
+
+function next(text: string, from: string, count: number, tz?: string): string[] {
+  return computeNextOccurrences(parseRecurrence(text, tz), new Date(from), count).map((d) => d.toISOString());
+}
+
+describe("parseRecurrence", () => {
+  it("parses DTSTART with TZID and an RRULE", () => {
+    const rec = parseRecurrence("DTSTART;TZID=Europe/Berlin:20250107T090000\nRRULE:FREQ=WEEKLY;INTERVAL=2;BYDAY=TU");
+    expect(rec.timezone).toBe("Europe/Berlin");
+    expect(rec.start).toBe(Date.UTC(2025, 0, 7, 9, 0));
+    expect(rec.rule).toMatchObject({ freq: "WEEKLY", interval: 2, byDay: [{ weekday: 2 }] });
+  });
+
+  it("accepts space-separated lines and a bare FREQ value", () => {
+    const rec = parseRecurrence("DTSTART:20250101T000000Z FREQ=DAILY");
+    expect(rec.timezone).toBe("UTC");
+    expect(rec.ruleText).toBe("FREQ=DAILY");
+  });
+
+  it("reads floating times in the fallback zone", () => {
+    expect(parseRecurrence("DTSTART:20250101T090000\nRRULE:FREQ=DAILY", "America/New_York").timezone).toBe(
+      "America/New_York",
+    );
+  });
+
+  it("requires DTSTART", () => {
+    expect(() => parseRecurrence("RRULE:FREQ=DAILY")).toThrow(/needs a DTSTART/);
+  });
+
+  it("rejects unsupported parts and properties", () => {
+    expect(() => parseRecurrence("DTSTART:20250101T000000Z\nRRULE:FREQ=DAILY;BYWEEKNO=3")).toThrow(
+      /BYWEEKNO is not supported/,
+    );
+    expect(() => parseRecurrence("DTSTART:20250101T000000Z\nRRULE:FREQ=SECONDLY")).toThrow(/unsupported FREQ/);
+    expect(() => parseRecurrence("DTSTART:20250101T000000Z\nEXRULE:FREQ=DAILY")).toThrow(/Unsupported recurrence/);
+    expect(() => parseRecurrence("DTSTART:20250101T000000Z\nRRULE:FREQ=DAILY;COUNT=2;UNTIL=20250105")).toThrow(
+      /cannot be combined/,
+    );
+    expect(() => parseRecurrence("DTSTART:20250101T000000Z\nRRULE:FREQ=WEEKLY;BYDAY=1MO")).toThrow(/ordinals/);
+    expect(() => parseRecurrence("DTSTART;TZID=Mars/Base:20250101T000000\nRRULE:FREQ=DAILY")).toThrow(
+      /Unknown time zone/,
+    );
+  });
+
+  it("rejects invalid dates", () => {
+    expect(() => parseRecurrence("DTSTART:20250230T090000Z")).toThrow(/Invalid date-time/);
+  });
+});
+
+describe("computeNextOccurrences", () => {
+  it("expands a biweekly rule from its start", () => {
+    expect(
+      next("DTSTART;TZID=UTC:20250107T090000\nRRULE:FREQ=WEEKLY;INTERVAL=2;BYDAY=TU", "2025-01-10T00:00:00Z", 3),
+    ).toEqual(["2025-01-21T09:00:00.000Z", "2025-02-04T09:00:00.000Z", "2025-02-18T09:00:00.000Z"]);
+  });
+
+  it("picks the third business day of each quarter with BYSETPOS", () => {
+    const rule = "DTSTART:20250101T090000Z\nRRULE:FREQ=MONTHLY;INTERVAL=3;BYDAY=MO,TU,WE,TH,FR;BYSETPOS=3";
+    expect(next(rule, "2024-12-31T00:00:00Z", 3)).toEqual([
+      "2025-01-03T09:00:00.000Z",
+      "2025-04-03T09:00:00.000Z",
+      "2025-07-03T09:00:00.000Z",
+    ]);
+  });
+
+  it("supports negative ordinals and month days", () => {
+    expect(next("DTSTART:20250101T170000Z\nRRULE:FREQ=MONTHLY;BYDAY=-1FR", "2025-01-01T00:00:00Z", 2)).toEqual([
+      "2025-01-31T17:00:00.000Z",
+      "2025-02-28T17:00:00.000Z",
+    ]);
+    expect(next("DTSTART:20250101T000000Z\nRRULE:FREQ=MONTHLY;BYMONTHDAY=-1", "2025-02-01T00:00:00Z", 2)).toEqual([
+      "2025-02-28T00:00:00.000Z",
+      "2025-03-31T00:00:00.000Z",
+    ]);
+  });
+
+  it("skips months without the start day", () => {
+    expect(next("DTSTART:20250131T080000Z\nRRULE:FREQ=MONTHLY", "2025-01-31T09:00:00Z", 2)).toEqual([
+      "2025-03-31T08:00:00.000Z",
+      "2025-05-31T08:00:00.000Z",
+    ]);
+  });
+
+  it("expands yearly rules with BYMONTH and BYDAY", () => {
+    // US Thanksgiving: fourth Thursday of November
+    expect(
+      next("DTSTART:20240101T120000Z\nRRULE:FREQ=YEARLY;BYMONTH=11;BYDAY=4TH", "2025-01-01T00:00:00Z", 2),
+    ).toEqual(["2025-11-27T12:00:00.000Z", "2026-11-26T12:00:00.000Z"]);
+  });
+
+  it("honours COUNT from DTSTART and an inclusive UNTIL", () => {
+    expect(next("DTSTART:20250101T090000Z\nRRULE:FREQ=DAILY;COUNT=3", "2025-01-02T00:00:00Z", 5)).toEqual([
+      "2025-01-02T09:00:00.000Z",
+      "2025-01-03T09:00:00.000Z",
+    ]);
+    expect(
+      next("DTSTART:20250101T090000Z\nRRULE:FREQ=DAILY;UNTIL=20250103T090000Z", "2025-01-01T10:00:00Z", 5),
+    ).toEqual(["2025-01-02T09:00:00.000Z", "2025-01-03T09:00:00.000Z"]);
+  });
+
+  it("expands BYHOUR and BYMINUTE within each day", () => {
+    expect(
+      next("DTSTART:20250101T000000Z\nRRULE:FREQ=DAILY;BYHOUR=9,17;BYMINUTE=0,30", "2025-01-01T10:00:00Z", 3),
+    ).toEqual(["2025-01-01T17:00:00.000Z", "2025-01-01T17:30:00.000Z", "2025-01-02T09:00:00.000Z"]);
+  });
+
+  it("supports hourly and minutely rules", () => {
+    expect(next("DTSTART:20250101T000000Z\nRRULE:FREQ=HOURLY;INTERVAL=6", "2025-01-01T01:00:00Z", 2)).toEqual([
+      "2025-01-01T06:00:00.000Z",
+      "2025-01-01T12:00:00.000Z",
+    ]);
+    expect(
+      next("DTSTART:20250101T000000Z\nRRULE:FREQ=MINUTELY;INTERVAL=45;BYHOUR=1", "2025-01-01T00:00:00Z", 2),
+    ).toEqual(["2025-01-01T01:30:00.000Z", "2025-01-02T01:30:00.000Z"]);
+  });
+
+  it("removes EXDATEs and adds RDATEs", () => {
+    const rule = [
+      "DTSTART:20250101T090000Z",
+      "RRULE:FREQ=DAILY",
+      "EXDATE:20250102T090000Z,20250103T090000Z",
+      "RDATE:20250102T150000Z",
+    ].join("\n");
+    expect(next(rule, "2025-01-01T10:00:00Z", 2)).toEqual(["2025-01-02T15:00:00.000Z", "2025-01-04T09:00:00.000Z"]);
+  });
+
+  it("removes whole days with EXDATE;VALUE=DATE", () => {
+    const rule = "DTSTART:20250101T090000Z\nRRULE:FREQ=DAILY\nEXDATE;VALUE=DATE:20250102";
+    expect(next(rule, "2025-01-01T10:00:00Z", 1)).toEqual(["2025-01-03T09:00:00.000Z"]);
+  });
+
+  it("keeps wall times across DST in the DTSTART zone", () => {
+    expect(
+      next("DTSTART;TZID=Europe/Berlin:20250328T090000\nRRULE:FREQ=DAILY", "2025-03-28T09:00:00Z", 3),
+    ).toEqual(["2025-03-29T08:00:00.000Z", "2025-03-30T07:00:00.000Z", "2025-03-31T07:00:00.000Z"]);
+  });
+
+  it("fires in the spring-forward gap at the first instant after it", () => {
+    expect(
+      next("DTSTART;TZID=America/New_York:20250308T023000\nRRULE:FREQ=DAILY", "2025-03-08T12:00:00Z", 1),
+    ).toEqual(["2025-03-09T07:00:00.000Z"]);
+  });
+
+  it("returns the start date alone when there is no rule", () => {
+    expect(next("DTSTART:20250301T090000Z", "2025-01-01T00:00:00Z", 3)).toEqual(["2025-03-01T09:00:00.000Z"]);
+  });
+
+  it("gives up on rules that never match", () => {
+    expect(next("DTSTART:20250101T000000Z\nRRULE:FREQ=YEARLY;BYMONTH=2;BYMONTHDAY=30", "2025-01-01T00:00:00Z", 1)).toEqual(
+      [],
+    );
+  });
+});
+
+describe("recurrenceFiresAt", () => {
+  const rule = "DTSTART;TZID=Europe/Berlin:20250107T090000\nRRULE:FREQ=WEEKLY;BYDAY=TU";
+
+  it("matches any instant within an occurrence minute", () => {
+    expect(recurrenceFiresAt(rule, new Date("2025-01-14T08:00:30Z"))).toBe(true);
+    expect(recurrenceFiresAt(rule, new Date("2025-01-14T08:01:00Z"))).toBe(false);
+    expect(recurrenceFiresAt(rule, new Date("2025-01-15T08:00:00Z"))).toBe(false);
+  });
+
+  it("never fires for invalid text", () => {
+    expect(recurrenceFiresAt("RRULE:FREQ=DAILY", new Date())).toBe(false);
+  });
+});
+
+describe("withDefaultStart", () => {
+  it("prepends DTSTART for the current minute in the zone", () => {
+    expect(withDefaultStart("RRULE:FREQ=DAILY", "Europe/Berlin", Date.UTC(2025, 0, 15, 10, 30, 45))).toBe(
+      "DTSTART;TZID=Europe/Berlin:20250115T113000\nRRULE:FREQ=DAILY",
+    );
+  });
+
+  it("leaves text with a DTSTART unchanged", () => {
+    expect(withDefaultStart(" DTSTART:20250101T000000Z\nRRULE:FREQ=DAILY ", "UTC")).toBe(
+      "DTSTART:20250101T000000Z\nRRULE:FREQ=DAILY",
+    );
+  });
+});
+
+describe("explainRecurrence", () => {
+  it("describes weekly rules", () => {
+    expect(
+      explainRecurrence(parseRecurrence("DTSTART;TZID=Europe/Berlin:20250107T090000\nRRULE:FREQ=WEEKLY;INTERVAL=2;BYDAY=TU")),
+    ).toBe("Every 2 weeks on Tuesday at 09:00, starting 2025-01-07 (Europe/Berlin)");
+  });
+
+  it("describes set positions, counts and exclusions", () => {
+    const rule = "DTSTART:20250101T090000Z\nRRULE:FREQ=MONTHLY;BYDAY=MO,FR;BYSETPOS=-1;COUNT=5\nEXDATE:20250131T090000Z";
+    expect(explainRecurrence(parseRecurrence(rule))).toBe(
+      "Every month on Monday, Friday (last match of each month) at 09:00, 5 times, starting 2025-01-01, except 1 date (UTC)",
+    );
+  });
+
+  it("lists dates when there is no rule", () => {
+    expect(explainRecurrence(parseRecurrence("DTSTART:20250301T090000Z\nRDATE:20250401T090000Z"))).toBe(
+      "On 2025-03-01 09:00, 2025-04-01 09:00 (UTC)",
+    );
+  });
+});
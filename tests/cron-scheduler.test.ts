@@ -0,0 +1,292 @@
+import { vi, describe, it, expect, beforeEach, afterEach } from "vitest";
+
+let changeListener: ((name: string) => void) | null = null;
+let configListener: (() => void) | null = null;
+
+vi.mock("../src/cron-repository.js", () => ({
+  getCrons: vi.fn(() => Promise.resolve([])),
+  getCron: vi.fn(() => Promise.resolve(null)),
+  getLastSuccessfulRun: vi.fn(() => Promise.resolve(null)),
+  onCronChange: vi.fn((listener: (name: string) => void) => {
+    changeListener = listener;
+    return () => {
+      changeListener = null;
+    };
+  }),
+}));
+
+import { createCronScheduler } from "../src/cron-scheduler.js";
+import { getCron, getCrons } from "../src/cron-repository.js";
+import { cronJob } from "./fixtures.js";
+
+const START = Date.parse("2025-01-15T10:00:30Z");
+
+describe("cron-scheduler", () => {
+  let mockCtx: any;
+  let tick: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.useFakeTimers();
+    vi.setSystemTime(START);
+    changeListener = null;
+    tick = vi.fn(() => Promise.resolve());
+    configListener = null;
+    mockCtx = {
+      log: { info: vi.fn(), error: vi.fn(), warn: vi.fn(), debug: vi.fn() },
+      getConfig: vi.fn(() => ({})),
+      events: {
+        on: vi.fn((_event: string, listener: () => void) => {
+          configListener = listener;
+          return () => {
+            configListener = null;
+          };
+        }),
+      },
+    };
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("runs a boot tick over all jobs, then fires each job at its next fire time", async () => {
+    const hourly = cronJob();
+    vi.mocked(getCrons).mockResolvedValueOnce([hourly]);
+    const scheduler = createCronScheduler(mockCtx, tick);
+    scheduler.start();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(tick).toHaveBeenCalledWith([hourly], START);
+
+    await vi.advanceTimersByTimeAsync(Date.parse("2025-01-15T11:00:00Z") - START - 1);
+    expect(tick).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(tick).toHaveBeenLastCalledWith([hourly], Date.parse("2025-01-15T11:00:00Z"));
+    await scheduler.stop();
+  });
+
+  it("fires one-time jobs on the millisecond", async () => {
+    const runAt = START + 12_345;
+    const once = cronJob({ name: "once", schedule: "once", once: true, runAt });
+    vi.mocked(getCrons).mockResolvedValueOnce([once]);
+    const scheduler = createCronScheduler(mockCtx, tick);
+    scheduler.start();
+    await vi.advanceTimersByTimeAsync(12_344);
+    expect(tick).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(tick).toHaveBeenLastCalledWith([once], runAt);
+    await scheduler.stop();
+  });
+
+  it("sleeps in bounded steps without ticking until a distant job is due", async () => {
+    const runAt = START + 60 * 24 * 3600000; // beyond setTimeout's ~24.8 day limit
+    vi.mocked(getCrons).mockResolvedValueOnce([cronJob({ name: "later", schedule: "once", once: true, runAt })]);
+    const scheduler = createCronScheduler(mockCtx, tick);
+    scheduler.start();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(vi.getTimerCount()).toBe(1);
+    await vi.advanceTimersByTimeAsync(runAt - START - 1);
+    expect(tick).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(tick).toHaveBeenCalledTimes(2);
+    await scheduler.stop();
+  });
+
+  it("reschedules jobs added, updated or removed through the repository", async () => {
+    const scheduler = createCronScheduler(mockCtx, tick);
+    scheduler.start();
+    await vi.advanceTimersByTimeAsync(0);
+
+    const added = cronJob({ name: "added", schedule: "once", once: true, runAt: START + 5000 });
+    vi.mocked(getCron).mockResolvedValueOnce(added);
+    changeListener?.("added");
+    const moved = { ...added, runAt: START + 10_000 };
+    vi.mocked(getCron).mockResolvedValueOnce(moved);
+    changeListener?.("added");
+    await vi.advanceTimersByTimeAsync(5000);
+    expect(tick).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(5000);
+    expect(tick).toHaveBeenLastCalledWith([moved], START + 10_000);
+
+    vi.mocked(getCron).mockResolvedValueOnce(
+      cronJob({ name: "gone", schedule: "once", once: true, runAt: START + 20_000 }),
+    );
+    changeListener?.("gone");
+    vi.mocked(getCron).mockResolvedValueOnce(null);
+    changeListener?.("gone");
+    await vi.advanceTimersByTimeAsync(20_000);
+    expect(tick).toHaveBeenCalledTimes(2);
+    await scheduler.stop();
+  });
+
+  it("retries due jobs the tick declined after a delay instead of spinning", async () => {
+    const blocked = cronJob({ name: "blocked", schedule: "once", once: true, runAt: START + 1000 });
+    vi.mocked(getCrons).mockResolvedValueOnce([blocked]);
+    const scheduler = createCronScheduler(mockCtx, tick);
+    scheduler.start();
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(tick).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(59_999);
+    expect(tick).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(tick).toHaveBeenCalledTimes(3);
+    await scheduler.stop();
+  });
+
+  it("recomputes fire times when the clock moves backwards", async () => {
+    const hourly = cronJob();
+    vi.mocked(getCrons).mockResolvedValueOnce([hourly]);
+    const scheduler = createCronScheduler(mockCtx, tick);
+    scheduler.start();
+    await vi.advanceTimersByTimeAsync(0);
+
+    vi.setSystemTime(Date.parse("2025-01-15T08:30:00Z"));
+    await vi.advanceTimersByTimeAsync(60_000);
+    expect(mockCtx.log.warn).toHaveBeenCalledWith("System clock moved backwards; recomputing cron fire times");
+    await vi.advanceTimersByTimeAsync(Date.parse("2025-01-15T09:00:00Z") - Date.now());
+    expect(tick).toHaveBeenLastCalledWith([hourly], Date.parse("2025-01-15T09:00:00Z"));
+    await scheduler.stop();
+  });
+
+  it("runs overdue jobs once after the clock moves forwards", async () => {
+    const hourly = cronJob();
+    vi.mocked(getCrons).mockResolvedValueOnce([hourly]);
+    const scheduler = createCronScheduler(mockCtx, tick);
+    scheduler.start();
+    await vi.advanceTimersByTimeAsync(0);
+
+    vi.setSystemTime(Date.parse("2025-01-15T14:30:00Z"));
+    await vi.advanceTimersByTimeAsync(60_000);
+    expect(tick).toHaveBeenCalledTimes(2);
+    expect(tick).toHaveBeenLastCalledWith([hourly], Date.parse("2025-01-15T11:00:00Z"));
+    await vi.advanceTimersByTimeAsync(60_000);
+    expect(tick).toHaveBeenCalledTimes(2);
+    await scheduler.stop();
+  });
+
+  it("waits for an in-flight run on stop and fires nothing afterwards", async () => {
+    let finish: () => void = () => {};
+    tick.mockImplementationOnce(() => new Promise<void>((resolve) => (finish = resolve)));
+    vi.mocked(getCrons).mockResolvedValueOnce([cronJob()]);
+    const scheduler = createCronScheduler(mockCtx, tick);
+    scheduler.start();
+    await vi.advanceTimersByTimeAsync(0);
+
+    let stopped = false;
+    const stopping = scheduler.stop().then(() => {
+      stopped = true;
+    });
+    await vi.advanceTimersByTimeAsync(0);
+    expect(stopped).toBe(false);
+    finish();
+    await stopping;
+    expect(changeListener).toBeNull();
+    await vi.advanceTimersByTimeAsync(2 * 3600000);
+    expect(tick).toHaveBeenCalledTimes(1);
+  });
+
+  it("keeps firing while an earlier tick is still running", async () => {
+    const minutely = cronJob({ name: "minutely", schedule: "* * * * *" });
+    vi.mocked(getCrons).mockResolvedValueOnce([minutely]);
+    let finish: () => void = () => {};
+    tick.mockImplementationOnce(() => Promise.resolve());
+    tick.mockImplementationOnce(() => new Promise<void>((resolve) => (finish = resolve)));
+    const scheduler = createCronScheduler(mockCtx, tick);
+    scheduler.start();
+    await vi.advanceTimersByTimeAsync(30_000);
+    expect(tick).toHaveBeenLastCalledWith([minutely], Date.parse("2025-01-15T10:01:00Z"));
+
+    // The 10:01 run has not finished; the job is queued again by the change its run records
+    vi.mocked(getCron).mockResolvedValueOnce(minutely);
+    changeListener?.("minutely");
+    await vi.advanceTimersByTimeAsync(60_000);
+    expect(tick).toHaveBeenLastCalledWith([minutely], Date.parse("2025-01-15T10:02:00Z"));
+    finish();
+    await scheduler.stop();
+  });
+
+  it("wakes for a pending retry before the next fire time", async () => {
+    const retryAt = START + 30_000;
+    const flaky = cronJob({ pendingRetry: { at: retryAt, attempt: 2, runId: "run-1", scheduledAt: START - 30_000 } });
+    vi.mocked(getCrons).mockResolvedValueOnce([flaky]);
+    const scheduler = createCronScheduler(mockCtx, tick);
+    scheduler.start();
+    await vi.advanceTimersByTimeAsync(30_000);
+    expect(tick).toHaveBeenLastCalledWith([flaky], retryAt);
+    await scheduler.stop();
+  });
+
+  it("never wakes for dead-lettered jobs", async () => {
+    const once = cronJob({ name: "once", schedule: "once", once: true, runAt: START + 1000, deadLetteredAt: START });
+    vi.mocked(getCrons).mockResolvedValueOnce([once]);
+    const scheduler = createCronScheduler(mockCtx, tick);
+    scheduler.start();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(vi.getTimerCount()).toBe(0);
+    await scheduler.stop();
+  });
+
+  it("never wakes for disabled jobs", async () => {
+    vi.mocked(getCrons).mockResolvedValueOnce([cronJob({ enabled: false, pausedAt: START })]);
+    const scheduler = createCronScheduler(mockCtx, tick);
+    scheduler.start();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(vi.getTimerCount()).toBe(0);
+    await scheduler.stop();
+  });
+
+  it("wakes when a timed pause ends, and right away for a resumed job", async () => {
+    const pausedUntil = START + 10 * 60_000;
+    const paused = cronJob({ name: "paused", pausedUntil, pausedAt: START - 60_000 });
+    vi.mocked(getCrons).mockResolvedValueOnce([paused]);
+    const scheduler = createCronScheduler(mockCtx, tick);
+    scheduler.start();
+    await vi.advanceTimersByTimeAsync(pausedUntil - START);
+    expect(tick).toHaveBeenLastCalledWith([paused], pausedUntil);
+
+    const resumed = cronJob({ name: "resumed", pausedAt: START - 60_000 });
+    vi.mocked(getCron).mockResolvedValueOnce(resumed);
+    changeListener?.("resumed");
+    await vi.advanceTimersByTimeAsync(0);
+    expect(tick).toHaveBeenLastCalledWith([resumed], Date.now());
+    await scheduler.stop();
+  });
+
+  it("ticks as soon as the global pause is lifted", async () => {
+    mockCtx.getConfig.mockReturnValue({ paused: true });
+    const hourly = cronJob();
+    vi.mocked(getCrons).mockResolvedValueOnce([hourly]);
+    const scheduler = createCronScheduler(mockCtx, tick);
+    scheduler.start();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(mockCtx.events.on).toHaveBeenCalledWith("config:change", expect.any(Function));
+    expect(tick).toHaveBeenCalledTimes(1);
+
+    // Other config changes leave the scheduler alone
+    configListener?.();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(tick).toHaveBeenCalledTimes(1);
+
+    await vi.advanceTimersByTimeAsync(5 * 60_000);
+    mockCtx.getConfig.mockReturnValue({ paused: false });
+    configListener?.();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(tick).toHaveBeenCalledTimes(2);
+    expect(tick).toHaveBeenLastCalledWith([hourly], Date.now());
+
+    await scheduler.stop();
+    expect(configListener).toBeNull();
+  });
+
+  it("logs tick failures and keeps scheduling", async () => {
+    tick.mockRejectedValueOnce(new Error("storage offline"));
+    vi.mocked(getCrons).mockResolvedValueOnce([cronJob()]);
+    const scheduler = createCronScheduler(mockCtx, tick);
+    scheduler.start();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(mockCtx.log.error).toHaveBeenCalledWith("Cron scheduler error: storage offline");
+    await vi.advanceTimersByTimeAsync(Date.parse("2025-01-15T11:00:00Z") - START);
+    expect(tick).toHaveBeenCalledTimes(2);
+    await scheduler.stop();
+  });
+});
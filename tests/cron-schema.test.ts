@@ -1,6 +1,8 @@
 import { describe, it, expect } from "vitest";
 import {
+  cronCalendarSchema,
   cronJobSchema,
+  cronLeaseSchema,
   cronRunSchema,
   cronScriptSchema,
   cronScriptResultSchema,
@@ -97,12 +99,134 @@ describe("cron-schema", () => {
       expect(result.success).toBe(true);
     });
 
+    it("accepts dayMatch 'and' or 'or' and rejects other values", () => {
+      const base = { name: "digest", schedule: "0 9 1 * MON", session: "main", message: "digest" };
+      expect(cronJobSchema.safeParse({ ...base, dayMatch: "and" }).success).toBe(true);
+      expect(cronJobSchema.safeParse({ ...base, dayMatch: "or" }).success).toBe(true);
+      expect(cronJobSchema.safeParse({ ...base, dayMatch: "xor" }).success).toBe(false);
+    });
+
+    it("validates a recurrence job with exclusion calendars", () => {
+      const result = cronJobSchema.safeParse({
+        name: "standup",
+        schedule: "RRULE:FREQ=WEEKLY;BYDAY=MO",
+        session: "main",
+        message: "standup",
+        rrule: "DTSTART;TZID=Europe/Berlin:20250106T090000\nRRULE:FREQ=WEEKLY;BYDAY=MO",
+        calendars: ["holidays"],
+      });
+      expect(result.success).toBe(true);
+    });
+
+    it("accepts active windows and archive markers and rejects unknown archive reasons", () => {
+      const base = { name: "campaign", schedule: "0 9 * * *", session: "main", message: "promo" };
+      const job = { ...base, startAt: 1, endAt: 2, maxRuns: 5, runCount: 5, archivedAt: 3 };
+      expect(cronJobSchema.safeParse({ ...job, archiveReason: "maxRuns" }).success).toBe(true);
+      expect(cronJobSchema.safeParse({ ...job, archiveReason: "deleted" }).success).toBe(false);
+    });
+
+    it("accepts fire times and misfire settings and rejects unknown policies", () => {
+      const base = { name: "report", schedule: "0 9 * * *", session: "main", message: "m", lastFireAt: 1, nextFireAt: 2 };
+      const job = { ...base, misfireCap: 3, misfireGrace: "1h" };
+      expect(cronJobSchema.safeParse({ ...job, misfirePolicy: "fire-all" }).success).toBe(true);
+      expect(cronJobSchema.safeParse({ ...job, misfirePolicy: "later" }).success).toBe(false);
+    });
+
+    it("accepts overlap policies and rejects unknown ones", () => {
+      const base = { name: "sync", schedule: "* * * * *", session: "main", message: "m" };
+      expect(cronJobSchema.safeParse({ ...base, overlap: "queue" }).success).toBe(true);
+      expect(cronJobSchema.safeParse({ ...base, overlap: "wait" }).success).toBe(false);
+    });
+
+    it("accepts retry policies, pending retries and dead-letter markers", () => {
+      const base = { name: "sync", schedule: "* * * * *", session: "main", message: "m" };
+      const job = {
+        ...base,
+        retry: { maxAttempts: 3, delay: "30s", factor: 2, jitter: 0.1 },
+        pendingRetry: { at: 2, attempt: 2, runId: "run-1", scheduledAt: 1 },
+        deadLetteredAt: 3,
+        deadLetterError: "boom",
+      };
+      expect(cronJobSchema.safeParse(job).success).toBe(true);
+      expect(cronJobSchema.safeParse({ ...base, retry: { delay: "30s" } }).success).toBe(false);
+    });
+
     it("rejects missing required fields", () => {
       const result = cronJobSchema.safeParse({ name: "test" });
       expect(result.success).toBe(false);
     });
   });
 
+  describe("pause fields", () => {
+    it("accepts enabled, pausedUntil and pausedAt", () => {
+      const result = cronJobSchema.safeParse({
+        name: "daily",
+        schedule: "0 9 * * *",
+        session: "main",
+        message: "hi",
+        enabled: false,
+        pausedUntil: Date.now() + 3600000,
+        pausedAt: Date.now(),
+      });
+      expect(result.success).toBe(true);
+    });
+
+    it("rejects a non-boolean enabled flag", () => {
+      const result = cronJobSchema.safeParse({ name: "d", schedule: "@daily", session: "s", message: "m", enabled: "no" });
+      expect(result.success).toBe(false);
+    });
+  });
+
+  describe("trigger fields", () => {
+    it("accepts upstream jobs and a trigger condition", () => {
+      const result = cronJobSchema.safeParse({
+        name: "digest",
+        schedule: "@after collect",
+        session: "main",
+        message: "hi",
+        after: ["collect", "summarise"],
+        triggerOn: "failure",
+      });
+      expect(result.success).toBe(true);
+    });
+
+    it("rejects unknown trigger conditions", () => {
+      const result = cronJobSchema.safeParse({
+        name: "d",
+        schedule: "@after a",
+        session: "s",
+        message: "m",
+        after: ["a"],
+        triggerOn: "sometimes",
+      });
+      expect(result.success).toBe(false);
+    });
+  });
+
+  describe("condition field", () => {
+    it("accepts a script check or an expression", () => {
+      const base = { name: "disk", schedule: "0 * * * *", session: "ops", message: "{{df}}" };
+      expect(cronJobSchema.safeParse({ ...base, condition: { script: "df", exitCode: 1 } }).success).toBe(true);
+      expect(cronJobSchema.safeParse({ ...base, condition: { expression: "df > 90" } }).success).toBe(true);
+      expect(cronJobSchema.safeParse({ ...base, condition: { exitCode: "1" } }).success).toBe(false);
+    });
+  });
+
+  describe("change detection fields", () => {
+    it("accepts onlyOnChange and the last output it compares against", () => {
+      const result = cronJobSchema.safeParse({
+        name: "feed",
+        schedule: "*/5 * * * *",
+        session: "ops",
+        message: "{{rss.diff}}",
+        onlyOnChange: true,
+        lastOutput: { scripts: { rss: { hash: "abc", stdout: "a" }, status: { hash: "def" } } },
+      });
+      expect(result.success).toBe(true);
+      expect(cronJobSchema.safeParse({ ...result.data, lastOutput: { scripts: { rss: {} } } }).success).toBe(false);
+    });
+  });
+
   describe("cronRunSchema", () => {
     it("validates a successful run", () => {
       const result = cronRunSchema.safeParse({
@@ -131,6 +255,65 @@ describe("cron-schema", () => {
       expect(result.success).toBe(true);
     });
 
+    it("validates held-back and cancelled runs with a reason", () => {
+      for (const status of ["skipped", "queued", "cancelled"]) {
+        const result = cronRunSchema.safeParse({
+          id: "uuid-321",
+          cronName: "sync",
+          session: "main",
+          startedAt: Date.now(),
+          status,
+          durationMs: 0,
+          message: "m",
+          reason: "previous run still in progress",
+        });
+        expect(result.success).toBe(true);
+      }
+    });
+
+    it("validates a timed-out run", () => {
+      const result = cronRunSchema.safeParse({
+        id: "uuid-654",
+        cronName: "sync",
+        session: "main",
+        startedAt: Date.now(),
+        status: "timeout",
+        durationMs: 300000,
+        error: "Cron job 'sync' timed out after 300s",
+        message: "m",
+      });
+      expect(result.success).toBe(true);
+    });
+
+    it("validates a run that is part of a workflow", () => {
+      const result = cronRunSchema.safeParse({
+        id: "uuid-987",
+        cronName: "digest",
+        session: "main",
+        startedAt: Date.now(),
+        status: "success",
+        durationMs: 10,
+        message: "m",
+        workflowRunId: "wf-1",
+        triggeredBy: "collect",
+      });
+      expect(result.success).toBe(true);
+    });
+
+    it("validates a manual run", () => {
+      const result = cronRunSchema.safeParse({
+        id: "uuid-988",
+        cronName: "daily",
+        session: "main",
+        startedAt: Date.now(),
+        status: "success",
+        durationMs: 10,
+        message: "m",
+        manual: true,
+      });
+      expect(result.success).toBe(true);
+    });
+
     it("rejects invalid status", () => {
       const result = cronRunSchema.safeParse({
         id: "uuid-789",
@@ -145,13 +328,70 @@ describe("cron-schema", () => {
     });
   });
 
+  describe("cronCalendarSchema", () => {
+    it("validates a calendar with events", () => {
+      const result = cronCalendarSchema.safeParse({
+        name: "holidays",
+        source: "/tmp/holidays.ics",
+        importedAt: Date.now(),
+        events: [{ summary: "New Year", recurrence: "DTSTART;VALUE=DATE:20250101", allDay: true, durationMs: 86400000 }],
+      });
+      expect(result.success).toBe(true);
+    });
+
+    it("rejects events without recurrence lines", () => {
+      const result = cronCalendarSchema.safeParse({
+        name: "holidays",
+        importedAt: Date.now(),
+        events: [{ allDay: true, durationMs: 86400000 }],
+      });
+      expect(result.success).toBe(false);
+    });
+  });
+
+  describe("cronLeaseSchema", () => {
+    it("validates a lease row", () => {
+      const now = Date.now();
+      const result = cronLeaseSchema.safeParse({
+        name: "scheduler",
+        holder: "host:42:abcd1234",
+        acquiredAt: now,
+        renewedAt: now,
+        expiresAt: now + 30000,
+      });
+      expect(result.success).toBe(true);
+    });
+
+    it("rejects a lease without an expiry", () => {
+      expect(cronLeaseSchema.safeParse({ name: "scheduler", holder: "h", acquiredAt: 1, renewedAt: 1 }).success).toBe(
+        false,
+      );
+    });
+  });
+
   describe("cronPluginSchema", () => {
     it("has correct namespace", () => {
       expect(cronPluginSchema.namespace).toBe("cron");
     });
 
-    it("has version 1", () => {
-      expect(cronPluginSchema.version).toBe(1);
+    it("has version 2", () => {
+      expect(cronPluginSchema.version).toBe(2);
+    });
+
+    it("still loads rows written by version 1", () => {
+      const job = { name: "daily", schedule: "0 9 * * *", session: "main", message: "hi", scripts: [], once: false };
+      expect(cronJobSchema.parse(job)).toEqual(job);
+      const run = {
+        id: "r1",
+        cronName: "daily",
+        session: "main",
+        startedAt: 1,
+        status: "failure",
+        durationMs: 5,
+        error: "boom",
+        message: "hi",
+      };
+      expect(cronRunSchema.parse(run)).toEqual(run);
     });
 
     it("defines jobs table with name as primary key", () => {
@@ -164,6 +404,14 @@ describe("cron-schema", () => {
       expect(cronPluginSchema.tables.runs.primaryKey).toBe("id");
     });
 
+    it("defines calendars table with name as primary key", () => {
+      expect(cronPluginSchema.tables.calendars.primaryKey).toBe("name");
+    });
+
+    it("defines leases table with name as primary key", () => {
+      expect(cronPluginSchema.tables.leases.primaryKey).toBe("name");
+    });
+
     it("has indexes on jobs table", () => {
       const indexes = cronPluginSchema.tables.jobs.indexes;
       expect(indexes).toEqual(
@@ -183,6 +431,7 @@ describe("cron-schema", () => {
           expect.objectContaining({ fields: ["session"] }),
           expect.objectContaining({ fields: ["startedAt"] }),
           expect.objectContaining({ fields: ["status"] }),
+          expect.objectContaining({ fields: ["workflowRunId"] }),
         ]),
       );
     });
@@ -5,10 +5,34 @@ vi.mock("../src/cron-repository.js", () => ({
   getCrons: vi.fn(() => []),
   removeCron: vi.fn(),
   addCronRun: vi.fn(),
+  getLastSuccessfulRun: vi.fn(() => Promise.resolve(null)),
+  getCalendars: vi.fn(() => Promise.resolve([])),
+  updateCron: vi.fn(),
+  getDependentCrons: vi.fn(() => Promise.resolve([])),
+  hasDependentCrons: vi.fn(),
+}));
+
+vi.mock("../src/cron-rrule.js", () => ({
+  recurrenceFiresAt: vi.fn(() => false),
+}));
+
+vi.mock("../src/cron-calendar.js", () => ({
+  findExclusion: vi.fn(() => null),
+}));
+
+vi.mock("../src/cron-misfire.js", () => ({
+  planCatchUp: vi.fn(() => ({ missed: 0, run: [], latest: null })),
+}));
+
+vi.mock("../src/cron-retry.js", () => ({
+  retryDelay: vi.fn(() => 30_000),
 }));
 
 vi.mock("../src/cron.js", () => ({
+  getNextRun: vi.fn(() => null),
   shouldRunCron: vi.fn(() => false),
+  isRebootSchedule: vi.fn((schedule: string) => schedule === "@reboot"),
+  nextIntervalRun: vi.fn(() => 0),
   executeCronScripts: vi.fn(() => []),
   resolveScriptTemplates: vi.fn((msg: string) => msg),
   parseCronSchedule: vi.fn(),
@@ -18,14 +42,29 @@ vi.mock("../src/cron.js", () => ({
 }));
 
 import { createCronTickLoop } from "../src/cron-tick.js";
-import { getCrons, removeCron, addCronRun } from "../src/cron-repository.js";
-import { shouldRunCron } from "../src/cron.js";
+import {
+  getCrons,
+  removeCron,
+  addCronRun,
+  getLastSuccessfulRun,
+  getCalendars,
+  updateCron,
+  getDependentCrons,
+  hasDependentCrons,
+} from "../src/cron-repository.js";
+import { executeCronScripts, getNextRun, nextIntervalRun, resolveScriptTemplates, shouldRunCron } from "../src/cron.js";
+import { recurrenceFiresAt } from "../src/cron-rrule.js";
+import { findExclusion } from "../src/cron-calendar.js";
+import { planCatchUp } from "../src/cron-misfire.js";
+import { retryDelay } from "../src/cron-retry.js";
+import type { CronJobRow } from "../src/cron-schema.js";
 
 describe("cron-tick", () => {
   let mockCtx: any;
 
   beforeEach(() => {
     vi.clearAllMocks();
+    vi.mocked(hasDependentCrons).mockImplementation(async (name) => (await getDependentCrons(name)).length > 0);
     mockCtx = {
       log: { info: vi.fn(), error: vi.fn(), warn: vi.fn(), debug: vi.fn() },
       inject: vi.fn(() => Promise.resolve()),
@@ -119,6 +158,93 @@ describe("cron-tick", () => {
       );
     });
 
+    it("runs @reboot jobs on the first tick only", async () => {
+      vi.mocked(getCrons).mockResolvedValue([
+        { name: "startup", schedule: "@reboot", session: "main", message: "booted" },
+      ]);
+
+      const tick = createCronTickLoop(mockCtx);
+      await tick();
+      await tick();
+
+      expect(mockCtx.inject).toHaveBeenCalledTimes(1);
+      expect(mockCtx.inject).toHaveBeenCalledWith("main", "booted", expect.anything());
+    });
+
+    it("runs @reboot jobs again for a new tick loop", async () => {
+      vi.mocked(getCrons).mockResolvedValue([
+        { name: "startup", schedule: "@reboot", session: "main", message: "booted" },
+      ]);
+
+      await createCronTickLoop(mockCtx)();
+      await createCronTickLoop(mockCtx)();
+
+      expect(mockCtx.inject).toHaveBeenCalledTimes(2);
+    });
+
+    it("skips @reboot jobs for a loop started by a leader takeover", async () => {
+      vi.mocked(getCrons).mockResolvedValue([
+        { name: "startup", schedule: "@reboot", session: "main", message: "booted" },
+      ]);
+
+      await createCronTickLoop(mockCtx, { reboot: false })();
+
+      expect(mockCtx.inject).not.toHaveBeenCalled();
+    });
+
+    it("runs nothing while this instance is not the leader", async () => {
+      vi.mocked(getCrons).mockResolvedValue([
+        { name: "startup", schedule: "@reboot", session: "main", message: "booted" },
+      ]);
+
+      await createCronTickLoop(mockCtx, { isLeader: () => false })();
+
+      expect(getCrons).not.toHaveBeenCalled();
+      expect(mockCtx.inject).not.toHaveBeenCalled();
+      expect(addCronRun).not.toHaveBeenCalled();
+    });
+
+    it("fires interval jobs counted from the last successful run in history", async () => {
+      const job = { name: "poll", schedule: "@every 90m", every: "90m", session: "main", message: "poll" };
+      vi.mocked(getCrons).mockResolvedValue([job]);
+      vi.mocked(getLastSuccessfulRun).mockResolvedValueOnce(1000);
+      vi.mocked(nextIntervalRun).mockReturnValueOnce(1000 + 90 * 60000);
+
+      await createCronTickLoop(mockCtx)();
+
+      expect(getLastSuccessfulRun).toHaveBeenCalledWith("poll");
+      expect(nextIntervalRun).toHaveBeenCalledWith(job, 1000, expect.any(Number));
+      expect(mockCtx.inject).toHaveBeenCalledWith("main", "poll", expect.anything());
+      expect(shouldRunCron).not.toHaveBeenCalled();
+    });
+
+    it("does not fire interval jobs before they are due", async () => {
+      vi.mocked(getCrons).mockResolvedValue([
+        { name: "poll", schedule: "@every 90m", every: "90m", session: "main", message: "poll" },
+      ]);
+      vi.mocked(nextIntervalRun).mockReturnValueOnce(Date.now() + 60000);
+
+      await createCronTickLoop(mockCtx)();
+
+      expect(mockCtx.inject).not.toHaveBeenCalled();
+    });
+
+    it("counts interval jobs from their last fire in this process", async () => {
+      vi.mocked(getCrons).mockResolvedValue([
+        { name: "poll", schedule: "@every 90m", every: "90m", session: "main", message: "poll" },
+      ]);
+
+      const tick = createCronTickLoop(mockCtx);
+      await tick();
+      vi.mocked(nextIntervalRun).mockReturnValueOnce(Date.now() + 60000);
+      await tick();
+
+      expect(getLastSuccessfulRun).toHaveBeenCalledTimes(1);
+      const lastFire = vi.mocked(nextIntervalRun).mock.calls[1][1] as number;
+      expect(lastFire).toBe(Math.floor(Date.now() / 60000) * 60000);
+      expect(mockCtx.inject).toHaveBeenCalledTimes(1);
+    });
+
     it("does not re-run a cron in the same minute", async () => {
       vi.mocked(getCrons).mockResolvedValue([
         { name: "test", schedule: "* * * * *", session: "main", message: "hello" },
@@ -133,5 +259,914 @@ describe("cron-tick", () => {
       await tick();
       expect(mockCtx.inject).toHaveBeenCalledTimes(1);
     });
+
+    it("fires recurrence jobs when the rule has an occurrence this minute", async () => {
+      const rrule = "DTSTART:20250101T090000Z\nRRULE:FREQ=DAILY";
+      vi.mocked(getCrons).mockResolvedValue([
+        { name: "rule", schedule: "RRULE:FREQ=DAILY", session: "main", message: "hi", rrule, timezone: "UTC" },
+      ]);
+      vi.mocked(recurrenceFiresAt).mockReturnValue(true);
+
+      const tick = createCronTickLoop(mockCtx);
+      await tick();
+      await tick();
+
+      expect(recurrenceFiresAt).toHaveBeenCalledWith(rrule, expect.any(Date), "UTC");
+      expect(shouldRunCron).not.toHaveBeenCalled();
+      expect(mockCtx.inject).toHaveBeenCalledTimes(1);
+    });
+
+    it("skips occurrences excluded by a referenced calendar", async () => {
+      const holidays = { name: "holidays", importedAt: 0, events: [] };
+      vi.mocked(getCrons).mockResolvedValue([
+        { name: "report", schedule: "0 9 * * *", session: "main", message: "hi", calendars: ["holidays"] },
+        { name: "other", schedule: "0 9 * * *", session: "main", message: "hi", calendars: ["holidays"] },
+      ]);
+      vi.mocked(getCalendars).mockResolvedValue([holidays]);
+      vi.mocked(shouldRunCron).mockReturnValue(true);
+      vi.mocked(findExclusion).mockReturnValue({ calendar: "holidays", event: "Christmas" });
+
+      const tick = createCronTickLoop(mockCtx);
+      await tick();
+
+      expect(findExclusion).toHaveBeenCalledWith([holidays], expect.any(Number), undefined);
+      expect(getCalendars).toHaveBeenCalledTimes(1);
+      expect(mockCtx.inject).not.toHaveBeenCalled();
+      expect(mockCtx.log.info).toHaveBeenCalledWith(
+        "Skipping cron: report - excluded by calendar 'holidays' (Christmas)",
+      );
+
+      // The excluded occurrence is dropped rather than fired once the exclusion ends
+      vi.mocked(findExclusion).mockReturnValue(null);
+      await tick();
+      expect(mockCtx.inject).not.toHaveBeenCalled();
+    });
+
+    it("defers one-time jobs until the exclusion ends", async () => {
+      vi.mocked(getCrons).mockResolvedValue([
+        { name: "once-1", schedule: "once", session: "main", message: "later", once: true, runAt: Date.now() - 1000, calendars: ["holidays"] },
+      ]);
+      vi.mocked(getCalendars).mockResolvedValue([{ name: "holidays", importedAt: 0, events: [] }]);
+      vi.mocked(findExclusion).mockReturnValueOnce({ calendar: "holidays" });
+
+      const tick = createCronTickLoop(mockCtx);
+      await tick();
+      expect(mockCtx.inject).not.toHaveBeenCalled();
+
+      await tick();
+      expect(mockCtx.inject).toHaveBeenCalledTimes(1);
+    });
+
+    it("warns about unknown calendars and still fires", async () => {
+      vi.mocked(getCrons).mockResolvedValue([
+        { name: "report", schedule: "0 9 * * *", session: "main", message: "hi", calendars: ["gone"] },
+      ]);
+      vi.mocked(getCalendars).mockResolvedValue([]);
+      vi.mocked(shouldRunCron).mockReturnValue(true);
+      vi.mocked(findExclusion).mockReturnValue(null);
+
+      const tick = createCronTickLoop(mockCtx);
+      await tick();
+
+      expect(mockCtx.log.warn).toHaveBeenCalledWith("Cron report references unknown calendar(s): gone");
+      expect(mockCtx.inject).toHaveBeenCalledTimes(1);
+    });
+
+    it("does not fire jobs before their startAt", async () => {
+      vi.mocked(getCrons).mockResolvedValue([
+        { name: "later", schedule: "* * * * *", session: "main", message: "hi", startAt: Date.now() + 3600000 },
+      ]);
+      vi.mocked(shouldRunCron).mockReturnValue(true);
+
+      const tick = createCronTickLoop(mockCtx);
+      await tick();
+
+      expect(mockCtx.inject).not.toHaveBeenCalled();
+      expect(updateCron).not.toHaveBeenCalled();
+    });
+
+    it("archives jobs once their endAt has passed", async () => {
+      vi.mocked(getCrons).mockResolvedValue([
+        { name: "campaign", schedule: "* * * * *", session: "main", message: "hi", endAt: Date.now() - 1000 },
+      ]);
+      vi.mocked(shouldRunCron).mockReturnValue(true);
+
+      const tick = createCronTickLoop(mockCtx);
+      await tick();
+
+      expect(mockCtx.inject).not.toHaveBeenCalled();
+      expect(removeCron).not.toHaveBeenCalled();
+      expect(updateCron).toHaveBeenCalledWith("campaign", { archivedAt: expect.any(Number), archiveReason: "ended" });
+    });
+
+    it("never fires archived jobs", async () => {
+      vi.mocked(getCrons).mockResolvedValue([
+        { name: "done", schedule: "* * * * *", session: "main", message: "hi", archivedAt: 1, archiveReason: "ended" },
+      ]);
+      vi.mocked(shouldRunCron).mockReturnValue(true);
+
+      const tick = createCronTickLoop(mockCtx);
+      await tick();
+
+      expect(mockCtx.inject).not.toHaveBeenCalled();
+      expect(updateCron).not.toHaveBeenCalled();
+    });
+
+    it("counts runs of jobs with maxRuns and archives them at the limit", async () => {
+      vi.mocked(shouldRunCron).mockReturnValue(true);
+      vi.mocked(getCrons).mockResolvedValue([
+        { name: "limited", schedule: "* * * * *", session: "main", message: "hi", maxRuns: 3, runCount: 1 },
+      ]);
+      await createCronTickLoop(mockCtx)();
+      expect(updateCron).toHaveBeenCalledWith("limited", expect.objectContaining({ runCount: 2 }));
+
+      vi.mocked(getCrons).mockResolvedValue([
+        { name: "limited", schedule: "* * * * *", session: "main", message: "hi", maxRuns: 3, runCount: 2 },
+      ]);
+      await createCronTickLoop(mockCtx)();
+      expect(updateCron).toHaveBeenCalledWith(
+        "limited",
+        expect.objectContaining({ runCount: 3, archivedAt: expect.any(Number), archiveReason: "maxRuns" }),
+      );
+      expect(mockCtx.log.info).toHaveBeenCalledWith("Archived cron: limited (completed 3 runs)");
+      expect(mockCtx.inject).toHaveBeenCalledTimes(2);
+    });
+
+    it("persists the fire time and next fire time after a run", async () => {
+      vi.mocked(shouldRunCron).mockReturnValue(true);
+      vi.mocked(getNextRun).mockReturnValue(new Date("2099-01-01T00:00:00Z"));
+      vi.mocked(getCrons).mockResolvedValue([{ name: "job", schedule: "* * * * *", session: "main", message: "hi" }]);
+      await createCronTickLoop(mockCtx)();
+      const minute = Math.floor(Date.now() / 60000) * 60000;
+      expect(updateCron).toHaveBeenCalledWith("job", {
+        lastFireAt: minute,
+        nextFireAt: new Date("2099-01-01T00:00:00Z").getTime(),
+      });
+      expect(addCronRun).toHaveBeenCalledWith(expect.objectContaining({ scheduledAt: minute }));
+    });
+
+    it("does not fire twice in the same minute across restarts", async () => {
+      vi.mocked(shouldRunCron).mockReturnValue(true);
+      const lastFireAt = Math.floor(Date.now() / 60000) * 60000;
+      vi.mocked(getCrons).mockResolvedValue([
+        { name: "job", schedule: "* * * * *", session: "main", message: "hi", lastFireAt },
+      ]);
+      await createCronTickLoop(mockCtx)();
+      expect(mockCtx.inject).not.toHaveBeenCalled();
+    });
+
+    it("does not refire a one-time job that already fired before a restart", async () => {
+      vi.mocked(getCrons).mockResolvedValue([
+        { name: "once", schedule: "once", session: "main", message: "hi", runAt: 1000, once: true, lastFireAt: 1000 },
+      ]);
+      await createCronTickLoop(mockCtx)();
+      expect(mockCtx.inject).not.toHaveBeenCalled();
+    });
+
+    it("prefers the persisted fire time over history for interval jobs", async () => {
+      vi.mocked(nextIntervalRun).mockReturnValue(Number.MAX_SAFE_INTEGER);
+      vi.mocked(getCrons).mockResolvedValue([
+        { name: "iv", schedule: "@every 1h", every: "1h", session: "main", message: "hi", lastFireAt: 5000 },
+      ]);
+      await createCronTickLoop(mockCtx)();
+      expect(getLastSuccessfulRun).not.toHaveBeenCalled();
+      expect(nextIntervalRun).toHaveBeenCalledWith(expect.objectContaining({ name: "iv" }), 5000, expect.any(Number));
+    });
+
+    it("replays missed runs on the first tick according to the plan", async () => {
+      const job = {
+        name: "catchup",
+        schedule: "0 * * * *",
+        session: "main",
+        message: "hi",
+        lastFireAt: 1000,
+        misfirePolicy: "fire-all" as const,
+      };
+      vi.mocked(getCrons).mockResolvedValue([job]);
+      vi.mocked(shouldRunCron).mockReturnValue(false);
+      vi.mocked(planCatchUp).mockReturnValueOnce({ missed: 3, run: [2000, 3000], latest: 3000 });
+      const tick = createCronTickLoop(mockCtx);
+      await tick();
+
+      expect(planCatchUp).toHaveBeenCalledWith(
+        expect.objectContaining({ name: "catchup" }),
+        1000,
+        Math.floor(Date.now() / 60000) * 60000,
+        [],
+      );
+      expect(mockCtx.inject).toHaveBeenCalledTimes(2);
+      expect(addCronRun).toHaveBeenCalledWith(expect.objectContaining({ scheduledAt: 2000 }));
+      expect(addCronRun).toHaveBeenCalledWith(expect.objectContaining({ scheduledAt: 3000 }));
+      expect(mockCtx.log.info).toHaveBeenCalledWith("Skipped 1 missed run(s) of cron: catchup");
+
+      await tick();
+      expect(planCatchUp).toHaveBeenCalledTimes(1);
+    });
+
+    it("advances the fire time past skipped misses without running them", async () => {
+      vi.mocked(getCrons).mockResolvedValue([
+        { name: "skipper", schedule: "0 * * * *", session: "main", message: "hi", lastFireAt: 1000 },
+      ]);
+      vi.mocked(shouldRunCron).mockReturnValue(false);
+      vi.mocked(planCatchUp).mockReturnValueOnce({ missed: 5, run: [], latest: 9000 });
+      await createCronTickLoop(mockCtx)();
+      expect(mockCtx.inject).not.toHaveBeenCalled();
+      expect(updateCron).toHaveBeenCalledWith("skipper", expect.objectContaining({ lastFireAt: 9000 }));
+      expect(mockCtx.log.info).toHaveBeenCalledWith("Skipped 5 missed run(s) of cron: skipper");
+    });
+
+    it("evaluates the given jobs as of the given time without loading all jobs", async () => {
+      vi.mocked(shouldRunCron).mockReturnValue(true);
+      const at = Date.parse("2025-01-15T11:00:00Z");
+      const job = { name: "given", schedule: "0 * * * *", session: "main", message: "hi" };
+      await createCronTickLoop(mockCtx)([job], at);
+      expect(getCrons).not.toHaveBeenCalled();
+      expect(shouldRunCron).toHaveBeenCalledWith("0 * * * *", new Date(at), expect.anything());
+      expect(addCronRun).toHaveBeenCalledWith(expect.objectContaining({ cronName: "given", scheduledAt: at }));
+    });
+
+    it("runs due jobs concurrently so a slow session does not hold up the others", async () => {
+      vi.mocked(shouldRunCron).mockReturnValue(true);
+      vi.mocked(getCrons).mockResolvedValue([
+        { name: "slow", schedule: "* * * * *", session: "busy", message: "slow" },
+        { name: "fast", schedule: "* * * * *", session: "main", message: "fast" },
+      ]);
+      let finishSlow: () => void = () => {};
+      mockCtx.inject.mockImplementation((session: string) =>
+        session === "busy" ? new Promise<void>((resolve) => (finishSlow = resolve)) : Promise.resolve(),
+      );
+      const ticking = createCronTickLoop(mockCtx)();
+      await vi.waitFor(() => expect(addCronRun).toHaveBeenCalledWith(expect.objectContaining({ cronName: "fast" })));
+      expect(addCronRun).not.toHaveBeenCalledWith(expect.objectContaining({ cronName: "slow" }));
+
+      finishSlow();
+      await ticking;
+      expect(addCronRun).toHaveBeenCalledWith(expect.objectContaining({ cronName: "slow", status: "success" }));
+    });
+
+    it("applies the configured per-session limit", async () => {
+      vi.mocked(shouldRunCron).mockReturnValue(true);
+      mockCtx.getConfig.mockReturnValue({ maxConcurrentRunsPerSession: 1 });
+      vi.mocked(getCrons).mockResolvedValue([
+        { name: "first", schedule: "* * * * *", session: "main", message: "first" },
+        { name: "second", schedule: "* * * * *", session: "main", message: "second" },
+      ]);
+      const finishers: Array<() => void> = [];
+      mockCtx.inject.mockImplementation(() => new Promise<void>((resolve) => finishers.push(resolve)));
+      const ticking = createCronTickLoop(mockCtx)();
+      await vi.waitFor(() => expect(mockCtx.inject).toHaveBeenCalledTimes(1));
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      expect(mockCtx.inject).toHaveBeenCalledTimes(1);
+
+      finishers[0]();
+      await vi.waitFor(() => expect(mockCtx.inject).toHaveBeenCalledTimes(2));
+      finishers[1]();
+      await ticking;
+      expect(addCronRun).toHaveBeenCalledTimes(2);
+    });
+
+    it("does not reconcile jobs that never fired", async () => {
+      vi.mocked(getCrons).mockResolvedValue([{ name: "fresh", schedule: "0 * * * *", session: "main", message: "hi" }]);
+      await createCronTickLoop(mockCtx)();
+      expect(planCatchUp).not.toHaveBeenCalled();
+    });
+
+    describe("overlap", () => {
+      const T1 = Date.parse("2025-01-15T10:00:00Z");
+      const T2 = T1 + 60_000;
+      const T3 = T2 + 60_000;
+      let finishers: Array<() => void>;
+
+      beforeEach(() => {
+        vi.mocked(shouldRunCron).mockReturnValue(true);
+        finishers = [];
+        mockCtx.cancelInject = vi.fn(() => true);
+        mockCtx.inject.mockImplementation(() => new Promise<void>((resolve) => finishers.push(resolve)));
+      });
+
+      const job = (overlap?: "allow" | "skip" | "queue" | "replace") => ({
+        name: "slow",
+        schedule: "* * * * *",
+        session: "main",
+        message: "hi",
+        overlap,
+      });
+
+      it("runs overlapping occurrences side by side by default", async () => {
+        const tick = createCronTickLoop(mockCtx);
+        const cron = job();
+        const first = tick([cron], T1);
+        const second = tick([cron], T2);
+        await vi.waitFor(() => expect(mockCtx.inject).toHaveBeenCalledTimes(2));
+        for (const finish of finishers) finish();
+        await Promise.all([first, second]);
+        expect(addCronRun).toHaveBeenCalledTimes(2);
+      });
+
+      it("skips an occurrence while the previous run is still going", async () => {
+        const tick = createCronTickLoop(mockCtx);
+        const cron = job("skip");
+        const first = tick([cron], T1);
+        await vi.waitFor(() => expect(mockCtx.inject).toHaveBeenCalledTimes(1));
+        await tick([cron], T2);
+        expect(mockCtx.inject).toHaveBeenCalledTimes(1);
+        expect(addCronRun).toHaveBeenCalledWith(
+          expect.objectContaining({
+            cronName: "slow",
+            status: "skipped",
+            scheduledAt: T2,
+            reason: "previous run still in progress",
+          }),
+        );
+        finishers[0]();
+        await first;
+        expect(addCronRun).toHaveBeenLastCalledWith(expect.objectContaining({ status: "success", scheduledAt: T1 }));
+      });
+
+      it("queues at most one occurrence and runs it when the previous run finishes", async () => {
+        const tick = createCronTickLoop(mockCtx);
+        const cron = job("queue");
+        const first = tick([cron], T1);
+        await vi.waitFor(() => expect(mockCtx.inject).toHaveBeenCalledTimes(1));
+        const second = tick([cron], T2);
+        await vi.waitFor(() =>
+          expect(addCronRun).toHaveBeenCalledWith(expect.objectContaining({ status: "queued", scheduledAt: T2 })),
+        );
+        await tick([cron], T3);
+        expect(addCronRun).toHaveBeenCalledWith(
+          expect.objectContaining({ status: "skipped", scheduledAt: T3, reason: "another run is already queued" }),
+        );
+        expect(mockCtx.inject).toHaveBeenCalledTimes(1);
+
+        finishers[0]();
+        await vi.waitFor(() => expect(mockCtx.inject).toHaveBeenCalledTimes(2));
+        finishers[1]();
+        await Promise.all([first, second]);
+        expect(addCronRun).toHaveBeenLastCalledWith(expect.objectContaining({ status: "success", scheduledAt: T2 }));
+      });
+
+      it("cancels the running occurrence when a newer one replaces it", async () => {
+        const tick = createCronTickLoop(mockCtx);
+        const cron = job("replace");
+        const first = tick([cron], T1);
+        await vi.waitFor(() => expect(mockCtx.inject).toHaveBeenCalledTimes(1));
+        const second = tick([cron], T2);
+        await first;
+        expect(mockCtx.cancelInject).not.toHaveBeenCalled();
+        expect(addCronRun).toHaveBeenCalledWith(
+          expect.objectContaining({ status: "cancelled", scheduledAt: T1, reason: "replaced by a newer run" }),
+        );
+        await vi.waitFor(() => expect(mockCtx.inject).toHaveBeenCalledTimes(2));
+        finishers[1]();
+        await second;
+        expect(addCronRun).toHaveBeenLastCalledWith(expect.objectContaining({ status: "success", scheduledAt: T2 }));
+      });
+    });
+
+    describe("retries", () => {
+      const T1 = Date.parse("2025-01-15T10:00:00Z");
+
+      beforeEach(() => {
+        vi.mocked(shouldRunCron).mockReturnValue(false);
+        vi.mocked(addCronRun).mockResolvedValue("run-1");
+      });
+
+      it("books a retry with backoff when a run fails", async () => {
+        vi.mocked(shouldRunCron).mockReturnValue(true);
+        mockCtx.inject.mockRejectedValue(new Error("session busy"));
+        const cron = {
+          name: "flaky",
+          schedule: "* * * * *",
+          session: "main",
+          message: "hi",
+          retry: { maxAttempts: 3, delay: "30s" },
+        };
+        const before = Date.now();
+        await createCronTickLoop(mockCtx)([cron], T1);
+        expect(retryDelay).toHaveBeenCalledWith(cron.retry, 1);
+        const pendingRetry = { at: expect.any(Number), attempt: 2, runId: "run-1", scheduledAt: T1 };
+        expect(updateCron).toHaveBeenCalledWith("flaky", { pendingRetry });
+        expect(vi.mocked(updateCron).mock.calls.at(-1)?.[1].pendingRetry?.at).toBeGreaterThanOrEqual(before + 30_000);
+        expect(mockCtx.log.info).toHaveBeenCalledWith("Retrying cron: flaky in 30s (attempt 2 of 3)");
+      });
+
+      it("runs a due retry linked to the original run and takes it off the job", async () => {
+        const pendingRetry = { at: T1 + 30_000, attempt: 2, runId: "run-1", scheduledAt: T1 };
+        const cron = { name: "flaky", schedule: "0 9 * * *", session: "main", message: "hi", pendingRetry };
+        const tick = createCronTickLoop(mockCtx);
+        await tick([cron], T1 + 29_000);
+        expect(mockCtx.inject).not.toHaveBeenCalled();
+
+        await tick([cron], T1 + 30_000);
+        expect(updateCron).toHaveBeenCalledWith("flaky", { pendingRetry: undefined });
+        expect(mockCtx.inject).toHaveBeenCalledTimes(1);
+        expect(addCronRun).toHaveBeenCalledWith(
+          expect.objectContaining({ status: "success", scheduledAt: T1, attempt: 2, retryOf: "run-1" }),
+        );
+        expect(cron.pendingRetry).toBeUndefined();
+      });
+
+      it("keeps linking later attempts to the original run", async () => {
+        mockCtx.inject.mockRejectedValue(new Error("still down"));
+        vi.mocked(addCronRun).mockResolvedValue("run-2");
+        const pendingRetry = { at: T1, attempt: 2, runId: "run-1", scheduledAt: T1 };
+        const cron = {
+          name: "flaky",
+          schedule: "0 9 * * *",
+          session: "main",
+          message: "hi",
+          retry: { maxAttempts: 3 },
+          pendingRetry,
+        };
+        await createCronTickLoop(mockCtx)([cron], T1);
+        expect(retryDelay).toHaveBeenCalledWith(cron.retry, 2);
+        expect(updateCron).toHaveBeenLastCalledWith("flaky", {
+          pendingRetry: expect.objectContaining({ attempt: 3, runId: "run-1" }),
+        });
+      });
+
+      it("dead-letters a one-time job once its attempts are used up", async () => {
+        mockCtx.inject.mockRejectedValue(new Error("still down"));
+        const pendingRetry = { at: T1, attempt: 3, runId: "run-1", scheduledAt: T1 };
+        const cron = {
+          name: "once-1",
+          schedule: "once",
+          session: "main",
+          message: "hi",
+          once: true,
+          runAt: T1,
+          lastFireAt: T1,
+          retry: { maxAttempts: 3 },
+          pendingRetry,
+        };
+        await createCronTickLoop(mockCtx)([cron], T1 + 60_000);
+        expect(updateCron).toHaveBeenLastCalledWith("once-1", {
+          deadLetteredAt: expect.any(Number),
+          deadLetterError: "still down",
+        });
+        expect(removeCron).not.toHaveBeenCalled();
+        expect(mockCtx.log.warn).toHaveBeenCalledWith("Dead-lettered one-time job: once-1 after 3 attempt(s)");
+      });
+
+      it("dead-letters a failed one-time job without a retry policy", async () => {
+        mockCtx.inject.mockRejectedValue(new Error("no session"));
+        const cron = { name: "once-2", schedule: "once", session: "main", message: "hi", once: true, runAt: T1 };
+        await createCronTickLoop(mockCtx)([cron], T1);
+        expect(updateCron).toHaveBeenCalledWith("once-2", expect.objectContaining({ deadLetterError: "no session" }));
+        expect(retryDelay).not.toHaveBeenCalled();
+      });
+
+      it("never fires dead-lettered jobs", async () => {
+        const cron = {
+          name: "once-3",
+          schedule: "once",
+          session: "main",
+          message: "hi",
+          once: true,
+          runAt: T1,
+          deadLetteredAt: T1,
+        };
+        await createCronTickLoop(mockCtx)([cron], T1);
+        expect(mockCtx.inject).not.toHaveBeenCalled();
+      });
+    });
+
+    describe("pausing", () => {
+      const AT = Date.parse("2025-01-15T10:00:00Z");
+
+      it("skips disabled jobs and jobs paused until later", async () => {
+        vi.mocked(shouldRunCron).mockReturnValue(true);
+        const tick = createCronTickLoop(mockCtx);
+        await tick(
+          [
+            { name: "off", schedule: "* * * * *", session: "main", message: "hi", enabled: false, pausedAt: 1 },
+            { name: "later", schedule: "* * * * *", session: "main", message: "hi", pausedUntil: AT + 1, pausedAt: 1 },
+          ],
+          AT,
+        );
+        expect(mockCtx.inject).not.toHaveBeenCalled();
+        expect(planCatchUp).not.toHaveBeenCalled();
+        expect(updateCron).not.toHaveBeenCalled();
+      });
+
+      it("keeps pending retries of paused jobs until they resume", async () => {
+        const cron = {
+          name: "flaky",
+          schedule: "0 9 * * *",
+          session: "main",
+          message: "hi",
+          enabled: false,
+          pendingRetry: { at: AT - 1000, attempt: 2, runId: "run-1", scheduledAt: AT - 60_000 },
+        };
+        await createCronTickLoop(mockCtx)([cron], AT);
+        expect(mockCtx.inject).not.toHaveBeenCalled();
+        expect(cron.pendingRetry).toBeDefined();
+      });
+
+      it("applies the misfire policy to runs missed while paused once resumed", async () => {
+        vi.mocked(shouldRunCron).mockReturnValue(false);
+        const tick = createCronTickLoop(mockCtx);
+        await tick([], AT - 60_000);
+
+        vi.mocked(planCatchUp).mockReturnValueOnce({ missed: 4, run: [AT - 120_000], latest: AT - 120_000 });
+        const cron = {
+          name: "resumed",
+          schedule: "0 * * * *",
+          session: "main",
+          message: "hi",
+          lastFireAt: AT - 3600_000,
+          pausedAt: AT - 3000_000,
+          misfirePolicy: "fire-once" as const,
+        };
+        await tick([cron], AT);
+        expect(planCatchUp).toHaveBeenCalledWith(cron, AT - 3600_000, AT, []);
+        expect(addCronRun).toHaveBeenCalledWith(expect.objectContaining({ cronName: "resumed", scheduledAt: AT - 120_000 }));
+        expect(updateCron).toHaveBeenCalledWith("resumed", { pausedAt: undefined, pausedUntil: undefined });
+        expect(mockCtx.log.info).toHaveBeenCalledWith("Skipped 3 missed run(s) of cron: resumed");
+      });
+
+      it("counts misses from the pause for a job that never fired", async () => {
+        vi.mocked(shouldRunCron).mockReturnValue(false);
+        const tick = createCronTickLoop(mockCtx);
+        await tick([], AT - 60_000);
+        const cron = { name: "fresh", schedule: "0 * * * *", session: "main", message: "hi", pausedAt: AT - 7200_000 };
+        await tick([cron], AT);
+        expect(planCatchUp).toHaveBeenCalledWith(cron, AT - 7200_000, AT, []);
+      });
+
+      it("runs nothing during a global pause and reconciles every job afterwards", async () => {
+        vi.mocked(shouldRunCron).mockReturnValue(true);
+        const tick = createCronTickLoop(mockCtx);
+        await tick([], AT - 120_000);
+
+        mockCtx.getConfig.mockReturnValue({ paused: true });
+        const hourly = { name: "hourly", schedule: "0 * * * *", session: "main", message: "hi", lastFireAt: 1000 };
+        await tick([hourly], AT - 60_000);
+        expect(mockCtx.inject).not.toHaveBeenCalled();
+
+        mockCtx.getConfig.mockReturnValue({});
+        const other = { name: "other", schedule: "0 9 * * *", session: "main", message: "hi", lastFireAt: 1000 };
+        vi.mocked(getCrons).mockResolvedValueOnce([hourly, other]);
+        await tick([hourly], AT);
+        expect(getCrons).toHaveBeenCalledTimes(1);
+        expect(planCatchUp).toHaveBeenCalledWith(hourly, 1000, AT, []);
+        expect(planCatchUp).toHaveBeenCalledWith(other, 1000, AT, []);
+        expect(mockCtx.inject).toHaveBeenCalled();
+      });
+    });
+
+    describe("timeouts", () => {
+      beforeEach(() => {
+        vi.mocked(shouldRunCron).mockReturnValue(true);
+        mockCtx.cancelInject = vi.fn(() => true);
+      });
+
+      it("stops waiting for a run that outlives its timeout and records it as a timeout", async () => {
+        mockCtx.inject.mockImplementation(() => new Promise(() => {}));
+        const cron = { name: "stuck", schedule: "* * * * *", session: "main", message: "hi", timeoutMs: 20 };
+        await createCronTickLoop(mockCtx)([cron], Date.parse("2025-01-15T10:00:00Z"));
+        // Other injections into the session are left alone
+        expect(mockCtx.cancelInject).not.toHaveBeenCalled();
+        expect(addCronRun).toHaveBeenCalledWith(
+          expect.objectContaining({
+            cronName: "stuck",
+            status: "timeout",
+            error: "Cron job 'stuck' timed out after 0.02s",
+          }),
+        );
+        expect(mockCtx.log.error).toHaveBeenCalledWith("Cron timeout: stuck - Cron job 'stuck' timed out after 0.02s");
+      });
+
+      it("ignores an injection that fails after the run timed out", async () => {
+        let fail: (err: Error) => void = () => {};
+        mockCtx.inject.mockImplementation(() => new Promise((_, reject) => (fail = reject)));
+        const cron = { name: "stuck", schedule: "* * * * *", session: "main", message: "hi", timeoutMs: 20 };
+        await createCronTickLoop(mockCtx)([cron], Date.parse("2025-01-15T10:00:00Z"));
+        fail(new Error("session closed"));
+        await new Promise((resolve) => setTimeout(resolve, 0));
+        expect(addCronRun).toHaveBeenCalledTimes(1);
+        expect(addCronRun).toHaveBeenCalledWith(expect.objectContaining({ status: "timeout" }));
+      });
+
+      it("passes the run's signal to scripts so they are killed on timeout", async () => {
+        mockCtx.getConfig.mockReturnValue({ cronScriptsEnabled: true });
+        let scriptSignal: AbortSignal | undefined;
+        vi.mocked(executeCronScripts).mockImplementationOnce(async (_scripts, signal) => {
+          scriptSignal = signal;
+          await new Promise<void>((resolve) => signal?.addEventListener("abort", () => resolve()));
+          return [];
+        });
+        const cron = {
+          name: "slow-script",
+          schedule: "* * * * *",
+          session: "main",
+          message: "{{data}}",
+          scripts: [{ name: "data", command: "sleep 60" }],
+          timeoutMs: 20,
+        };
+        await createCronTickLoop(mockCtx)([cron], Date.parse("2025-01-15T10:00:00Z"));
+        expect(scriptSignal?.aborted).toBe(true);
+        expect(mockCtx.inject).not.toHaveBeenCalled();
+        expect(addCronRun).toHaveBeenCalledWith(expect.objectContaining({ status: "timeout" }));
+      });
+
+      it("retries timed-out runs like failures", async () => {
+        mockCtx.inject.mockImplementation(() => new Promise(() => {}));
+        const cron = {
+          name: "stuck",
+          schedule: "* * * * *",
+          session: "main",
+          message: "hi",
+          timeoutMs: 20,
+          retry: { maxAttempts: 2 },
+        };
+        await createCronTickLoop(mockCtx)([cron], Date.parse("2025-01-15T10:00:00Z"));
+        expect(retryDelay).toHaveBeenCalledWith(cron.retry, 1);
+      });
+    });
+
+    describe("workflows", () => {
+      const AT = Date.parse("2025-01-15T10:00:00Z");
+      let collect: CronJobRow;
+      let summarise: CronJobRow;
+
+      beforeEach(() => {
+        // The tick loop records fires on the job objects, so each test gets fresh ones
+        collect = { name: "collect", schedule: "0 10 * * *", session: "main", message: "collect" };
+        summarise = {
+          name: "summarise",
+          schedule: "@after collect",
+          session: "main",
+          message: "summarise",
+          after: ["collect"],
+        };
+        vi.mocked(shouldRunCron).mockImplementation((schedule: string) => !schedule.startsWith("@after"));
+        vi.mocked(getDependentCrons).mockImplementation((name: string) =>
+          Promise.resolve(name === "collect" ? [summarise] : []),
+        );
+      });
+
+      const runOf = (name: string) =>
+        vi.mocked(addCronRun).mock.calls.map(([run]) => run).find((run) => run.cronName === name);
+
+      it("starts dependents after a successful run, sharing the workflow run ID", async () => {
+        await createCronTickLoop(mockCtx)([collect, summarise], AT);
+        expect(mockCtx.inject).toHaveBeenCalledTimes(2);
+        expect(mockCtx.inject.mock.calls[1][1]).toBe("summarise");
+        const upstream = runOf("collect");
+        const downstream = runOf("summarise");
+        expect(upstream?.workflowRunId).toEqual(expect.any(String));
+        expect(upstream?.triggeredBy).toBeUndefined();
+        expect(downstream).toMatchObject({ workflowRunId: upstream?.workflowRunId, triggeredBy: "collect" });
+      });
+
+      it("gives no workflow run ID to jobs nothing runs after", async () => {
+        vi.mocked(getDependentCrons).mockResolvedValue([]);
+        await createCronTickLoop(mockCtx)([collect], AT);
+        expect(runOf("collect")?.workflowRunId).toBeUndefined();
+      });
+
+      it("does not start success dependents after a failure, but does start failure ones", async () => {
+        mockCtx.inject.mockRejectedValueOnce(new Error("boom"));
+        const alert: CronJobRow = { ...summarise, name: "alert", message: "alert", triggerOn: "failure" };
+        vi.mocked(getDependentCrons).mockResolvedValue([summarise, alert]);
+        await createCronTickLoop(mockCtx)([collect], AT);
+        expect(mockCtx.inject).toHaveBeenCalledTimes(2);
+        expect(mockCtx.inject.mock.calls[1][1]).toBe("alert");
+        expect(runOf("alert")).toMatchObject({ triggeredBy: "collect", workflowRunId: runOf("collect")?.workflowRunId });
+        expect(mockCtx.log.info).toHaveBeenCalledWith("Not triggering cron: summarise - condition 'success' not met");
+      });
+
+      it("waits for every upstream job of a join", async () => {
+        const fetch = { ...summarise, name: "fetch", message: "fetch" };
+        const digest = { ...summarise, name: "digest", message: "digest", after: ["summarise", "fetch"] };
+        vi.mocked(getDependentCrons).mockImplementation((name: string) =>
+          Promise.resolve(name === "collect" ? [summarise, fetch] : name === "digest" ? [] : [digest]),
+        );
+        await createCronTickLoop(mockCtx)([collect], AT);
+        const names = mockCtx.inject.mock.calls.map((call: unknown[]) => call[1]);
+        expect(names).toEqual(["collect", "summarise", "fetch", "digest"]);
+        expect(runOf("digest")?.workflowRunId).toBe(runOf("collect")?.workflowRunId);
+      });
+
+      it("holds dependents while the upstream run has a retry pending", async () => {
+        mockCtx.inject.mockRejectedValueOnce(new Error("boom"));
+        const cron = { ...collect, retry: { maxAttempts: 2 } };
+        await createCronTickLoop(mockCtx)([cron], AT);
+        expect(mockCtx.inject).toHaveBeenCalledTimes(1);
+        expect(updateCron).toHaveBeenCalledWith(
+          "collect",
+          expect.objectContaining({
+            pendingRetry: expect.objectContaining({ workflowRunId: runOf("collect")?.workflowRunId }),
+          }),
+        );
+      });
+
+      it("skips paused dependents", async () => {
+        vi.mocked(getDependentCrons).mockImplementation((name: string) =>
+          Promise.resolve(name === "collect" ? [{ ...summarise, enabled: false }] : []),
+        );
+        await createCronTickLoop(mockCtx)([collect], AT);
+        expect(mockCtx.inject).toHaveBeenCalledTimes(1);
+        expect(mockCtx.log.info).toHaveBeenCalledWith("Not triggering cron: summarise - paused");
+      });
+
+      it("never fires jobs with upstream jobs on the clock", async () => {
+        vi.mocked(shouldRunCron).mockReturnValue(true);
+        await createCronTickLoop(mockCtx)([summarise], AT);
+        expect(mockCtx.inject).not.toHaveBeenCalled();
+      });
+    });
+
+    describe("manual runs", () => {
+      const job = () => ({ name: "daily", schedule: "0 9 * * *", session: "main", message: "hi" });
+
+      it("runs the job now and marks the run as manual", async () => {
+        vi.mocked(addCronRun).mockResolvedValueOnce("run-7");
+        const outcome = await createCronTickLoop(mockCtx).run(job());
+        expect(outcome).toEqual({ status: "success", runId: "run-7" });
+        expect(mockCtx.inject).toHaveBeenCalledWith("main", "hi", expect.objectContaining({ from: "cron" }));
+        expect(addCronRun).toHaveBeenCalledWith(
+          expect.objectContaining({ cronName: "daily", status: "success", manual: true }),
+        );
+        expect(mockCtx.log.info).toHaveBeenCalledWith("Running cron: daily -> main (manual)");
+      });
+
+      it("resolves script templates like scheduled runs", async () => {
+        mockCtx.getConfig.mockReturnValue({ cronScriptsEnabled: true });
+        const results = [{ name: "data", exitCode: 0, stdout: "42", stderr: "", durationMs: 1 }];
+        vi.mocked(executeCronScripts).mockResolvedValueOnce(results);
+        const cron = { ...job(), message: "{{data}}", scripts: [{ name: "data", command: "echo 42" }] };
+        await createCronTickLoop(mockCtx).run(cron);
+        expect(resolveScriptTemplates).toHaveBeenCalledWith("{{data}}", results);
+      });
+
+      it("leaves fire bookkeeping, retries and one-time jobs alone", async () => {
+        mockCtx.inject.mockRejectedValueOnce(new Error("no session"));
+        const cron = { ...job(), maxRuns: 3, retry: { maxAttempts: 3 } };
+        const outcome = await createCronTickLoop(mockCtx).run(cron);
+        expect(outcome).toMatchObject({ status: "failure", error: "no session" });
+        expect(updateCron).not.toHaveBeenCalled();
+        expect(retryDelay).not.toHaveBeenCalled();
+
+        await createCronTickLoop(mockCtx).run({ ...job(), once: true, runAt: Date.now() + 60_000 });
+        expect(removeCron).not.toHaveBeenCalled();
+      });
+
+      it("runs on an instance that is not the leader", async () => {
+        await createCronTickLoop(mockCtx, { isLeader: () => false }).run(job());
+        expect(mockCtx.inject).toHaveBeenCalledTimes(1);
+      });
+
+      it("follows the overlap policy of runs already in progress", async () => {
+        let finish: () => void = () => {};
+        mockCtx.inject.mockImplementationOnce(() => new Promise<void>((resolve) => (finish = resolve)));
+        const tick = createCronTickLoop(mockCtx);
+        const cron = { ...job(), overlap: "skip" as const };
+        const first = tick.run(cron);
+        expect(await tick.run(cron)).toBeNull();
+        finish();
+        await first;
+        expect(addCronRun).toHaveBeenCalledWith(expect.objectContaining({ status: "skipped", manual: true }));
+      });
+    });
+
+    describe("run conditions", () => {
+      const job = (): CronJobRow => ({
+        name: "disk",
+        schedule: "0 * * * *",
+        session: "ops",
+        message: "{{df}}",
+        scripts: [{ name: "df", command: "df" }],
+        condition: { expression: "df > 90" },
+      });
+      const output = (stdout: string) => [{ name: "df", exitCode: 0, stdout, stderr: "", durationMs: 1 }];
+
+      beforeEach(() => {
+        mockCtx.getConfig.mockReturnValue({ cronScriptsEnabled: true });
+      });
+
+      it("injects when the condition holds", async () => {
+        vi.mocked(executeCronScripts).mockResolvedValueOnce(output("95%"));
+        vi.mocked(addCronRun).mockResolvedValueOnce("run-1");
+        expect(await createCronTickLoop(mockCtx).run(job())).toEqual({ status: "success", runId: "run-1" });
+        expect(mockCtx.inject).toHaveBeenCalledTimes(1);
+      });
+
+      it("records the run as skipped with the reason, without injecting", async () => {
+        vi.mocked(executeCronScripts).mockResolvedValueOnce(output("45%"));
+        vi.mocked(addCronRun).mockResolvedValueOnce("run-2");
+        const outcome = await createCronTickLoop(mockCtx).run(job());
+        expect(outcome).toEqual({ status: "skipped", runId: "run-2", reason: "condition not met: df > 90" });
+        expect(mockCtx.inject).not.toHaveBeenCalled();
+        expect(addCronRun).toHaveBeenCalledWith(
+          expect.objectContaining({
+            status: "skipped",
+            reason: "condition not met: df > 90",
+            scriptResults: output("45%"),
+          }),
+        );
+        expect(mockCtx.log.info).toHaveBeenCalledWith("Skipping cron: disk - condition not met: df > 90");
+      });
+
+      it("skips when scripts are disabled and the condition cannot be checked", async () => {
+        mockCtx.getConfig.mockReturnValue({});
+        const outcome = await createCronTickLoop(mockCtx).run(job());
+        expect(outcome).toMatchObject({ status: "skipped", reason: "condition not checked: cron scripts are disabled" });
+        expect(executeCronScripts).not.toHaveBeenCalled();
+      });
+
+      it("removes one-time jobs whose condition did not hold", async () => {
+        vi.mocked(executeCronScripts).mockResolvedValueOnce(output("45%"));
+        vi.mocked(shouldRunCron).mockReturnValue(true);
+        await createCronTickLoop(mockCtx)([{ ...job(), once: true }]);
+        expect(removeCron).toHaveBeenCalledWith("disk");
+      });
+
+      it("does not start dependents of a skipped run", async () => {
+        vi.mocked(executeCronScripts).mockResolvedValueOnce(output("45%"));
+        const report: CronJobRow = {
+          name: "report",
+          schedule: "@after disk",
+          session: "ops",
+          message: "r",
+          after: ["disk"],
+          triggerOn: "always",
+        };
+        vi.mocked(getDependentCrons).mockImplementation((name: string) => Promise.resolve(name === "disk" ? [report] : []));
+        await createCronTickLoop(mockCtx).run(job());
+        expect(mockCtx.inject).not.toHaveBeenCalled();
+        expect(addCronRun).toHaveBeenCalledTimes(1);
+      });
+    });
+
+    describe("change detection", () => {
+      const job = (): CronJobRow => ({
+        name: "feed",
+        schedule: "*/5 * * * *",
+        session: "ops",
+        message: "{{rss.diff}}",
+        scripts: [{ name: "rss", command: "fetch-feed" }],
+        onlyOnChange: true,
+      });
+      const output = (stdout: string) => [{ name: "rss", exitCode: 0, stdout, stderr: "", durationMs: 1 }];
+
+      beforeEach(() => {
+        mockCtx.getConfig.mockReturnValue({ cronScriptsEnabled: true });
+      });
+
+      it("injects a first run with the whole output as the diff and stores what it saw", async () => {
+        vi.mocked(executeCronScripts).mockResolvedValueOnce(output("a\n"));
+        const cron = job();
+        await createCronTickLoop(mockCtx).run(cron);
+        expect(mockCtx.inject.mock.calls[0][1]).toBe("--- rss (previous)\n+++ rss (current)\n@@ -0,0 +1,1 @@\n+a");
+        const lastOutput = { scripts: { rss: { hash: expect.any(String), stdout: "a\n" } } };
+        expect(updateCron).toHaveBeenCalledWith("feed", { lastOutput });
+        expect(cron.lastOutput).toEqual(lastOutput);
+      });
+
+      it("skips runs whose output did not change and injects the diff once it does", async () => {
+        const cron = job();
+        const tick = createCronTickLoop(mockCtx);
+        vi.mocked(executeCronScripts).mockResolvedValueOnce(output("a\n"));
+        await tick.run(cron);
+        vi.mocked(executeCronScripts).mockResolvedValueOnce(output("a\n"));
+        vi.mocked(addCronRun).mockResolvedValueOnce("run-2");
+        expect(await tick.run(cron)).toEqual({
+          status: "skipped",
+          runId: "run-2",
+          reason: "output unchanged since the last run",
+        });
+        expect(mockCtx.inject).toHaveBeenCalledTimes(1);
+
+        vi.mocked(executeCronScripts).mockResolvedValueOnce(output("a\nb\n"));
+        await tick.run(cron);
+        expect(mockCtx.inject).toHaveBeenCalledTimes(2);
+        expect(mockCtx.inject.mock.calls[1][1]).toContain("@@ -1,1 +1,2 @@\n a\n+b");
+      });
+
+      it("keeps the previous output when the injection fails", async () => {
+        vi.mocked(executeCronScripts).mockResolvedValueOnce(output("a\n"));
+        mockCtx.inject.mockRejectedValueOnce(new Error("no session"));
+        const cron = job();
+        await createCronTickLoop(mockCtx).run(cron);
+        expect(updateCron).not.toHaveBeenCalled();
+        expect(cron.lastOutput).toBeUndefined();
+      });
+
+      it("compares the rendered message of jobs without scripts", async () => {
+        const cron: CronJobRow = {
+          name: "note",
+          schedule: "0 9 * * *",
+          session: "main",
+          message: "hi",
+          onlyOnChange: true,
+        };
+        const tick = createCronTickLoop(mockCtx);
+        await tick.run(cron);
+        expect(await tick.run(cron)).toMatchObject({ status: "skipped", reason: "output unchanged since the last run" });
+        expect(mockCtx.inject).toHaveBeenCalledTimes(1);
+      });
+    });
   });
 });
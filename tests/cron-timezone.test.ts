@@ -0,0 +1,69 @@
+import { describe, it, expect } from "vitest";
+import { getZonedTime, isValidTimezone, resolveWallTime, wallTimesAt } from "../src/cron-timezone.js";
+
+const NY = "America/New_York";
+
+describe("cron-timezone", () => {
+  describe("isValidTimezone", () => {
+    it("accepts IANA zone names", () => {
+      expect(isValidTimezone("Europe/Berlin")).toBe(true);
+      expect(isValidTimezone("UTC")).toBe(true);
+    });
+
+    it("rejects unknown zones", () => {
+      expect(isValidTimezone("Mars/Olympus_Mons")).toBe(false);
+    });
+  });
+
+  describe("getZonedTime", () => {
+    it("returns wall-clock fields in the zone", () => {
+      const wall = getZonedTime(Date.parse("2025-01-15T08:05:09Z"), "Asia/Tokyo");
+      expect(wall).toEqual({ year: 2025, month: 1, day: 15, hour: 17, minute: 5, second: 9, weekday: 3 });
+    });
+
+    it("rolls the date over across midnight", () => {
+      const wall = getZonedTime(Date.parse("2025-01-01T02:00:00Z"), "America/Los_Angeles");
+      expect(wall).toMatchObject({ year: 2024, month: 12, day: 31, hour: 18, weekday: 2 });
+    });
+  });
+
+  describe("resolveWallTime", () => {
+    it("converts an ordinary wall time", () => {
+      expect(resolveWallTime({ year: 2025, month: 7, day: 1, hour: 9, minute: 0 }, "Europe/Berlin")).toBe(
+        Date.parse("2025-07-01T07:00:00Z"),
+      );
+    });
+
+    it("maps a repeated fall-back wall time to its first occurrence", () => {
+      expect(resolveWallTime({ year: 2025, month: 11, day: 2, hour: 1, minute: 30 }, NY)).toBe(
+        Date.parse("2025-11-02T05:30:00Z"),
+      );
+    });
+
+    it("maps a wall time inside a spring-forward gap to the end of the gap", () => {
+      expect(resolveWallTime({ year: 2025, month: 3, day: 9, hour: 2, minute: 30 }, NY)).toBe(
+        Date.parse("2025-03-09T07:00:00Z"),
+      );
+    });
+  });
+
+  describe("wallTimesAt", () => {
+    it("returns the wall time for an ordinary minute", () => {
+      expect(wallTimesAt(Date.parse("2025-07-01T07:00:42Z"), "Europe/Berlin")).toEqual([
+        { year: 2025, month: 7, day: 1, hour: 9, minute: 0 },
+      ]);
+    });
+
+    it("includes every skipped minute at the end of a spring-forward gap", () => {
+      const times = wallTimesAt(Date.parse("2025-03-09T07:00:00Z"), NY);
+      expect(times).toHaveLength(61);
+      expect(times[0]).toEqual({ year: 2025, month: 3, day: 9, hour: 2, minute: 0 });
+      expect(times[60]).toEqual({ year: 2025, month: 3, day: 9, hour: 3, minute: 0 });
+    });
+
+    it("returns nothing for the second occurrence of a repeated minute", () => {
+      expect(wallTimesAt(Date.parse("2025-11-02T05:30:00Z"), NY)).toHaveLength(1);
+      expect(wallTimesAt(Date.parse("2025-11-02T06:30:00Z"), NY)).toEqual([]);
+    });
+  });
+});
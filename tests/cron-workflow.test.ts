@@ -0,0 +1,91 @@
+import { describe, expect, it } from "vitest";
+import type { CronJobRow } from "../src/cron-schema.js";
+import {
+  explainTrigger,
+  findTriggerCycle,
+  triggerFires,
+  triggerLabel,
+  validateTriggers,
+} from "../src/cron-workflow.js";
+
+const job = (name: string, after?: string[]): CronJobRow => ({
+  name,
+  schedule: after ? triggerLabel(after) : "0 9 * * *",
+  session: "main",
+  message: "hi",
+  ...(after ? { after } : {}),
+});
+
+describe("triggerLabel", () => {
+  it("lists the upstream jobs", () => {
+    expect(triggerLabel(["collect"])).toBe("@after collect");
+    expect(triggerLabel(["collect", "summarise"])).toBe("@after collect, summarise");
+  });
+});
+
+describe("explainTrigger", () => {
+  it("describes each condition for one or more upstream jobs", () => {
+    expect(explainTrigger({ after: ["a"] })).toBe("After a succeeds");
+    expect(explainTrigger({ after: ["a", "b", "c"] })).toBe("After a, b and c succeed");
+    expect(explainTrigger({ after: ["a"], triggerOn: "failure" })).toBe("After a fails");
+    expect(explainTrigger({ after: ["a", "b"], triggerOn: "failure" })).toBe(
+      "After a and b finish, if any of them failed",
+    );
+    expect(explainTrigger({ after: ["a"], triggerOn: "always" })).toBe("After a finishes");
+  });
+});
+
+describe("triggerFires", () => {
+  it("needs every upstream run to succeed by default", () => {
+    expect(triggerFires(undefined, [true, true])).toBe(true);
+    expect(triggerFires("success", [true, false])).toBe(false);
+  });
+
+  it("fires on failure when any upstream run failed, and always regardless", () => {
+    expect(triggerFires("failure", [true, false])).toBe(true);
+    expect(triggerFires("failure", [true, true])).toBe(false);
+    expect(triggerFires("always", [false])).toBe(true);
+  });
+});
+
+describe("findTriggerCycle", () => {
+  it("returns the path back to the job, or null", () => {
+    const jobs = [job("collect", ["digest"]), job("digest")];
+    expect(findTriggerCycle(job("digest", ["collect"]), jobs)).toEqual(["digest", "collect", "digest"]);
+    expect(findTriggerCycle(job("report", ["collect"]), jobs)).toBeNull();
+  });
+
+  it("catches a job triggering itself", () => {
+    expect(findTriggerCycle(job("loop", ["loop"]), [])).toEqual(["loop", "loop"]);
+  });
+});
+
+describe("validateTriggers", () => {
+  const jobs = [job("collect"), job("summarise", ["collect"])];
+
+  it("accepts known upstream jobs and plain jobs", () => {
+    expect(validateTriggers(job("digest", ["collect", "summarise"]), jobs)).toBeNull();
+    expect(validateTriggers(job("digest"), jobs)).toBeNull();
+  });
+
+  it("rejects bad conditions, unknown jobs and cycles", () => {
+    expect(validateTriggers({ ...job("digest", ["collect"]), triggerOn: "never" as never }, jobs)).toBe(
+      "Unknown trigger condition 'never': use success, failure or always",
+    );
+    expect(validateTriggers({ ...job("digest"), triggerOn: "failure" }, jobs)).toBe("triggerOn needs after");
+    expect(validateTriggers(job("digest", ["collect", "fetch"]), jobs)).toBe("Unknown upstream job(s): fetch");
+    expect(validateTriggers(job("collect", ["summarise"]), jobs)).toBe(
+      "Job triggers would form a cycle: collect -> summarise -> collect",
+    );
+  });
+
+  it("rejects waiting on jobs no single scheduled job starts", () => {
+    const roots = [...jobs, job("fetch"), job("parse", ["fetch"])];
+    expect(validateTriggers(job("digest", ["summarise", "parse"]), roots)).toBe(
+      "summarise and parse are not started by one scheduled job, so digest would never run",
+    );
+    expect(validateTriggers(job("digest", ["collect", "fetch"]), roots)).toBe(
+      "collect and fetch are not started by one scheduled job, so digest would never run",
+    );
+  });
+});
@@ -2,8 +2,25 @@ import { describe, it, expect } from "vitest";
 import {
   parseCronSchedule,
   shouldRunCron,
+  isRebootSchedule,
+  matchesCronDate,
+  computeNextRuns,
+  getNextRun,
+  activeFrom,
+  clipToActiveWindow,
+  describeActiveWindow,
+  describeArchive,
+  explainSchedule,
+  parseDuration,
+  parseInterval,
+  nextIntervalRun,
+  computeJobRuns,
+  computeNextIntervalRuns,
+  explainInterval,
   parseTimeSpec,
   createOnceJob,
+  executeCronScript,
+  executeCronScripts,
   resolveScriptTemplates,
 } from "../src/cron.js";
 
@@ -57,6 +74,100 @@ describe("cron", () => {
     it("throws for invalid range", () => {
       expect(() => parseCronSchedule("5-2 * * * *")).toThrow();
     });
+
+    it("parses lists of ranges", () => {
+      const result = parseCronSchedule("* 1-3,10-12 * * *");
+      expect(result.hour).toEqual([1, 2, 3, 10, 11, 12]);
+    });
+
+    it("parses stepped ranges", () => {
+      const result = parseCronSchedule("* 9-17/2 * * *");
+      expect(result.hour).toEqual([9, 11, 13, 15, 17]);
+    });
+
+    it("parses a step from a single value as start-max/step", () => {
+      const result = parseCronSchedule("5/15 * * * *");
+      expect(result.minute).toEqual([5, 20, 35, 50]);
+    });
+
+    it("parses lists mixing values and steps, deduplicated and sorted", () => {
+      const result = parseCronSchedule("0,30/5,10 * * * *");
+      expect(result.minute).toEqual([0, 10, 30, 35, 40, 45, 50, 55]);
+    });
+
+    it("tolerates repeated whitespace between fields", () => {
+      const result = parseCronSchedule("  0   9 * *  1-5 ");
+      expect(result.weekday).toEqual([1, 2, 3, 4, 5]);
+    });
+
+    it("parses month and weekday names case-insensitively", () => {
+      const result = parseCronSchedule("0 9 * jan,Mar-MAY mon-FRI");
+      expect(result.month).toEqual([1, 3, 4, 5]);
+      expect(result.weekday).toEqual([1, 2, 3, 4, 5]);
+    });
+
+    it("treats weekday 7 as Sunday", () => {
+      expect(parseCronSchedule("0 0 * * 7").weekday).toEqual([0]);
+      expect(parseCronSchedule("0 0 * * 5-7").weekday).toEqual([0, 5, 6]);
+      expect(parseCronSchedule("0 0 * * *").weekday).toEqual([0, 1, 2, 3, 4, 5, 6]);
+    });
+
+    it("expands @-macros", () => {
+      expect(parseCronSchedule("@daily")).toEqual(parseCronSchedule("0 0 * * *"));
+      expect(parseCronSchedule("@HOURLY")).toEqual(parseCronSchedule("0 * * * *"));
+      expect(parseCronSchedule("@weekly")).toEqual(parseCronSchedule("0 0 * * 0"));
+      expect(parseCronSchedule("@monthly")).toEqual(parseCronSchedule("0 0 1 * *"));
+      expect(parseCronSchedule("@yearly")).toEqual(parseCronSchedule("0 0 1 1 *"));
+    });
+
+    it("throws for unknown macros and for @reboot", () => {
+      expect(() => parseCronSchedule("@fortnightly")).toThrow("Unknown cron macro");
+      expect(() => parseCronSchedule("@reboot")).toThrow("no clock schedule");
+    });
+
+    it("parses Quartz day-of-month specifiers", () => {
+      const result = parseCronSchedule("0 0 1,L,LW,15W * *");
+      expect(result.day).toEqual([1]);
+      expect(result.daySpecs).toEqual([
+        { kind: "last" },
+        { kind: "lastWeekday" },
+        { kind: "nearestWeekday", day: 15 },
+      ]);
+    });
+
+    it("parses Quartz day-of-week specifiers", () => {
+      const result = parseCronSchedule("0 0 * * FRIL,2#2,7#1");
+      expect(result.weekday).toEqual([]);
+      expect(result.weekdaySpecs).toEqual([
+        { kind: "last", weekday: 5 },
+        { kind: "nth", weekday: 2, nth: 2 },
+        { kind: "nth", weekday: 0, nth: 1 },
+      ]);
+    });
+
+    it("reads a bare L in the weekday field as Saturday", () => {
+      expect(parseCronSchedule("0 0 * * L").weekday).toEqual([6]);
+      expect(parseCronSchedule("0 0 * * MON,L").weekday).toEqual([1, 6]);
+    });
+
+    it("wraps weekday ranges into the next week", () => {
+      expect(parseCronSchedule("0 0 * * FRI-SUN").weekday).toEqual([0, 5, 6]);
+      expect(parseCronSchedule("0 0 * * 6-2").weekday).toEqual([0, 1, 2, 6]);
+      expect(parseCronSchedule("0 0 * * FRI-TUE/2").weekday).toEqual([0, 2, 5]);
+      expect(() => parseCronSchedule("0 22-2 * * *")).toThrow("Invalid hour field '22-2': range start 22 is after end 2");
+    });
+
+    it("rejects malformed Quartz specifiers", () => {
+      expect(() => parseCronSchedule("0 0 32W * *")).toThrow("Invalid day field");
+      expect(() => parseCronSchedule("0 0 * * 1#6")).toThrow("occurrence 6 is out of range 1-5");
+      expect(() => parseCronSchedule("0 0 * * XL")).toThrow("Invalid weekday field");
+    });
+
+    it("names the field and token in error messages", () => {
+      expect(() => parseCronSchedule("0 9-25 * * *")).toThrow("Invalid hour field '9-25': 25 is out of range 0-23 in '9-25'");
+      expect(() => parseCronSchedule("0 9 1,x * *")).toThrow("Invalid day field '1,x': 'x' is not a number in 'x'");
+      expect(() => parseCronSchedule("0 9 * * 1/0")).toThrow("Invalid weekday field '1/0': invalid step '0' in '1/0'");
+    });
   });
 
   describe("shouldRunCron", () => {
@@ -80,12 +191,391 @@ describe("cron", () => {
       expect(shouldRunCron("* * * * *", date)).toBe(true);
     });
 
+    it("matches named weekdays and Sunday-as-7", () => {
+      expect(shouldRunCron("0 9 * * MON-FRI", new Date(2025, 0, 6, 9, 0))).toBe(true); // Monday
+      expect(shouldRunCron("0 9 * * MON-FRI", new Date(2025, 0, 5, 9, 0))).toBe(false); // Sunday
+      expect(shouldRunCron("0 0 * * 7", new Date(2025, 0, 5, 0, 0))).toBe(true);
+      expect(shouldRunCron("0 0 1 JAN *", new Date(2025, 0, 1, 0, 0))).toBe(true);
+    });
+
+    it("matches @daily at midnight only", () => {
+      expect(shouldRunCron("@daily", new Date(2025, 0, 1, 0, 0))).toBe(true);
+      expect(shouldRunCron("@daily", new Date(2025, 0, 1, 0, 1))).toBe(false);
+    });
+
+    it("matches Quartz specifiers against the date", () => {
+      expect(shouldRunCron("0 18 L * *", new Date(2025, 1, 28, 18, 0))).toBe(true);
+      expect(shouldRunCron("0 18 L * *", new Date(2025, 1, 27, 18, 0))).toBe(false);
+      expect(shouldRunCron("0 9 * * 2#2", new Date(2025, 0, 14, 9, 0))).toBe(true);
+    });
+
+    it("uses OR day semantics by default and AND when requested", () => {
+      const firstOfMonth = new Date(2025, 0, 1, 9, 0); // Wednesday
+      expect(shouldRunCron("0 9 1 * MON", firstOfMonth)).toBe(true);
+      expect(shouldRunCron("0 9 1 * MON", firstOfMonth, { dayMatch: "and" })).toBe(false);
+    });
+
+    it("evaluates the schedule in the given time zone", () => {
+      const date = new Date("2025-01-15T08:00:00Z");
+      expect(shouldRunCron("0 9 * * *", date, { timezone: "Europe/Berlin" })).toBe(true);
+      expect(shouldRunCron("0 9 * * *", date, { timezone: "America/New_York" })).toBe(false);
+      expect(shouldRunCron("0 3 * * *", date, { timezone: "America/New_York" })).toBe(true);
+    });
+
+    it("fires a time skipped by spring-forward once, right after the gap", () => {
+      const opts = { timezone: "America/New_York" };
+      expect(shouldRunCron("30 2 * * *", new Date("2025-03-09T07:00:00Z"), opts)).toBe(true);
+      expect(shouldRunCron("30 2 * * *", new Date("2025-03-09T07:30:00Z"), opts)).toBe(false);
+    });
+
+    it("fires a time repeated by fall-back only once", () => {
+      const opts = { timezone: "America/New_York" };
+      expect(shouldRunCron("30 1 * * *", new Date("2025-11-02T05:30:00Z"), opts)).toBe(true);
+      expect(shouldRunCron("30 1 * * *", new Date("2025-11-02T06:30:00Z"), opts)).toBe(false);
+    });
+
+    it("never matches @reboot", () => {
+      expect(shouldRunCron("@reboot", new Date())).toBe(false);
+    });
+
     it("returns false for invalid schedule", () => {
       const date = new Date();
       expect(shouldRunCron("invalid", date)).toBe(false);
     });
   });
 
+  describe("matchesCronDate", () => {
+    const all = "* * * * *";
+
+    it("matches L on the last day of each month, including leap years", () => {
+      const cron = parseCronSchedule("0 0 L * *");
+      expect(matchesCronDate(cron, 2024, 2, 29)).toBe(true);
+      expect(matchesCronDate(cron, 2025, 2, 28)).toBe(true);
+      expect(matchesCronDate(cron, 2025, 4, 30)).toBe(true);
+      expect(matchesCronDate(cron, 2025, 4, 29)).toBe(false);
+    });
+
+    it("matches LW on the last weekday of the month", () => {
+      const cron = parseCronSchedule("0 0 LW * *");
+      // May 31 2025 is a Saturday -> Friday the 30th
+      expect(matchesCronDate(cron, 2025, 5, 30)).toBe(true);
+      expect(matchesCronDate(cron, 2025, 5, 31)).toBe(false);
+      // Aug 31 2025 is a Sunday -> Friday the 29th
+      expect(matchesCronDate(cron, 2025, 8, 29)).toBe(true);
+    });
+
+    it("matches nW on the nearest weekday without leaving the month", () => {
+      const cron = parseCronSchedule("0 0 15W * *");
+      // Jun 15 2025 is a Sunday -> Monday the 16th
+      expect(matchesCronDate(cron, 2025, 6, 16)).toBe(true);
+      expect(matchesCronDate(cron, 2025, 6, 15)).toBe(false);
+      // Mar 15 2025 is a Saturday -> Friday the 14th
+      expect(matchesCronDate(cron, 2025, 3, 14)).toBe(true);
+      // Nov 1 2025 is a Saturday -> Monday the 3rd, not October 31st
+      expect(matchesCronDate(parseCronSchedule("0 0 1W * *"), 2025, 11, 3)).toBe(true);
+    });
+
+    it("matches nL on the last given weekday of the month", () => {
+      const cron = parseCronSchedule("0 0 * * 5L");
+      expect(matchesCronDate(cron, 2025, 1, 31)).toBe(true); // last Friday of Jan 2025
+      expect(matchesCronDate(cron, 2025, 1, 24)).toBe(false);
+    });
+
+    it("matches n#k on the k-th given weekday of the month", () => {
+      const cron = parseCronSchedule("0 0 * * TUE#2");
+      expect(matchesCronDate(cron, 2025, 1, 14)).toBe(true);
+      expect(matchesCronDate(cron, 2025, 1, 7)).toBe(false);
+      expect(matchesCronDate(cron, 2025, 1, 21)).toBe(false);
+    });
+
+    it("ORs day-of-month and day-of-week when both are restricted", () => {
+      const cron = parseCronSchedule("0 9 1 * MON");
+      expect(matchesCronDate(cron, 2025, 1, 1)).toBe(true); // the 1st, a Wednesday
+      expect(matchesCronDate(cron, 2025, 1, 6)).toBe(true); // a Monday
+      expect(matchesCronDate(cron, 2025, 1, 7)).toBe(false);
+    });
+
+    it("ANDs the fields when dayMatch is 'and'", () => {
+      const cron = parseCronSchedule("0 9 1 * MON");
+      expect(matchesCronDate(cron, 2025, 1, 1, "and")).toBe(false);
+      expect(matchesCronDate(cron, 2025, 1, 6, "and")).toBe(false);
+      expect(matchesCronDate(cron, 2025, 9, 1, "and")).toBe(true); // Sep 1 2025 is a Monday
+    });
+
+    it("treats a field starting with '*' as unrestricted, like Vixie cron", () => {
+      const cron = parseCronSchedule("0 9 */2 * MON");
+      expect(matchesCronDate(cron, 2025, 1, 6)).toBe(false); // Monday but an even day
+      expect(matchesCronDate(cron, 2025, 1, 13)).toBe(true);
+      expect(matchesCronDate(cron, 2025, 1, 3)).toBe(false); // odd day but a Friday
+    });
+
+    it("matches every date for wildcards", () => {
+      expect(matchesCronDate(parseCronSchedule(all), 2025, 12, 25)).toBe(true);
+    });
+  });
+
+  describe("computeNextRuns", () => {
+    const from = Date.parse("2025-01-15T10:07:30Z");
+    const iso = (dates: Date[]) => dates.map((d) => d.toISOString());
+
+    it("returns the next N times strictly after from", () => {
+      expect(iso(computeNextRuns("*/15 * * * *", from, 3, "UTC"))).toEqual([
+        "2025-01-15T10:15:00.000Z",
+        "2025-01-15T10:30:00.000Z",
+        "2025-01-15T10:45:00.000Z",
+      ]);
+    });
+
+    it("skips ahead across months and years", () => {
+      expect(iso(computeNextRuns("0 0 29 2 *", from, 1, "UTC"))).toEqual(["2028-02-29T00:00:00.000Z"]);
+      expect(iso(computeNextRuns("0 0 29 2 *", Date.parse("2028-03-01T00:00:00Z"), 1, "UTC"))).toEqual([
+        "2032-02-29T00:00:00.000Z",
+      ]);
+    });
+
+    it("honours Quartz specifiers and day matching", () => {
+      expect(iso(computeNextRuns("0 17 * * FRIL", from, 2, "UTC"))).toEqual([
+        "2025-01-31T17:00:00.000Z",
+        "2025-02-28T17:00:00.000Z",
+      ]);
+      expect(iso(computeNextRuns("0 9 1 * MON", from, 2, "UTC"))).toEqual([
+        "2025-01-20T09:00:00.000Z",
+        "2025-01-27T09:00:00.000Z",
+      ]);
+      expect(iso(computeNextRuns("0 9 1 * MON", from, 1, "UTC", "and"))).toEqual(["2025-09-01T09:00:00.000Z"]);
+    });
+
+    it("evaluates wall-clock times in the given zone", () => {
+      expect(iso(computeNextRuns("0 9 * * *", from, 1, "Asia/Tokyo"))).toEqual(["2025-01-16T00:00:00.000Z"]);
+    });
+
+    it("fires each time exactly once across DST changes", () => {
+      const ny = "America/New_York";
+      expect(iso(computeNextRuns("30 2 * * *", Date.parse("2025-03-08T12:00:00Z"), 2, ny))).toEqual([
+        "2025-03-09T07:00:00.000Z", // 02:30 does not exist; fires when the gap ends
+        "2025-03-10T06:30:00.000Z",
+      ]);
+      expect(iso(computeNextRuns("30 1 * * *", Date.parse("2025-11-01T12:00:00Z"), 2, ny))).toEqual([
+        "2025-11-02T05:30:00.000Z", // first 01:30 only
+        "2025-11-03T06:30:00.000Z",
+      ]);
+    });
+
+    it("returns an empty list for impossible dates and @reboot", () => {
+      expect(computeNextRuns("0 0 30 2 *", from, 1, "UTC")).toEqual([]);
+      expect(computeNextRuns("@reboot", from, 1)).toEqual([]);
+    });
+
+    it("throws for invalid expressions", () => {
+      expect(() => computeNextRuns("nope", from, 1)).toThrow("Invalid cron schedule");
+    });
+  });
+
+  describe("computeJobRuns", () => {
+    const from = Date.parse("2025-01-15T10:00:00Z");
+    const base = { name: "j", session: "s", message: "m", timezone: "UTC" };
+
+    it("dispatches on the schedule type", () => {
+      const cron = computeJobRuns({ ...base, schedule: "0 12 * * *" }, from, 1);
+      expect(cron[0].toISOString()).toBe("2025-01-15T12:00:00.000Z");
+      const interval = computeJobRuns({ ...base, schedule: "@every 3h", every: "3h" }, from, 1, from - 3600000);
+      expect(interval[0].toISOString()).toBe("2025-01-15T12:00:00.000Z");
+      const rrule = { ...base, schedule: "RRULE:FREQ=DAILY", rrule: "DTSTART:20250101T120000Z\nRRULE:FREQ=DAILY" };
+      expect(computeJobRuns(rrule, from, 2).map((d) => d.toISOString())).toEqual([
+        "2025-01-15T12:00:00.000Z",
+        "2025-01-16T12:00:00.000Z",
+      ]);
+    });
+  });
+
+  describe("getNextRun", () => {
+    it("returns runAt for one-time jobs", () => {
+      const job = { name: "once", schedule: "once", session: "s", message: "m", once: true, runAt: 1700000000000 };
+      expect(getNextRun(job)?.getTime()).toBe(1700000000000);
+    });
+
+    it("uses the job's zone and day matching", () => {
+      const job = { name: "j", schedule: "0 9 * * *", session: "s", message: "m", timezone: "Asia/Tokyo" };
+      expect(getNextRun(job, Date.parse("2025-01-15T10:00:00Z"))?.toISOString()).toBe("2025-01-16T00:00:00.000Z");
+    });
+
+    it("returns null for invalid schedules", () => {
+      expect(getNextRun({ name: "j", schedule: "bad", session: "s", message: "m" })).toBeNull();
+    });
+
+    it("counts interval jobs from their last fire", () => {
+      const job = { name: "j", schedule: "@every 90m", every: "90m", session: "s", message: "m" };
+      expect(getNextRun(job, 0, 1700000000000)?.getTime()).toBe(1700000000000 + 90 * 60000);
+    });
+
+    it("starts searching at startAt and stops at endAt", () => {
+      const job = { name: "j", schedule: "0 9 * * *", session: "s", message: "m", timezone: "UTC" };
+      const startAt = Date.parse("2025-03-01T09:00:00Z");
+      const from = Date.parse("2025-01-15T10:00:00Z");
+      expect(getNextRun({ ...job, startAt }, from)?.toISOString()).toBe("2025-03-01T09:00:00.000Z");
+      expect(getNextRun({ ...job, endAt: Date.parse("2025-01-16T09:00:00Z") }, from)).toBeNull();
+    });
+
+    it("returns null for archived jobs and jobs without runs left", () => {
+      const job = { name: "j", schedule: "0 9 * * *", session: "s", message: "m" };
+      expect(getNextRun({ ...job, archivedAt: 1, archiveReason: "ended" as const })).toBeNull();
+      expect(getNextRun({ ...job, maxRuns: 2, runCount: 2 })).toBeNull();
+    });
+
+    it("expands recurrence jobs in their DTSTART zone", () => {
+      const rrule = "DTSTART;TZID=Europe/Berlin:20250107T090000\nRRULE:FREQ=WEEKLY;BYDAY=TU";
+      const job = { name: "j", schedule: "RRULE:FREQ=WEEKLY;BYDAY=TU", rrule, session: "s", message: "m" };
+      expect(getNextRun(job, Date.parse("2025-01-08T00:00:00Z"))?.toISOString()).toBe("2025-01-14T08:00:00.000Z");
+    });
+  });
+
+  describe("active windows", () => {
+    const startAt = Date.parse("2025-03-01T00:00:00Z");
+    const endAt = Date.parse("2025-03-15T00:00:00Z");
+
+    it("moves the search start to a pending startAt", () => {
+      expect(activeFrom({ startAt }, 0)).toBe(startAt - 1);
+      expect(activeFrom({ startAt, every: "1h" }, 0)).toBe(startAt);
+      expect(activeFrom({ startAt }, startAt + 5)).toBe(startAt + 5);
+      expect(activeFrom({}, 5)).toBe(5);
+    });
+
+    it("clips fire times to the window and the remaining runs", () => {
+      const runs = ["2025-02-28T09:00:00Z", "2025-03-01T09:00:00Z", "2025-03-02T09:00:00Z", "2025-03-15T00:00:00Z"].map(
+        (d) => new Date(d),
+      );
+      expect(clipToActiveWindow({ startAt, endAt }, runs).map((d) => d.toISOString())).toEqual([
+        "2025-03-01T09:00:00.000Z",
+        "2025-03-02T09:00:00.000Z",
+      ]);
+      expect(clipToActiveWindow({ maxRuns: 5, runCount: 4 }, runs)).toHaveLength(1);
+    });
+
+    it("describes windows and run limits", () => {
+      expect(describeActiveWindow({ startAt, endAt, maxRuns: 5, runCount: 2, timezone: "UTC" })).toBe(
+        "from 2025-03-01 00:00 until 2025-03-15 00:00, at most 5 runs (2 so far)",
+      );
+      expect(describeActiveWindow({ maxRuns: 1 })).toBe("at most 1 run (0 so far)");
+      expect(describeActiveWindow({})).toBeNull();
+    });
+
+    it("describes why a job was archived", () => {
+      expect(describeArchive({ archivedAt: endAt, archiveReason: "ended", timezone: "UTC" })).toBe(
+        "archived 2025-03-15 00:00: active window ended",
+      );
+      expect(describeArchive({ archivedAt: endAt, archiveReason: "maxRuns", maxRuns: 5, timezone: "UTC" })).toBe(
+        "archived 2025-03-15 00:00: completed 5 runs",
+      );
+    });
+  });
+
+  describe("interval schedules", () => {
+    const HOUR = 3600000;
+    const anchor = Date.parse("2025-01-15T09:00:00Z");
+
+    it.each([
+      ["90m", 90 * 60000],
+      ["36h", 36 * HOUR],
+      ["1h30m", 1.5 * HOUR],
+      ["2w", 14 * 24 * HOUR],
+      ["45s", 45000],
+      [" 2D ", 2 * 24 * HOUR],
+    ])("parses duration '%s'", (spec, ms) => {
+      expect(parseDuration(spec)).toBe(ms);
+    });
+
+    it.each(["", "90", "m", "1.5h", "1h 30m", "0m", "-5m"])("rejects duration '%s'", (spec) => {
+      expect(() => parseDuration(spec)).toThrow(/Invalid duration/);
+    });
+
+    it("rejects intervals under a minute", () => {
+      expect(() => parseInterval("30s")).toThrow("must be at least 1m");
+      expect(parseInterval("60s")).toBe(60000);
+    });
+
+    it("fires unanchored intervals immediately, then one interval after the last fire", () => {
+      const job = { every: "90m" };
+      expect(nextIntervalRun(job, null, anchor)).toBe(anchor);
+      expect(nextIntervalRun(job, anchor, anchor)).toBe(anchor + 1.5 * HOUR);
+    });
+
+    it("fires anchored intervals on the anchor grid", () => {
+      const job = { every: "90m", anchor };
+      expect(nextIntervalRun(job, null, anchor - HOUR)).toBe(anchor);
+      expect(nextIntervalRun(job, anchor + 1000, anchor + 1000)).toBe(anchor + 1.5 * HOUR);
+      // Late fires stay on the grid instead of drifting
+      expect(nextIntervalRun(job, anchor + 2 * HOUR, anchor + 2 * HOUR)).toBe(anchor + 3 * HOUR);
+    });
+
+    it("treats a slot that opened within the last minute as due for never-fired anchored jobs", () => {
+      const job = { every: "90m", anchor };
+      const slot = anchor + 3 * HOUR;
+      expect(nextIntervalRun(job, null, slot + 20000)).toBe(slot);
+      expect(nextIntervalRun(job, null, slot + 5 * 60000)).toBe(slot + 1.5 * HOUR);
+    });
+
+    it("computes a series of interval fire times", () => {
+      const runs = computeNextIntervalRuns({ every: "36h", anchor }, null, anchor + HOUR, 3);
+      expect(runs.map((d) => d.toISOString())).toEqual([
+        "2025-01-16T21:00:00.000Z",
+        "2025-01-18T09:00:00.000Z",
+        "2025-01-19T21:00:00.000Z",
+      ]);
+    });
+
+    it("explains intervals", () => {
+      expect(explainInterval({ every: "90m" })).toBe("Every 1 hour 30 minutes after the last successful run");
+      expect(explainInterval({ every: "36h", anchor, timezone: "Europe/Berlin" })).toBe(
+        "Every 1 day 12 hours from 2025-01-15 10:00 (Europe/Berlin)",
+      );
+    });
+  });
+
+  describe("explainSchedule", () => {
+    it.each([
+      ["0 9 * * 1-5", "At 09:00 on every weekday"],
+      ["0 9 * * *", "At 09:00 every day"],
+      ["0 9,17 * * *", "At 09:00 and 17:00 every day"],
+      ["* * * * *", "Every minute"],
+      ["*/15 9-17 * * MON-FRI", "Every 15 minutes between 09:00 and 17:59 on every weekday"],
+      ["0 */2 * * *", "At minute 0 past every 2nd hour"],
+      ["@hourly", "At minute 0 past every hour"],
+      ["0 0 1,15 * *", "At 00:00 on days 1 and 15 of the month"],
+      ["30 18 L * *", "At 18:30 on the last day of the month"],
+      ["0 9 15W * *", "At 09:00 on the weekday nearest day 15 of the month"],
+      ["0 9 * * 2#2", "At 09:00 on the second Tuesday of the month"],
+      ["0 17 * * FRIL", "At 17:00 on the last Friday of the month"],
+      ["0 8 * * MON,WED,FRI", "At 08:00 on Monday, Wednesday and Friday"],
+      ["0 0 * * 6,0", "At 00:00 on weekends"],
+      ["0 10 * * FRI-SUN", "At 10:00 on Friday through Sunday"],
+      ["0 10 * * L", "At 10:00 on Saturday"],
+      ["0 12 1 JAN,JUL *", "At 12:00 on day 1 of the month in January and July"],
+      ["*/5 * * 3-5 *", "Every 5 minutes in March through May"],
+      ["0 9 1 * MON", "At 09:00 on day 1 of the month or on Monday"],
+      ["@reboot", "At daemon startup"],
+    ])("explains '%s'", (expr, expected) => {
+      expect(explainSchedule(expr)).toBe(expected);
+    });
+
+    it("reflects AND day matching and the time zone", () => {
+      expect(explainSchedule("0 9 1 * MON", { dayMatch: "and", timezone: "Europe/Berlin" })).toBe(
+        "At 09:00 on day 1 of the month, only if it falls on Monday (Europe/Berlin)",
+      );
+    });
+
+    it("throws for invalid expressions", () => {
+      expect(() => explainSchedule("0 25 * * *")).toThrow("Invalid hour field");
+    });
+  });
+
+  describe("isRebootSchedule", () => {
+    it("recognises @reboot regardless of case and whitespace", () => {
+      expect(isRebootSchedule("@reboot")).toBe(true);
+      expect(isRebootSchedule(" @REBOOT ")).toBe(true);
+      expect(isRebootSchedule("@daily")).toBe(false);
+    });
+  });
+
   describe("parseTimeSpec", () => {
     it("parses 'now' as current time", () => {
       const before = Date.now();
@@ -121,12 +611,12 @@ describe("cron", () => {
     });
 
     it("parses Unix timestamp in seconds", () => {
-      const result = parseTimeSpec("1700000000");
+      const result = parseTimeSpec("1700000000", undefined, { allowPast: true });
       expect(result).toBe(1700000000000);
     });
 
     it("parses Unix timestamp in milliseconds", () => {
-      const result = parseTimeSpec("1700000000000");
+      const result = parseTimeSpec("1700000000000", undefined, { allowPast: true });
       expect(result).toBe(1700000000000);
     });
 
@@ -138,13 +628,100 @@ describe("cron", () => {
     });
 
     it("parses ISO date string", () => {
-      const result = parseTimeSpec("2025-06-15T10:00:00Z");
+      const result = parseTimeSpec("2025-06-15T10:00:00Z", undefined, { allowPast: true });
       expect(result).toBe(Date.parse("2025-06-15T10:00:00Z"));
     });
 
+    it("parses HH:MM in the given time zone", () => {
+      const result = parseTimeSpec("14:30", "Asia/Tokyo");
+      expect(result).toBeGreaterThanOrEqual(Date.now());
+      expect(result - Date.now()).toBeLessThanOrEqual(86400000);
+      expect(new Date(result).toLocaleTimeString("en-GB", { timeZone: "Asia/Tokyo" })).toBe("14:30:00");
+    });
+
+    it("parses a local date-time in the given time zone", () => {
+      const now = Date.parse("2025-06-01T00:00:00Z");
+      expect(parseTimeSpec("2025-06-15 10:00", "Europe/Berlin", { now })).toBe(Date.parse("2025-06-15T08:00:00Z"));
+      expect(parseTimeSpec("2025-06-15T10:00:30", "UTC", { now })).toBe(Date.parse("2025-06-15T10:00:30Z"));
+      expect(parseTimeSpec("2025-06-15 at 9pm", "UTC", { now })).toBe(Date.parse("2025-06-15T21:00:00Z"));
+    });
+
     it("throws for invalid time spec", () => {
       expect(() => parseTimeSpec("not-a-time")).toThrow("Invalid time spec");
     });
+
+    describe("relative and natural specs", () => {
+      // Wednesday
+      const now = Date.parse("2025-01-15T10:00:00Z");
+      const at = (spec: string, timezone = "UTC") => new Date(parseTimeSpec(spec, timezone, { now })).toISOString();
+
+      it.each([
+        ["+1h30m", "2025-01-15T11:30:00.000Z"],
+        ["+2w", "2025-01-29T10:00:00.000Z"],
+        ["in 3 days", "2025-01-18T10:00:00.000Z"],
+        ["in an hour", "2025-01-15T11:00:00.000Z"],
+        ["in 1 hour and 30 minutes", "2025-01-15T11:30:00.000Z"],
+        ["in 1h30m", "2025-01-15T11:30:00.000Z"],
+        ["in 45 mins", "2025-01-15T10:45:00.000Z"],
+        ["9pm", "2025-01-15T21:00:00.000Z"],
+        ["09:00", "2025-01-16T09:00:00.000Z"],
+        ["noon", "2025-01-15T12:00:00.000Z"],
+        ["today 17:30", "2025-01-15T17:30:00.000Z"],
+        ["tomorrow 9:00", "2025-01-16T09:00:00.000Z"],
+        ["Tomorrow at 9AM", "2025-01-16T09:00:00.000Z"],
+        ["friday 17:00", "2025-01-17T17:00:00.000Z"],
+        ["next friday 17:00", "2025-01-17T17:00:00.000Z"],
+        ["wednesday 11:00", "2025-01-15T11:00:00.000Z"],
+        ["next wednesday 11:00", "2025-01-22T11:00:00.000Z"],
+        ["wed 09:00", "2025-01-22T09:00:00.000Z"],
+        ["end of day", "2025-01-15T23:59:00.000Z"],
+      ])("resolves '%s'", (spec, expected) => {
+        expect(at(spec)).toBe(expected);
+      });
+
+      it("reads wall-clock phrases in the given zone", () => {
+        expect(at("end of day", "America/New_York")).toBe("2025-01-16T04:59:00.000Z");
+        expect(at("tomorrow 9am", "Asia/Tokyo")).toBe("2025-01-16T00:00:00.000Z");
+      });
+
+      it("reads end of day within the day's last minute as now", () => {
+        const late = Date.parse("2025-01-15T23:59:30Z");
+        expect(parseTimeSpec("end of day", "UTC", { now: late })).toBe(late);
+      });
+
+      it("moves times in a DST gap to the first instant after it", () => {
+        const saturday = Date.parse("2025-03-08T12:00:00Z");
+        const runAt = parseTimeSpec("tomorrow 02:30", "America/New_York", { now: saturday });
+        expect(new Date(runAt).toISOString()).toBe("2025-03-09T07:00:00.000Z");
+      });
+
+      it.each([
+        ["tomorrow", /ambiguous without a time of day/],
+        ["next friday", /ambiguous without a time of day/],
+        ["tomorrow 9", /Ambiguous time '9'/],
+        ["2025-01-20", /ambiguous without a time of day/],
+      ])("rejects ambiguous spec '%s'", (spec, error) => {
+        expect(() => parseTimeSpec(spec, "UTC", { now })).toThrow(error);
+      });
+
+      it.each(["today 9:00", "2025-01-01T00:00:00Z", "1700000000"])("rejects past spec '%s'", (spec) => {
+        expect(() => parseTimeSpec(spec, "UTC", { now })).toThrow(/is in the past/);
+      });
+
+      it("accepts past specs when allowed", () => {
+        expect(parseTimeSpec("today 9:00", "UTC", { now, allowPast: true })).toBe(Date.parse("2025-01-15T09:00:00Z"));
+      });
+
+      it.each([
+        ["in 2 months", /could not read '2 months'/],
+        ["+90", /Invalid duration/],
+        ["in 0 minutes", /^Invalid time spec 'in 0 minutes': Invalid duration '0m'/],
+        ["2025-02-30 10:00", /no such date/],
+        ["tomorrow 25:00", /Invalid time/],
+      ])("rejects malformed spec '%s'", (spec, error) => {
+        expect(() => parseTimeSpec(spec, "UTC", { now })).toThrow(error);
+      });
+    });
   });
 
   describe("createOnceJob", () => {
@@ -157,12 +734,47 @@ describe("cron", () => {
       expect(job.runAt).toBeGreaterThan(Date.now() - 1000);
     });
 
+    it("rejects times in the past", () => {
+      expect(() => createOnceJob("2020-01-01T00:00:00Z", "session", "msg")).toThrow(/is in the past/);
+    });
+
+    it("records the time zone on the job", () => {
+      const job = createOnceJob("09:00", "session", "msg", "Europe/Berlin");
+      expect(job.timezone).toBe("Europe/Berlin");
+    });
+
     it("generates a unique name starting with 'once-'", () => {
       const job = createOnceJob("now", "session", "msg");
       expect(job.name).toMatch(/^once-\d+$/);
     });
   });
 
+  describe("executeCronScript", () => {
+    it("captures the output of a script", async () => {
+      const result = await executeCronScript({ name: "greet", command: "echo hello" });
+      expect(result).toMatchObject({ name: "greet", exitCode: 0, stdout: "hello\n" });
+    });
+
+    it("kills the script when the signal is aborted", async () => {
+      const controller = new AbortController();
+      setTimeout(() => controller.abort(new Error("timed out")), 50);
+      const result = await executeCronScript({ name: "slow", command: "sleep 5" }, controller.signal);
+      expect(result.error).toBe("killed: timed out");
+      expect(result.exitCode).toBe(1);
+      expect(result.durationMs).toBeLessThan(2000);
+    });
+
+    it("does not start further scripts once aborted", async () => {
+      const controller = new AbortController();
+      setTimeout(() => controller.abort(new Error("timed out")), 50);
+      const scripts = [
+        { name: "slow", command: "sleep 5" },
+        { name: "next", command: "echo next" },
+      ];
+      await expect(executeCronScripts(scripts, controller.signal)).rejects.toThrow("timed out");
+    });
+  });
+
   describe("resolveScriptTemplates", () => {
     it("replaces placeholder with script stdout", () => {
       const message = "Result: {{my-script}}";
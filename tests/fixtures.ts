@@ -0,0 +1,6 @@
+import type { CronJobRow } from "../src/cron-schema.js";
+
+/** A stored job, hourly in UTC unless the test overrides its fields. */
+export function cronJob(overrides: Partial<CronJobRow> = {}): CronJobRow {
+  return { name: "hourly", schedule: "0 * * * *", session: "main", message: "hi", timezone: "UTC", ...overrides };
+}
@@ -6,7 +6,34 @@ vi.mock("../src/cron-repository.js", () => ({
 }));
 
 vi.mock("../src/cron-tick.js", () => ({
-  createCronTickLoop: vi.fn(() => vi.fn()),
+  createCronTickLoop: vi.fn(() => vi.fn(() => Promise.resolve())),
+}));
+
+vi.mock("../src/cron-scheduler.js", () => ({
+  createCronScheduler: vi.fn(() => ({ start: vi.fn(), stop: vi.fn(() => Promise.resolve()) })),
+}));
+
+// The fake elector wins the lease on start unless a test says otherwise
+let electedOnStart = true;
+let leaderHandlers: { onElected(initial: boolean): void; onDeposed(): Promise<void> | void } | null = null;
+
+vi.mock("../src/cron-leader.js", () => ({
+  createLeaderElector: vi.fn((_ctx: unknown, handlers: NonNullable<typeof leaderHandlers>) => {
+    leaderHandlers = handlers;
+    let leading = false;
+    return {
+      instanceId: "host:1:abcd",
+      start: vi.fn(async () => {
+        leading = electedOnStart;
+        if (leading) handlers.onElected(true);
+      }),
+      stop: vi.fn(async () => {
+        if (leading) await handlers.onDeposed();
+        leading = false;
+      }),
+      isLeader: vi.fn(() => leading),
+    };
+  }),
 }));
 
 vi.mock("../src/cron-a2a-tools.js", () => ({
@@ -20,6 +47,7 @@ vi.mock("../src/cron-commands.js", () => ({
 import plugin from "../src/index.js";
 import { initCronStorage } from "../src/cron-repository.js";
 import { createCronTickLoop } from "../src/cron-tick.js";
+import { createCronScheduler } from "../src/cron-scheduler.js";
 import { buildCronA2ATools } from "../src/cron-a2a-tools.js";
 
 function createMockCtx() {
@@ -39,6 +67,8 @@ function createMockCtx() {
     unregisterPermission: vi.fn(),
     unregisterInjectionSource: vi.fn(),
     unregisterToolPermission: vi.fn(),
+    registerRoute: vi.fn(),
+    unregisterRoute: vi.fn(),
     getConfig: vi.fn().mockReturnValue({}),
     log: { info: vi.fn(), error: vi.fn(), warn: vi.fn(), debug: vi.fn() },
     logger: { info: vi.fn(), error: vi.fn(), warn: vi.fn(), debug: vi.fn() },
@@ -52,6 +82,8 @@ describe("wopr-plugin-cron", () => {
     vi.clearAllMocks();
     vi.useFakeTimers();
     mockCtx = createMockCtx();
+    electedOnStart = true;
+    leaderHandlers = null;
   });
 
   afterEach(() => {
@@ -90,22 +122,86 @@ describe("wopr-plugin-cron", () => {
     });
   });
 
+  describe("concurrency config", () => {
+    it("exposes global and per-session run limits", () => {
+      const fields = plugin.manifest.configSchema!.fields;
+      const global = fields.find((f: any) => f.name === "maxConcurrentRuns");
+      expect(global).toMatchObject({ type: "number", default: 5 });
+      const perSession = fields.find((f: any) => f.name === "maxConcurrentRunsPerSession");
+      expect(perSession).toMatchObject({ type: "number", required: false });
+    });
+  });
+
   describe("init()", () => {
     it("initializes cron storage", async () => {
       await plugin.init(mockCtx);
       expect(initCronStorage).toHaveBeenCalledWith(mockCtx.storage);
     });
 
-    it("creates tick loop with context", async () => {
+    it("creates tick loop with context once elected leader", async () => {
       await plugin.init(mockCtx);
-      expect(createCronTickLoop).toHaveBeenCalledWith(mockCtx);
+      expect(createCronTickLoop).toHaveBeenCalledWith(mockCtx, { reboot: true, isLeader: expect.any(Function) });
     });
 
-    it("runs tick loop immediately on startup", async () => {
-      const mockTick = vi.fn();
+    it("does not run a scheduler while another instance leads", async () => {
+      electedOnStart = false;
+      await plugin.init(mockCtx);
+      expect(createCronScheduler).not.toHaveBeenCalled();
+      expect(buildCronA2ATools).toHaveBeenCalledWith({
+        instanceId: "host:1:abcd",
+        ctx: mockCtx,
+        runJob: expect.any(Function),
+      });
+    });
+
+    it("takes over without @reboot jobs and stops when deposed", async () => {
+      electedOnStart = false;
+      const scheduler = { start: vi.fn(), stop: vi.fn(() => Promise.resolve()) };
+      vi.mocked(createCronScheduler).mockReturnValueOnce(scheduler);
+      await plugin.init(mockCtx);
+
+      leaderHandlers?.onElected(false);
+      expect(createCronTickLoop).toHaveBeenCalledWith(mockCtx, expect.objectContaining({ reboot: false }));
+      expect(scheduler.start).toHaveBeenCalledTimes(1);
+      await leaderHandlers?.onDeposed();
+      expect(scheduler.stop).toHaveBeenCalledTimes(1);
+    });
+
+    it("starts the scheduler with the tick loop", async () => {
+      const mockTick = vi.fn(() => Promise.resolve());
+      const scheduler = { start: vi.fn(), stop: vi.fn(() => Promise.resolve()) };
       vi.mocked(createCronTickLoop).mockReturnValue(mockTick);
+      vi.mocked(createCronScheduler).mockReturnValueOnce(scheduler);
+      await plugin.init(mockCtx);
+      expect(createCronScheduler).toHaveBeenCalledWith(mockCtx, mockTick);
+      expect(scheduler.start).toHaveBeenCalledTimes(1);
+    });
+
+    it("runs jobs by hand through the leader's tick loop", async () => {
+      const mockTick = Object.assign(vi.fn(() => Promise.resolve()), { run: vi.fn(() => Promise.resolve(null)) });
+      vi.mocked(createCronTickLoop).mockReturnValueOnce(mockTick);
       await plugin.init(mockCtx);
-      expect(mockTick).toHaveBeenCalledTimes(1);
+      const job = { name: "daily", schedule: "0 9 * * *", session: "main", message: "hi" };
+      await vi.mocked(buildCronA2ATools).mock.calls[0][0]?.runJob?.(job);
+      expect(mockTick.run).toHaveBeenCalledWith(job);
+      expect(createCronTickLoop).toHaveBeenCalledTimes(1);
+      await plugin.shutdown();
+    });
+
+    it("runs jobs by hand on a standby instance with one tick loop of its own", async () => {
+      electedOnStart = false;
+      const mockTick = Object.assign(vi.fn(() => Promise.resolve()), { run: vi.fn(() => Promise.resolve(null)) });
+      vi.mocked(createCronTickLoop).mockReturnValueOnce(mockTick);
+      await plugin.init(mockCtx);
+      const job = { name: "daily", schedule: "0 9 * * *", session: "main", message: "hi" };
+      const runJob = vi.mocked(buildCronA2ATools).mock.calls[0][0]?.runJob;
+      await runJob?.(job);
+      await runJob?.(job);
+      // Shared, so the job's overlap policy and the run limits apply across manual runs
+      expect(createCronTickLoop).toHaveBeenCalledTimes(1);
+      expect(createCronTickLoop).toHaveBeenCalledWith(mockCtx, { reboot: false });
+      expect(mockTick.run).toHaveBeenCalledTimes(2);
+      await plugin.shutdown();
     });
 
     it("registers A2A tools when registerA2AServer is available", async () => {
@@ -119,6 +215,22 @@ describe("wopr-plugin-cron", () => {
       await expect(plugin.init(ctxWithoutA2A)).resolves.not.toThrow();
     });
 
+    it("serves the routes the CLI calls", async () => {
+      await plugin.init(mockCtx);
+      expect(mockCtx.registerRoute).toHaveBeenCalledWith(expect.objectContaining({ method: "PUT", path: "/crons/:name" }));
+      expect(mockCtx.registerRoute).toHaveBeenCalledWith(expect.objectContaining({ method: "PATCH", path: "/crons/:name" }));
+      await plugin.shutdown();
+      expect(mockCtx.unregisterRoute).toHaveBeenCalledWith("PUT", "/crons/:name");
+      expect(mockCtx.unregisterRoute).toHaveBeenCalledWith("POST", "/crons/:name/run");
+      expect(mockCtx.unregisterRoute).toHaveBeenCalledWith("POST", "/crons/:name/preview");
+    });
+
+    it("does not throw when the daemon serves no plugin routes", async () => {
+      const ctxWithoutRoutes = { ...mockCtx, registerRoute: undefined, unregisterRoute: undefined };
+      await plugin.init(ctxWithoutRoutes);
+      await expect(plugin.shutdown()).resolves.not.toThrow();
+    });
+
     it("logs initialization message", async () => {
       await plugin.init(mockCtx);
       expect(mockCtx.log.info).toHaveBeenCalledWith("Cron plugin initialized");
@@ -134,32 +246,44 @@ describe("wopr-plugin-cron", () => {
       expect(mockCtx.registerInjectionSource).toHaveBeenCalledWith("cron", "owner");
     });
 
-    it("registers tool-permission mappings for all 5 cron tools", async () => {
+    it("registers tool-permission mappings for all 6 cron tools", async () => {
       await plugin.init(mockCtx);
       expect(mockCtx.registerToolPermission).toHaveBeenCalledWith("cron_schedule", "cron.manage");
       expect(mockCtx.registerToolPermission).toHaveBeenCalledWith("cron_once", "cron.manage");
       expect(mockCtx.registerToolPermission).toHaveBeenCalledWith("cron_list", "cron.manage");
+      expect(mockCtx.registerToolPermission).toHaveBeenCalledWith("cron_next", "cron.manage");
       expect(mockCtx.registerToolPermission).toHaveBeenCalledWith("cron_cancel", "cron.manage");
       expect(mockCtx.registerToolPermission).toHaveBeenCalledWith("cron_history", "cron.manage");
+      expect(mockCtx.registerToolPermission).toHaveBeenCalledWith("cron_calendar_import", "cron.manage");
+      expect(mockCtx.registerToolPermission).toHaveBeenCalledWith("cron_calendar_list", "cron.manage");
+      expect(mockCtx.registerToolPermission).toHaveBeenCalledWith("cron_calendar_remove", "cron.manage");
+      expect(mockCtx.registerToolPermission).toHaveBeenCalledWith("cron_dead_letters", "cron.manage");
+      expect(mockCtx.registerToolPermission).toHaveBeenCalledWith("cron_replay", "cron.manage");
+      expect(mockCtx.registerToolPermission).toHaveBeenCalledWith("cron_status", "cron.manage");
+      expect(mockCtx.registerToolPermission).toHaveBeenCalledWith("cron_pause", "cron.manage");
+      expect(mockCtx.registerToolPermission).toHaveBeenCalledWith("cron_resume", "cron.manage");
+      expect(mockCtx.registerToolPermission).toHaveBeenCalledWith("cron_run", "cron.manage");
+      expect(mockCtx.registerToolPermission).toHaveBeenCalledWith("cron_preview", "cron.manage");
     });
   });
 
   describe("shutdown()", () => {
-    it("clears the tick interval after init", async () => {
-      const mockTick = vi.fn();
-      vi.mocked(createCronTickLoop).mockReturnValue(mockTick);
+    it("stops the scheduler and waits for it", async () => {
+      let finish: () => void = () => {};
+      const scheduler = { start: vi.fn(), stop: vi.fn(() => new Promise<void>((resolve) => (finish = resolve))) };
+      vi.mocked(createCronScheduler).mockReturnValueOnce(scheduler);
       await plugin.init(mockCtx);
 
-      // After init, tick should run on interval. Advance past interval.
-      vi.advanceTimersByTime(30000);
-      expect(mockTick).toHaveBeenCalledTimes(2); // Once on init + once on interval
-
-      await plugin.shutdown();
-
-      // After shutdown, advancing timers should not trigger more ticks
-      mockTick.mockClear();
-      vi.advanceTimersByTime(60000);
-      expect(mockTick).not.toHaveBeenCalled();
+      let done = false;
+      const shutdown = plugin.shutdown().then(() => {
+        done = true;
+      });
+      await Promise.resolve();
+      expect(scheduler.stop).toHaveBeenCalledTimes(1);
+      expect(done).toBe(false);
+      finish();
+      await shutdown;
+      expect(done).toBe(true);
     });
 
     it("does not throw when called without init", async () => {
@@ -174,8 +298,10 @@ describe("wopr-plugin-cron", () => {
       expect(mockCtx.unregisterToolPermission).toHaveBeenCalledWith("cron_schedule");
       expect(mockCtx.unregisterToolPermission).toHaveBeenCalledWith("cron_once");
       expect(mockCtx.unregisterToolPermission).toHaveBeenCalledWith("cron_list");
+      expect(mockCtx.unregisterToolPermission).toHaveBeenCalledWith("cron_next");
       expect(mockCtx.unregisterToolPermission).toHaveBeenCalledWith("cron_cancel");
       expect(mockCtx.unregisterToolPermission).toHaveBeenCalledWith("cron_history");
+      expect(mockCtx.unregisterToolPermission).toHaveBeenCalledWith("cron_calendar_remove");
     });
   });
 });